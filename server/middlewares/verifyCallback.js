@@ -0,0 +1,28 @@
+const { verifySignature } = require('../utils/callbackSigning');
+
+// Processor callbacks must be signed with CALLBACK_SIGNING_SECRET and sent within the allowed clock skew
+const verifyCallback = (req, res, next) => {
+  const secret = process.env.CALLBACK_SIGNING_SECRET;
+
+  if (!secret) {
+    console.error('❌ CALLBACK_SIGNING_SECRET not configured; rejecting processing callback');
+    return res.status(503).json({ message: 'Callback signing is not configured' });
+  }
+
+  const reason = verifySignature({
+    secret,
+    timestamp: req.header('X-Callback-Timestamp'),
+    signature: req.header('X-Callback-Signature'),
+    rawBody: req.rawBody,
+    maxSkewMs: parseInt(process.env.CALLBACK_MAX_SKEW_MS, 10) || 5 * 60 * 1000
+  });
+
+  if (reason) {
+    console.log(`❌ Rejected processing callback: ${reason}`);
+    return res.status(401).json({ message: reason });
+  }
+
+  next();
+};
+
+module.exports = verifyCallback;
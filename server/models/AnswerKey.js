@@ -0,0 +1,68 @@
+// server/models/AnswerKey.js - Scheme of evaluation that accompanies a question paper
+
+const mongoose = require('mongoose');
+
+const answerKeyEntrySchema = new mongoose.Schema({
+  questionId: {
+    type: String,
+    required: true
+  },
+  // The question as it read when this entry was drafted or last saved, to spot later paper edits
+  questionText: String,
+  marks: Number,
+  keyPoints: [{
+    text: {
+      type: String,
+      required: true
+    },
+    marks: {
+      type: Number,
+      default: 0
+    }
+  }],
+  modelAnswer: {
+    type: String,
+    default: ''
+  },
+  // Which question provider drafted the entry (template, llm)
+  provider: String,
+  edited: {
+    type: Boolean,
+    default: false
+  }
+});
+
+const answerKeySchema = new mongoose.Schema({
+  paper: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'QuestionPaper',
+    required: true,
+    unique: true
+  },
+  educator: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'Educator',
+    required: true
+  },
+  entries: [answerKeyEntrySchema],
+  // Locked together with its paper once the exam is finalized; no further edits or redrafts
+  locked: {
+    type: Boolean,
+    default: false
+  },
+  lockedAt: {
+    type: Date
+  },
+  updatedAt: {
+    type: Date,
+    default: Date.now
+  },
+  createdAt: {
+    type: Date,
+    default: Date.now
+  }
+});
+
+const AnswerKey = mongoose.model('AnswerKey', answerKeySchema);
+
+module.exports = AnswerKey;
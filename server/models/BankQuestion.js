@@ -0,0 +1,137 @@
+// server/models/BankQuestion.js - One question of an educator's question bank for a course
+
+const mongoose = require('mongoose');
+const questionOptionSchema = require('./questionOptionSchema');
+const { BLOOM_LEVELS, DIFFICULTIES } = require('../utils/bankReview');
+const { SOURCES, fromProcessedRow } = require('../utils/questionBank');
+const { QUESTION_TYPES } = require('../utils/questionTypes');
+
+const bankQuestionSchema = new mongoose.Schema({
+  educator: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'Educator',
+    required: true
+  },
+  course: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'Course',
+    required: true
+  },
+  text: {
+    type: String,
+    required: true,
+    trim: true
+  },
+  type: {
+    type: String,
+    enum: QUESTION_TYPES,
+    default: 'DESCRIPTIVE'
+  },
+  // Answer options of MULTIPLE_CHOICE and TRUE_FALSE questions, exactly one of them correct
+  options: [questionOptionSchema],
+  marks: {
+    type: Number,
+    required: true,
+    min: 0
+  },
+  bloomLevel: {
+    type: String,
+    enum: BLOOM_LEVELS,
+    required: true
+  },
+  difficulty: {
+    type: String,
+    enum: DIFFICULTIES,
+    required: true
+  },
+  unit: String,
+  topic: String,
+  // Course outcome the question assesses, e.g. CO2
+  co: String,
+  tags: [String],
+  // manual: authored in the bank; upload: imported from the course's active processed upload;
+  // import: read from a CSV, XLSX, Moodle XML or GIFT file
+  source: {
+    type: String,
+    enum: SOURCES,
+    default: 'manual'
+  },
+  // Upload version the question was last imported from
+  processedData: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'ProcessedData'
+  },
+  topicSimilarity: Number,
+  verified: {
+    type: Boolean,
+    default: false
+  },
+  verifiedAt: Date,
+  updatedAt: {
+    type: Date,
+    default: Date.now
+  },
+  createdAt: {
+    type: Date,
+    default: Date.now
+  }
+});
+
+bankQuestionSchema.index({ educator: 1, course: 1, createdAt: -1 });
+bankQuestionSchema.index({ educator: 1, course: 1, source: 1 });
+
+/**
+ * Bring the imported part of a course's bank in line with a processed upload: its rows are
+ * added or updated (keeping any CO and tags set in the bank), and imported questions no longer
+ * in it are removed. Manually authored questions are never touched.
+ *
+ * bulkWrite skips schema validators, so each row is validated as a bank question first; a row
+ * that is not one (say a difficulty outside DIFFICULTIES) is skipped and leaves any earlier
+ * version of it in the bank.
+ */
+bankQuestionSchema.statics.syncFromUpload = async function(processedData) {
+  const scope = { educator: processedData.educator, course: processedData.course._id };
+  const now = new Date();
+  const skipped = [];
+  const operations = [];
+
+  for (const row of processedData.questions) {
+    const { _id, ...fields } = fromProcessedRow(row);
+    const validationError = new this({ _id, ...scope, ...fields, source: 'upload' }).validateSync();
+    if (validationError) {
+      skipped.push({ questionId: row.question_id, errors: Object.values(validationError.errors).map(error => error.message) });
+      continue;
+    }
+
+    operations.push({
+      updateOne: {
+        filter: { _id, ...scope },
+        update: {
+          $set: { ...fields, processedData: processedData._id, updatedAt: now },
+          $setOnInsert: { ...scope, source: 'upload', createdAt: now }
+        },
+        upsert: true
+      }
+    });
+  }
+
+  if (skipped.length > 0) {
+    console.warn(`Skipped ${skipped.length} invalid row(s) of upload ${processedData._id} when syncing the question bank`);
+  }
+
+  if (operations.length > 0) {
+    await this.bulkWrite(operations, { ordered: false });
+  }
+
+  const { deletedCount } = await this.deleteMany({
+    ...scope,
+    source: 'upload',
+    _id: { $nin: processedData.questions.map(row => row._id) }
+  });
+
+  return { imported: operations.length, skipped, removed: deletedCount };
+};
+
+const BankQuestion = mongoose.model('BankQuestion', bankQuestionSchema);
+
+module.exports = BankQuestion;
@@ -26,6 +26,44 @@ const courseSchema = new mongoose.Schema({
     type: String,
     default: ''
   },
+  // Optional course-specific stems for the template question provider, e.g. "Prove that {topic} ..."
+  questionTemplates: [{
+    bloomLevel: {
+      type: String,
+      enum: ['L1', 'L2', 'L3', 'L4', 'L5', 'L6']
+    },
+    text: String
+  }],
+  // Course outcomes (CO1, CO2 ...) with the syllabus topics each one covers; questions on an
+  // unmapped topic keep whatever CO they were tagged with
+  outcomes: [{
+    code: {
+      type: String,
+      trim: true,
+      match: /^CO\d+$/
+    },
+    statement: {
+      type: String,
+      trim: true
+    },
+    topics: [String]
+  }],
+  // CO-PO articulation matrix: how strongly each CO supports a program outcome of the
+  // course's department (1 low, 2 medium, 3 high); pairs without a correlation are left out
+  poMapping: [{
+    co: {
+      type: String,
+      match: /^CO\d+$/
+    },
+    po: {
+      type: String,
+      match: /^PS?O\d+$/
+    },
+    level: {
+      type: Number,
+      enum: [1, 2, 3]
+    }
+  }],
   createdAt: {
     type: Date,
     default: Date.now
@@ -0,0 +1,48 @@
+// server/models/Department.js - A department's program outcomes, shared by its courses, and its letterhead overrides
+
+const mongoose = require('mongoose');
+
+const programOutcomeSchema = new mongoose.Schema({
+  // PO1-PO12 for the graduate attributes, PSO1 ... for program-specific outcomes
+  code: { type: String, required: true, trim: true, match: /^PS?O\d+$/ },
+  statement: { type: String, required: true, trim: true }
+}, { _id: false });
+
+// Letterhead fields a department sets for its own papers; anything left unset comes from the institution
+const departmentBrandingSchema = new mongoose.Schema({
+  affiliation: { type: String, trim: true },
+  address: { type: String, trim: true },
+  departmentLine: { type: String, trim: true },
+  footerText: { type: String, trim: true },
+  registerNumber: {
+    enabled: Boolean,
+    digits: Number
+  }
+}, { _id: false });
+
+const departmentSchema = new mongoose.Schema({
+  // Same text as Course.department and Educator.department
+  name: {
+    type: String,
+    required: true,
+    unique: true,
+    trim: true
+  },
+  programOutcomes: [programOutcomeSchema],
+  branding: {
+    type: departmentBrandingSchema,
+    default: () => ({})
+  },
+  updatedBy: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'Educator'
+  },
+  updatedAt: {
+    type: Date,
+    default: Date.now
+  }
+});
+
+const Department = mongoose.model('Department', departmentSchema);
+
+module.exports = Department;
@@ -1,5 +1,5 @@
-
 const mongoose = require('mongoose');
+const { DEFAULT_INSTRUCTIONS, EXAM_STATUSES, EXAM_TYPES } = require('../utils/exams');
 
 const examSchema = new mongoose.Schema({
   educator: {
@@ -17,7 +17,7 @@ const examSchema = new mongoose.Schema({
   examType: {
     type: String,
     required: true,
-    enum: ['CIE1', 'CIE2', 'SEMESTER_END']
+    enum: EXAM_TYPES
   },
   semester: {
     type: String,
@@ -28,7 +28,13 @@ const examSchema = new mongoose.Schema({
     ref: 'Course',
     required: true
   },
-  totalMarks: {
+  // Pattern the exam's papers are generated with
+  examPattern: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'ExamPattern'
+  },
+  // Duration, date, instructions and max marks are printed in the header of every paper of the exam
+  maxMarks: {
     type: Number,
     default: 0
   },
@@ -36,15 +42,36 @@ const examSchema = new mongoose.Schema({
     type: Number, // in minutes
     default: 60
   },
+  // One instruction per line
   instructions: {
     type: String,
-    default: 'Answer all questions. Each question carries marks as indicated.'
+    default: DEFAULT_INSTRUCTIONS
   },
+  // DRAFT -> FINALIZED -> PUBLISHED; a finalized or published exam locks its papers
   status: {
     type: String,
-    enum: ['DRAFT', 'FINALIZED', 'PUBLISHED'],
+    enum: EXAM_STATUSES,
     default: 'DRAFT'
   },
+  // Every status change, oldest first
+  statusHistory: [{
+    from: String,
+    to: String,
+    by: {
+      type: mongoose.Schema.Types.ObjectId,
+      ref: 'Educator'
+    },
+    note: String,
+    // An admin reopening a finalized or published exam; the note holds the reason
+    unlock: {
+      type: Boolean,
+      default: false
+    },
+    at: {
+      type: Date,
+      default: Date.now
+    }
+  }],
   examDate: {
     type: Date
   },
@@ -54,6 +81,17 @@ const examSchema = new mongoose.Schema({
   }
 });
 
+examSchema.index({ educator: 1, course: 1, createdAt: -1 });
+
+// Exams saved before max marks were named maxMarks stored them as totalMarks; they read (and
+// are saved again) under the new name
+examSchema.post('init', function() {
+  const legacyMarks = this.get('totalMarks', null, { strict: false });
+  if (!this.maxMarks && legacyMarks) {
+    this.maxMarks = legacyMarks;
+  }
+});
+
 const Exam = mongoose.model('Exam', examSchema);
 
 module.exports = Exam;
@@ -0,0 +1,87 @@
+// server/models/ExamPattern.js - Configurable layout of sections, parts and marks for a paper
+
+const mongoose = require('mongoose');
+const { QUESTION_TYPES } = require('../utils/questionTypes');
+
+const partSchema = new mongoose.Schema({
+  label: { type: String, required: true, trim: true },
+  marks: { type: Number, required: true, min: 1 },
+  // Optional parts can be switched off per paper in the setup page
+  optional: { type: Boolean, default: false },
+  defaultLevel: {
+    type: String,
+    enum: ['easy', 'medium', 'hard'],
+    default: 'medium'
+  }
+}, { _id: false });
+
+const sectionSchema = new mongoose.Schema({
+  title: { type: String, required: true, trim: true },
+  // Preferred syllabus unit when picking questions for this section
+  unit: { type: String, default: '' },
+  co: { type: Number },
+  marks: { type: Number, required: true, min: 1 },
+  // Kind of question the section's parts default to; the setup page can change it per part
+  questionType: { type: String, enum: QUESTION_TYPES, default: 'DESCRIPTIVE' },
+  // Marks deducted for each wrong answer to an objective question in this section
+  negativeMarks: { type: Number, default: 0, min: 0 },
+  parts: [partSchema]
+}, { _id: false });
+
+const examPatternSchema = new mongoose.Schema({
+  // Built-in patterns have no owner and are visible to everyone
+  educator: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'Educator'
+  },
+  name: {
+    type: String,
+    required: true,
+    trim: true
+  },
+  description: {
+    type: String,
+    default: ''
+  },
+  examType: {
+    type: String,
+    required: true,
+    enum: ['CIE', 'SEE']
+  },
+  sections: [sectionSchema],
+  choiceRule: {
+    // ALL: answer every section, ANY: answer `answerCount` sections,
+    // ALTERNATIVES: every `groupSize` consecutive sections are alternatives of each other
+    mode: {
+      type: String,
+      enum: ['ALL', 'ANY', 'ALTERNATIVES'],
+      default: 'ALL'
+    },
+    answerCount: Number,
+    groupSize: Number,
+    groupTitle: { type: String, default: 'Module' }
+  },
+  totalMarks: {
+    type: Number,
+    required: true
+  },
+  duration: {
+    type: Number, // in minutes
+    default: 60
+  },
+  instructions: [String],
+  isDefault: {
+    type: Boolean,
+    default: false
+  },
+  createdAt: {
+    type: Date,
+    default: Date.now
+  }
+});
+
+examPatternSchema.index({ educator: 1, examType: 1 });
+
+const ExamPattern = mongoose.model('ExamPattern', examPatternSchema);
+
+module.exports = ExamPattern;
@@ -0,0 +1,88 @@
+// server/models/InstitutionSettings.js - Institution letterhead printed on every rendered paper
+
+const mongoose = require('mongoose');
+const Department = require('./Department');
+const { DEFAULT_BRANDING, REGISTER_NUMBER_DIGITS, resolveBranding } = require('../utils/branding');
+
+// There is one settings document for the whole installation
+const SETTINGS_KEY = 'institution';
+
+const institutionSettingsSchema = new mongoose.Schema({
+  key: {
+    type: String,
+    default: SETTINGS_KEY,
+    unique: true
+  },
+  name: {
+    type: String,
+    trim: true,
+    default: DEFAULT_BRANDING.name
+  },
+  affiliation: {
+    type: String,
+    trim: true,
+    default: DEFAULT_BRANDING.affiliation
+  },
+  address: {
+    type: String,
+    trim: true,
+    default: ''
+  },
+  // Printed under the address, e.g. "Department of Computer Science and Engineering"; empty uses the paper's department
+  departmentLine: {
+    type: String,
+    trim: true,
+    default: ''
+  },
+  // Logo as a data URL (PNG or JPEG) so every renderer can embed it without another request
+  logo: {
+    type: String,
+    default: ''
+  },
+  // Exam cell text printed at the foot of every page
+  footerText: {
+    type: String,
+    trim: true,
+    default: ''
+  },
+  // Boxes for the candidate's register number (USN) at the top of the paper
+  registerNumber: {
+    enabled: {
+      type: Boolean,
+      default: true
+    },
+    digits: {
+      type: Number,
+      min: REGISTER_NUMBER_DIGITS.min,
+      max: REGISTER_NUMBER_DIGITS.max,
+      default: DEFAULT_BRANDING.registerNumber.digits
+    }
+  },
+  updatedBy: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'Educator'
+  },
+  updatedAt: {
+    type: Date,
+    default: Date.now
+  }
+});
+
+// The saved settings, or unsaved defaults before an admin has set them up
+institutionSettingsSchema.statics.findSettings = async function() {
+  return (await this.findOne({ key: SETTINGS_KEY })) || new this();
+};
+
+// Letterhead for papers of a department: the institution's, with the department's overrides applied
+institutionSettingsSchema.statics.resolveFor = async function(departmentName) {
+  const name = (departmentName || '').trim();
+  const [settings, department] = await Promise.all([
+    this.findSettings(),
+    name ? Department.findOne({ name }).select('name branding') : null
+  ]);
+  return resolveBranding(settings, department, name);
+};
+
+const InstitutionSettings = mongoose.model('InstitutionSettings', institutionSettingsSchema);
+
+module.exports = InstitutionSettings;
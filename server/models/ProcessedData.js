@@ -1,16 +1,32 @@
 // server/models/ProcessedData.js - UPDATED VERSION with upload timestamp tracking
 
 const mongoose = require('mongoose');
+const BankQuestion = require('./BankQuestion');
+const { QUESTION_TYPES } = require('../utils/questionTypes');
+const { normalizeDifficulty } = require('../utils/bankReview');
 
 const questionSchema = new mongoose.Schema({
   question_id: { type: Number, required: true },
   question: { type: String, required: true },
+  // Processors that recognise objective questions send their type and answer options
+  question_type: { type: String, enum: QUESTION_TYPES, default: 'DESCRIPTIVE' },
+  options: [{
+    _id: false,
+    text: { type: String, required: true },
+    is_correct: { type: Boolean, default: false }
+  }],
   predicted_marks: { type: Number, required: true },
   bloom_level: { type: String, required: true },
-  difficulty: { type: String, required: true },
+  // The remote processor may send "Easy"; rows are stored lower-case like the local processor's
+  difficulty: { type: String, required: true, set: value => normalizeDifficulty(value) || value },
   matched_topic: { type: String, required: true },
   matched_unit: { type: String, required: true },
-  topic_similarity: { type: Number, required: true }
+  topic_similarity: { type: Number, required: true },
+  // Set by the educator on the review screen; generation can be limited to verified rows
+  verified: { type: Boolean, default: false },
+  verifiedAt: { type: Date },
+  // The educator corrected the processor's text or classification
+  edited: { type: Boolean, default: false }
 });
 
 const topicSchema = new mongoose.Schema({
@@ -43,14 +59,30 @@ const processedDataSchema = new mongoose.Schema({
     enum: ['PENDING', 'PROCESSING', 'COMPLETED', 'FAILED'],
     default: 'PENDING'
   },
+  // replace: this upload becomes the course's bank; merge: its new questions are added to the active bank
+  uploadMode: {
+    type: String,
+    enum: ['replace', 'merge'],
+    default: 'replace'
+  },
+  // Active version a merge upload was built on
+  mergedFrom: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'ProcessedData'
+  },
   // Track when processing was completed
   processedAt: { type: Date },
+  // Why the last processing attempt failed, and the stage it failed in
+  failureReason: { type: String },
+  failedStage: { type: String },
   // Track when this data was uploaded (for sorting latest first)
   uploadedAt: { type: Date, default: Date.now },
   createdAt: { type: Date, default: Date.now },
   
-  // Mark if this is the active/latest version for this course
-  isActive: { type: Boolean, default: true },
+  // The version generation uses for this course; set once processing completes, or when an
+  // educator re-activates an older version
+  isActive: { type: Boolean, default: false },
+  activatedAt: { type: Date },
   
   // Version tracking
   version: { type: Number, default: 1 }
@@ -60,21 +92,10 @@ const processedDataSchema = new mongoose.Schema({
 processedDataSchema.index({ educator: 1, course: 1, uploadedAt: -1 });
 processedDataSchema.index({ educator: 1, course: 1, isActive: 1 });
 
-// Pre-save middleware to handle versioning and active status
+// Pre-save middleware to handle versioning. A new upload stays inactive until it has been
+// processed, so a failed upload never takes the working bank out of use
 processedDataSchema.pre('save', async function(next) {
   if (this.isNew) {
-    // When creating new processed data, mark previous versions as inactive
-    await this.constructor.updateMany(
-      { 
-        educator: this.educator, 
-        course: this.course, 
-        _id: { $ne: this._id } 
-      },
-      { 
-        $set: { isActive: false } 
-      }
-    );
-    
     // Set version number
     const latestVersion = await this.constructor.findOne(
       { educator: this.educator, course: this.course },
@@ -87,6 +108,41 @@ processedDataSchema.pre('save', async function(next) {
   next();
 });
 
+// Make this the only active version for its course, and import its questions into the bank
+processedDataSchema.methods.activate = async function() {
+  await this.constructor.updateMany(
+    { educator: this.educator, course: this.course._id, _id: { $ne: this._id } },
+    { $set: { isActive: false } }
+  );
+
+  this.isActive = true;
+  this.activatedAt = new Date();
+  await this.save();
+  await BankQuestion.syncFromUpload(this);
+  return this;
+};
+
+// The bank generation should use: the active completed version, or for courses uploaded before
+// versions could be activated, the latest completed one
+processedDataSchema.statics.findActiveBank = async function(educatorId, courseId) {
+  const filter = { educator: educatorId, course: courseId, processingStatus: 'COMPLETED' };
+
+  const active = await this.findOne({ ...filter, isActive: true });
+  return active || this.findOne(filter).sort({ uploadedAt: -1 });
+};
+
+// Courses processed before the bank existed have no imported questions yet; import them from
+// the active version the first time the bank is read
+processedDataSchema.statics.ensureBankImported = async function(educatorId, courseId) {
+  const imported = await BankQuestion.exists({ educator: educatorId, course: courseId, source: 'upload' });
+  if (imported) return;
+
+  const processedData = await this.findActiveBank(educatorId, courseId);
+  if (processedData) {
+    await BankQuestion.syncFromUpload(processedData);
+  }
+};
+
 const ProcessedData = mongoose.model('ProcessedData', processedDataSchema);
 
 module.exports = ProcessedData;
\ No newline at end of file
@@ -0,0 +1,75 @@
+// server/models/ProcessingJob.js - Persistent job that drives processing of one upload
+
+const mongoose = require('mongoose');
+
+const JOB_STATUSES = ['QUEUED', 'RUNNING', 'AWAITING_CALLBACK', 'COMPLETED', 'FAILED'];
+
+// Where a failed attempt stopped: sending to the remote processor, extracting PDF text,
+// analysing it, storing the result, the remote processor's own report, or no callback in time
+const JOB_STAGES = ['dispatch', 'extract', 'analyse', 'store', 'remote', 'timeout'];
+
+const processingJobSchema = new mongoose.Schema({
+  processedData: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'ProcessedData',
+    required: true,
+    unique: true
+  },
+  educator: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'Educator',
+    required: true
+  },
+  // Document processor that runs the job (local, colab)
+  backend: {
+    type: String,
+    required: true
+  },
+  status: {
+    type: String,
+    enum: JOB_STATUSES,
+    default: 'QUEUED'
+  },
+  attempts: {
+    type: Number,
+    default: 0
+  },
+  maxAttempts: {
+    type: Number,
+    default: 3
+  },
+  // A queued job is not picked up before this time; retries back off exponentially
+  nextRunAt: {
+    type: Date,
+    default: Date.now
+  },
+  startedAt: Date,
+  // Remote jobs fail with a timeout when their callback has not arrived by then
+  callbackDeadline: Date,
+  // Hash of the one-time token sent with the current attempt; cleared once a callback uses it
+  callbackTokenHash: String,
+  // Hash of the accepted callback's body, so a repeated delivery is recognised
+  callbackDigest: String,
+  callbackReceivedAt: Date,
+  finishedAt: Date,
+  lastError: String,
+  failedStage: {
+    type: String,
+    enum: JOB_STAGES
+  },
+  updatedAt: {
+    type: Date,
+    default: Date.now
+  },
+  createdAt: {
+    type: Date,
+    default: Date.now
+  }
+});
+
+processingJobSchema.index({ status: 1, nextRunAt: 1 });
+processingJobSchema.index({ status: 1, callbackDeadline: 1 });
+
+const ProcessingJob = mongoose.model('ProcessingJob', processingJobSchema);
+
+module.exports = ProcessingJob;
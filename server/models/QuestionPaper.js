@@ -1,6 +1,9 @@
 // server/models/QuestionPaper.js - New model for storing generated question papers
 
 const mongoose = require('mongoose');
+const paperQuestionSchema = require('./paperQuestionSchema');
+const { PAPER_STATUSES } = require('../utils/paperWorkflow');
+const { SET_LABELS } = require('../utils/paperSets');
 
 const questionPaperSchema = new mongoose.Schema({
   educator: {
@@ -13,11 +16,21 @@ const questionPaperSchema = new mongoose.Schema({
     ref: 'Course',
     required: true
   },
+  // Exam the paper is set for; its duration, date, instructions and max marks head the paper.
+  // Papers saved before exams were linked have none and take them from their pattern
+  exam: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'Exam'
+  },
   examType: {
     type: String,
     required: true,
     enum: ['CIE', 'SEE']
   },
+  examPattern: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'ExamPattern'
+  },
   semester: {
     type: String,
     required: true
@@ -30,22 +43,7 @@ const questionPaperSchema = new mongoose.Schema({
     type: String, // The formatted question paper text
     required: true
   },
-  questions: [{
-    questionId: String,
-    text: String,
-    marks: Number,
-    difficulty: String,
-    bloomLevel: String,
-    unit: String,
-    topic: String,
-    co: Number,
-    source: {
-      type: String,
-      enum: ['processed_data', 'ai_generated']
-    },
-    originalId: String,
-    similarity: Number
-  }],
+  questions: [paperQuestionSchema],
   totalMarks: {
     type: Number,
     required: true
@@ -63,6 +61,14 @@ const questionPaperSchema = new mongoose.Schema({
     type: mongoose.Schema.Types.ObjectId,
     ref: 'ProcessedData'
   },
+  // Parallel papers generated together (Set A/B/C) share a setGroup
+  setGroup: {
+    type: mongoose.Schema.Types.ObjectId
+  },
+  setLabel: {
+    type: String,
+    enum: SET_LABELS
+  },
   downloadCount: {
     type: Number,
     default: 0
@@ -70,6 +76,64 @@ const questionPaperSchema = new mongoose.Schema({
   lastDownloadedAt: {
     type: Date
   },
+  // Number of the revision the paper currently holds; every save after the first adds one
+  revision: {
+    type: Number,
+    default: 1
+  },
+  // Review workflow: DRAFT -> SUBMITTED -> CHANGES_REQUESTED / APPROVED -> LOCKED
+  status: {
+    type: String,
+    enum: PAPER_STATUSES,
+    default: 'DRAFT'
+  },
+  // Every status change, oldest first
+  statusHistory: [{
+    from: String,
+    to: String,
+    by: {
+      type: mongoose.Schema.Types.ObjectId,
+      ref: 'Educator'
+    },
+    note: String,
+    at: {
+      type: Date,
+      default: Date.now
+    }
+  }],
+  // Set while the paper's exam is finalized or published: the paper and its answer key are frozen,
+  // and the hashes fingerprint them as they were when the exam was finalized
+  examLocked: {
+    type: Boolean,
+    default: false
+  },
+  lockedAt: {
+    type: Date
+  },
+  contentHash: String,
+  answerKeyHash: String,
+  // Reviewer and educator comments on the whole paper, or on one question when questionId is set
+  reviewComments: [{
+    author: {
+      type: mongoose.Schema.Types.ObjectId,
+      ref: 'Educator'
+    },
+    questionId: String,
+    text: {
+      type: String,
+      required: true
+    },
+    // Revision of the paper the comment was made on
+    revision: Number,
+    createdAt: {
+      type: Date,
+      default: Date.now
+    }
+  }],
+  updatedAt: {
+    type: Date,
+    default: Date.now
+  },
   createdAt: {
     type: Date,
     default: Date.now
@@ -79,6 +143,9 @@ const questionPaperSchema = new mongoose.Schema({
 // Index for efficient queries
 questionPaperSchema.index({ educator: 1, createdAt: -1 });
 questionPaperSchema.index({ course: 1, examType: 1 });
+questionPaperSchema.index({ status: 1, updatedAt: -1 });
+questionPaperSchema.index({ setGroup: 1 });
+questionPaperSchema.index({ exam: 1, createdAt: -1 });
 
 const QuestionPaper = mongoose.model('QuestionPaper', questionPaperSchema);
 
@@ -0,0 +1,43 @@
+// server/models/QuestionPaperRevision.js - Snapshot of a question paper each time it is saved
+
+const mongoose = require('mongoose');
+const paperQuestionSchema = require('./paperQuestionSchema');
+
+const questionPaperRevisionSchema = new mongoose.Schema({
+  paper: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'QuestionPaper',
+    required: true
+  },
+  educator: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'Educator',
+    required: true
+  },
+  revision: {
+    type: Number,
+    required: true
+  },
+  title: String,
+  content: String,
+  questions: [paperQuestionSchema],
+  totalMarks: Number,
+  totalQuestions: Number,
+  generationSource: String,
+  note: {
+    type: String,
+    default: ''
+  },
+  // Set when this revision was created by restoring an older one
+  restoredFrom: Number,
+  createdAt: {
+    type: Date,
+    default: Date.now
+  }
+});
+
+questionPaperRevisionSchema.index({ paper: 1, revision: -1 }, { unique: true });
+
+const QuestionPaperRevision = mongoose.model('QuestionPaperRevision', questionPaperRevisionSchema);
+
+module.exports = QuestionPaperRevision;
@@ -0,0 +1,36 @@
+// server/models/paperQuestionSchema.js - Question subdocument shared by question papers and their revisions
+
+const mongoose = require('mongoose');
+const questionOptionSchema = require('./questionOptionSchema');
+const { QUESTION_TYPES } = require('../utils/questionTypes');
+
+const paperQuestionSchema = new mongoose.Schema({
+  questionId: String,
+  section: Number,
+  text: String,
+  type: {
+    type: String,
+    enum: QUESTION_TYPES,
+    default: 'DESCRIPTIVE'
+  },
+  // In the order printed on the paper; each set of a paper may have its own order
+  options: [questionOptionSchema],
+  marks: Number,
+  // Marks deducted for a wrong answer to an objective question
+  negativeMarks: Number,
+  difficulty: String,
+  bloomLevel: String,
+  unit: String,
+  topic: String,
+  co: Number,
+  source: {
+    type: String,
+    enum: ['processed_data', 'ai_generated']
+  },
+  // Which question provider wrote an ai_generated question (template, llm)
+  provider: String,
+  originalId: String,
+  similarity: Number
+});
+
+module.exports = paperQuestionSchema;
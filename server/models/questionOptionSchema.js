@@ -0,0 +1,17 @@
+// server/models/questionOptionSchema.js - Answer option of an objective question, shared by the bank and papers
+
+const mongoose = require('mongoose');
+
+const questionOptionSchema = new mongoose.Schema({
+  text: {
+    type: String,
+    required: true,
+    trim: true
+  },
+  isCorrect: {
+    type: Boolean,
+    default: false
+  }
+}, { _id: false });
+
+module.exports = questionOptionSchema;
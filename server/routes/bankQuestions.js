@@ -0,0 +1,386 @@
+// server/routes/bankQuestions.js - Browse and author the questions of a course's question bank
+
+const express = require('express');
+const multer = require('multer');
+const { check, validationResult } = require('express-validator');
+const BankQuestion = require('../models/BankQuestion');
+const Course = require('../models/Course');
+const ProcessedData = require('../models/ProcessedData');
+const auth = require('../middlewares/auth');
+const { BLOOM_LEVELS, DIFFICULTIES } = require('../utils/bankReview');
+const { buildBankFilter, fromImportedQuestion, pickChanges, toRowChanges } = require('../utils/questionBank');
+const { QUESTION_TYPES, validateOptions } = require('../utils/questionTypes');
+const { outcomeForTopic, resolveOutcome } = require('../utils/courseOutcomes');
+const {
+  FORMATS,
+  buildImportReport,
+  detectFormat,
+  readBankFile,
+  summarizeReport,
+  writeBankFile
+} = require('../utils/bankFormats');
+
+const router = express.Router();
+
+// Imported files are parsed straight from memory and never stored
+const upload = multer({
+  storage: multer.memoryStorage(),
+  limits: { fileSize: 10 * 1024 * 1024 } // 10MB limit
+});
+
+// Optional JSON object sent alongside a multipart upload
+const parseJsonField = (value, name) => {
+  if (value === undefined || value === '') return {};
+
+  let parsed = null;
+  try {
+    parsed = JSON.parse(value);
+  } catch (error) {
+    parsed = null;
+  }
+  if (!parsed || typeof parsed !== 'object' || Array.isArray(parsed)) {
+    throw Object.assign(new Error(`${name} must be a JSON object`), { status: 400 });
+  }
+  return parsed;
+};
+
+const questionChecks = optional => {
+  const field = name => (optional ? check(name).optional() : check(name));
+  return [
+    field('text').trim().not().isEmpty().withMessage('Question text is required'),
+    check('type', 'Invalid question type').optional().isIn(QUESTION_TYPES),
+    check('options', 'Options must be a list').optional().isArray(),
+    field('marks').isFloat({ gt: 0 }).withMessage('Marks must be a positive number'),
+    field('bloomLevel').isIn(BLOOM_LEVELS).withMessage('Invalid Bloom level'),
+    field('difficulty').customSanitizer(value => String(value).toLowerCase())
+      .isIn(DIFFICULTIES).withMessage('Invalid difficulty'),
+    check('tags', 'Tags must be a list').optional().isArray(),
+    check('verified', 'Verified must be true or false').optional().isBoolean()
+  ];
+};
+
+// An imported question is also a row of the course's active upload; keep that row in step so the
+// review screen and the bank never disagree. `rowChanges` of null removes the row
+async function writeBackToUpload(question, rowChanges) {
+  if (question.source !== 'upload') return;
+  if (rowChanges && Object.keys(rowChanges).length === 0) return;
+
+  const processedData = await ProcessedData.findActiveBank(question.educator, question.course);
+  const row = processedData && processedData.questions.id(question._id);
+  if (!row) return;
+
+  if (rowChanges) {
+    row.set(rowChanges);
+    if (Object.keys(rowChanges).some(field => !['verified', 'verifiedAt'].includes(field))) {
+      row.edited = true;
+    }
+  } else {
+    processedData.questions.pull(question._id);
+  }
+  await processedData.save();
+}
+
+// @route   GET /api/bank-questions/course/:courseId
+// @desc    Questions of a course's bank, filtered by search text, question type, unit, topic, CO,
+//          tag, Bloom level, difficulty, source or verification
+// @access  Private
+router.get('/course/:courseId', auth, async (req, res) => {
+  try {
+    const course = await Course.findById(req.params.courseId).select('name code');
+    if (!course) {
+      return res.status(404).json({ message: 'Course not found' });
+    }
+
+    await ProcessedData.ensureBankImported(req.educator._id, course._id);
+
+    const scope = { educator: req.educator._id, course: course._id };
+    const [questions, total, units, topics, cos, tags] = await Promise.all([
+      BankQuestion.find(buildBankFilter(scope, req.query)).sort({ unit: 1, createdAt: -1 }),
+      BankQuestion.countDocuments(scope),
+      BankQuestion.distinct('unit', scope),
+      BankQuestion.distinct('topic', scope),
+      BankQuestion.distinct('co', scope),
+      BankQuestion.distinct('tags', scope)
+    ]);
+
+    res.json({
+      course,
+      questions,
+      total,
+      facets: {
+        units: units.filter(Boolean).sort(),
+        topics: topics.filter(Boolean).sort(),
+        cos: cos.filter(Boolean).sort(),
+        tags: tags.filter(Boolean).sort()
+      }
+    });
+  } catch (error) {
+    console.error('Error fetching bank questions:', error);
+    res.status(500).json({ message: 'Failed to fetch bank questions', error: error.message });
+  }
+});
+
+// @route   POST /api/bank-questions/course/:courseId/import
+// @desc    Import questions from a CSV, XLSX, Moodle XML or GIFT file. Every record gets a row in
+//          the validation report; only valid, new questions are added. `dryRun` only reports
+// @access  Private
+router.post('/course/:courseId/import', auth, upload.single('file'), async (req, res) => {
+  try {
+    if (!req.file) {
+      return res.status(400).json({ message: 'A file to import is required' });
+    }
+
+    const format = req.body.format || detectFormat(req.file.originalname);
+    if (!FORMATS[format]) {
+      return res.status(400).json({ message: 'Only CSV, XLSX, Moodle XML and GIFT files can be imported' });
+    }
+
+    const course = await Course.findById(req.params.courseId).select('name code outcomes');
+    if (!course) {
+      return res.status(404).json({ message: 'Course not found' });
+    }
+
+    const mapping = parseJsonField(req.body.mapping, 'Column mapping');
+    const defaults = parseJsonField(req.body.defaults, 'Defaults');
+
+    let parsed;
+    try {
+      parsed = await readBankFile(format, req.file.buffer, mapping);
+    } catch (parseError) {
+      return res.status(400).json({ message: `Could not read the ${FORMATS[format].label} file: ${parseError.message}` });
+    }
+
+    await ProcessedData.ensureBankImported(req.educator._id, course._id);
+    const scope = { educator: req.educator._id, course: course._id };
+    const existing = await BankQuestion.find(scope).select('text').lean();
+
+    const report = buildImportReport(parsed.records, {
+      defaults,
+      existingTexts: existing.map(question => question.text)
+    });
+    const dryRun = req.body.dryRun === true || req.body.dryRun === 'true';
+
+    let imported = 0;
+    if (!dryRun) {
+      const questions = report
+        .filter(entry => entry.status === 'valid')
+        .map(entry => fromImportedQuestion(entry.question))
+        .map(question => ({ ...question, co: resolveOutcome(course.outcomes, question), ...scope, source: 'import' }));
+      if (questions.length > 0) {
+        await BankQuestion.insertMany(questions);
+      }
+      imported = questions.length;
+      console.log(`✅ Imported ${imported} questions from ${req.file.originalname} into course ${course.code}`);
+    }
+
+    res.json({
+      format,
+      columns: parsed.columns,
+      mapping: parsed.mapping,
+      dryRun,
+      imported,
+      summary: summarizeReport(report),
+      report
+    });
+  } catch (error) {
+    if (error.status) {
+      return res.status(error.status).json({ message: error.message });
+    }
+    console.error('Error importing bank questions:', error);
+    res.status(500).json({ message: 'Failed to import questions', error: error.message });
+  }
+});
+
+// @route   POST /api/bank-questions/course/:courseId/tag-outcomes
+// @desc    Tag the bank questions that have no CO with the CO their topic is mapped to
+// @access  Private
+router.post('/course/:courseId/tag-outcomes', auth, async (req, res) => {
+  try {
+    const course = await Course.findById(req.params.courseId).select('name code outcomes');
+    if (!course) {
+      return res.status(404).json({ message: 'Course not found' });
+    }
+    if (course.outcomes.length === 0) {
+      return res.status(400).json({ message: 'Define the course outcomes before tagging questions' });
+    }
+
+    await ProcessedData.ensureBankImported(req.educator._id, course._id);
+    const untagged = await BankQuestion.find({
+      educator: req.educator._id,
+      course: course._id,
+      co: { $in: [null, ''] }
+    }).select('topic').lean();
+
+    const updates = untagged
+      .map(question => ({ _id: question._id, co: outcomeForTopic(course.outcomes, question.topic) }))
+      .filter(update => update.co)
+      .map(update => ({ updateOne: { filter: { _id: update._id }, update: { $set: { co: update.co, updatedAt: new Date() } } } }));
+    if (updates.length > 0) {
+      await BankQuestion.bulkWrite(updates);
+    }
+
+    res.json({
+      message: `Tagged ${updates.length} question${updates.length === 1 ? '' : 's'} with a CO`,
+      tagged: updates.length,
+      untagged: untagged.length - updates.length
+    });
+  } catch (error) {
+    console.error('Error tagging bank questions with COs:', error);
+    res.status(500).json({ message: 'Failed to tag questions with COs', error: error.message });
+  }
+});
+
+// @route   GET /api/bank-questions/course/:courseId/export?format=csv|xlsx|moodle|gift
+// @desc    Download a course's bank, or the questions matching the browser's filters
+// @access  Private
+router.get('/course/:courseId/export', auth, async (req, res) => {
+  try {
+    const { format } = req.query;
+    if (!FORMATS[format]) {
+      return res.status(400).json({ message: `Format must be one of: ${Object.keys(FORMATS).join(', ')}` });
+    }
+
+    const course = await Course.findById(req.params.courseId).select('name code');
+    if (!course) {
+      return res.status(404).json({ message: 'Course not found' });
+    }
+
+    await ProcessedData.ensureBankImported(req.educator._id, course._id);
+    const questions = await BankQuestion.find(buildBankFilter({ educator: req.educator._id, course: course._id }, req.query))
+      .sort({ unit: 1, topic: 1, createdAt: 1 })
+      .lean();
+
+    const file = await writeBankFile(format, questions, { root: course.code });
+
+    res.type(FORMATS[format].contentType);
+    res.attachment(`${course.code}-question-bank.${FORMATS[format].extension}`);
+    res.send(file);
+  } catch (error) {
+    console.error('Error exporting bank questions:', error);
+    res.status(500).json({ message: 'Failed to export questions', error: error.message });
+  }
+});
+
+// @route   GET /api/bank-questions/:id
+// @desc    Get one bank question
+// @access  Private
+router.get('/:id', auth, async (req, res) => {
+  try {
+    const question = await BankQuestion.findOne({ _id: req.params.id, educator: req.educator._id });
+    if (!question) {
+      return res.status(404).json({ message: 'Bank question not found' });
+    }
+
+    res.json(question);
+  } catch (error) {
+    console.error('Error fetching bank question:', error);
+    res.status(500).json({ message: 'Failed to fetch bank question', error: error.message });
+  }
+});
+
+// @route   POST /api/bank-questions
+// @desc    Author a question directly in a course's bank
+// @access  Private
+router.post(
+  '/',
+  [
+    auth,
+    check('courseId', 'Course is required').not().isEmpty(),
+    ...questionChecks(false)
+  ],
+  async (req, res) => {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({ errors: errors.array() });
+    }
+
+    try {
+      const course = await Course.findById(req.body.courseId);
+      if (!course) {
+        return res.status(404).json({ message: 'Course not found' });
+      }
+
+      const changes = pickChanges(req.body);
+      const optionsError = validateOptions(changes.type || 'DESCRIPTIVE', changes.options || []);
+      if (optionsError) {
+        return res.status(400).json({ message: optionsError });
+      }
+
+      const question = new BankQuestion({
+        ...changes,
+        co: resolveOutcome(course.outcomes, changes),
+        educator: req.educator._id,
+        course: course._id,
+        source: 'manual'
+      });
+      await question.save();
+
+      res.status(201).json(question);
+    } catch (error) {
+      console.error('Error creating bank question:', error);
+      res.status(500).json({ message: 'Failed to create bank question', error: error.message });
+    }
+  }
+);
+
+// @route   PUT /api/bank-questions/:id
+// @desc    Edit a bank question
+// @access  Private
+router.put('/:id', [auth, ...questionChecks(true)], async (req, res) => {
+  const errors = validationResult(req);
+  if (!errors.isEmpty()) {
+    return res.status(400).json({ errors: errors.array() });
+  }
+
+  try {
+    const question = await BankQuestion.findOne({ _id: req.params.id, educator: req.educator._id });
+    if (!question) {
+      return res.status(404).json({ message: 'Bank question not found' });
+    }
+
+    const changes = pickChanges(req.body, question.type);
+    if (changes.options !== undefined) {
+      const optionsError = validateOptions(changes.type || question.type, changes.options);
+      if (optionsError) {
+        return res.status(400).json({ message: optionsError });
+      }
+    }
+
+    // A question left without a CO takes the one its (possibly new) topic is mapped to
+    if (!(changes.co ?? question.co)) {
+      const course = await Course.findById(question.course).select('outcomes');
+      const co = course && outcomeForTopic(course.outcomes, changes.topic ?? question.topic);
+      if (co) changes.co = co;
+    }
+
+    question.set({ ...changes, updatedAt: new Date() });
+    await question.save();
+    await writeBackToUpload(question, toRowChanges(changes));
+
+    res.json(question);
+  } catch (error) {
+    console.error('Error updating bank question:', error);
+    res.status(500).json({ message: 'Failed to update bank question', error: error.message });
+  }
+});
+
+// @route   DELETE /api/bank-questions/:id
+// @desc    Remove a question from the bank
+// @access  Private
+router.delete('/:id', auth, async (req, res) => {
+  try {
+    const question = await BankQuestion.findOneAndDelete({ _id: req.params.id, educator: req.educator._id });
+    if (!question) {
+      return res.status(404).json({ message: 'Bank question not found' });
+    }
+
+    await writeBackToUpload(question, null);
+
+    res.json({ message: 'Bank question deleted successfully' });
+  } catch (error) {
+    console.error('Error deleting bank question:', error);
+    res.status(500).json({ message: 'Failed to delete bank question', error: error.message });
+  }
+});
+
+module.exports = router;
@@ -2,7 +2,10 @@
 const express = require('express');
 const { check, validationResult } = require('express-validator');
 const Course = require('../models/Course');
+const Department = require('../models/Department');
 const auth = require('../middlewares/auth');
+const { validateOutcomes } = require('../utils/courseOutcomes');
+const { prunePoMapping, validatePoMapping } = require('../utils/programOutcomes');
 
 const router = express.Router();
 
@@ -40,6 +43,149 @@ router.get('/:id', auth, async (req, res) => {
   }
 });
 
+// @route   GET /api/courses/:id/outcomes
+// @desc    Course outcomes (CO1, CO2 ...) of a course and the topics mapped to each
+// @access  Private
+router.get('/:id/outcomes', auth, async (req, res) => {
+  try {
+    const course = await Course.findById(req.params.id).select('name code outcomes');
+    
+    if (!course) {
+      return res.status(404).json({ message: 'Course not found' });
+    }
+    
+    res.json({
+      course: { _id: course._id, name: course.name, code: course.code },
+      outcomes: course.outcomes
+    });
+  } catch (error) {
+    console.error(error);
+    if (error.kind === 'ObjectId') {
+      return res.status(404).json({ message: 'Course not found' });
+    }
+    res.status(500).json({ message: 'Server error' });
+  }
+});
+
+// @route   PUT /api/courses/:id/outcomes
+// @desc    Replace a course's outcomes and topic-to-CO mapping
+// @access  Private
+router.put(
+  '/:id/outcomes',
+  [
+    auth,
+    check('outcomes', 'Outcomes must be a list').isArray()
+  ],
+  async (req, res) => {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({ errors: errors.array() });
+    }
+
+    try {
+      const { outcomes, errors: problems } = validateOutcomes(req.body.outcomes);
+      if (problems.length > 0) {
+        return res.status(400).json({ message: 'Invalid course outcomes', errors: problems });
+      }
+
+      const existing = await Course.findById(req.params.id).select('poMapping');
+      if (!existing) {
+        return res.status(404).json({ message: 'Course not found' });
+      }
+
+      // Correlations of a removed CO go with it
+      const poMapping = prunePoMapping(existing.poMapping, outcomes.map(outcome => outcome.code));
+      const course = await Course.findByIdAndUpdate(
+        req.params.id,
+        { $set: { outcomes, poMapping } },
+        { new: true, runValidators: true }
+      ).select('name code outcomes');
+
+      res.json({
+        course: { _id: course._id, name: course.name, code: course.code },
+        outcomes: course.outcomes
+      });
+    } catch (error) {
+      console.error(error);
+      res.status(500).json({ message: 'Server error' });
+    }
+  }
+);
+
+// The CO-PO page's data: the course's COs, its department's POs and the correlations between them
+async function loadPoMapping(course) {
+  const department = await Department.findOne({ name: course.department });
+  return {
+    course: { _id: course._id, name: course.name, code: course.code, department: course.department },
+    outcomes: course.outcomes,
+    programOutcomes: department ? department.programOutcomes : [],
+    mapping: course.poMapping
+  };
+}
+
+// @route   GET /api/courses/:id/po-mapping
+// @desc    CO-PO articulation matrix of a course
+// @access  Private
+router.get('/:id/po-mapping', auth, async (req, res) => {
+  try {
+    const course = await Course.findById(req.params.id).select('name code department outcomes poMapping');
+    
+    if (!course) {
+      return res.status(404).json({ message: 'Course not found' });
+    }
+    
+    res.json(await loadPoMapping(course));
+  } catch (error) {
+    console.error(error);
+    if (error.kind === 'ObjectId') {
+      return res.status(404).json({ message: 'Course not found' });
+    }
+    res.status(500).json({ message: 'Server error' });
+  }
+});
+
+// @route   PUT /api/courses/:id/po-mapping
+// @desc    Replace a course's CO-PO correlations (level 1, 2 or 3 per CO and PO)
+// @access  Private
+router.put(
+  '/:id/po-mapping',
+  [
+    auth,
+    check('mapping', 'Mapping must be a list').isArray()
+  ],
+  async (req, res) => {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({ errors: errors.array() });
+    }
+
+    try {
+      const course = await Course.findById(req.params.id).select('name code department outcomes poMapping');
+      if (!course) {
+        return res.status(404).json({ message: 'Course not found' });
+      }
+
+      const department = await Department.findOne({ name: course.department });
+      const { mapping, errors: problems } = validatePoMapping(
+        req.body.mapping,
+        course.outcomes.map(outcome => outcome.code),
+        department ? department.programOutcomes.map(outcome => outcome.code) : []
+      );
+      if (problems.length > 0) {
+        return res.status(400).json({ message: 'Invalid CO-PO mapping', errors: problems });
+      }
+
+      course.poMapping = mapping;
+      await course.save();
+
+      res.json(await loadPoMapping(course));
+    } catch (error) {
+      console.error(error);
+      res.status(500).json({ message: 'Server error' });
+    }
+  }
+);
+
 // @route   POST /api/courses
 // @desc    Create a new course
 // @access  Private (Admin only)
@@ -0,0 +1,140 @@
+// server/routes/departments.js - Program outcomes (POs and PSOs) of a department and its letterhead overrides
+
+const express = require('express');
+const { check, validationResult } = require('express-validator');
+const Department = require('../models/Department');
+const auth = require('../middlewares/auth');
+const { validateProgramOutcomes } = require('../utils/programOutcomes');
+const { DEPARTMENT_FIELDS, validateBranding } = require('../utils/branding');
+
+const router = express.Router();
+
+// Admins look after every department, educators after their own
+const canEditDepartment = (educator, name) =>
+  educator.role === 'admin' || (educator.department || '').trim().toLowerCase() === name.trim().toLowerCase();
+
+// @route   GET /api/departments/:name/program-outcomes
+// @desc    Program outcomes of a department; departments nobody has set up yet have none
+// @access  Private
+router.get('/:name/program-outcomes', auth, async (req, res) => {
+  try {
+    const department = await Department.findOne({ name: req.params.name.trim() });
+
+    res.json({
+      department: req.params.name.trim(),
+      programOutcomes: department ? department.programOutcomes : [],
+      canEdit: canEditDepartment(req.educator, req.params.name)
+    });
+  } catch (error) {
+    console.error('Error fetching program outcomes:', error);
+    res.status(500).json({
+      message: 'Failed to fetch program outcomes',
+      error: error.message
+    });
+  }
+});
+
+// @route   PUT /api/departments/:name/program-outcomes
+// @desc    Replace a department's program outcomes
+// @access  Private (admins and the department's educators)
+router.put(
+  '/:name/program-outcomes',
+  [
+    auth,
+    check('programOutcomes', 'Program outcomes must be a list').isArray()
+  ],
+  async (req, res) => {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({ errors: errors.array() });
+    }
+
+    try {
+      const name = req.params.name.trim();
+      if (!canEditDepartment(req.educator, name)) {
+        return res.status(403).json({ message: 'Only admins and educators of this department can change its program outcomes' });
+      }
+
+      const { programOutcomes, errors: problems } = validateProgramOutcomes(req.body.programOutcomes);
+      if (problems.length > 0) {
+        return res.status(400).json({ message: 'Invalid program outcomes', errors: problems });
+      }
+
+      const department = await Department.findOneAndUpdate(
+        { name },
+        { $set: { programOutcomes, updatedBy: req.educator._id, updatedAt: new Date() } },
+        { new: true, upsert: true, runValidators: true }
+      );
+
+      res.json({
+        department: department.name,
+        programOutcomes: department.programOutcomes,
+        canEdit: true
+      });
+    } catch (error) {
+      console.error('Error saving program outcomes:', error);
+      res.status(500).json({
+        message: 'Failed to save program outcomes',
+        error: error.message
+      });
+    }
+  }
+);
+
+// @route   GET /api/departments/:name/branding
+// @desc    Letterhead fields the department overrides; empty fields use the institution's
+// @access  Private
+router.get('/:name/branding', auth, async (req, res) => {
+  try {
+    const department = await Department.findOne({ name: req.params.name.trim() });
+
+    res.json({
+      department: req.params.name.trim(),
+      branding: department ? department.branding : {},
+      canEdit: canEditDepartment(req.educator, req.params.name)
+    });
+  } catch (error) {
+    console.error('Error fetching department branding:', error);
+    res.status(500).json({
+      message: 'Failed to fetch department branding',
+      error: error.message
+    });
+  }
+});
+
+// @route   PUT /api/departments/:name/branding
+// @desc    Replace the department's letterhead overrides; leave a field empty (or registerNumber null) to use the institution's
+// @access  Private (admins and the department's educators)
+router.put('/:name/branding', auth, async (req, res) => {
+  try {
+    const name = req.params.name.trim();
+    if (!canEditDepartment(req.educator, name)) {
+      return res.status(403).json({ message: 'Only admins and educators of this department can change its letterhead' });
+    }
+
+    const { branding, errors } = validateBranding(req.body, DEPARTMENT_FIELDS);
+    if (errors.length > 0) {
+      return res.status(400).json({ message: 'Invalid department letterhead', errors });
+    }
+
+    const department = await Department.findOneAndUpdate(
+      { name },
+      { $set: { branding, updatedBy: req.educator._id, updatedAt: new Date() } },
+      { new: true, upsert: true, runValidators: true }
+    );
+
+    res.json({
+      department: department.name,
+      branding: department.branding,
+      canEdit: true
+    });
+  } catch (error) {
+    console.error('Error saving department branding:', error);
+    res.status(500).json({
+      message: 'Failed to save department branding',
+      error: error.message
+    });
+  }
+});
+
+module.exports = router;
@@ -0,0 +1,155 @@
+// server/routes/examPatterns.js - Routes for managing exam patterns
+
+const express = require('express');
+const { check, validationResult } = require('express-validator');
+const ExamPattern = require('../models/ExamPattern');
+const auth = require('../middlewares/auth');
+const { validatePattern, ensureDefaultPatterns } = require('../utils/examPatterns');
+
+const router = express.Router();
+
+const patternFields = ['name', 'description', 'examType', 'sections', 'choiceRule', 'totalMarks', 'duration', 'instructions'];
+
+const pickPatternFields = (body) => {
+  const fields = {};
+  patternFields.forEach(field => {
+    if (body[field] !== undefined) fields[field] = body[field];
+  });
+  return fields;
+};
+
+// @route   GET /api/exam-patterns
+// @desc    Get built-in patterns and the current educator's patterns
+// @access  Private
+router.get('/', auth, async (req, res) => {
+  try {
+    await ensureDefaultPatterns();
+
+    const filter = { $or: [{ isDefault: true }, { educator: req.educator._id }] };
+    if (req.query.examType) {
+      filter.examType = req.query.examType;
+    }
+
+    const patterns = await ExamPattern.find(filter).sort({ isDefault: -1, createdAt: 1 });
+
+    res.json(patterns);
+  } catch (error) {
+    console.error('Error fetching exam patterns:', error);
+    res.status(500).json({ message: 'Failed to fetch exam patterns' });
+  }
+});
+
+// @route   GET /api/exam-patterns/:id
+// @desc    Get a specific exam pattern
+// @access  Private
+router.get('/:id', auth, async (req, res) => {
+  try {
+    const pattern = await ExamPattern.findOne({
+      _id: req.params.id,
+      $or: [{ isDefault: true }, { educator: req.educator._id }]
+    });
+
+    if (!pattern) {
+      return res.status(404).json({ message: 'Exam pattern not found' });
+    }
+
+    res.json(pattern);
+  } catch (error) {
+    console.error('Error fetching exam pattern:', error);
+    res.status(500).json({ message: 'Failed to fetch exam pattern' });
+  }
+});
+
+// @route   POST /api/exam-patterns
+// @desc    Create a new exam pattern
+// @access  Private
+router.post(
+  '/',
+  [
+    auth,
+    check('name', 'Name is required').not().isEmpty(),
+    check('examType', 'Exam type must be CIE or SEE').isIn(['CIE', 'SEE']),
+    check('sections', 'Sections must be an array').isArray({ min: 1 }),
+    check('totalMarks', 'Total marks must be a number').isNumeric()
+  ],
+  async (req, res) => {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({ errors: errors.array() });
+    }
+
+    try {
+      const fields = pickPatternFields(req.body);
+      const problems = validatePattern(fields);
+      if (problems.length > 0) {
+        return res.status(400).json({ message: 'Invalid exam pattern', errors: problems });
+      }
+
+      const pattern = new ExamPattern({
+        ...fields,
+        educator: req.educator._id,
+        isDefault: false
+      });
+
+      await pattern.save();
+
+      res.status(201).json(pattern);
+    } catch (error) {
+      console.error('Error creating exam pattern:', error);
+      res.status(500).json({ message: 'Failed to create exam pattern', error: error.message });
+    }
+  }
+);
+
+// @route   PUT /api/exam-patterns/:id
+// @desc    Update one of the educator's exam patterns
+// @access  Private
+router.put('/:id', auth, async (req, res) => {
+  try {
+    const pattern = await ExamPattern.findOne({
+      _id: req.params.id,
+      educator: req.educator._id
+    });
+
+    if (!pattern) {
+      return res.status(404).json({ message: 'Exam pattern not found' });
+    }
+
+    pattern.set(pickPatternFields(req.body));
+
+    const problems = validatePattern(pattern.toObject());
+    if (problems.length > 0) {
+      return res.status(400).json({ message: 'Invalid exam pattern', errors: problems });
+    }
+
+    await pattern.save();
+
+    res.json(pattern);
+  } catch (error) {
+    console.error('Error updating exam pattern:', error);
+    res.status(500).json({ message: 'Failed to update exam pattern', error: error.message });
+  }
+});
+
+// @route   DELETE /api/exam-patterns/:id
+// @desc    Delete one of the educator's exam patterns
+// @access  Private
+router.delete('/:id', auth, async (req, res) => {
+  try {
+    const pattern = await ExamPattern.findOneAndDelete({
+      _id: req.params.id,
+      educator: req.educator._id
+    });
+
+    if (!pattern) {
+      return res.status(404).json({ message: 'Exam pattern not found' });
+    }
+
+    res.json({ message: 'Exam pattern deleted successfully' });
+  } catch (error) {
+    console.error('Error deleting exam pattern:', error);
+    res.status(500).json({ message: 'Failed to delete exam pattern' });
+  }
+});
+
+module.exports = router;
@@ -1,12 +1,79 @@
-
 const express = require('express');
 const { check, validationResult } = require('express-validator');
 const Exam = require('../models/Exam');
-const Question = require('../models/Question');
+const QuestionPaper = require('../models/QuestionPaper');
+const AnswerKey = require('../models/AnswerKey');
 const auth = require('../middlewares/auth');
+const admin = require('../middlewares/admin');
+const {
+  DEFAULT_INSTRUCTIONS,
+  EXAM_STATUSES,
+  EXAM_TRANSITIONS,
+  EXAM_TYPES,
+  answerKeyHash,
+  availableExamTransitions,
+  canUnlockExam,
+  examHistory,
+  isExamLocked,
+  paperContentHash,
+  paperExamType
+} = require('../utils/exams');
+const { getStatus, isOwner, isReviewer } = require('../utils/paperWorkflow');
 
 const router = express.Router();
 
+// Number of saved papers of each of the given exams
+async function countPapers(exams) {
+  const counts = await QuestionPaper.aggregate([
+    { $match: { exam: { $in: exams.map(exam => exam._id) } } },
+    { $group: { _id: '$exam', count: { $sum: 1 } } }
+  ]);
+  const byExam = new Map(counts.map(({ _id, count }) => [String(_id), count]));
+  return exams.map(exam => ({ ...exam.toObject(), paperCount: byExam.get(String(exam._id)) || 0 }));
+}
+
+const answerKeysByPaper = async papers => {
+  const answerKeys = await AnswerKey.find({ paper: { $in: papers.map(paper => paper._id) } });
+  return new Map(answerKeys.map(answerKey => [String(answerKey.paper), answerKey]));
+};
+
+// Freeze the exam's papers and answer keys, storing a hash of each as finalized
+async function lockPapers(exam) {
+  const papers = await QuestionPaper.find({ exam: exam._id });
+  const answerKeys = await answerKeysByPaper(papers);
+  const lockedAt = new Date();
+
+  for (const paper of papers) {
+    paper.examLocked = true;
+    paper.lockedAt = lockedAt;
+    paper.contentHash = paperContentHash(paper);
+    paper.answerKeyHash = answerKeyHash(answerKeys.get(String(paper._id)));
+    await paper.save();
+  }
+  await AnswerKey.updateMany({ paper: { $in: papers.map(paper => paper._id) } }, { locked: true, lockedAt });
+}
+
+// Reopen the exam's papers; answer keys of papers locked by their own review stay locked.
+// The hashes stay as the record of what was finalized until the exam is finalized again
+async function unlockPapers(exam) {
+  const papers = await QuestionPaper.find({ exam: exam._id }).select('status');
+  await QuestionPaper.updateMany({ exam: exam._id }, { examLocked: false });
+  await AnswerKey.updateMany(
+    { paper: { $in: papers.filter(paper => getStatus(paper) !== 'LOCKED').map(paper => paper._id) } },
+    { locked: false }
+  );
+}
+
+// Whether each frozen paper and answer key still hashes to what was stored when the exam was finalized
+async function checkIntegrity(papers) {
+  const answerKeys = await answerKeysByPaper(papers);
+  return new Map(papers.filter(paper => paper.examLocked).map(paper => [
+    String(paper._id),
+    paper.contentHash === paperContentHash(paper)
+      && paper.answerKeyHash === answerKeyHash(answerKeys.get(String(paper._id)))
+  ]));
+}
+
 // @route   POST /api/exams
 // @desc    Create a new exam
 // @access  Private
@@ -14,9 +81,11 @@ router.post(
   '/',
   [
     auth,
-    check('examType', 'Exam type is required').not().isEmpty(),
+    check('examType', `Exam type must be one of: ${EXAM_TYPES.join(', ')}`).isIn(EXAM_TYPES),
     check('semester', 'Semester is required').not().isEmpty(),
-    check('courseId', 'Course ID is required').not().isEmpty()
+    check('courseId', 'Course ID is required').not().isEmpty(),
+    check('maxMarks', 'Max marks must be a number').optional().isInt({ min: 0 }),
+    check('duration', 'Duration must be a number of minutes').optional().isInt({ min: 1 })
   ],
   async (req, res) => {
     // Validate request
@@ -25,7 +94,7 @@ router.post(
       return res.status(400).json({ errors: errors.array() });
     }
 
-    const { examType, semester, courseId, title, duration, instructions, examDate } = req.body;
+    const { examType, semester, courseId, patternId, title, duration, maxMarks, instructions, examDate } = req.body;
 
     try {
       // Create new exam
@@ -34,14 +103,17 @@ router.post(
         examType,
         semester,
         course: courseId,
+        examPattern: patternId || undefined,
         title: title || `${examType} - ${semester}`,
+        maxMarks: maxMarks || 0,
         duration: duration || 60,
-        instructions: instructions || 'Answer all questions. Each question carries marks as indicated.',
+        instructions: instructions || DEFAULT_INSTRUCTIONS,
         examDate: examDate || null
       });
 
       // Save exam
       await exam.save();
+      await exam.populate('course', 'name code');
 
       res.status(201).json(exam);
     } catch (error) {
@@ -52,15 +124,15 @@ router.post(
 );
 
 // @route   GET /api/exams
-// @desc    Get all exams for current educator
+// @desc    Get all exams for current educator, with the number of papers each has
 // @access  Private
 router.get('/', auth, async (req, res) => {
   try {
     const exams = await Exam.find({ educator: req.educator._id })
       .populate('course', 'name code')
       .sort({ createdAt: -1 });
-    
-    res.json(exams);
+
+    res.json(await countPapers(exams));
   } catch (error) {
     console.error(error);
     res.status(500).json({ message: 'Server error' });
@@ -68,103 +140,140 @@ router.get('/', auth, async (req, res) => {
 });
 
 // @route   GET /api/exams/:id
-// @desc    Get exam by ID
+// @desc    Get exam by ID with its question papers and history
 // @access  Private
 router.get('/:id', auth, async (req, res) => {
   try {
     const exam = await Exam.findById(req.params.id)
       .populate('course', 'name code')
-      .populate('educator', 'name email');
-    
+      .populate('educator', 'name email role')
+      .populate('examPattern', 'name examType totalMarks duration')
+      .populate('statusHistory.by', 'name role');
+
     if (!exam) {
       return res.status(404).json({ message: 'Exam not found' });
     }
-    
-    // Check if educator owns the exam
-    if (exam.educator._id.toString() !== req.educator._id.toString()) {
+
+    // Educators see their own exams; reviewers see every exam, as they do its papers
+    if (exam.educator._id.toString() !== req.educator._id.toString() && !isReviewer(req.educator)) {
       return res.status(401).json({ message: 'Not authorized to access this exam' });
     }
-    
-    // Get questions for this exam
-    const questions = await Question.find({ exam: exam._id }).sort({ createdAt: 1 });
-    
-    // Calculate total marks
-    const totalMarks = questions.reduce((sum, question) => sum + question.marks, 0);
-    
-    // Update exam with total marks if necessary
-    if (totalMarks !== exam.totalMarks) {
-      exam.totalMarks = totalMarks;
-      await exam.save();
-    }
-    
+
+    const papers = await QuestionPaper.find({ exam: exam._id })
+      .populate('statusHistory.by', 'name role')
+      .sort({ createdAt: -1 });
+    const intact = await checkIntegrity(papers);
+
     res.json({
       exam,
-      questions,
-      totalMarks
+      papers: papers.map(paper => ({
+        _id: paper._id,
+        title: paper.title,
+        setGroup: paper.setGroup,
+        setLabel: paper.setLabel,
+        status: getStatus(paper),
+        totalMarks: paper.totalMarks,
+        totalQuestions: paper.totalQuestions,
+        revision: paper.revision,
+        downloadCount: paper.downloadCount,
+        examLocked: paper.examLocked,
+        lockedAt: paper.lockedAt,
+        contentHash: paper.contentHash,
+        intact: intact.get(String(paper._id)),
+        createdAt: paper.createdAt,
+        updatedAt: paper.updatedAt
+      })),
+      history: examHistory(exam, papers),
+      isOwner: isOwner(exam, req.educator),
+      availableTransitions: availableExamTransitions(exam, req.educator),
+      canUnlock: canUnlockExam(exam, req.educator)
     });
   } catch (error) {
     console.error(error);
+    if (error.kind === 'ObjectId') {
+      return res.status(404).json({ message: 'Exam not found' });
+    }
     res.status(500).json({ message: 'Server error' });
   }
 });
 
 // @route   PUT /api/exams/:id
-// @desc    Update exam
+// @desc    Update exam; the header of its papers follows
 // @access  Private
-router.put('/:id', auth, async (req, res) => {
-  try {
-    const exam = await Exam.findById(req.params.id);
-    
-    if (!exam) {
-      return res.status(404).json({ message: 'Exam not found' });
+router.put(
+  '/:id',
+  [
+    auth,
+    check('maxMarks', 'Max marks must be a number').optional().isInt({ min: 0 }),
+    check('duration', 'Duration must be a number of minutes').optional().isInt({ min: 1 })
+  ],
+  async (req, res) => {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({ errors: errors.array() });
     }
-    
-    // Check if educator owns the exam
-    if (exam.educator.toString() !== req.educator._id.toString()) {
-      return res.status(401).json({ message: 'Not authorized to update this exam' });
+
+    try {
+      const exam = await Exam.findById(req.params.id);
+
+      if (!exam) {
+        return res.status(404).json({ message: 'Exam not found' });
+      }
+
+      // Check if educator owns the exam
+      if (exam.educator.toString() !== req.educator._id.toString()) {
+        return res.status(401).json({ message: 'Not authorized to update this exam' });
+      }
+
+      // The header of a finalized exam's papers is frozen with them
+      if (isExamLocked(exam)) {
+        return res.status(403).json({ message: 'A finalized exam cannot be edited; an admin must unlock it first' });
+      }
+
+      const { title, duration, maxMarks, instructions, examDate } = req.body;
+
+      // Update fields; an empty date clears it
+      if (title) exam.title = title;
+      if (duration) exam.duration = duration;
+      if (maxMarks !== undefined) exam.maxMarks = maxMarks;
+      if (instructions !== undefined) exam.instructions = instructions;
+      if (examDate !== undefined) exam.examDate = examDate || null;
+
+      await exam.save();
+      await exam.populate('course', 'name code');
+
+      res.json(exam);
+    } catch (error) {
+      console.error(error);
+      res.status(500).json({ message: 'Server error' });
     }
-    
-    const { title, duration, instructions, status, examDate } = req.body;
-    
-    // Update fields
-    if (title) exam.title = title;
-    if (duration) exam.duration = duration;
-    if (instructions) exam.instructions = instructions;
-    if (status) exam.status = status;
-    if (examDate) exam.examDate = examDate;
-    
-    await exam.save();
-    
-    res.json(exam);
-  } catch (error) {
-    console.error(error);
-    res.status(500).json({ message: 'Server error' });
   }
-});
+);
 
 // @route   DELETE /api/exams/:id
-// @desc    Delete exam and its questions
+// @desc    Delete an exam that has no question papers
 // @access  Private
 router.delete('/:id', auth, async (req, res) => {
   try {
     const exam = await Exam.findById(req.params.id);
-    
+
     if (!exam) {
       return res.status(404).json({ message: 'Exam not found' });
     }
-    
+
     // Check if educator owns the exam
     if (exam.educator.toString() !== req.educator._id.toString()) {
       return res.status(401).json({ message: 'Not authorized to delete this exam' });
     }
-    
-    // Delete all questions associated with this exam
-    await Question.deleteMany({ exam: req.params.id });
-    
-    // Delete the exam
-    await Exam.findByIdAndRemove(req.params.id);
-    
-    res.json({ message: 'Exam and its questions deleted successfully' });
+
+    const paperCount = await QuestionPaper.countDocuments({ exam: exam._id });
+    if (paperCount > 0) {
+      return res.status(400).json({ message: `This exam has ${paperCount} question paper(s); delete them first` });
+    }
+
+    await Exam.findByIdAndDelete(req.params.id);
+
+    res.json({ message: 'Exam deleted successfully' });
   } catch (error) {
     console.error(error);
     res.status(500).json({ message: 'Server error' });
@@ -172,31 +281,55 @@ router.delete('/:id', auth, async (req, res) => {
 });
 
 // @route   PUT /api/exams/:id/status
-// @desc    Update exam status
-// @access  Private
+// @desc    Move an exam through its lifecycle; finalizing locks its papers and answer keys
+// @access  Private (owner finalizes, admin publishes)
 router.put('/:id/status', auth, async (req, res) => {
   try {
-    const { status } = req.body;
-    
-    if (!status || !['DRAFT', 'FINALIZED', 'PUBLISHED'].includes(status)) {
+    const { status, note } = req.body;
+
+    if (!status || !EXAM_STATUSES.includes(status)) {
       return res.status(400).json({ message: 'Invalid status value' });
     }
-    
+
     const exam = await Exam.findById(req.params.id);
-    
+
     if (!exam) {
       return res.status(404).json({ message: 'Exam not found' });
     }
-    
-    // Check if educator owns the exam
-    if (exam.educator.toString() !== req.educator._id.toString()) {
+
+    if (!isOwner(exam, req.educator) && !isReviewer(req.educator)) {
       return res.status(401).json({ message: 'Not authorized to update this exam' });
     }
-    
-    // Update status
+
+    if (!EXAM_TRANSITIONS[exam.status][status]) {
+      return res.status(400).json({
+        message: status === 'DRAFT'
+          ? 'A finalized exam goes back to draft only when an admin unlocks it'
+          : `Cannot move an exam from ${exam.status} to ${status}`
+      });
+    }
+
+    if (!availableExamTransitions(exam, req.educator).includes(status)) {
+      return res.status(403).json({
+        message: EXAM_TRANSITIONS[exam.status][status] === 'reviewer'
+          ? 'Access denied. Admin privileges required.'
+          : 'Only the educator who set this exam can do that'
+      });
+    }
+
+    if (status === 'FINALIZED' && !(await QuestionPaper.exists({ exam: exam._id }))) {
+      return res.status(400).json({ message: 'Save at least one question paper for the exam before finalizing it' });
+    }
+
+    exam.statusHistory.push({ from: exam.status, to: status, by: req.educator._id, note: (note || '').trim() });
     exam.status = status;
     await exam.save();
-    
+
+    if (status === 'FINALIZED') {
+      await lockPapers(exam);
+    }
+    await exam.populate('course', 'name code');
+
     res.json(exam);
   } catch (error) {
     console.error(error);
@@ -204,19 +337,66 @@ router.put('/:id/status', auth, async (req, res) => {
   }
 });
 
+// @route   POST /api/exams/:id/unlock
+// @desc    Reopen a finalized or published exam as a draft, with the reason recorded in its history
+// @access  Private (admin)
+router.post(
+  '/:id/unlock',
+  [
+    auth,
+    admin,
+    check('reason', 'A reason is required to unlock an exam').trim().not().isEmpty()
+  ],
+  async (req, res) => {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({ errors: errors.array() });
+    }
+
+    try {
+      const exam = await Exam.findById(req.params.id);
+
+      if (!exam) {
+        return res.status(404).json({ message: 'Exam not found' });
+      }
+
+      if (!isExamLocked(exam)) {
+        return res.status(400).json({ message: 'Only a finalized or published exam can be unlocked' });
+      }
+
+      exam.statusHistory.push({ from: exam.status, to: 'DRAFT', by: req.educator._id, note: req.body.reason, unlock: true });
+      exam.status = 'DRAFT';
+      await exam.save();
+
+      await unlockPapers(exam);
+      await exam.populate('course', 'name code');
+
+      res.json(exam);
+    } catch (error) {
+      console.error(error);
+      res.status(500).json({ message: 'Server error' });
+    }
+  }
+);
+
 // @route   GET /api/exams/course/:courseId
-// @desc    Get all exams for a specific course
+// @desc    Get all exams for a specific course, optionally of one paper exam type (?paperExamType=CIE|SEE)
 // @access  Private
 router.get('/course/:courseId', auth, async (req, res) => {
   try {
-    const exams = await Exam.find({ 
+    const filter = {
       educator: req.educator._id,
       course: req.params.courseId
-    })
-    .populate('course', 'name code')
-    .sort({ createdAt: -1 });
-    
-    res.json(exams);
+    };
+    if (req.query.paperExamType) {
+      filter.examType = { $in: EXAM_TYPES.filter(examType => paperExamType(examType) === req.query.paperExamType) };
+    }
+
+    const exams = await Exam.find(filter)
+      .populate('course', 'name code')
+      .sort({ createdAt: -1 });
+
+    res.json(await countPapers(exams));
   } catch (error) {
     console.error(error);
     res.status(500).json({ message: 'Server error' });
@@ -228,13 +408,13 @@ router.get('/course/:courseId', auth, async (req, res) => {
 // @access  Private
 router.get('/type/:examType', auth, async (req, res) => {
   try {
-    const exams = await Exam.find({ 
+    const exams = await Exam.find({
       educator: req.educator._id,
       examType: req.params.examType
     })
     .populate('course', 'name code')
     .sort({ createdAt: -1 });
-    
+
     res.json(exams);
   } catch (error) {
     console.error(error);
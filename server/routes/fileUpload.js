@@ -5,11 +5,35 @@ const multer = require('multer');
 const path = require('path');
 const fs = require('fs');
 const ProcessedData = require('../models/ProcessedData');
+const ProcessingJob = require('../models/ProcessingJob');
 const auth = require('../middlewares/auth');
-const axios = require('axios');
+const verifyCallback = require('../middlewares/verifyCallback');
+const { sha256 } = require('../utils/callbackSigning');
+const { enqueueProcessing, handleProcessingCallback, retryProcessing } = require('../utils/processingQueue');
 
 const router = express.Router();
 
+// Upload summary shared by the status and history endpoints, with the progress of its processing job
+const summarizeUpload = (processedData, job) => ({
+  processId: processedData._id,
+  status: processedData.processingStatus,
+  course: processedData.course,
+  questionsCount: processedData.questions.length,
+  topicsCount: processedData.topics.length,
+  processedAt: processedData.processedAt,
+  createdAt: processedData.createdAt,
+  uploadedAt: processedData.uploadedAt,
+  version: processedData.version,
+  isActive: processedData.isActive,
+  uploadMode: processedData.uploadMode,
+  originalFileNames: processedData.originalFileNames,
+  failureReason: processedData.failureReason,
+  failedStage: processedData.failedStage,
+  attempts: job ? job.attempts : 0,
+  maxAttempts: job ? job.maxAttempts : 0,
+  nextRunAt: job && job.status === 'QUEUED' ? job.nextRunAt : undefined
+});
+
 // Configure multer for file uploads
 const storage = multer.diskStorage({
   destination: (req, file, cb) => {
@@ -52,13 +76,17 @@ router.post('/process-documents', auth, upload.fields([
     console.log('Request files:', req.files);
     console.log('User:', req.educator);
     
-    const { courseId } = req.body;
+    const { courseId, mode = 'replace' } = req.body;
     
     if (!courseId) {
       console.log('❌ Missing courseId');
       return res.status(400).json({ message: 'Course ID is required' });
     }
     
+    if (!['replace', 'merge'].includes(mode)) {
+      return res.status(400).json({ message: 'Mode must be replace or merge' });
+    }
+    
     if (!req.files || !req.files.questionBank || !req.files.syllabus) {
       console.log('❌ Missing files');
       console.log('Files received:', req.files);
@@ -85,14 +113,15 @@ router.post('/process-documents', auth, upload.fields([
       questions: [],
       topics: [],
       processingStatus: 'PENDING',
+      uploadMode: mode,
       uploadedAt: new Date() // Explicitly set upload time
     });
     
     await processedData.save();
     console.log('✅ ProcessedData record created:', processedData._id);
     
-    // Trigger Google Colab processing (async)
-    triggerColabProcessing(processedData._id, questionBankFile.path, syllabusFile.path);
+    // Queue processing on the configured backend; the job survives restarts and is retried on failure
+    await enqueueProcessing(processedData);
     
     res.status(200).json({ 
       message: 'Files uploaded successfully. Processing started.',
@@ -106,107 +135,62 @@ router.post('/process-documents', auth, upload.fields([
   }
 });
 
-// Function to trigger Google Colab processing
-async function triggerColabProcessing(processId, questionBankPath, syllabusPath) {
+// @route   POST /api/upload/processing-complete
+// @desc    Callback endpoint for the remote processor to send processed data
+// @access  Public (HMAC-signed, with the one-time token issued for the attempt)
+router.post('/processing-complete', verifyCallback, async (req, res) => {
   try {
-    console.log('🔄 Starting Colab processing for:', processId);
-    
-    // Update status to processing
-    await ProcessedData.findByIdAndUpdate(processId, { 
-      processingStatus: 'PROCESSING' 
-    });
+    console.log('📥 Processing complete callback received');
     
-    const colabWebhookUrl = process.env.COLAB_WEBHOOK_URL;
-    if (!colabWebhookUrl) {
-      console.error('❌ COLAB_WEBHOOK_URL not configured in environment variables');
-      await ProcessedData.findByIdAndUpdate(processId, { 
-        processingStatus: 'FAILED' 
-      });
-      return;
-    }
+    const { processId } = req.body;
+    const result = await handleProcessingCallback(processId, req.body, sha256(req.rawBody || ''));
     
-    // Convert file paths to base64
-    const questionBankBase64 = fs.readFileSync(questionBankPath, { encoding: 'base64' });
-    const syllabusBase64 = fs.readFileSync(syllabusPath, { encoding: 'base64' });
-    
-    const payload = {
-      processId: processId,
-      questionBank: questionBankBase64,
-      syllabus: syllabusBase64,
-      callbackUrl: `${process.env.BASE_URL}/api/upload/processing-complete`
-    };
-    
-    console.log('📤 Sending to Colab:', colabWebhookUrl);
-    
-    // Send to Google Colab
-    await axios.post(colabWebhookUrl, payload, {
-      timeout: 30000, // 30 seconds timeout
-      headers: {
-        'Content-Type': 'application/json',
-        'Authorization': `Bearer ${process.env.COLAB_API_KEY}`
-      }
+    res.status(200).json({
+      message: result.duplicate ? 'Callback already received' : 'Status updated successfully',
+      duplicate: result.duplicate
     });
     
-    console.log(`✅ Processing triggered successfully for process ID: ${processId}`);
-    
   } catch (error) {
-    console.error('❌ Colab processing trigger failed:', error);
-    
-    // Update status to failed
-    await ProcessedData.findByIdAndUpdate(processId, { 
-      processingStatus: 'FAILED' 
-    });
+    if (error.status) {
+      console.log(`❌ Processing callback rejected (${error.status}): ${error.message}`);
+      return res.status(error.status).json({ message: error.message, errors: error.errors });
+    }
+    console.error('❌ Processing complete callback error:', error);
+    res.status(500).json({ message: 'Failed to update processing status' });
   }
-}
+});
 
-// @route   POST /api/upload/processing-complete
-// @desc    Callback endpoint for Google Colab to send processed data
-// @access  Public (but should be secured with API key)
-router.post('/processing-complete', async (req, res) => {
+// @route   GET /api/upload/processing-status/:processId
+// @desc    Check processing status
+// @access  Private
+router.get('/processing-status/:processId', auth, async (req, res) => {
   try {
-    console.log('📥 Processing complete callback received');
-    
-    const { processId, questions, topics, status } = req.body;
+    const processedData = await ProcessedData.findById(req.params.processId)
+      .populate('course', 'name code');
     
-    // Verify API key (optional security measure)
-    const apiKey = req.headers['x-api-key'];
-    if (apiKey !== process.env.COLAB_API_KEY) {
-      console.log('❌ Unauthorized callback attempt');
-      return res.status(401).json({ message: 'Unauthorized' });
+    if (!processedData) {
+      return res.status(404).json({ message: 'Process not found' });
     }
     
-    if (status === 'success') {
-      // Update with processed data
-      await ProcessedData.findByIdAndUpdate(processId, {
-        questions: questions,
-        topics: topics,
-        processingStatus: 'COMPLETED',
-        processedAt: new Date()
-      });
-      
-      console.log(`✅ Processing completed for process ID: ${processId}`);
-      console.log(`📊 Questions: ${questions.length}, Topics: ${topics.length}`);
-    } else {
-      // Mark as failed
-      await ProcessedData.findByIdAndUpdate(processId, {
-        processingStatus: 'FAILED'
-      });
-      
-      console.log(`❌ Processing failed for process ID: ${processId}`);
+    // Check if educator owns this process
+    if (processedData.educator.toString() !== req.educator._id.toString()) {
+      return res.status(401).json({ message: 'Not authorized' });
     }
     
-    res.status(200).json({ message: 'Status updated successfully' });
+    const job = await ProcessingJob.findOne({ processedData: processedData._id });
+    
+    res.json(summarizeUpload(processedData, job));
     
   } catch (error) {
-    console.error('❌ Processing complete callback error:', error);
-    res.status(500).json({ message: 'Failed to update processing status' });
+    console.error('❌ Status check error:', error);
+    res.status(500).json({ message: 'Failed to check status' });
   }
 });
 
-// @route   GET /api/upload/processing-status/:processId
-// @desc    Check processing status
+// @route   POST /api/upload/:processId/retry
+// @desc    Queue a failed upload for processing again
 // @access  Private
-router.get('/processing-status/:processId', auth, async (req, res) => {
+router.post('/:processId/retry', auth, async (req, res) => {
   try {
     const processedData = await ProcessedData.findById(req.params.processId)
       .populate('course', 'name code');
@@ -215,51 +199,44 @@ router.get('/processing-status/:processId', auth, async (req, res) => {
       return res.status(404).json({ message: 'Process not found' });
     }
     
-    // Check if educator owns this process
     if (processedData.educator.toString() !== req.educator._id.toString()) {
       return res.status(401).json({ message: 'Not authorized' });
     }
     
+    const job = await retryProcessing(processedData);
+    console.log(`🔁 Retry queued for process ID: ${processedData._id}`);
+    
     res.json({
+      message: 'Processing restarted',
       processId: processedData._id,
-      status: processedData.processingStatus,
-      course: processedData.course,
-      questionsCount: processedData.questions.length,
-      topicsCount: processedData.topics.length,
-      processedAt: processedData.processedAt,
-      createdAt: processedData.createdAt,
-      uploadedAt: processedData.uploadedAt,
-      version: processedData.version,
-      isActive: processedData.isActive,
-      originalFileNames: processedData.originalFileNames
+      status: 'PENDING',
+      attempts: job.attempts,
+      maxAttempts: job.maxAttempts
     });
     
   } catch (error) {
-    console.error('❌ Status check error:', error);
-    res.status(500).json({ message: 'Failed to check status' });
+    if (error.status === 409) {
+      return res.status(409).json({ message: error.message });
+    }
+    console.error('❌ Retry error:', error);
+    res.status(500).json({ message: 'Failed to retry processing', error: error.message });
   }
 });
 
 // @route   GET /api/upload/processed-data/:courseId
-// @desc    Get LATEST processed data for a course (fixes the syllabus issue)
+// @desc    Get the ACTIVE processed data for a course (the latest upload unless another version was activated)
 // @access  Private
 router.get('/processed-data/:courseId', auth, async (req, res) => {
   try {
-    // Get the LATEST active processed data for this course
-    const processedData = await ProcessedData.findOne({
-      educator: req.educator._id,
-      course: req.params.courseId,
-      processingStatus: 'COMPLETED',
-      isActive: true // Only get active (latest) version
-    })
-    .populate('course', 'name code')
-    .sort({ uploadedAt: -1 }); // Sort by upload time, latest first
+    const processedData = await ProcessedData.findActiveBank(req.educator._id, req.params.courseId);
     
     if (!processedData) {
       return res.status(404).json({ message: 'No processed data found for this course' });
     }
     
-    console.log(`✅ Returning LATEST processed data for course ${req.params.courseId}:`);
+    await processedData.populate('course', 'name code');
+    
+    console.log(`✅ Returning ACTIVE processed data for course ${req.params.courseId}:`);
     console.log(`   - Version: ${processedData.version}`);
     console.log(`   - Uploaded: ${processedData.uploadedAt}`);
     console.log(`   - Questions: ${processedData.questions.length}`);
@@ -282,7 +259,10 @@ router.get('/my-uploads', auth, async (req, res) => {
       .populate('course', 'name code')
       .sort({ uploadedAt: -1 }); // Sort by upload time, latest first
     
-    res.json(uploads);
+    const jobs = await ProcessingJob.find({ processedData: { $in: uploads.map(upload => upload._id) } });
+    const jobByUpload = new Map(jobs.map(job => [job.processedData.toString(), job]));
+    
+    res.json(uploads.map(upload => summarizeUpload(upload, jobByUpload.get(upload._id.toString()))));
     
   } catch (error) {
     console.error('❌ Get uploads error:', error);
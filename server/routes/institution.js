@@ -0,0 +1,145 @@
+// server/routes/institution.js - Institution letterhead settings printed on rendered papers
+
+const express = require('express');
+const multer = require('multer');
+const InstitutionSettings = require('../models/InstitutionSettings');
+const Course = require('../models/Course');
+const auth = require('../middlewares/auth');
+const admin = require('../middlewares/admin');
+const { INSTITUTION_FIELDS, logoDataUrl, validateBranding } = require('../utils/branding');
+
+const router = express.Router();
+
+// Logos are kept in the settings document, never on disk
+const upload = multer({
+  storage: multer.memoryStorage(),
+  limits: { fileSize: 10 * 1024 * 1024 } // 10MB limit; logoDataUrl allows far less
+});
+
+const toSettings = (settings, educator) => ({
+  name: settings.name,
+  affiliation: settings.affiliation,
+  address: settings.address,
+  departmentLine: settings.departmentLine,
+  logo: settings.logo,
+  footerText: settings.footerText,
+  registerNumber: settings.registerNumber,
+  updatedAt: settings.updatedAt,
+  canEdit: educator.role === 'admin'
+});
+
+// @route   GET /api/institution/settings
+// @desc    Institution letterhead settings
+// @access  Private
+router.get('/settings', auth, async (req, res) => {
+  try {
+    const settings = await InstitutionSettings.findSettings();
+    res.json(toSettings(settings, req.educator));
+  } catch (error) {
+    console.error('Error fetching institution settings:', error);
+    res.status(500).json({
+      message: 'Failed to fetch institution settings',
+      error: error.message
+    });
+  }
+});
+
+// @route   PUT /api/institution/settings
+// @desc    Update the institution letterhead (name, affiliation, address, department line, footer, register number box)
+// @access  Private (admin)
+router.put('/settings', [auth, admin], async (req, res) => {
+  try {
+    const { branding, errors } = validateBranding(req.body, INSTITUTION_FIELDS);
+    if (errors.length > 0) {
+      return res.status(400).json({ message: 'Invalid institution settings', errors });
+    }
+
+    const settings = await InstitutionSettings.findSettings();
+    settings.set({ ...branding, updatedBy: req.educator._id, updatedAt: new Date() });
+    await settings.save();
+
+    res.json(toSettings(settings, req.educator));
+  } catch (error) {
+    console.error('Error saving institution settings:', error);
+    res.status(500).json({
+      message: 'Failed to save institution settings',
+      error: error.message
+    });
+  }
+});
+
+// @route   POST /api/institution/settings/logo
+// @desc    Upload the institution logo (PNG or JPEG)
+// @access  Private (admin)
+router.post('/settings/logo', [auth, admin], upload.single('logo'), async (req, res) => {
+  try {
+    if (!req.file) {
+      return res.status(400).json({ message: 'A logo image is required' });
+    }
+
+    const settings = await InstitutionSettings.findSettings();
+    settings.logo = logoDataUrl(req.file);
+    settings.updatedBy = req.educator._id;
+    settings.updatedAt = new Date();
+    await settings.save();
+
+    res.json(toSettings(settings, req.educator));
+  } catch (error) {
+    if (error.status) {
+      return res.status(error.status).json({ message: error.message });
+    }
+    console.error('Error uploading logo:', error);
+    res.status(500).json({
+      message: 'Failed to upload logo',
+      error: error.message
+    });
+  }
+});
+
+// @route   DELETE /api/institution/settings/logo
+// @desc    Remove the institution logo
+// @access  Private (admin)
+router.delete('/settings/logo', [auth, admin], async (req, res) => {
+  try {
+    const settings = await InstitutionSettings.findSettings();
+    settings.logo = '';
+    settings.updatedBy = req.educator._id;
+    settings.updatedAt = new Date();
+    await settings.save();
+
+    res.json(toSettings(settings, req.educator));
+  } catch (error) {
+    console.error('Error removing logo:', error);
+    res.status(500).json({
+      message: 'Failed to remove logo',
+      error: error.message
+    });
+  }
+});
+
+// @route   GET /api/institution/branding
+// @desc    Letterhead as printed on papers of a course (?courseId=) or a department (?department=);
+//          the educator's own department by default
+// @access  Private
+router.get('/branding', auth, async (req, res) => {
+  try {
+    let department = req.query.department || req.educator.department;
+    if (req.query.courseId) {
+      const course = await Course.findById(req.query.courseId).select('department');
+      if (!course) {
+        return res.status(404).json({ message: 'Course not found' });
+      }
+      department = course.department;
+    }
+
+    res.json(await InstitutionSettings.resolveFor(department));
+  } catch (error) {
+    console.error('Error fetching branding:', error);
+    res.status(500).json({
+      message: 'Failed to fetch branding',
+      error: error.message
+    });
+  }
+});
+
+module.exports = router;
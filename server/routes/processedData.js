@@ -0,0 +1,335 @@
+// server/routes/processedData.js - Review, correction and versions of processed question bank data
+
+const express = require('express');
+const mongoose = require('mongoose');
+const { check, validationResult } = require('express-validator');
+const ProcessedData = require('../models/ProcessedData');
+const Course = require('../models/Course');
+const BankQuestion = require('../models/BankQuestion');
+const auth = require('../middlewares/auth');
+const {
+  BLOOM_LEVELS,
+  BULK_ACTIONS,
+  DIFFICULTIES,
+  applyBulkAction,
+  correctQuestion,
+  getSimilarityThreshold,
+  mergeQuestions,
+  splitQuestion,
+  summarizeReview
+} = require('../utils/bankReview');
+const { diffVersions } = require('../utils/bankVersions');
+
+const router = express.Router();
+
+// Load one of the educator's completed uploads, or send the error response
+async function loadReviewable(req, res) {
+  const processedData = await ProcessedData.findById(req.params.id)
+    .populate('course', 'name code');
+
+  if (!processedData) {
+    res.status(404).json({ message: 'Processed data not found' });
+    return null;
+  }
+
+  if (processedData.educator.toString() !== req.educator._id.toString()) {
+    res.status(401).json({ message: 'Not authorized' });
+    return null;
+  }
+
+  if (processedData.processingStatus !== 'COMPLETED') {
+    res.status(400).json({ message: 'Only processed uploads can be reviewed' });
+    return null;
+  }
+
+  return processedData;
+}
+
+const reviewResponse = processedData => {
+  const similarityThreshold = getSimilarityThreshold();
+  return {
+    ...processedData.toObject(),
+    similarityThreshold,
+    summary: summarizeReview(processedData.questions, similarityThreshold)
+  };
+};
+
+// Replace the question rows with a corrected copy and save; corrections to the version in use
+// reach the course's question bank straight away
+async function saveQuestions(processedData, questions) {
+  processedData.questions = questions;
+  await processedData.save();
+
+  const activeBank = await ProcessedData.findActiveBank(processedData.educator, processedData.course._id);
+  if (activeBank && activeBank._id.equals(processedData._id)) {
+    await BankQuestion.syncFromUpload(processedData);
+  }
+  return processedData;
+}
+
+const plainQuestions = processedData => processedData.questions.map(question => question.toObject());
+
+const versionSummary = processedData => ({
+  _id: processedData._id,
+  version: processedData.version,
+  isActive: processedData.isActive,
+  activatedAt: processedData.activatedAt,
+  processingStatus: processedData.processingStatus,
+  uploadMode: processedData.uploadMode,
+  mergedFrom: processedData.mergedFrom,
+  questionsCount: processedData.questions.length,
+  topicsCount: processedData.topics.length,
+  verifiedCount: processedData.questions.filter(question => question.verified).length,
+  originalFileNames: processedData.originalFileNames,
+  uploadedAt: processedData.uploadedAt,
+  processedAt: processedData.processedAt
+});
+
+// @route   GET /api/processed-data/course/:courseId/versions
+// @desc    All uploaded versions of a course's question bank, newest first
+// @access  Private
+router.get('/course/:courseId/versions', auth, async (req, res) => {
+  try {
+    const course = await Course.findById(req.params.courseId).select('name code');
+    if (!course) {
+      return res.status(404).json({ message: 'Course not found' });
+    }
+
+    const versions = await ProcessedData.find({
+      educator: req.educator._id,
+      course: course._id
+    })
+      .populate('mergedFrom', 'version')
+      .sort({ version: -1 });
+
+    res.json({ course, versions: versions.map(versionSummary) });
+  } catch (error) {
+    console.error('Error fetching bank versions:', error);
+    res.status(500).json({ message: 'Failed to fetch versions', error: error.message });
+  }
+});
+
+// @route   GET /api/processed-data/compare?from=:id&to=:id
+// @desc    Questions and topics added, removed or reclassified between two versions
+// @access  Private
+router.get('/compare', auth, async (req, res) => {
+  try {
+    const { from, to } = req.query;
+    if (!from || !to) {
+      return res.status(400).json({ message: 'Both versions to compare are required' });
+    }
+    if (![from, to].every(id => mongoose.Types.ObjectId.isValid(id))) {
+      return res.status(400).json({ message: 'Invalid version id' });
+    }
+
+    const versions = await ProcessedData.find({
+      _id: { $in: [from, to] },
+      educator: req.educator._id,
+      processingStatus: 'COMPLETED'
+    });
+    const fromVersion = versions.find(version => version._id.toString() === from);
+    const toVersion = versions.find(version => version._id.toString() === to);
+
+    if (!fromVersion || !toVersion) {
+      return res.status(404).json({ message: 'Processed version not found' });
+    }
+    if (fromVersion.course.toString() !== toVersion.course.toString()) {
+      return res.status(400).json({ message: 'Only versions of the same course can be compared' });
+    }
+
+    res.json({
+      from: versionSummary(fromVersion),
+      to: versionSummary(toVersion),
+      ...diffVersions(fromVersion.toObject(), toVersion.toObject())
+    });
+  } catch (error) {
+    console.error('Error comparing bank versions:', error);
+    res.status(500).json({ message: 'Failed to compare versions', error: error.message });
+  }
+});
+
+// @route   POST /api/processed-data/:id/activate
+// @desc    Make a completed version the course's active bank (also used to roll back)
+// @access  Private
+router.post('/:id/activate', auth, async (req, res) => {
+  try {
+    const processedData = await loadReviewable(req, res);
+    if (!processedData) return;
+
+    await processedData.activate();
+    console.log(`✅ Activated version ${processedData.version} for course ${processedData.course._id}`);
+
+    res.json({
+      message: `Version ${processedData.version} is now the active question bank`,
+      version: versionSummary(processedData)
+    });
+  } catch (error) {
+    console.error('Error activating bank version:', error);
+    res.status(500).json({ message: 'Failed to activate version', error: error.message });
+  }
+});
+
+// @route   GET /api/processed-data/:id
+// @desc    Get a processed upload with its review summary
+// @access  Private
+router.get('/:id', auth, async (req, res) => {
+  try {
+    const processedData = await loadReviewable(req, res);
+    if (!processedData) return;
+
+    res.json(reviewResponse(processedData));
+  } catch (error) {
+    console.error('Error fetching processed data:', error);
+    res.status(500).json({ message: 'Failed to fetch processed data', error: error.message });
+  }
+});
+
+// @route   PUT /api/processed-data/:id/questions/:questionId
+// @desc    Correct the text or classification of one question, or mark it verified
+// @access  Private
+router.put(
+  '/:id/questions/:questionId',
+  [
+    auth,
+    check('question', 'Question text cannot be empty').optional().trim().not().isEmpty(),
+    check('predicted_marks', 'Marks must be a positive number').optional().isFloat({ gt: 0 }),
+    check('bloom_level', 'Invalid Bloom level').optional().isIn(BLOOM_LEVELS),
+    check('difficulty', 'Invalid difficulty').optional().isIn(DIFFICULTIES),
+    check('matched_topic', 'Topic cannot be empty').optional().trim().not().isEmpty(),
+    check('matched_unit', 'Unit cannot be empty').optional().trim().not().isEmpty(),
+    check('verified', 'Verified must be true or false').optional().isBoolean()
+  ],
+  async (req, res) => {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({ errors: errors.array() });
+    }
+
+    try {
+      const processedData = await loadReviewable(req, res);
+      if (!processedData) return;
+
+      const questionId = Number(req.params.questionId);
+      const questions = plainQuestions(processedData);
+      const index = questions.findIndex(question => question.question_id === questionId);
+      if (index === -1) {
+        return res.status(404).json({ message: 'Question not found' });
+      }
+
+      const changes = { ...req.body };
+      if (changes.predicted_marks !== undefined) {
+        changes.predicted_marks = Number(changes.predicted_marks);
+      }
+      questions[index] = correctQuestion(questions[index], changes);
+
+      await saveQuestions(processedData, questions);
+      res.json(reviewResponse(processedData));
+    } catch (error) {
+      console.error('Error correcting question:', error);
+      res.status(500).json({ message: 'Failed to update question', error: error.message });
+    }
+  }
+);
+
+// @route   POST /api/processed-data/:id/questions/bulk
+// @desc    Verify, unverify or delete several questions at once
+// @access  Private
+router.post(
+  '/:id/questions/bulk',
+  [
+    auth,
+    check('action', `Action must be one of: ${BULK_ACTIONS.join(', ')}`).isIn(BULK_ACTIONS),
+    check('questionIds', 'Select at least one question').isArray({ min: 1 })
+  ],
+  async (req, res) => {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({ errors: errors.array() });
+    }
+
+    try {
+      const processedData = await loadReviewable(req, res);
+      if (!processedData) return;
+
+      const { action, questionIds } = req.body;
+      await saveQuestions(processedData, applyBulkAction(plainQuestions(processedData), questionIds, action));
+
+      res.json(reviewResponse(processedData));
+    } catch (error) {
+      console.error('Error applying bulk action:', error);
+      res.status(500).json({ message: 'Failed to update questions', error: error.message });
+    }
+  }
+);
+
+// @route   POST /api/processed-data/:id/questions/merge
+// @desc    Merge questions the processor split apart into one
+// @access  Private
+router.post(
+  '/:id/questions/merge',
+  [
+    auth,
+    check('questionIds', 'Select at least two questions to merge').isArray({ min: 2 })
+  ],
+  async (req, res) => {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({ errors: errors.array() });
+    }
+
+    try {
+      const processedData = await loadReviewable(req, res);
+      if (!processedData) return;
+
+      let questions;
+      try {
+        questions = mergeQuestions(plainQuestions(processedData), req.body.questionIds);
+      } catch (mergeError) {
+        return res.status(400).json({ message: mergeError.message });
+      }
+
+      await saveQuestions(processedData, questions);
+      res.json(reviewResponse(processedData));
+    } catch (error) {
+      console.error('Error merging questions:', error);
+      res.status(500).json({ message: 'Failed to merge questions', error: error.message });
+    }
+  }
+);
+
+// @route   POST /api/processed-data/:id/questions/:questionId/split
+// @desc    Split one question into several
+// @access  Private
+router.post(
+  '/:id/questions/:questionId/split',
+  [
+    auth,
+    check('parts', 'Provide at least two parts').isArray({ min: 2 })
+  ],
+  async (req, res) => {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({ errors: errors.array() });
+    }
+
+    try {
+      const processedData = await loadReviewable(req, res);
+      if (!processedData) return;
+
+      let questions;
+      try {
+        questions = splitQuestion(plainQuestions(processedData), req.params.questionId, req.body.parts);
+      } catch (splitError) {
+        return res.status(400).json({ message: splitError.message });
+      }
+
+      await saveQuestions(processedData, questions);
+      res.json(reviewResponse(processedData));
+    } catch (error) {
+      console.error('Error splitting question:', error);
+      res.status(500).json({ message: 'Failed to split question', error: error.message });
+    }
+  }
+);
+
+module.exports = router;
@@ -1,20 +1,146 @@
 // server/routes/questionPapers.js - Routes for managing generated question papers
 
 const express = require('express');
+const mongoose = require('mongoose');
+const { check, validationResult } = require('express-validator');
 const QuestionPaper = require('../models/QuestionPaper');
+const QuestionPaperRevision = require('../models/QuestionPaperRevision');
+const AnswerKey = require('../models/AnswerKey');
+const Department = require('../models/Department');
+const Exam = require('../models/Exam');
+const InstitutionSettings = require('../models/InstitutionSettings');
+const ProcessedData = require('../models/ProcessedData');
 const auth = require('../middlewares/auth');
+const admin = require('../middlewares/admin');
+const { DEFAULT_COOL_OFF, getReuseHistory } = require('../utils/reuseHistory');
+const { draftAnswer } = require('../utils/questionProviders');
+const { FORMATS, writeBankFile } = require('../utils/bankFormats');
+const { isObjective } = require('../utils/questionTypes');
+const { MAX_PAPER_SETS, SET_LABELS, compareSets } = require('../utils/paperSets');
+const { analyzePaper, writeAnalysisXlsx } = require('../utils/paperAnalysis');
+const { writeAnswerKeyDocx, writePaperDocx } = require('../utils/paperDocx');
+const { writeAnalysisPdf } = require('../utils/analysisPdf');
+const { resolvePattern } = require('../utils/examPatterns');
+const { isExamLocked, paperExamType } = require('../utils/exams');
+const {
+  availableTransitions,
+  getStatus,
+  isDeletable,
+  isEditable,
+  isOwner,
+  paperAccessFilter,
+  TRANSITIONS
+} = require('../utils/paperWorkflow');
 
 const router = express.Router();
 
+// Fields copied between a paper and its revision snapshots
+const REVISION_FIELDS = ['title', 'content', 'questions', 'totalMarks', 'totalQuestions', 'generationSource'];
+
+// Course, pattern and the people behind comments and status changes, as the detail page shows them
+const DETAIL_POPULATE = [
+  // Outcomes give the CO-wise marks table its statements; the department picks the letterhead
+  { path: 'course', select: 'name code department outcomes' },
+  { path: 'examPattern' },
+  // The exam's details head the paper; totalMarks holds the max marks of exams saved before
+  // the field was named maxMarks (see the Exam model)
+  { path: 'exam', select: 'title examType semester duration examDate instructions maxMarks totalMarks status' },
+  { path: 'educator', select: 'name email department' },
+  { path: 'reviewComments.author', select: 'name role' },
+  { path: 'statusHistory.by', select: 'name role' }
+];
+
+// The paper plus what the requesting educator may do with it
+const withTransitions = (questionPaper, educator) => ({
+  ...questionPaper.toObject(),
+  status: getStatus(questionPaper),
+  isOwner: isOwner(questionPaper, educator),
+  availableTransitions: availableTransitions(questionPaper, educator)
+});
+
+const EXAM_LOCKED_MESSAGE = 'The exam of this question paper is finalized; an admin must unlock it before any change';
+
+const notEditableMessage = questionPaper => questionPaper.examLocked
+  ? EXAM_LOCKED_MESSAGE
+  : `Question paper is ${getStatus(questionPaper).toLowerCase().replace('_', ' ')} and can no longer be edited`;
+
+// Snapshot the paper's current state as its current revision number
+function createRevision(questionPaper, extra = {}) {
+  const snapshot = {
+    paper: questionPaper._id,
+    educator: questionPaper.educator,
+    revision: questionPaper.revision,
+    ...extra
+  };
+  for (const field of REVISION_FIELDS) {
+    snapshot[field] = questionPaper[field];
+  }
+  return QuestionPaperRevision.create(snapshot);
+}
+
+// The educator's exam a paper is saved under; the paper takes its course, exam type and semester
+async function loadPaperExam(educator, examId) {
+  if (!mongoose.isValidObjectId(examId)) return null;
+  return Exam.findOne({ _id: examId, educator: educator._id });
+}
+
+// Fields a paper copies from its exam
+const examFields = exam => ({
+  exam: exam._id,
+  course: exam.course,
+  examType: paperExamType(exam.examType),
+  semester: exam.semester
+});
+
+// Papers saved before revisions existed get their current state recorded as revision 1 first
+async function ensureFirstRevision(questionPaper) {
+  const exists = await QuestionPaperRevision.exists({ paper: questionPaper._id });
+  if (!exists) {
+    await createRevision(questionPaper);
+  }
+}
+
+// Papers saved before patterns existed are laid out with the default pattern of their exam type
+const loadPaperPattern = questionPaper =>
+  questionPaper.examPattern || resolvePattern(questionPaper.educator, null, questionPaper.examType);
+
+// Everything a Word rendering needs: the paper with its course and exam, its pattern and its letterhead
+async function loadPaperForDocx(educator, paperId) {
+  const questionPaper = await QuestionPaper.findOne(paperAccessFilter(educator, paperId))
+    .populate(DETAIL_POPULATE.filter(({ path }) => ['course', 'examPattern', 'exam'].includes(path)));
+
+  if (!questionPaper) return null;
+
+  const [pattern, branding] = await Promise.all([
+    loadPaperPattern(questionPaper),
+    InstitutionSettings.resolveFor(questionPaper.course.department)
+  ]);
+  return { questionPaper, pattern, branding };
+}
+
+// File name as the client names its downloads, e.g. SEE_CS501_Semester5_SetB_QuestionPaper.docx
+const docxFilename = (questionPaper, document) =>
+  `${questionPaper.examType}_${questionPaper.course.code}_Semester${questionPaper.semester}` +
+  `${questionPaper.setLabel ? `_Set${questionPaper.setLabel}` : ''}_${document}.docx`;
+
+const DOCX_CONTENT_TYPE = 'application/vnd.openxmlformats-officedocument.wordprocessingml.document';
+
 // @route   POST /api/question-papers
 // @desc    Save a generated question paper
 // @access  Private
-router.post('/', auth, async (req, res) => {
+router.post('/', [
+  auth,
+  check('examId', 'Exam is required').not().isEmpty()
+], async (req, res) => {
+  const errors = validationResult(req);
+  if (!errors.isEmpty()) {
+    return res.status(400).json({ errors: errors.array() });
+  }
+
   try {
     const {
-      courseId,
-      examType,
-      semester,
+      examId,
+      patternId,
       title,
       content,
       questions,
@@ -24,11 +150,18 @@ router.post('/', auth, async (req, res) => {
       processedDataUsed
     } = req.body;
 
+    const exam = await loadPaperExam(req.educator, examId);
+    if (!exam) {
+      return res.status(404).json({ message: 'Exam not found' });
+    }
+    if (isExamLocked(exam)) {
+      return res.status(403).json({ message: 'The exam is finalized and takes no new papers' });
+    }
+
     const questionPaper = new QuestionPaper({
       educator: req.educator._id,
-      course: courseId,
-      examType,
-      semester,
+      ...examFields(exam),
+      examPattern: patternId || exam.examPattern,
       title,
       content,
       questions,
@@ -39,6 +172,7 @@ router.post('/', auth, async (req, res) => {
     });
 
     await questionPaper.save();
+    await createRevision(questionPaper);
 
     // Populate course information
     await questionPaper.populate('course', 'name code');
@@ -57,6 +191,77 @@ router.post('/', auth, async (req, res) => {
   }
 });
 
+// @route   POST /api/question-papers/sets
+// @desc    Save the parallel sets (A, B, C) of one generation run as linked question papers
+// @access  Private
+router.post('/sets', [
+  auth,
+  check('examId', 'Exam is required').not().isEmpty(),
+  check('sets', `Between 2 and ${MAX_PAPER_SETS} sets are required`).isArray({ min: 2, max: MAX_PAPER_SETS }),
+  check('sets.*.setLabel', `Set labels must be one of ${SET_LABELS.join(', ')}`).isIn(SET_LABELS)
+], async (req, res) => {
+  const errors = validationResult(req);
+  if (!errors.isEmpty()) {
+    return res.status(400).json({ errors: errors.array() });
+  }
+
+  try {
+    const { examId, patternId, title, processedDataUsed, sets } = req.body;
+
+    if (new Set(sets.map(set => set.setLabel)).size !== sets.length) {
+      return res.status(400).json({ message: 'Each set needs its own label' });
+    }
+
+    const exam = await loadPaperExam(req.educator, examId);
+    if (!exam) {
+      return res.status(404).json({ message: 'Exam not found' });
+    }
+    if (isExamLocked(exam)) {
+      return res.status(403).json({ message: 'The exam is finalized and takes no new papers' });
+    }
+
+    const setGroup = new mongoose.Types.ObjectId();
+    const questionPapers = [];
+    for (const set of sets) {
+      const questionPaper = new QuestionPaper({
+        educator: req.educator._id,
+        ...examFields(exam),
+        examPattern: patternId || exam.examPattern,
+        title: `${title} - Set ${set.setLabel}`,
+        content: set.content,
+        questions: set.questions,
+        totalMarks: set.totalMarks,
+        totalQuestions: set.totalQuestions,
+        generationSource: set.generationSource,
+        processedDataUsed,
+        setGroup,
+        setLabel: set.setLabel
+      });
+      await questionPaper.validate();
+      questionPapers.push(questionPaper);
+    }
+
+    // Every set is validated before any is saved, so a bad set leaves no partial group behind
+    for (const questionPaper of questionPapers) {
+      await questionPaper.save();
+      await createRevision(questionPaper);
+      await questionPaper.populate('course', 'name code');
+    }
+
+    res.status(201).json({
+      message: `${questionPapers.length} paper sets saved successfully`,
+      questionPapers
+    });
+
+  } catch (error) {
+    console.error('Error saving question paper sets:', error);
+    res.status(500).json({ 
+      message: 'Failed to save question paper sets',
+      error: error.message 
+    });
+  }
+});
+
 // @route   GET /api/question-papers
 // @desc    Get all question papers for current educator
 // @access  Private
@@ -82,6 +287,267 @@ router.get('/', auth, async (req, res) => {
 // @desc    Get a specific question paper
 // @access  Private
 router.get('/:id', auth, async (req, res) => {
+  try {
+    const questionPaper = await QuestionPaper.findOne(paperAccessFilter(req.educator, req.params.id))
+      .populate(DETAIL_POPULATE);
+
+    if (!questionPaper) {
+      return res.status(404).json({ message: 'Question paper not found' });
+    }
+
+    res.json({
+      ...withTransitions(questionPaper, req.educator),
+      // Letterhead the paper is printed with
+      branding: await InstitutionSettings.resolveFor(questionPaper.course.department)
+    });
+
+  } catch (error) {
+    console.error('Error fetching question paper:', error);
+    res.status(500).json({ 
+      message: 'Failed to fetch question paper',
+      error: error.message 
+    });
+  }
+});
+
+// @route   GET /api/question-papers/:id/sets
+// @desc    The other sets generated with a paper (Set A/B/C) and how equivalent they are
+// @access  Private
+router.get('/:id/sets', auth, async (req, res) => {
+  try {
+    const questionPaper = await QuestionPaper.findOne(paperAccessFilter(req.educator, req.params.id))
+      .select('educator setGroup');
+
+    if (!questionPaper) {
+      return res.status(404).json({ message: 'Question paper not found' });
+    }
+    if (!questionPaper.setGroup) {
+      return res.status(404).json({ message: 'This question paper is not one of a set' });
+    }
+
+    const papers = await QuestionPaper.find({ setGroup: questionPaper.setGroup, educator: questionPaper.educator })
+      .select('title setLabel status totalMarks questions')
+      .sort({ setLabel: 1 })
+      .lean();
+
+    res.json({
+      papers: papers.map(({ questions, ...paper }) => ({ ...paper, status: getStatus(paper) })),
+      equivalence: compareSets(papers.map(paper => ({ setLabel: paper.setLabel, questions: paper.questions })))
+    });
+
+  } catch (error) {
+    console.error('Error fetching question paper sets:', error);
+    res.status(500).json({ 
+      message: 'Failed to fetch question paper sets',
+      error: error.message 
+    });
+  }
+});
+
+// @route   PUT /api/question-papers/:id
+// @desc    Save a question paper again as a new revision
+// @access  Private
+router.put('/:id', auth, async (req, res) => {
+  try {
+    const questionPaper = await QuestionPaper.findOne({
+      _id: req.params.id,
+      educator: req.educator._id
+    });
+
+    if (!questionPaper) {
+      return res.status(404).json({ message: 'Question paper not found' });
+    }
+
+    if (!isEditable(questionPaper)) {
+      return res.status(403).json({ message: notEditableMessage(questionPaper) });
+    }
+
+    await ensureFirstRevision(questionPaper);
+
+    for (const field of REVISION_FIELDS) {
+      if (req.body[field] !== undefined) {
+        questionPaper[field] = req.body[field];
+      }
+    }
+    if (req.body.patternId) {
+      questionPaper.examPattern = req.body.patternId;
+    }
+    questionPaper.revision += 1;
+    questionPaper.updatedAt = new Date();
+
+    await questionPaper.save();
+    await createRevision(questionPaper, { note: req.body.note || '' });
+    await questionPaper.populate('course', 'name code');
+
+    res.json({
+      message: `Question paper saved as revision ${questionPaper.revision}`,
+      questionPaper
+    });
+
+  } catch (error) {
+    console.error('Error updating question paper:', error);
+    res.status(500).json({ 
+      message: 'Failed to update question paper',
+      error: error.message 
+    });
+  }
+});
+
+// @route   GET /api/question-papers/:id/revisions
+// @desc    List the revisions of a question paper, newest first
+// @access  Private
+router.get('/:id/revisions', auth, async (req, res) => {
+  try {
+    const questionPaper = await QuestionPaper.findOne(paperAccessFilter(req.educator, req.params.id));
+
+    if (!questionPaper) {
+      return res.status(404).json({ message: 'Question paper not found' });
+    }
+
+    await ensureFirstRevision(questionPaper);
+
+    const revisions = await QuestionPaperRevision.find({ paper: questionPaper._id })
+      .select('-questions -content')
+      .sort({ revision: -1 });
+
+    res.json(revisions);
+
+  } catch (error) {
+    console.error('Error fetching revisions:', error);
+    res.status(500).json({ 
+      message: 'Failed to fetch revisions',
+      error: error.message 
+    });
+  }
+});
+
+// @route   GET /api/question-papers/:id/revisions/:revision
+// @desc    Get one revision of a question paper with its questions
+// @access  Private
+router.get('/:id/revisions/:revision', auth, async (req, res) => {
+  try {
+    const questionPaper = await QuestionPaper.findOne(paperAccessFilter(req.educator, req.params.id));
+
+    if (!questionPaper) {
+      return res.status(404).json({ message: 'Question paper not found' });
+    }
+
+    const revision = await QuestionPaperRevision.findOne({
+      paper: questionPaper._id,
+      revision: parseInt(req.params.revision, 10)
+    });
+
+    if (!revision) {
+      return res.status(404).json({ message: 'Revision not found' });
+    }
+
+    res.json(revision);
+
+  } catch (error) {
+    console.error('Error fetching revision:', error);
+    res.status(500).json({ 
+      message: 'Failed to fetch revision',
+      error: error.message 
+    });
+  }
+});
+
+// @route   POST /api/question-papers/:id/revisions/:revision/restore
+// @desc    Restore an older revision; the restore is itself saved as a new revision
+// @access  Private
+router.post('/:id/revisions/:revision/restore', auth, async (req, res) => {
+  try {
+    const questionPaper = await QuestionPaper.findOne({
+      _id: req.params.id,
+      educator: req.educator._id
+    });
+
+    if (!questionPaper) {
+      return res.status(404).json({ message: 'Question paper not found' });
+    }
+
+    if (!isEditable(questionPaper)) {
+      return res.status(403).json({ message: notEditableMessage(questionPaper) });
+    }
+
+    const revision = await QuestionPaperRevision.findOne({
+      paper: questionPaper._id,
+      revision: parseInt(req.params.revision, 10)
+    });
+
+    if (!revision) {
+      return res.status(404).json({ message: 'Revision not found' });
+    }
+
+    for (const field of REVISION_FIELDS) {
+      questionPaper[field] = revision[field];
+    }
+    questionPaper.revision += 1;
+    questionPaper.updatedAt = new Date();
+
+    await questionPaper.save();
+    await createRevision(questionPaper, {
+      note: `Restored from revision ${revision.revision}`,
+      restoredFrom: revision.revision
+    });
+    await questionPaper.populate('course', 'name code');
+    await questionPaper.populate('examPattern');
+
+    res.json({
+      message: `Revision ${revision.revision} restored as revision ${questionPaper.revision}`,
+      questionPaper
+    });
+
+  } catch (error) {
+    console.error('Error restoring revision:', error);
+    res.status(500).json({ 
+      message: 'Failed to restore revision',
+      error: error.message 
+    });
+  }
+});
+
+// Answer key entries in paper order, for questions still on the paper
+function orderEntries(questionPaper, entries) {
+  const byId = new Map(entries.map(entry => [entry.questionId, entry]));
+  return questionPaper.questions
+    .map(question => byId.get(question.questionId))
+    .filter(Boolean);
+}
+
+// @route   GET /api/question-papers/:id/answer-key
+// @desc    Get the answer key of a question paper
+// @access  Private
+router.get('/:id/answer-key', auth, async (req, res) => {
+  try {
+    const questionPaper = await QuestionPaper.findOne(paperAccessFilter(req.educator, req.params.id));
+
+    if (!questionPaper) {
+      return res.status(404).json({ message: 'Question paper not found' });
+    }
+
+    const answerKey = await AnswerKey.findOne({ paper: questionPaper._id });
+
+    if (!answerKey) {
+      return res.status(404).json({ message: 'Answer key not found' });
+    }
+
+    res.json(answerKey);
+
+  } catch (error) {
+    console.error('Error fetching answer key:', error);
+    res.status(500).json({ 
+      message: 'Failed to fetch answer key',
+      error: error.message 
+    });
+  }
+});
+
+// @route   POST /api/question-papers/:id/answer-key/draft
+// @desc    Draft answer key entries through the question provider; all missing entries, or the given questionIds.
+//          Objective questions are keyed by their correct option on the paper and need no entry
+// @access  Private
+router.post('/:id/answer-key/draft', auth, async (req, res) => {
   try {
     const questionPaper = await QuestionPaper.findOne({
       _id: req.params.id,
@@ -92,12 +558,262 @@ router.get('/:id', auth, async (req, res) => {
       return res.status(404).json({ message: 'Question paper not found' });
     }
 
-    res.json(questionPaper);
+    if (questionPaper.examLocked) {
+      return res.status(403).json({ message: EXAM_LOCKED_MESSAGE });
+    }
+
+    const answerKey = await AnswerKey.findOne({ paper: questionPaper._id })
+      || new AnswerKey({ paper: questionPaper._id, educator: req.educator._id });
+
+    if (answerKey.locked) {
+      return res.status(403).json({ message: 'Answer key is locked' });
+    }
+
+    const { questionIds } = req.body;
+    const existing = new Map(answerKey.entries.map(entry => [entry.questionId, entry]));
+    const toDraft = questionPaper.questions.filter(question => !isObjective(question.type)).filter(question =>
+      Array.isArray(questionIds) ? questionIds.includes(question.questionId) : !existing.has(question.questionId)
+    );
+
+    // One at a time so a slow LLM endpoint is not flooded with a whole paper at once
+    for (const question of toDraft) {
+      const draft = await draftAnswer({ course: questionPaper.course, question });
+      existing.set(question.questionId, {
+        questionId: question.questionId,
+        questionText: question.text,
+        marks: question.marks,
+        keyPoints: draft.keyPoints,
+        modelAnswer: draft.modelAnswer,
+        provider: draft.provider,
+        edited: false
+      });
+    }
+
+    answerKey.entries = orderEntries(questionPaper, [...existing.values()]);
+    answerKey.updatedAt = new Date();
+    await answerKey.save();
+
+    res.json({
+      message: `Drafted ${toDraft.length} answer key entr${toDraft.length === 1 ? 'y' : 'ies'}`,
+      answerKey
+    });
 
   } catch (error) {
-    console.error('Error fetching question paper:', error);
+    console.error('Error drafting answer key:', error);
     res.status(500).json({ 
-      message: 'Failed to fetch question paper',
+      message: 'Failed to draft answer key',
+      error: error.message 
+    });
+  }
+});
+
+// @route   PUT /api/question-papers/:id/answer-key
+// @desc    Save the educator's edits to an answer key
+// @access  Private
+router.put('/:id/answer-key', [
+  auth,
+  check('entries', 'Entries must be a list').isArray(),
+  check('entries.*.questionId', 'Question ID is required').not().isEmpty(),
+  check('entries.*.keyPoints', 'Key points must be a list').isArray(),
+  check('entries.*.keyPoints.*.text', 'Key point text is required').not().isEmpty(),
+  check('entries.*.keyPoints.*.marks', 'Key point marks must be a number').isFloat({ min: 0 })
+], async (req, res) => {
+  const errors = validationResult(req);
+  if (!errors.isEmpty()) {
+    return res.status(400).json({ errors: errors.array() });
+  }
+
+  try {
+    const questionPaper = await QuestionPaper.findOne({
+      _id: req.params.id,
+      educator: req.educator._id
+    });
+
+    if (!questionPaper) {
+      return res.status(404).json({ message: 'Question paper not found' });
+    }
+
+    const answerKey = await AnswerKey.findOne({ paper: questionPaper._id });
+
+    if (!answerKey) {
+      return res.status(404).json({ message: 'Answer key not found' });
+    }
+
+    if (answerKey.locked) {
+      return res.status(403).json({ message: 'Answer key is locked' });
+    }
+
+    const questions = new Map(questionPaper.questions.map(question => [question.questionId, question]));
+    const previous = new Map(answerKey.entries.map(entry => [entry.questionId, entry]));
+
+    const entries = req.body.entries
+      .filter(entry => questions.has(entry.questionId))
+      .map(entry => ({
+        questionId: entry.questionId,
+        questionText: questions.get(entry.questionId).text,
+        marks: questions.get(entry.questionId).marks,
+        keyPoints: entry.keyPoints.map(point => ({ text: point.text, marks: Number(point.marks) })),
+        modelAnswer: entry.modelAnswer || '',
+        provider: previous.get(entry.questionId)?.provider,
+        edited: true
+      }));
+
+    answerKey.entries = orderEntries(questionPaper, entries);
+    answerKey.updatedAt = new Date();
+    await answerKey.save();
+
+    res.json({
+      message: 'Answer key saved successfully',
+      answerKey
+    });
+
+  } catch (error) {
+    console.error('Error saving answer key:', error);
+    res.status(500).json({ 
+      message: 'Failed to save answer key',
+      error: error.message 
+    });
+  }
+});
+
+// @route   POST /api/question-papers/:id/status
+// @desc    Move a paper through the review workflow (submit, request changes, approve, lock)
+// @access  Private (owner submits, admin reviews)
+router.post('/:id/status', [
+  auth,
+  check('status', 'Status is required').not().isEmpty()
+], async (req, res) => {
+  const errors = validationResult(req);
+  if (!errors.isEmpty()) {
+    return res.status(400).json({ errors: errors.array() });
+  }
+
+  try {
+    const { status, note } = req.body;
+    const questionPaper = await QuestionPaper.findOne(paperAccessFilter(req.educator, req.params.id));
+
+    if (!questionPaper) {
+      return res.status(404).json({ message: 'Question paper not found' });
+    }
+
+    if (questionPaper.examLocked) {
+      return res.status(403).json({ message: EXAM_LOCKED_MESSAGE });
+    }
+
+    const from = getStatus(questionPaper);
+    if (!TRANSITIONS[from] || !TRANSITIONS[from][status]) {
+      return res.status(400).json({ message: `Cannot move a paper from ${from} to ${status}` });
+    }
+
+    if (!availableTransitions(questionPaper, req.educator).includes(status)) {
+      return res.status(403).json({
+        message: TRANSITIONS[from][status] === 'reviewer'
+          ? 'Access denied. Admin privileges required.'
+          : 'Only the educator who set this paper can do that'
+      });
+    }
+
+    if (status === 'CHANGES_REQUESTED' && !(note || '').trim()) {
+      return res.status(400).json({ message: 'Describe the changes you are requesting' });
+    }
+
+    questionPaper.status = status;
+    questionPaper.statusHistory.push({
+      from,
+      to: status,
+      by: req.educator._id,
+      note: (note || '').trim()
+    });
+    questionPaper.updatedAt = new Date();
+    await questionPaper.save();
+
+    // The answer key is locked together with its paper
+    if (status === 'LOCKED') {
+      await AnswerKey.updateOne({ paper: questionPaper._id }, { locked: true, lockedAt: new Date() });
+    }
+
+    await questionPaper.populate(DETAIL_POPULATE);
+
+    res.json({
+      message: `Question paper moved to ${status}`,
+      questionPaper: withTransitions(questionPaper, req.educator)
+    });
+
+  } catch (error) {
+    console.error('Error changing question paper status:', error);
+    res.status(500).json({ 
+      message: 'Failed to change question paper status',
+      error: error.message 
+    });
+  }
+});
+
+// @route   POST /api/question-papers/:id/comments
+// @desc    Comment on a paper, or on one of its questions when questionId is given
+// @access  Private (owner or admin)
+router.post('/:id/comments', [
+  auth,
+  check('text', 'Comment text is required').trim().not().isEmpty()
+], async (req, res) => {
+  const errors = validationResult(req);
+  if (!errors.isEmpty()) {
+    return res.status(400).json({ errors: errors.array() });
+  }
+
+  try {
+    const { text, questionId } = req.body;
+    const questionPaper = await QuestionPaper.findOne(paperAccessFilter(req.educator, req.params.id));
+
+    if (!questionPaper) {
+      return res.status(404).json({ message: 'Question paper not found' });
+    }
+
+    if (questionId && !questionPaper.questions.some(question => question.questionId === questionId)) {
+      return res.status(400).json({ message: `Question ${questionId} is not on this paper` });
+    }
+
+    questionPaper.reviewComments.push({
+      author: req.educator._id,
+      questionId: questionId || undefined,
+      text,
+      revision: questionPaper.revision
+    });
+    await questionPaper.save();
+    await questionPaper.populate(DETAIL_POPULATE);
+
+    res.status(201).json({
+      message: 'Comment added',
+      questionPaper: withTransitions(questionPaper, req.educator)
+    });
+
+  } catch (error) {
+    console.error('Error adding comment:', error);
+    res.status(500).json({ 
+      message: 'Failed to add comment',
+      error: error.message 
+    });
+  }
+});
+
+// @route   GET /api/question-papers/review/queue
+// @desc    Papers of all educators waiting for review (or in the given status)
+// @access  Private (admin)
+router.get('/review/queue', [auth, admin], async (req, res) => {
+  try {
+    const status = req.query.status || 'SUBMITTED';
+
+    const questionPapers = await QuestionPaper.find({ status })
+      .select('-questions -content')
+      .populate('course', 'name code')
+      .populate('educator', 'name email department')
+      .sort({ updatedAt: 1 });
+
+    res.json(questionPapers);
+
+  } catch (error) {
+    console.error('Error fetching review queue:', error);
+    res.status(500).json({ 
+      message: 'Failed to fetch review queue',
       error: error.message 
     });
   }
@@ -138,12 +854,156 @@ router.put('/:id/download', auth, async (req, res) => {
   }
 });
 
+// @route   GET /api/question-papers/:id/export?format=csv|xlsx|moodle|gift
+// @desc    Download a paper's questions in a question bank format, e.g. to take them back to the LMS
+// @access  Private
+router.get('/:id/export', auth, async (req, res) => {
+  try {
+    const { format } = req.query;
+    if (!FORMATS[format]) {
+      return res.status(400).json({ message: `Format must be one of: ${Object.keys(FORMATS).join(', ')}` });
+    }
+
+    const questionPaper = await QuestionPaper.findOne(paperAccessFilter(req.educator, req.params.id))
+      .populate('course', 'name code');
+
+    if (!questionPaper) {
+      return res.status(404).json({ message: 'Question paper not found' });
+    }
+
+    const root = `${questionPaper.course.code} ${questionPaper.title}`;
+    const file = await writeBankFile(format, questionPaper.questions, { root });
+    const filename = root.replace(/[^a-z0-9]+/gi, '-').replace(/^-|-$/g, '');
+
+    res.type(FORMATS[format].contentType);
+    res.attachment(`${filename}.${FORMATS[format].extension}`);
+    res.send(file);
+
+  } catch (error) {
+    console.error('Error exporting question paper:', error);
+    res.status(500).json({ 
+      message: 'Failed to export question paper',
+      error: error.message 
+    });
+  }
+});
+
+// @route   GET /api/question-papers/:id/docx
+// @desc    Download a paper as a Word document for the exam cell to edit before printing;
+//          the client counts it through PUT /:id/download like its PDF
+// @access  Private
+router.get('/:id/docx', auth, async (req, res) => {
+  try {
+    const loaded = await loadPaperForDocx(req.educator, req.params.id);
+
+    if (!loaded) {
+      return res.status(404).json({ message: 'Question paper not found' });
+    }
+
+    const { questionPaper, pattern, branding } = loaded;
+    res.type(DOCX_CONTENT_TYPE);
+    res.attachment(docxFilename(questionPaper, 'QuestionPaper'));
+    res.send(await writePaperDocx(questionPaper, pattern, branding));
+
+  } catch (error) {
+    console.error('Error rendering question paper DOCX:', error);
+    res.status(500).json({ 
+      message: 'Failed to render question paper',
+      error: error.message 
+    });
+  }
+});
+
+// @route   GET /api/question-papers/:id/answer-key/docx
+// @desc    Download a paper's answer key (scheme of evaluation) as a Word document
+// @access  Private
+router.get('/:id/answer-key/docx', auth, async (req, res) => {
+  try {
+    const loaded = await loadPaperForDocx(req.educator, req.params.id);
+
+    if (!loaded) {
+      return res.status(404).json({ message: 'Question paper not found' });
+    }
+
+    const { questionPaper, pattern, branding } = loaded;
+    const answerKey = await AnswerKey.findOne({ paper: questionPaper._id });
+
+    res.type(DOCX_CONTENT_TYPE);
+    res.attachment(docxFilename(questionPaper, 'AnswerKey'));
+    res.send(await writeAnswerKeyDocx(questionPaper, pattern, answerKey ? answerKey.entries : [], branding));
+
+  } catch (error) {
+    console.error('Error rendering answer key DOCX:', error);
+    res.status(500).json({ 
+      message: 'Failed to render answer key',
+      error: error.message 
+    });
+  }
+});
+
+// @route   GET /api/question-papers/:id/analysis?format=json|xlsx|pdf
+// @desc    Analysis report of a paper for accreditation audits: marks per CO and Bloom level,
+//          unit coverage, the CO-PO matrix and PO attainment potential
+// @access  Private
+router.get('/:id/analysis', auth, async (req, res) => {
+  try {
+    const format = req.query.format || 'json';
+    if (!['json', 'xlsx', 'pdf'].includes(format)) {
+      return res.status(400).json({ message: 'Format must be one of: json, xlsx, pdf' });
+    }
+
+    const questionPaper = await QuestionPaper.findOne(paperAccessFilter(req.educator, req.params.id))
+      .populate('course', 'name code department outcomes poMapping');
+
+    if (!questionPaper) {
+      return res.status(404).json({ message: 'Question paper not found' });
+    }
+
+    const { course } = questionPaper;
+    const [department, processedData, branding] = await Promise.all([
+      Department.findOne({ name: course.department }),
+      // Syllabus units come from the bank of the educator who set the paper
+      ProcessedData.findActiveBank(questionPaper.educator, course._id),
+      InstitutionSettings.resolveFor(course.department)
+    ]);
+
+    const analysis = analyzePaper(
+      questionPaper,
+      course,
+      department ? department.programOutcomes : [],
+      processedData ? processedData.topics : []
+    );
+
+    if (format === 'json') {
+      return res.json({ ...analysis, branding });
+    }
+
+    const filename = `${course.code} ${questionPaper.title} analysis`.replace(/[^a-z0-9]+/gi, '-').replace(/^-|-$/g, '');
+    if (format === 'pdf') {
+      res.type('application/pdf');
+      res.attachment(`${filename}.pdf`);
+      return res.send(writeAnalysisPdf(analysis, branding));
+    }
+
+    res.type(FORMATS.xlsx.contentType);
+    res.attachment(`${filename}.xlsx`);
+    res.send(await writeAnalysisXlsx(analysis));
+
+  } catch (error) {
+    console.error('Error analysing question paper:', error);
+    res.status(500).json({ 
+      message: 'Failed to analyse question paper',
+      error: error.message 
+    });
+  }
+});
+
 // @route   DELETE /api/question-papers/:id
 // @desc    Delete a question paper
 // @access  Private
 router.delete('/:id', auth, async (req, res) => {
   try {
-    const questionPaper = await QuestionPaper.findOneAndDelete({
+    const questionPaper = await QuestionPaper.findOne({
       _id: req.params.id,
       educator: req.educator._id
     });
@@ -152,6 +1012,17 @@ router.delete('/:id', auth, async (req, res) => {
       return res.status(404).json({ message: 'Question paper not found' });
     }
 
+    if (!isDeletable(questionPaper)) {
+      return res.status(403).json({
+        message: questionPaper.examLocked ? EXAM_LOCKED_MESSAGE : 'Approved question papers cannot be deleted'
+      });
+    }
+
+    await questionPaper.deleteOne();
+
+    await QuestionPaperRevision.deleteMany({ paper: questionPaper._id });
+    await AnswerKey.deleteOne({ paper: questionPaper._id });
+
     res.json({ message: 'Question paper deleted successfully' });
 
   } catch (error) {
@@ -186,6 +1057,27 @@ router.get('/course/:courseId', auth, async (req, res) => {
   }
 });
 
+// @route   GET /api/question-papers/reuse/:courseId
+// @desc    Get how often and where each bank question of a course has been used
+// @access  Private
+router.get('/reuse/:courseId', auth, async (req, res) => {
+  try {
+    const { history } = await getReuseHistory(req.educator._id, req.params.courseId);
+
+    res.json({
+      history,
+      defaultCoolOff: DEFAULT_COOL_OFF
+    });
+
+  } catch (error) {
+    console.error('Error fetching reuse history:', error);
+    res.status(500).json({ 
+      message: 'Failed to fetch reuse history',
+      error: error.message 
+    });
+  }
+});
+
 // @route   GET /api/question-papers/stats
 // @desc    Get question paper statistics for educator
 // @access  Private
@@ -1,56 +1,135 @@
 // server/routes/questions.js - Enhanced with your exact processed data structure
 const express = require('express');
 const { check, validationResult } = require('express-validator');
-const Question = require('../models/Question');
 const Exam = require('../models/Exam');
+const Course = require('../models/Course');
 const ProcessedData = require('../models/ProcessedData');
+const BankQuestion = require('../models/BankQuestion');
 const auth = require('../middlewares/auth');
+const { resolvePattern } = require('../utils/examPatterns');
+const { assemblePaper, rankAlternatives, slotNegativeMarks, slotQuestionType } = require('../utils/paperAssembler');
+const { bloomLevelForDifficulty, generateQuestion } = require('../utils/questionProviders');
+const { loadCoolOff } = require('../utils/reuseHistory');
+const { toAssemblerQuestion } = require('../utils/questionBank');
+const { shuffleOptions } = require('../utils/questionTypes');
+const { DIFFICULTIES, normalizeDifficulty } = require('../utils/bankReview');
+const { coNumber, outcomeForTopic, resolveOutcome } = require('../utils/courseOutcomes');
+const { MAX_PAPER_SETS, SET_LABELS, blueprintTargets, compareSets } = require('../utils/paperSets');
+
+// Fresh questions generated for a slot until one is not already on the paper or an earlier set
+const MAX_GENERATION_ATTEMPTS = 3;
+
+const REPEATED_MESSAGE = `The question generator repeated a question already placed, even after ${MAX_GENERATION_ATTEMPTS} attempts`;
+
+const normalizeText = value => (value || '').toString().trim().toLowerCase().replace(/\s+/g, ' ');
 
 const router = express.Router();
 
 // @route   POST /api/questions/generate
-// @desc    Generate questions using processed data or AI
+// @desc    Generate questions using processed data or AI. With an `optionSeed`, the options of
+//          multiple choice questions are shuffled in an order fixed by the seed. A `setCount` of
+//          2 or 3 generates parallel sets (A, B, C) with no shared questions and an equivalence report
 // @access  Private
 router.post('/generate', auth, async (req, res) => {
   try {
-    const { courseId, examType, questionConfigs, useProcessedData = true } = req.body;
+    const {
+      courseId,
+      examType,
+      patternId,
+      questionConfigs,
+      targets,
+      coolOff,
+      optionSeed,
+      setCount = 1,
+      verifiedOnly = false,
+      useProcessedData = true
+    } = req.body;
     
     if (!courseId || !examType || !questionConfigs) {
       return res.status(400).json({ message: 'Missing required parameters' });
     }
     
-    let generatedQuestions = [];
-    let dataSource = 'ai_generated';
+    const count = parseInt(setCount, 10);
+    if (!(count >= 1 && count <= MAX_PAPER_SETS)) {
+      return res.status(400).json({ message: `Set count must be between 1 and ${MAX_PAPER_SETS}` });
+    }
     
-    if (useProcessedData) {
-      // Try to use processed data first
-      const processedData = await ProcessedData.findOne({
-        educator: req.educator._id,
-        course: courseId,
-        processingStatus: 'COMPLETED'
-      });
-      
-      if (processedData && processedData.questions.length > 0) {
-        console.log(`Found ${processedData.questions.length} processed questions`);
-        generatedQuestions = generateFromProcessedData(
-          processedData, 
-          examType, 
-          questionConfigs
+    const pattern = await resolvePattern(req.educator._id, patternId, examType);
+    if (!pattern) {
+      return res.status(400).json({ message: 'No exam pattern found for this exam type' });
+    }
+    
+    const course = await Course.findById(courseId);
+    if (!course) {
+      return res.status(404).json({ message: 'Course not found' });
+    }
+    
+    const reuse = await loadCoolOff(req.educator._id, courseId, coolOff);
+    
+    // Try to use the course's question bank first
+    const processedData = useProcessedData ? await ProcessedData.findActiveBank(req.educator._id, courseId) : null;
+    const bankQuestions = useProcessedData ? await loadBankQuestions(req.educator._id, courseId, verifiedOnly) : [];
+    const dataSource = bankQuestions.length > 0 ? 'processed_data' : 'ai_generated';
+    
+    // usedTexts holds every question already placed, so no set repeats one from an earlier set
+    const context = {
+      course,
+      syllabusTopics: processedData ? processedData.topics : [],
+      coolingIds: reuse.coolingIds,
+      usedTexts: new Set()
+    };
+    
+    if (bankQuestions.length > 0) {
+      console.log(`Found ${bankQuestions.length} bank questions${verifiedOnly ? ' (verified only)' : ''}`);
+    } else {
+      console.log('No bank questions found, using AI generation');
+    }
+    
+    const sets = [];
+    for (const setLabel of SET_LABELS.slice(0, count)) {
+      // Parts whose generated question repeats one already placed; reported rather than kept quietly
+      context.repeatedIds = [];
+      let result;
+      if (bankQuestions.length > 0) {
+        // Later sets follow the first set's Bloom, difficulty and CO mix wherever no target was given
+        const available = bankQuestions.filter(question => !context.usedTexts.has(normalizeText(question.question)));
+        result = await generateFromProcessedData(
+          context,
+          available,
+          pattern,
+          questionConfigs,
+          { ...blueprintTargets(sets[0] && sets[0].distribution), ...targets }
         );
-        dataSource = 'processed_data';
       } else {
-        console.log('No processed data found, using AI generation');
-        generatedQuestions = generateWithAI(courseId, examType, questionConfigs);
+        result = { questions: await generateWithAI(context, pattern, questionConfigs), relaxations: [], distribution: null };
       }
-    } else {
-      // Use AI generation directly
-      generatedQuestions = generateWithAI(courseId, examType, questionConfigs);
+      
+      for (const question of result.questions) {
+        context.usedTexts.add(normalizeText(question.text));
+      }
+      const relaxations = [
+        ...result.relaxations,
+        ...context.repeatedIds.map(questionId => ({ questionId, constraint: 'repeated', message: REPEATED_MESSAGE }))
+      ];
+      
+      let questions = result.questions;
+      if (optionSeed) {
+        questions = shuffleOptions(questions, count > 1 ? `${optionSeed}:${setLabel}` : optionSeed);
+      }
+      sets.push({ ...result, setLabel, relaxations, questions: annotateReuse(questions, reuse) });
     }
     
+    const [first] = sets;
     res.json({
-      questions: generatedQuestions,
+      questions: first.questions,
       source: dataSource,
-      totalQuestions: generatedQuestions.length
+      patternId: pattern._id,
+      coolOff: reuse.coolOff,
+      verifiedOnly,
+      relaxations: first.relaxations,
+      distribution: first.distribution,
+      totalQuestions: first.questions.length,
+      ...(count > 1 && { sets, equivalence: compareSets(sets) })
     });
     
   } catch (error) {
@@ -59,251 +138,226 @@ router.post('/generate', auth, async (req, res) => {
   }
 });
 
-// Function to generate questions from your processed data structure
-function generateFromProcessedData(processedData, examType, questionConfigs) {
-  const { questions, topics } = processedData;
-  const generatedQuestions = [];
-  
-  console.log(`Processing ${questions.length} questions and ${topics.length} topics`);
-  
-  if (examType === 'CIE') {
-    // Generate CIE questions (3 sections)
-    const sections = [1, 2, 3];
+// @route   POST /api/questions/alternatives
+// @desc    Rank bank questions that could replace one question of a generated paper
+// @access  Private
+router.post(
+  '/alternatives',
+  [
+    auth,
+    check('courseId', 'Course is required').not().isEmpty(),
+    check('examType', 'Exam type is required').not().isEmpty(),
+    check('config.questionId', 'Question config is required').not().isEmpty(),
+    check('config.section', 'Question config must have a section').isInt({ min: 1 })
+  ],
+  async (req, res) => {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({ errors: errors.array() });
+    }
     
-    for (const section of sections) {
-      const sectionConfigs = questionConfigs.filter(q => 
-        q.questionId.startsWith(section.toString()) &&
-        (!q.questionId.endsWith('c') || q.includeC)
-      );
+    try {
+      const { courseId, examType, patternId, config, excludeIds = [], coolOff, optionSeed, verifiedOnly = false, limit } = req.body;
       
-      for (const config of sectionConfigs) {
-        // Find matching questions from processed data using your exact structure
-        const matchingQuestions = questions.filter(q => {
-          // Match difficulty (your structure: Easy, Medium, Hard)
-          const difficultyMatch = q.difficulty && 
-            q.difficulty.toLowerCase() === config.level.toLowerCase();
-          
-          // Match marks (allow ±2 marks difference with your predicted_marks field)
-          const marksMatch = q.predicted_marks && 
-            Math.abs(q.predicted_marks - config.marks) <= 2;
-          
-          // Match unit preference
-          const unitMatch = q.matched_unit && 
-            q.matched_unit.toLowerCase().includes(`unit ${section.toString().toLowerCase()}`);
-          
-          // Match topic if specified
-          const topicMatch = !config.topic || 
-            (q.matched_topic && q.matched_topic.toLowerCase().includes(config.topic.toLowerCase()));
-          
-          return difficultyMatch && marksMatch && (unitMatch || topicMatch);
-        });
-        
-        // Sort by relevance using your similarity score
-        matchingQuestions.sort((a, b) => {
-          let scoreA = 0, scoreB = 0;
-          
-          // Higher topic_similarity is better (your field)
-          if (a.topic_similarity) scoreA += a.topic_similarity * 100;
-          if (b.topic_similarity) scoreB += b.topic_similarity * 100;
-          
-          // Exact marks match bonus
-          if (a.predicted_marks === config.marks) scoreA += 50;
-          if (b.predicted_marks === config.marks) scoreB += 50;
-          
-          // Unit match bonus
-          if (a.matched_unit && a.matched_unit.includes(`Unit ${section}`)) scoreA += 25;
-          if (b.matched_unit && b.matched_unit.includes(`Unit ${section}`)) scoreB += 25;
-          
-          return scoreB - scoreA;
-        });
-        
-        if (matchingQuestions.length > 0) {
-          // Select the best matching question
-          const selectedQuestion = matchingQuestions[0];
-          
-          generatedQuestions.push({
-            questionId: config.questionId,
-            text: selectedQuestion.question, // Your field name
-            marks: config.marks,
-            difficulty: config.level,
-            bloomLevel: selectedQuestion.bloom_level, // Your field name
-            unit: selectedQuestion.matched_unit, // Your field name
-            topic: selectedQuestion.matched_topic, // Your field name
-            source: 'processed_data',
-            originalId: selectedQuestion._id,
-            similarity: selectedQuestion.topic_similarity // Your field name
-          });
-        } else {
-          // Generate AI question if no match found
-          const aiQuestion = generateAIQuestionForConfig(config, section);
-          generatedQuestions.push(aiQuestion);
-        }
+      const pattern = await resolvePattern(req.educator._id, patternId, examType);
+      if (!pattern) {
+        return res.status(400).json({ message: 'No exam pattern found for this exam type' });
       }
+      
+      const reuse = await loadCoolOff(req.educator._id, courseId, coolOff);
+      const candidates = rankAlternatives({
+        bankQuestions: await loadBankQuestions(req.educator._id, courseId, verifiedOnly),
+        pattern,
+        config,
+        excludeIds,
+        coolingIds: reuse.coolingIds,
+        limit
+      });
+      
+      res.json({
+        questionId: config.questionId,
+        candidates: annotateReuse(optionSeed ? shuffleOptions(candidates, optionSeed) : candidates, reuse)
+      });
+      
+    } catch (error) {
+      console.error('Alternatives lookup error:', error);
+      res.status(500).json({ message: 'Failed to find alternative questions' });
+    }
+  }
+);
+
+// @route   POST /api/questions/regenerate
+// @desc    Generate a fresh question for one slot through the configured question provider
+// @access  Private
+router.post(
+  '/regenerate',
+  [
+    auth,
+    check('courseId', 'Course is required').not().isEmpty(),
+    check('examType', 'Exam type is required').not().isEmpty(),
+    check('config.questionId', 'Question config is required').not().isEmpty(),
+    check('config.section', 'Question config must have a section').isInt({ min: 1 })
+  ],
+  async (req, res) => {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({ errors: errors.array() });
     }
-  } else {
-    // Generate Semester End questions (5 COs, 2 questions each)
-    const cos = [1, 2, 3, 4, 5];
     
-    for (const co of cos) {
-      for (let setIdx = 1; setIdx <= 2; setIdx++) {
-        const questionNum = (co - 1) * 2 + setIdx;
-        const questionSet = questionConfigs.filter(q => 
-          parseInt(q.questionId) === questionNum &&
-          (!q.questionId.endsWith('c') || q.includeC)
-        );
-        
-        for (const config of questionSet) {
-          // Find matching questions for this CO
-          const matchingQuestions = questions.filter(q => {
-            const difficultyMatch = q.difficulty && 
-              q.difficulty.toLowerCase() === config.level.toLowerCase();
-            const marksMatch = q.predicted_marks && 
-              Math.abs(q.predicted_marks - config.marks) <= 3;
-            const topicMatch = !config.topic || 
-              (q.matched_topic && q.matched_topic.toLowerCase().includes(config.topic.toLowerCase()));
-            
-            return difficultyMatch && marksMatch && topicMatch;
-          });
-          
-          // Sort by similarity score
-          matchingQuestions.sort((a, b) => (b.topic_similarity || 0) - (a.topic_similarity || 0));
-          
-          if (matchingQuestions.length > 0) {
-            const selectedQuestion = matchingQuestions[0];
-            
-            generatedQuestions.push({
-              questionId: config.questionId,
-              text: selectedQuestion.question,
-              marks: config.marks,
-              difficulty: config.level,
-              bloomLevel: selectedQuestion.bloom_level,
-              unit: selectedQuestion.matched_unit,
-              topic: selectedQuestion.matched_topic,
-              co: co,
-              source: 'processed_data',
-              originalId: selectedQuestion._id,
-              similarity: selectedQuestion.topic_similarity
-            });
-          } else {
-            // Generate AI question if no match found
-            const aiQuestion = generateAIQuestionForConfig(config, null, co);
-            generatedQuestions.push(aiQuestion);
-          }
-        }
+    try {
+      const { courseId, examType, patternId, config, optionSeed } = req.body;
+      
+      const pattern = await resolvePattern(req.educator._id, patternId, examType);
+      if (!pattern) {
+        return res.status(400).json({ message: 'No exam pattern found for this exam type' });
+      }
+      
+      const section = pattern.sections[config.section - 1];
+      if (!section) {
+        return res.status(400).json({ message: 'Question config does not match the exam pattern' });
+      }
+      
+      const course = await Course.findById(courseId);
+      if (!course) {
+        return res.status(404).json({ message: 'Course not found' });
       }
+      
+      const processedData = await ProcessedData.findActiveBank(req.educator._id, courseId);
+      const context = { course, syllabusTopics: processedData ? processedData.topics : [] };
+      
+      const question = await generateAIQuestionForConfig(context, config, section, config.section);
+      res.json({ question: optionSeed ? shuffleOptions([question], optionSeed)[0] : question });
+      
+    } catch (error) {
+      console.error('Question regeneration error:', error);
+      res.status(500).json({ message: 'Failed to regenerate question' });
     }
   }
+);
+
+// Bank questions generation may draw from, in the assembler's field shape; verifiedOnly keeps
+// the questions an educator has checked. Untagged questions take the CO of their topic
+async function loadBankQuestions(educatorId, courseId, verifiedOnly) {
+  await ProcessedData.ensureBankImported(educatorId, courseId);
   
-  console.log(`Generated ${generatedQuestions.length} questions from processed data`);
-  return generatedQuestions;
+  const filter = { educator: educatorId, course: courseId };
+  if (verifiedOnly) filter.verified = true;
+  
+  const [questions, course] = await Promise.all([
+    BankQuestion.find(filter).lean(),
+    Course.findById(courseId).select('outcomes').lean()
+  ]);
+  const outcomes = (course && course.outcomes) || [];
+  return questions.map(question => toAssemblerQuestion({ ...question, co: resolveOutcome(outcomes, question) }));
+}
+
+// Attach cross-paper usage to bank questions; recentlyUsed marks picks made despite the cool-off
+function annotateReuse(questions, reuse) {
+  return questions.map(question => {
+    const entry = question.originalId && reuse.history[question.originalId];
+    if (!entry) return question;
+    
+    return {
+      ...question,
+      reuseCount: entry.count,
+      lastUsedAt: entry.lastUsedAt,
+      recentlyUsed: reuse.coolingIds.has(String(question.originalId))
+    };
+  });
+}
+
+// Configs for one pattern section that will actually appear on the paper
+function getActiveSectionConfigs(questionConfigs, sectionNumber) {
+  return questionConfigs.filter(q => q.section === sectionNumber && q.included !== false);
+}
+
+// Assemble the whole paper from processed data; parts the bank cannot fill fall back to AI
+async function generateFromProcessedData(context, bankQuestions, pattern, questionConfigs, targets) {
+  console.log(`Processing ${bankQuestions.length} questions and ${context.syllabusTopics.length} topics`);
+  
+  const assembled = await assemblePaper({
+    bankQuestions,
+    pattern,
+    questionConfigs,
+    targets,
+    coolingIds: context.coolingIds,
+    fallback: (config, section, sectionNumber) => generateAIQuestionForConfig(context, config, section, sectionNumber)
+  });
+  
+  console.log(`Generated ${assembled.questions.length} questions from processed data with ${assembled.relaxations.length} relaxations`);
+  return assembled;
 }
 
 // Function to generate AI questions when processed data is not available
-function generateWithAI(courseId, examType, questionConfigs) {
+async function generateWithAI(context, pattern, questionConfigs) {
   const generatedQuestions = [];
   
-  if (examType === 'CIE') {
-    const sections = [1, 2, 3];
-    
-    for (const section of sections) {
-      const sectionConfigs = questionConfigs.filter(q => 
-        q.questionId.startsWith(section.toString()) &&
-        (!q.questionId.endsWith('c') || q.includeC)
-      );
-      
-      for (const config of sectionConfigs) {
-        const aiQuestion = generateAIQuestionForConfig(config, section);
-        generatedQuestions.push(aiQuestion);
-      }
-    }
-  } else {
-    const cos = [1, 2, 3, 4, 5];
-    
-    for (const co of cos) {
-      for (let setIdx = 1; setIdx <= 2; setIdx++) {
-        const questionNum = (co - 1) * 2 + setIdx;
-        const questionSet = questionConfigs.filter(q => 
-          parseInt(q.questionId) === questionNum &&
-          (!q.questionId.endsWith('c') || q.includeC)
-        );
-        
-        for (const config of questionSet) {
-          const aiQuestion = generateAIQuestionForConfig(config, null, co);
-          generatedQuestions.push(aiQuestion);
-        }
-      }
+  for (const [idx, section] of pattern.sections.entries()) {
+    for (const config of getActiveSectionConfigs(questionConfigs, idx + 1)) {
+      generatedQuestions.push(await generateAIQuestionForConfig(context, config, section, idx + 1));
     }
   }
   
   return generatedQuestions;
 }
 
-// Helper function to generate AI question for specific config
-function generateAIQuestionForConfig(config, section = null, co = null) {
-  const topics = [
-    "process management", "memory management", "file systems", "I/O systems",
-    "CPU scheduling", "deadlock handling", "virtual memory", "disk scheduling",
-    "operating system security", "distributed systems", "system calls", "threading"
-  ];
+// Helper function to generate AI question for specific config through the configured provider
+async function generateAIQuestionForConfig(context, config, section, sectionNumber) {
+  const bloomLevel = bloomLevelForDifficulty(config.level);
+  const questionType = slotQuestionType(config, section);
+  const usedTexts = context.usedTexts || new Set();
   
-  const topic = config.topic || topics[Math.floor(Math.random() * topics.length)];
-  
-  const questionTemplates = {
-    "easy": [
-      `Define and explain ${topic} with suitable examples.`,
-      `List the key characteristics and features of ${topic}.`,
-      `What are the basic components of ${topic}? Explain briefly.`,
-      `Draw a simple diagram to illustrate ${topic}.`
-    ],
-    "medium": [
-      `Explain the working principle of ${topic} with detailed examples and applications.`,
-      `Analyze the advantages and disadvantages of ${topic} in operating systems.`,
-      `Describe the implementation process of ${topic} with algorithmic steps.`,
-      `Compare and contrast different approaches to ${topic}.`
-    ],
-    "hard": [
-      `Design and implement a comprehensive solution for ${topic} addressing complex scenarios.`,
-      `Critically evaluate the performance implications of ${topic} in modern operating systems.`,
-      `Develop an optimized algorithm for ${topic} and justify your design decisions.`,
-      `Create a novel approach for ${topic} to solve real-world system challenges.`
-    ]
-  };
-  
-  const templates = questionTemplates[config.level] || questionTemplates["medium"];
-  const questionText = templates[Math.floor(Math.random() * templates.length)];
+  let generated;
+  for (let attempt = 0; attempt < MAX_GENERATION_ATTEMPTS; attempt++) {
+    generated = await generateQuestion({
+      course: context.course,
+      unit: section.unit,
+      topic: config.topic,
+      bloomLevel,
+      marks: config.marks,
+      difficulty: config.level,
+      questionType,
+      syllabusTopics: context.syllabusTopics
+    });
+    if (!usedTexts.has(normalizeText(generated.text))) break;
+  }
+  if (usedTexts.has(normalizeText(generated.text))) {
+    console.warn(`Generated question for part ${config.questionId} repeats one already placed`);
+    if (context.repeatedIds) context.repeatedIds.push(config.questionId);
+  }
+  usedTexts.add(normalizeText(generated.text));
   
   return {
     questionId: config.questionId,
-    text: questionText,
+    section: sectionNumber,
+    text: generated.text,
+    type: questionType,
+    options: generated.options,
     marks: config.marks,
+    negativeMarks: slotNegativeMarks(config, section),
     difficulty: config.level,
-    bloomLevel: config.level === 'easy' ? 'L1' : config.level === 'medium' ? 'L3' : 'L5',
-    unit: section ? `Unit ${section}` : 'General',
-    topic: topic,
-    co: co,
-    source: 'ai_generated'
+    bloomLevel: generated.bloomLevel,
+    unit: section.unit || 'General',
+    topic: generated.topic,
+    co: config.co || section.co || coNumber(outcomeForTopic(context.course && context.course.outcomes, generated.topic)),
+    source: 'ai_generated',
+    provider: generated.provider
   };
 }
 
 // @route   POST /api/questions/filter
-// @desc    Filter questions from processed data using your exact structure
+// @desc    Filter questions from the course's question bank using your exact structure
 // @access  Private
 router.post('/filter', auth, async (req, res) => {
   try {
     const { courseId, difficulty, bloomLevel, unit, marks } = req.body;
     
-    const processedData = await ProcessedData.findOne({
-      educator: req.educator._id,
-      course: courseId,
-      processingStatus: 'COMPLETED'
-    });
+    let filteredQuestions = await loadBankQuestions(req.educator._id, courseId, false);
     
-    if (!processedData) {
-      return res.status(404).json({ message: 'No processed data found for this course' });
+    if (filteredQuestions.length === 0) {
+      return res.status(404).json({ message: 'No bank questions found for this course' });
     }
     
-    let filteredQuestions = processedData.questions;
-    
     // Apply filters using your exact field names
     if (difficulty) {
       filteredQuestions = filteredQuestions.filter(q => 
@@ -346,28 +400,24 @@ router.post('/filter', auth, async (req, res) => {
 // @access  Private
 router.get('/stats/:courseId', auth, async (req, res) => {
   try {
-    const processedData = await ProcessedData.findOne({
-      educator: req.educator._id,
-      course: req.params.courseId,
-      processingStatus: 'COMPLETED'
-    });
+    const processedData = await ProcessedData.findActiveBank(req.educator._id, req.params.courseId);
+    const questions = await loadBankQuestions(req.educator._id, req.params.courseId, false);
     
-    if (!processedData) {
-      return res.status(404).json({ message: 'No processed data found for this course' });
+    if (questions.length === 0) {
+      return res.status(404).json({ message: 'No bank questions found for this course' });
     }
     
-    const questions = processedData.questions;
-    const topics = processedData.topics;
+    const topics = processedData ? processedData.topics : [];
     
     // Calculate statistics using your exact field names
     const stats = {
       totalQuestions: questions.length,
       totalTopics: topics.length,
-      difficultyDistribution: {
-        easy: questions.filter(q => q.difficulty === 'Easy').length,
-        medium: questions.filter(q => q.difficulty === 'Medium').length,
-        hard: questions.filter(q => q.difficulty === 'Hard').length
-      },
+      // Bank rows are lower-case; rows processed before that may still read "Easy"
+      difficultyDistribution: Object.fromEntries(DIFFICULTIES.map(difficulty => [
+        difficulty,
+        questions.filter(q => normalizeDifficulty(q.difficulty) === difficulty).length
+      ])),
       bloomLevelDistribution: {},
       marksDistribution: {},
       unitDistribution: {},
@@ -11,6 +11,12 @@ const examsRoutes = require('./routes/exams');
 const questionsRoutes = require('./routes/questions');
 const fileUploadRoutes = require('./routes/fileUpload');
 const questionPaperRoutes = require('./routes/questionPapers'); // New route
+const examPatternRoutes = require('./routes/examPatterns');
+const processedDataRoutes = require('./routes/processedData');
+const bankQuestionRoutes = require('./routes/bankQuestions');
+const departmentRoutes = require('./routes/departments');
+const institutionRoutes = require('./routes/institution');
+const { startProcessingQueue } = require('./utils/processingQueue');
 
 // Initialize express app
 const app = express();
@@ -18,7 +24,13 @@ const PORT = process.env.PORT || 5000;
 
 // Middleware
 app.use(cors());
-app.use(express.json({ limit: '50mb' }));
+// Keep the raw body: processor callbacks are signed over the exact bytes sent
+app.use(express.json({
+  limit: '50mb',
+  verify: (req, res, buf) => {
+    req.rawBody = buf;
+  }
+}));
 app.use(express.urlencoded({ extended: true, limit: '50mb' }));
 
 // Static file serving for uploads
@@ -31,6 +43,11 @@ app.use('/api/exams', examsRoutes);
 app.use('/api/questions', questionsRoutes);
 app.use('/api/upload', fileUploadRoutes);
 app.use('/api/question-papers', questionPaperRoutes); // New route
+app.use('/api/exam-patterns', examPatternRoutes);
+app.use('/api/processed-data', processedDataRoutes);
+app.use('/api/bank-questions', bankQuestionRoutes);
+app.use('/api/departments', departmentRoutes);
+app.use('/api/institution', institutionRoutes);
 
 // Health check route
 app.get('/health', (req, res) => {
@@ -69,6 +86,9 @@ mongoose
   .connect(process.env.MONGODB_URI)
   .then(() => {
     console.log('✅ Connected to MongoDB');
+    startProcessingQueue().catch((err) => {
+      console.error('❌ Processing queue failed to start:', err);
+    });
     app.listen(PORT, () => {
       console.log(`🚀 Server running on port ${PORT}`);
       console.log(`📊 Health check available at http://localhost:${PORT}/health`);
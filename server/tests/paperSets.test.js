@@ -0,0 +1,54 @@
+// server/tests/paperSets.test.js - Equivalence report of parallel sets built by the paper assembler
+
+const test = require('node:test');
+const assert = require('node:assert/strict');
+const { assemblePaper } = require('../utils/paperAssembler');
+const { compareSets } = require('../utils/paperSets');
+
+const pattern = { sections: [{ unit: 'Unit 1' }] };
+const questionConfigs = [
+  { section: 1, questionId: '1a', marks: 5, level: 'medium' },
+  { section: 1, questionId: '1b', marks: 5, level: 'medium' }
+];
+
+const bankQuestion = (id, difficulty) => ({
+  _id: id,
+  question: `Question ${id}`,
+  predicted_marks: 5,
+  bloom_level: 'L3',
+  difficulty,
+  matched_unit: 'Unit 1',
+  matched_topic: 'Topic',
+  topic_similarity: 0.5
+});
+
+const fallback = async () => {
+  throw new Error('The bank fills every part');
+};
+
+test('sets drawn from bank questions of different difficulty differ in difficulty', async () => {
+  const setA = await assemblePaper({ bankQuestions: [bankQuestion('a1', 'easy'), bankQuestion('a2', 'easy')], pattern, questionConfigs, fallback });
+  const setB = await assemblePaper({ bankQuestions: [bankQuestion('b1', 'Hard'), bankQuestion('b2', 'hard')], pattern, questionConfigs, fallback });
+
+  assert.deepEqual(setA.questions.map(question => question.difficulty), ['easy', 'easy']);
+  assert.deepEqual(setB.questions.map(question => question.difficulty), ['hard', 'hard']);
+
+  const report = compareSets([
+    { setLabel: 'A', questions: setA.questions },
+    { setLabel: 'B', questions: setB.questions }
+  ]);
+  assert.equal(report.pairs[0].difficulty, 1);
+  assert.equal(report.equivalent, false);
+});
+
+test('sets of the same difficulty are equivalent', async () => {
+  const setA = await assemblePaper({ bankQuestions: [bankQuestion('a1', 'medium'), bankQuestion('a2', 'medium')], pattern, questionConfigs, fallback });
+  const setB = await assemblePaper({ bankQuestions: [bankQuestion('b1', 'medium'), bankQuestion('b2', 'medium')], pattern, questionConfigs, fallback });
+
+  const report = compareSets([
+    { setLabel: 'A', questions: setA.questions },
+    { setLabel: 'B', questions: setB.questions }
+  ]);
+  assert.equal(report.pairs[0].difficulty, 0);
+  assert.equal(report.equivalent, true);
+});
@@ -0,0 +1,184 @@
+// server/utils/analysisPdf.js - PDF rendering of a question paper's analysis report
+
+const { jsPDF } = require('jspdf');
+const { autoTable } = require('jspdf-autotable');
+const { letterheadContent, withSetLabel } = require('./paperHeader');
+
+const PAGE_MARGIN = 15;
+
+const LOGO_SIZE = 20;
+
+const HEADING_FILL = [235, 235, 235];
+
+const percent = value => `${Math.round((value || 0) * 100)}%`;
+
+const formatLevel = level => (level ? String(level) : '-');
+
+// Logo on the left, then institution name, affiliation, address and department line centred;
+// returns the y below it
+function drawLetterhead(doc, branding) {
+  const { logo, name, lines } = letterheadContent(branding);
+  const pageWidth = doc.internal.pageSize.getWidth();
+  let y = 18;
+
+  if (logo) {
+    doc.addImage(logo.dataUrl, logo.format, PAGE_MARGIN, 8, LOGO_SIZE, LOGO_SIZE);
+  }
+
+  doc.setFont('helvetica', 'bold');
+  doc.setFontSize(14);
+  doc.text(name, pageWidth / 2, y, { align: 'center' });
+
+  doc.setFont('helvetica', 'normal');
+  doc.setFontSize(10);
+  for (const line of lines) {
+    y += 5;
+    doc.text(line, pageWidth / 2, y, { align: 'center' });
+  }
+
+  return Math.max(y, logo ? 8 + LOGO_SIZE : y) + 6;
+}
+
+// A grey title row over the column headings; returns the y below the table
+function drawTable(doc, title, head, body, startY) {
+  autoTable(doc, {
+    startY,
+    theme: 'grid',
+    head: [[{ content: title, colSpan: head.length }], head],
+    body,
+    styles: { fontSize: 9, cellPadding: 2 },
+    headStyles: { fontStyle: 'bold', fillColor: HEADING_FILL, textColor: 0 },
+    columnStyles: { 0: { fontStyle: 'bold' } },
+    margin: { left: PAGE_MARGIN, right: PAGE_MARGIN, bottom: 15 }
+  });
+  return doc.lastAutoTable.finalY + 8;
+}
+
+// Horizontal bar per Bloom level, as long as its share of the paper's marks
+function drawBloomChart(doc, analysis, startY) {
+  const barHeight = 6;
+  const labelWidth = 14;
+  const chartWidth = doc.internal.pageSize.getWidth() - PAGE_MARGIN * 2 - labelWidth - 16;
+  let y = startY;
+
+  if (y + 8 + analysis.bloom.length * (barHeight + 2) > doc.internal.pageSize.getHeight() - 15) {
+    doc.addPage();
+    y = 20;
+  }
+
+  doc.setFont('helvetica', 'bold');
+  doc.setFontSize(10);
+  doc.text('BLOOM-LEVEL DISTRIBUTION', PAGE_MARGIN, y);
+  y += 4;
+
+  doc.setFont('helvetica', 'normal');
+  doc.setFontSize(9);
+  for (const row of analysis.bloom) {
+    doc.text(row.level || 'Not set', PAGE_MARGIN, y + barHeight - 1.5);
+    doc.setFillColor(...HEADING_FILL);
+    doc.rect(PAGE_MARGIN + labelWidth, y, chartWidth, barHeight, 'F');
+    if (row.share > 0) {
+      doc.setFillColor(60, 60, 60);
+      doc.rect(PAGE_MARGIN + labelWidth, y, chartWidth * row.share, barHeight, 'F');
+    }
+    doc.text(percent(row.share), PAGE_MARGIN + labelWidth + chartWidth + 2, y + barHeight - 1.5);
+    y += barHeight + 2;
+  }
+
+  return y + 6;
+}
+
+// Page numbers, with the exam cell's footer text above them on every page
+function drawPageNumbers(doc, branding) {
+  const pageCount = doc.getNumberOfPages();
+  const pageWidth = doc.internal.pageSize.getWidth();
+  const pageHeight = doc.internal.pageSize.getHeight();
+
+  doc.setFont('helvetica', 'normal');
+
+  for (let page = 1; page <= pageCount; page++) {
+    doc.setPage(page);
+    if (branding.footerText) {
+      doc.setFontSize(8);
+      doc.text(branding.footerText, pageWidth / 2, pageHeight - 12, { align: 'center' });
+    }
+    doc.setFontSize(9);
+    doc.text(`Page ${page} of ${pageCount}`, pageWidth / 2, pageHeight - 8, { align: 'center' });
+  }
+}
+
+// The analysis under the institution's letterhead: summary, CO and Bloom marks, unit coverage,
+// the CO-PO matrix and PO attainment when the department has POs, then the observations
+function writeAnalysisPdf(analysis, branding) {
+  const doc = new jsPDF({ unit: 'mm', format: 'a4' });
+  const pageWidth = doc.internal.pageSize.getWidth();
+  const { paper, course } = analysis;
+
+  const titleY = drawLetterhead(doc, branding);
+  doc.setFont('helvetica', 'bold');
+  doc.setFontSize(12);
+  doc.text(withSetLabel('QUESTION PAPER ANALYSIS', paper.setLabel), pageWidth / 2, titleY, { align: 'center' });
+
+  autoTable(doc, {
+    startY: titleY + 5,
+    theme: 'grid',
+    styles: { fontSize: 10, cellPadding: 2 },
+    columnStyles: { 0: { fontStyle: 'bold' }, 2: { fontStyle: 'bold' } },
+    body: [
+      ['Course', `${course.name} (${course.code})`, 'Department', course.department || '-'],
+      ['Paper', paper.title, 'Semester', paper.semester],
+      ['Max. Marks', String(paper.totalMarks), 'Questions', String(paper.totalQuestions)]
+    ],
+    margin: { left: PAGE_MARGIN, right: PAGE_MARGIN }
+  });
+
+  let y = doc.lastAutoTable.finalY + 8;
+
+  y = drawTable(doc, 'CO-WISE MARKS', ['CO', 'Course Outcome', 'Questions', 'Marks', '%'],
+    analysis.co.map(row => [row.code || '-', row.code ? row.statement : 'Questions without a CO', row.questionCount, row.marks, percent(row.share)]),
+    y);
+
+  y = drawTable(doc, 'BLOOM-LEVEL MARKS', ['Level', 'Questions', 'Marks', '%'],
+    analysis.bloom.map(row => [row.level || 'Not set', row.questionCount, row.marks, percent(row.share)]),
+    y);
+  y = drawBloomChart(doc, analysis, y);
+
+  y = drawTable(
+    doc,
+    `UNIT COVERAGE (${analysis.unitCoverage.covered} of ${analysis.unitCoverage.total} syllabus units)`,
+    ['Unit', 'Questions', 'Marks', '%', 'Topics Covered'],
+    analysis.units.map(row => [
+      row.unit || 'No unit',
+      row.questionCount,
+      row.marks,
+      percent(row.share),
+      row.syllabusTopics ? `${row.coveredTopics} of ${row.syllabusTopics}` : '-'
+    ]),
+    y
+  );
+
+  if (analysis.programOutcomes.length > 0) {
+    const poCodes = analysis.programOutcomes.map(outcome => outcome.code);
+    y = drawTable(doc, 'CO-PO ARTICULATION MATRIX', ['CO', ...poCodes], [
+      ...analysis.matrix.rows.map(row => [row.co, ...poCodes.map(code => formatLevel(row.levels[code]))]),
+      ['Average', ...poCodes.map(code => formatLevel(analysis.matrix.average[code]))]
+    ], y);
+
+    y = drawTable(doc, 'PO ATTAINMENT POTENTIAL', ['PO', 'Program Outcome', 'Marks', 'Level', 'Potential'],
+      analysis.programOutcomes.map(row => [row.code, row.statement, row.marks, formatLevel(row.level), percent(row.potential)]),
+      y);
+  }
+
+  if (analysis.warnings.length > 0) {
+    drawTable(doc, 'OBSERVATIONS', ['#', 'Observation'],
+      analysis.warnings.map((warning, idx) => [idx + 1, warning]),
+      y);
+  }
+
+  drawPageNumbers(doc, branding);
+  return Buffer.from(doc.output('arraybuffer'));
+}
+
+module.exports = {
+  writeAnalysisPdf
+};
@@ -0,0 +1,79 @@
+// server/utils/bankFormats/category.js - Moodle question categories and bank metadata tags
+//
+// Moodle has no fields for Bloom level, difficulty or course outcome, so exports carry them as
+// "name:value" tags (Moodle XML) or a comment line (GIFT), and file questions under a
+// unit/topic category. Imports read both back.
+
+const META_KEYS = {
+  marks: 'predicted_marks',
+  bloom: 'bloom_level',
+  difficulty: 'difficulty',
+  unit: 'matched_unit',
+  topic: 'matched_topic',
+  co: 'co'
+};
+
+const UNIT_PATTERN = /^(unit|module)\s*\d+/i;
+
+// Category segments that only say where in Moodle the category lives
+const CONTEXT_SEGMENTS = ['$course$', '$system$', '$module$', '$cat1$', 'top', 'default'];
+
+const cleanSegment = segment => segment.replace(/\/\//g, '/').trim();
+
+const isContextSegment = segment => CONTEXT_SEGMENTS.some(context => segment.toLowerCase().startsWith(context));
+
+// Unit and topic from a category path such as "$course$/top/CS501/Unit 2/Trees"
+function categoryFields(path) {
+  const segments = String(path || '')
+    .split(/(?<!\/)\/(?!\/)/)
+    .map(cleanSegment)
+    .filter(segment => segment && !isContextSegment(segment));
+
+  const unitIndex = segments.findIndex(segment => UNIT_PATTERN.test(segment));
+  if (unitIndex === -1) return {};
+
+  const fields = { matched_unit: segments[unitIndex] };
+  if (segments[unitIndex + 1]) fields.matched_topic = segments[unitIndex + 1];
+  return fields;
+}
+
+const escapeSegment = segment => String(segment).replace(/\//g, '//');
+
+// Category path a question is exported under: root, then its unit and topic when it has them
+function categoryPath(root, question) {
+  const segments = ['$course$', 'top', root, question.matched_unit, question.matched_topic]
+    .filter(Boolean)
+    .map((segment, idx) => (idx < 2 ? segment : escapeSegment(segment)));
+  return segments.join('/');
+}
+
+// "bloom:L2"-style pairs for a question's bank fields
+function metadataPairs(question) {
+  return Object.entries(META_KEYS)
+    .filter(([, field]) => question[field] !== undefined && question[field] !== null && question[field] !== '')
+    .map(([key, field]) => [key, String(question[field])]);
+}
+
+// Split "name:value" tags into bank fields and the remaining plain tags
+function readMetadataTags(tags) {
+  const fields = {};
+  const plain = [];
+  for (const tag of tags) {
+    const match = /^\s*([a-z]+)\s*:\s*(.+)$/i.exec(tag);
+    const field = match && META_KEYS[match[1].toLowerCase()];
+    if (field) {
+      fields[field] = match[2].trim();
+    } else if (tag.trim()) {
+      plain.push(tag.trim());
+    }
+  }
+  return { fields, tags: plain };
+}
+
+module.exports = {
+  META_KEYS,
+  categoryFields,
+  categoryPath,
+  metadataPairs,
+  readMetadataTags
+};
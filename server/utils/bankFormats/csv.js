@@ -0,0 +1,65 @@
+// server/utils/bankFormats/csv.js - RFC 4180 CSV reading and writing
+
+/**
+ * Parse CSV text into rows of cell strings. Handles quoted cells with commas, doubled quotes and
+ * line breaks, CRLF line endings and a leading byte order mark. Blank lines are kept, so a
+ * row's index is its line in the file.
+ */
+function parseCsv(text) {
+  const input = text.replace(/^\uFEFF/, '');
+  const rows = [];
+  let row = [];
+  let cell = '';
+  let quoted = false;
+
+  for (let idx = 0; idx < input.length; idx++) {
+    const char = input[idx];
+
+    if (quoted) {
+      if (char === '"' && input[idx + 1] === '"') {
+        cell += '"';
+        idx++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        cell += char;
+      }
+      continue;
+    }
+
+    if (char === '"') {
+      quoted = true;
+    } else if (char === ',') {
+      row.push(cell);
+      cell = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && input[idx + 1] === '\n') idx++;
+      row.push(cell);
+      rows.push(row);
+      row = [];
+      cell = '';
+    } else {
+      cell += char;
+    }
+  }
+
+  if (cell !== '' || row.length > 0) {
+    row.push(cell);
+    rows.push(row);
+  }
+
+  return rows;
+}
+
+const quoteCell = value => {
+  const text = value === undefined || value === null ? '' : String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+// Rows of cells as CSV text, CRLF separated as spreadsheets expect
+const toCsv = rows => rows.map(cells => cells.map(quoteCell).join(',')).join('\r\n') + '\r\n';
+
+module.exports = {
+  parseCsv,
+  toCsv
+};
@@ -0,0 +1,193 @@
+// server/utils/bankFormats/gift.js - GIFT question import and export
+
+const { META_KEYS, categoryFields, categoryPath, metadataPairs } = require('./category');
+
+const SPECIAL_CHARACTERS = /[~=#{}:\\]/g;
+
+const escapeGift = text => String(text).replace(SPECIAL_CHARACTERS, char => `\\${char}`).replace(/\r?\n/g, '\\n');
+
+const unescapeGift = text => text.replace(/\\(n|.)/g, (match, char) => (char === 'n' ? '\n' : char));
+
+// Index of the first occurrence of `char` not preceded by a backslash escape
+const findUnescaped = (text, char, from = 0) => {
+  for (let idx = from; idx < text.length; idx++) {
+    if (text[idx] === '\\') {
+      idx++;
+    } else if (text[idx] === char) {
+      return idx;
+    }
+  }
+  return -1;
+};
+
+// "// marks: 5; bloom: L2; tags: a, b" comment written by exports
+function readMetadataComment(comment) {
+  const fields = {};
+  for (const pair of comment.split(';')) {
+    const match = /^\s*([a-z]+)\s*:\s*(.*)$/i.exec(pair);
+    if (!match) continue;
+
+    const key = match[1].toLowerCase();
+    if (key === 'tags') {
+      fields.tags = match[2].split(',').map(tag => tag.trim()).filter(Boolean);
+    } else if (META_KEYS[key]) {
+      fields[META_KEYS[key]] = match[2].trim();
+    }
+  }
+  return fields;
+}
+
+// Text of one answer, without its feedback and weight; a 100% weight makes it correct
+function readAnswer(raw, isCorrect) {
+  const feedback = findUnescaped(raw, '#');
+  let text = (feedback === -1 ? raw : raw.slice(0, feedback)).trim();
+  const weight = /^%(-?[\d.]+)%/.exec(text);
+  if (weight) text = text.slice(weight[0].length);
+  return { text: unescapeGift(text).trim(), isCorrect: weight ? Number(weight[1]) >= 100 : isCorrect };
+}
+
+/**
+ * Question type and options of an answer block: {T} or {F} is true/false and a block with
+ * =right and ~wrong answers is multiple choice. Essay, short answer, matching and numeric
+ * blocks add nothing, so those questions are read as descriptive.
+ */
+function readAnswerBlock(body) {
+  const truth = /^(t|true|f|false)\s*(#|$)/i.exec(body.trim());
+  if (truth) {
+    return { question_type: 'TRUE_FALSE', options: [{ text: /^t/i.test(truth[1]) ? 'True' : 'False', isCorrect: true }] };
+  }
+
+  const answers = [];
+  for (let idx = 0; idx < body.length; idx++) {
+    if (body[idx] === '\\') {
+      if (answers.length > 0) answers[answers.length - 1].raw += body.slice(idx, idx + 2);
+      idx++;
+    } else if (body[idx] === '=' || body[idx] === '~') {
+      answers.push({ raw: '', isCorrect: body[idx] === '=' });
+    } else if (answers.length > 0) {
+      answers[answers.length - 1].raw += body[idx];
+    }
+  }
+
+  const isChoice = answers.length >= 2
+    && answers.some(answer => !answer.isCorrect)
+    && !answers.some(answer => answer.raw.includes('->'));
+  return isChoice
+    ? { question_type: 'MULTIPLE_CHOICE', options: answers.map(answer => readAnswer(answer.raw, answer.isCorrect)) }
+    : {};
+}
+
+// Question text of one GIFT item (title and format marker dropped, the answer block taken out,
+// and markup removed from [html] items), with the type and options its answers give
+function readItem(source) {
+  let text = source.trim();
+
+  if (text.startsWith('::')) {
+    const titleEnd = text.indexOf('::', 2);
+    if (titleEnd !== -1) text = text.slice(titleEnd + 2).trim();
+  }
+  const isHtml = /^\[html\]/i.test(text);
+  text = text.replace(/^\[(html|moodle|plain|markdown)\]/i, '');
+
+  let answers = {};
+  const open = findUnescaped(text, '{');
+  if (open !== -1) {
+    const close = findUnescaped(text, '}', open);
+    const after = close === -1 ? '' : text.slice(close + 1).trim();
+    answers = readAnswerBlock(text.slice(open + 1, close === -1 ? undefined : close));
+    text = text.slice(0, open).trim() + (after ? ` _____ ${after}` : '');
+  }
+
+  text = unescapeGift(text);
+  return {
+    question: (isHtml ? text.replace(/<br\s*\/?>/gi, '\n').replace(/<[^>]+>/g, '') : text).trim(),
+    ...answers
+  };
+}
+
+/**
+ * Read the questions of a GIFT file. Questions are separated by blank lines; a $CATEGORY line
+ * sets the unit and topic of the questions after it, and a metadata comment right before a
+ * question fills its marks, Bloom level and the like. Records are numbered by the line the
+ * question starts on.
+ */
+function parseGift(text) {
+  const lines = text.replace(/^\uFEFF/, '').split(/\r?\n/);
+  const records = [];
+  let category = {};
+  let metadata = {};
+  let block = [];
+  let blockStart = 0;
+
+  const flush = () => {
+    if (block.length === 0) return;
+    records.push({
+      row: blockStart,
+      fields: { ...category, tags: [], ...metadata, ...readItem(block.join('\n')) }
+    });
+    block = [];
+    metadata = {};
+  };
+
+  lines.forEach((line, idx) => {
+    const trimmed = line.trim();
+
+    if (trimmed === '') {
+      flush();
+    } else if (trimmed.startsWith('$CATEGORY:')) {
+      flush();
+      category = categoryFields(trimmed.slice('$CATEGORY:'.length));
+    } else if (trimmed.startsWith('//')) {
+      if (block.length === 0) metadata = { ...metadata, ...readMetadataComment(trimmed.slice(2)) };
+    } else {
+      if (block.length === 0) blockStart = idx + 1;
+      block.push(line);
+    }
+  });
+  flush();
+
+  return records;
+}
+
+const metadataComment = question => {
+  const pairs = metadataPairs(question).map(([key, value]) => `${key}: ${value.replace(/;/g, ',')}`);
+  if (question.tags && question.tags.length > 0) pairs.push(`tags: ${question.tags.join(', ')}`);
+  return pairs.length > 0 ? `// ${pairs.join('; ')}` : null;
+};
+
+// Answer block of a question: empty for essays, {T}/{F}, or one line per option
+const answerBlock = question => {
+  const options = question.options || [];
+  switch (question.question_type) {
+    case 'MULTIPLE_CHOICE':
+      return `{\n${options.map(option => `${option.is_correct ? '=' : '~'}${escapeGift(option.text)}`).join('\n')}\n}`;
+    case 'TRUE_FALSE':
+      return options.some(option => option.is_correct && option.text === 'True') ? '{T}' : '{F}';
+    default:
+      return '{}';
+  }
+};
+
+// A GIFT file of essay, multiple choice and true/false questions, filed under `root` by unit and topic
+function toGift(questions, { root = 'Question Bank' } = {}) {
+  const parts = [];
+  let currentCategory = null;
+
+  questions.forEach((question, idx) => {
+    const path = categoryPath(root, question);
+    if (path !== currentCategory) {
+      currentCategory = path;
+      parts.push(`$CATEGORY: ${path}`);
+    }
+
+    const comment = metadataComment(question);
+    parts.push([comment, `::Q${idx + 1}::${escapeGift(question.question)} ${answerBlock(question)}`].filter(Boolean).join('\n'));
+  });
+
+  return parts.join('\n\n') + '\n';
+}
+
+module.exports = {
+  parseGift,
+  toGift
+};
@@ -0,0 +1,246 @@
+// server/utils/bankFormats/index.js - Question bank import and export in CSV, XLSX, Moodle XML and GIFT
+
+const path = require('path');
+const { parseCsv, toCsv } = require('./csv');
+const { readXlsx, writeXlsx } = require('./xlsx');
+const { parseMoodleXml, toMoodleXml } = require('./moodleXml');
+const { parseGift, toGift } = require('./gift');
+const { FIELDS, OPTION_SEPARATOR, readTable, writeTable } = require('./table');
+const { BLOOM_LEVELS, DIFFICULTIES, normalizeDifficulty } = require('../bankReview');
+const { isObjective, normalizeOptions, validateOptions } = require('../questionTypes');
+const { normalizeTags } = require('../questionBank');
+const { normalizeCoCode } = require('../courseOutcomes');
+
+const FORMATS = {
+  csv: { label: 'CSV', extension: 'csv', contentType: 'text/csv; charset=utf-8', tabular: true },
+  xlsx: {
+    label: 'Excel',
+    extension: 'xlsx',
+    contentType: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+    tabular: true
+  },
+  moodle: { label: 'Moodle XML', extension: 'xml', contentType: 'application/xml; charset=utf-8' },
+  gift: { label: 'GIFT', extension: 'gift', contentType: 'text/plain; charset=utf-8' }
+};
+
+const EXTENSION_FORMATS = { '.csv': 'csv', '.xlsx': 'xlsx', '.xml': 'moodle', '.gift': 'gift', '.txt': 'gift' };
+
+// Bloom's taxonomy verbs some banks use instead of L1-L6
+const BLOOM_NAMES = {
+  remember: 'L1', remembering: 'L1', knowledge: 'L1',
+  understand: 'L2', understanding: 'L2', comprehension: 'L2',
+  apply: 'L3', applying: 'L3', application: 'L3',
+  analyze: 'L4', analyse: 'L4', analyzing: 'L4', analysing: 'L4', analysis: 'L4',
+  evaluate: 'L5', evaluating: 'L5', evaluation: 'L5',
+  create: 'L6', creating: 'L6', synthesis: 'L6'
+};
+
+// Question type names, compared lower-cased without punctuation
+const TYPE_ALIASES = {
+  descriptive: 'DESCRIPTIVE', essay: 'DESCRIPTIVE', theory: 'DESCRIPTIVE', longanswer: 'DESCRIPTIVE', shortanswer: 'DESCRIPTIVE',
+  mcq: 'MULTIPLE_CHOICE', multiplechoice: 'MULTIPLE_CHOICE', multichoice: 'MULTIPLE_CHOICE', objective: 'MULTIPLE_CHOICE',
+  truefalse: 'TRUE_FALSE', trueorfalse: 'TRUE_FALSE', tf: 'TRUE_FALSE', boolean: 'TRUE_FALSE'
+};
+
+const normalizeText = value => (value || '').toString().trim().toLowerCase().replace(/\s+/g, ' ');
+
+const isEmpty = value => value === undefined || value === null || String(value).trim() === '';
+
+const detectFormat = filename => EXTENSION_FORMATS[path.extname(filename || '').toLowerCase()];
+
+function normalizeBloom(value) {
+  const text = String(value).trim();
+  const level = /^(?:L|K|CL|BL)?\s*([1-6])$/i.exec(text);
+  if (level) return `L${level[1]}`;
+  return BLOOM_NAMES[text.toLowerCase()];
+}
+
+// "2" and "unit 2" both mean "Unit 2"; other unit names are kept as written
+function normalizeUnit(value) {
+  const text = String(value).trim();
+  const number = /^(?:unit\s*)?(\d+)$/i.exec(text);
+  return number ? `Unit ${number[1]}` : text;
+}
+
+const normalizeType = value => TYPE_ALIASES[String(value).toLowerCase().replace(/[^a-z]/g, '')];
+
+/**
+ * Options of an objective question. Moodle and GIFT give a list; spreadsheets give one
+ * "a | b | c" cell, where a leading * may mark the answer, and an answer column holding the
+ * option's letter, number or text (or true/false).
+ */
+function readOptions(type, options, answer) {
+  const list = Array.isArray(options)
+    ? options
+    : String(options ?? '').split(OPTION_SEPARATOR.trim()).map(text => {
+      const marked = /^\s*\*/.test(text);
+      return { text: marked ? text.replace(/^\s*\*/, '') : text, isCorrect: marked };
+    });
+
+  if (isEmpty(answer)) return normalizeOptions(type, list);
+
+  const key = String(answer).trim();
+  if (type === 'TRUE_FALSE') {
+    return normalizeOptions(type, [{ text: /^(t|true|yes|1)$/i.test(key) ? 'True' : 'False', isCorrect: true }]);
+  }
+
+  const letter = /^\(?([a-f])\)?$/i.exec(key);
+  const number = /^[1-6]$/.exec(key);
+  const cleaned = normalizeOptions(type, list.map(option => ({ ...option, isCorrect: false })));
+  const idx = letter
+    ? letter[1].toUpperCase().charCodeAt(0) - 65
+    : number ? Number(key) - 1 : cleaned.findIndex(option => normalizeText(option.text) === normalizeText(key));
+  return cleaned.map((option, optionIdx) => ({ ...option, isCorrect: optionIdx === idx }));
+}
+
+/**
+ * Check one imported record and bring it to the bank's field values. Fields the file leaves
+ * empty are taken from `defaults`.
+ *
+ * @returns {{ question: Object, errors: string[] }}
+ */
+function validateRecord(fields, defaults = {}) {
+  const value = field => (isEmpty(fields[field]) ? defaults[field] : fields[field]);
+  const errors = [];
+  const question = {};
+
+  question.question = isEmpty(fields.question) ? '' : String(fields.question).trim();
+  if (!question.question) errors.push('Question text is missing');
+
+  const type = fields.question_type;
+  question.question_type = isEmpty(type) ? 'DESCRIPTIVE' : normalizeType(type);
+  if (!question.question_type) {
+    errors.push(`Question type "${type}" is not descriptive, MCQ or true/false`);
+  } else if (isObjective(question.question_type)) {
+    const options = readOptions(question.question_type, fields.options, fields.answer);
+    const problem = validateOptions(question.question_type, options);
+    if (problem) errors.push(problem);
+    question.options = options.map(option => ({ text: option.text, is_correct: option.isCorrect }));
+  }
+
+  const marks = value('predicted_marks');
+  question.predicted_marks = Number(marks);
+  if (isEmpty(marks)) {
+    errors.push('Marks are missing');
+  } else if (!(question.predicted_marks > 0)) {
+    errors.push(`Marks "${marks}" are not a positive number`);
+  }
+
+  const bloom = value('bloom_level');
+  question.bloom_level = isEmpty(bloom) ? undefined : normalizeBloom(bloom);
+  if (isEmpty(bloom)) {
+    errors.push('Bloom level is missing');
+  } else if (!question.bloom_level) {
+    errors.push(`Bloom level "${bloom}" is not one of ${BLOOM_LEVELS.join(', ')}`);
+  }
+
+  const difficulty = value('difficulty');
+  question.difficulty = isEmpty(difficulty) ? undefined : normalizeDifficulty(difficulty);
+  if (isEmpty(difficulty)) {
+    errors.push('Difficulty is missing');
+  } else if (!question.difficulty) {
+    errors.push(`Difficulty "${difficulty}" is not one of ${DIFFICULTIES.join(', ')}`);
+  }
+
+  const unit = value('matched_unit');
+  if (!isEmpty(unit)) question.matched_unit = normalizeUnit(unit);
+  const topic = value('matched_topic');
+  if (!isEmpty(topic)) question.matched_topic = String(topic).trim();
+  const co = value('co');
+  if (!isEmpty(co)) question.co = normalizeCoCode(co);
+  question.tags = normalizeTags(fields.tags);
+
+  return { question, errors };
+}
+
+/**
+ * Validate every record of an import. Each gets a report entry: `valid`, `invalid` (with its
+ * errors) or `duplicate` when its text is already in the bank or earlier in the file.
+ */
+function buildImportReport(records, { defaults = {}, existingTexts = [] } = {}) {
+  const seen = new Set(existingTexts.map(normalizeText));
+
+  return records.map(record => {
+    const { question, errors } = validateRecord(record.fields, defaults);
+    const entry = { row: record.row, question, errors };
+    if (record.type) entry.type = record.type;
+
+    if (errors.length > 0) return { ...entry, status: 'invalid' };
+
+    const key = normalizeText(question.question);
+    if (seen.has(key)) {
+      return { ...entry, status: 'duplicate', errors: ['The same question is already in the bank or earlier in the file'] };
+    }
+    seen.add(key);
+    return { ...entry, status: 'valid' };
+  });
+}
+
+const summarizeReport = report => ({
+  total: report.length,
+  valid: report.filter(entry => entry.status === 'valid').length,
+  invalid: report.filter(entry => entry.status === 'invalid').length,
+  duplicate: report.filter(entry => entry.status === 'duplicate').length
+});
+
+/**
+ * Read an uploaded bank file into import records. Spreadsheets also return their columns and
+ * the column mapping used, so the educator can correct it and import again.
+ */
+async function readBankFile(format, buffer, mapping = {}) {
+  switch (format) {
+    case 'csv':
+      return readTable(parseCsv(buffer.toString('utf8')), mapping);
+    case 'xlsx':
+      return readTable(await readXlsx(buffer), mapping);
+    case 'moodle':
+      return { records: parseMoodleXml(buffer.toString('utf8')) };
+    case 'gift':
+      return { records: parseGift(buffer.toString('utf8')) };
+    default:
+      throw new Error(`Unsupported format "${format}"`);
+  }
+}
+
+// A bank or paper question (both use text/marks/bloomLevel/...) in the exporters' field names
+const toExportQuestion = question => ({
+  question: question.text,
+  question_type: question.type || 'DESCRIPTIVE',
+  options: (question.options || []).map(option => ({ text: option.text, is_correct: !!option.isCorrect })),
+  predicted_marks: question.marks,
+  bloom_level: question.bloomLevel,
+  difficulty: question.difficulty,
+  matched_unit: question.unit,
+  matched_topic: question.topic,
+  // Papers keep the CO as a number
+  co: isEmpty(question.co) ? undefined : normalizeCoCode(question.co),
+  tags: question.tags || []
+});
+
+// File contents for exported questions; `root` names the Moodle category they are filed under
+async function writeBankFile(format, questions, { root } = {}) {
+  const rows = questions.map(toExportQuestion);
+  switch (format) {
+    case 'csv':
+      return Buffer.from(toCsv(writeTable(rows)), 'utf8');
+    case 'xlsx':
+      return writeXlsx(writeTable(rows));
+    case 'moodle':
+      return Buffer.from(toMoodleXml(rows, { root }), 'utf8');
+    case 'gift':
+      return Buffer.from(toGift(rows, { root }), 'utf8');
+    default:
+      throw new Error(`Unsupported format "${format}"`);
+  }
+}
+
+module.exports = {
+  FIELDS,
+  FORMATS,
+  buildImportReport,
+  detectFormat,
+  readBankFile,
+  summarizeReport,
+  validateRecord,
+  writeBankFile
+};
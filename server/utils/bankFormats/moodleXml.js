@@ -0,0 +1,197 @@
+// server/utils/bankFormats/moodleXml.js - Moodle XML question import and export
+
+const { categoryFields, categoryPath, metadataPairs, readMetadataTags } = require('./category');
+
+const ENTITIES = { amp: '&', lt: '<', gt: '>', quot: '"', apos: "'", nbsp: ' ' };
+
+const decodeEntities = text => text.replace(/&(#x[0-9a-f]+|#\d+|[a-z]+);/gi, (match, entity) => {
+  if (entity[0] === '#') {
+    const code = entity[1].toLowerCase() === 'x' ? parseInt(entity.slice(2), 16) : parseInt(entity.slice(1), 10);
+    return Number.isFinite(code) ? String.fromCodePoint(code) : match;
+  }
+  return ENTITIES[entity.toLowerCase()] ?? match;
+});
+
+const escapeXml = text => String(text)
+  .replace(/&/g, '&amp;')
+  .replace(/</g, '&lt;')
+  .replace(/>/g, '&gt;')
+  .replace(/"/g, '&quot;');
+
+// Character data of an element: CDATA sections as is, everything else entity-decoded
+const elementText = raw => {
+  if (raw === undefined) return undefined;
+  return raw
+    .split(/(<!\[CDATA\[[\s\S]*?\]\]>)/)
+    .map(part => (part.startsWith('<![CDATA[') ? part.slice(9, -3) : decodeEntities(part)))
+    .join('');
+};
+
+// Inner markup of the first <tag>...</tag> in a fragment
+const firstElement = (xml, tag) => {
+  const match = new RegExp(`<${tag}(?:\\s[^>]*)?>([\\s\\S]*?)</${tag}>`).exec(xml);
+  return match ? match[1] : undefined;
+};
+
+// Text of the <text> child of the first <tag>, e.g. <questiontext><text>..</text></questiontext>
+const childText = (xml, tag) => {
+  const element = firstElement(xml, tag);
+  return element === undefined ? undefined : elementText(firstElement(element, 'text'));
+};
+
+// Question text is HTML in Moodle; the bank keeps plain text with line breaks
+const htmlToText = html => decodeEntities(
+  html
+    .replace(/<br\s*\/?>/gi, '\n')
+    .replace(/<\/p>/gi, '\n\n')
+    .replace(/<\/(div|li|h[1-6])>/gi, '\n')
+    .replace(/<[^>]+>/g, '')
+)
+  .replace(/[ \t]+\n/g, '\n')
+  .replace(/\n{3,}/g, '\n\n')
+  .trim();
+
+const textToHtml = text => String(text)
+  .split(/\n{2,}/)
+  .map(paragraph => `<p>${escapeXml(paragraph).replace(/\n/g, '<br>')}</p>`)
+  .join('');
+
+const cdata = text => `<![CDATA[${String(text).replace(/]]>/g, ']]]]><![CDATA[>')}]]>`;
+
+const OBJECTIVE_TYPES = { multichoice: 'MULTIPLE_CHOICE', truefalse: 'TRUE_FALSE' };
+
+// Question type and options of a multiple choice or true/false question
+function readAnswers(type, body) {
+  if (!OBJECTIVE_TYPES[type]) return {};
+
+  const options = [...body.matchAll(/<answer\s+fraction="([^"]*)"[^>]*>([\s\S]*?)<\/answer>/g)]
+    .map(([, fraction, answer]) => ({
+      text: htmlToText(elementText(firstElement(answer, 'text')) || ''),
+      isCorrect: Number(fraction) >= 100
+    }));
+  return { question_type: OBJECTIVE_TYPES[type], options };
+}
+
+/**
+ * Read the questions of a Moodle XML export. Category entries set the unit and topic of the
+ * questions after them; "name:value" tags fill Bloom level, difficulty, CO and the like.
+ * Multiple choice and true/false questions keep their answers (the one worth full marks is
+ * correct); every other type is read as a descriptive question with its text and default grade.
+ */
+function parseMoodleXml(xml) {
+  const records = [];
+  let category = {};
+  let number = 0;
+
+  const questionPattern = /<question\s+type="([^"]*)"[^>]*>([\s\S]*?)<\/question>/g;
+  let match;
+  while ((match = questionPattern.exec(xml)) !== null) {
+    const [, type, body] = match;
+
+    if (type === 'category') {
+      category = categoryFields(childText(body, 'category'));
+      continue;
+    }
+
+    number++;
+    const tagsXml = firstElement(body, 'tags') || '';
+    const rawTags = [...tagsXml.matchAll(/<tag(?:\s[^>]*)?>([\s\S]*?)<\/tag>/g)]
+      .map(tag => elementText(firstElement(tag[1], 'text')) || '');
+    const { fields: tagged, tags } = readMetadataTags(rawTags);
+    const questionText = childText(body, 'questiontext');
+
+    records.push({
+      row: number,
+      type,
+      fields: {
+        ...category,
+        question: questionText === undefined ? '' : htmlToText(questionText),
+        ...readAnswers(type, body),
+        predicted_marks: elementText(firstElement(body, 'defaultgrade')),
+        ...tagged,
+        tags
+      }
+    });
+  }
+
+  return records;
+}
+
+const tagXml = text => `      <tag><text>${escapeXml(text)}</text></tag>`;
+
+const answerXml = (text, isCorrect) =>
+  `    <answer fraction="${isCorrect ? 100 : 0}" format="html"><text>${cdata(text)}</text></answer>`;
+
+// Elements that differ by question type: essays take a typed response, the others their answers
+const typeXml = question => {
+  const options = question.options || [];
+  switch (question.question_type) {
+    case 'MULTIPLE_CHOICE':
+      return [
+        '    <single>true</single>',
+        // The options are in the order printed on the paper
+        '    <shuffleanswers>0</shuffleanswers>',
+        '    <answernumbering>ABCD</answernumbering>',
+        ...options.map(option => answerXml(escapeXml(option.text), option.is_correct))
+      ];
+    case 'TRUE_FALSE': {
+      const isTrue = options.some(option => option.is_correct && option.text === 'True');
+      return [answerXml('true', isTrue), answerXml('false', !isTrue)];
+    }
+    default:
+      return [
+        '    <responseformat>editor</responseformat>',
+        '    <responserequired>1</responserequired>',
+        '    <responsefieldlines>15</responsefieldlines>',
+        '    <attachments>0</attachments>',
+        '    <attachmentsrequired>0</attachmentsrequired>',
+        '    <graderinfo format="html"><text></text></graderinfo>',
+        '    <responsetemplate format="html"><text></text></responsetemplate>'
+      ];
+  }
+};
+
+const MOODLE_TYPES = { MULTIPLE_CHOICE: 'multichoice', TRUE_FALSE: 'truefalse' };
+
+const questionXml = (question, number) => {
+  const tags = [
+    ...metadataPairs(question).filter(([key]) => key !== 'marks').map(([key, value]) => `${key}:${value}`),
+    ...(question.tags || [])
+  ];
+
+  return [
+    `  <question type="${MOODLE_TYPES[question.question_type] || 'essay'}">`,
+    `    <name><text>${escapeXml(`Q${number}`)}</text></name>`,
+    `    <questiontext format="html"><text>${cdata(textToHtml(question.question))}</text></questiontext>`,
+    '    <generalfeedback format="html"><text></text></generalfeedback>',
+    `    <defaultgrade>${Number(question.predicted_marks) || 1}</defaultgrade>`,
+    '    <penalty>0</penalty>',
+    '    <hidden>0</hidden>',
+    ...typeXml(question),
+    ...(tags.length > 0 ? ['    <tags>', ...tags.map(tagXml), '    </tags>'] : []),
+    '  </question>'
+  ].join('\n');
+};
+
+// A Moodle XML file of essay, multiple choice and true/false questions, filed under `root` by unit and topic
+function toMoodleXml(questions, { root = 'Question Bank' } = {}) {
+  const parts = ['<?xml version="1.0" encoding="UTF-8"?>', '<quiz>'];
+  let currentCategory = null;
+
+  questions.forEach((question, idx) => {
+    const path = categoryPath(root, question);
+    if (path !== currentCategory) {
+      currentCategory = path;
+      parts.push(`  <question type="category">\n    <category><text>${escapeXml(path)}</text></category>\n  </question>`);
+    }
+    parts.push(questionXml(question, idx + 1));
+  });
+
+  parts.push('</quiz>', '');
+  return parts.join('\n');
+}
+
+module.exports = {
+  parseMoodleXml,
+  toMoodleXml
+};
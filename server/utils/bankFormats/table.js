@@ -0,0 +1,122 @@
+// server/utils/bankFormats/table.js - Column mapping for spreadsheet (CSV/XLSX) question banks
+
+const { optionLetter } = require('../questionTypes');
+
+// Bank fields a column can be mapped to, in the order exports write them
+const FIELDS = [
+  'question', 'question_type', 'options', 'answer',
+  'predicted_marks', 'bloom_level', 'difficulty', 'matched_unit', 'matched_topic', 'co', 'tags'
+];
+
+// Spreadsheets list a question's options in one cell
+const OPTION_SEPARATOR = ' | ';
+
+const TYPE_NAMES = { DESCRIPTIVE: 'Descriptive', MULTIPLE_CHOICE: 'MCQ', TRUE_FALSE: 'True/False' };
+
+// Header names recognised without an explicit mapping, compared lower-cased without punctuation
+const COLUMN_ALIASES = {
+  question: ['question', 'questiontext', 'text', 'questions'],
+  question_type: ['type', 'questiontype', 'qtype'],
+  options: ['options', 'choices', 'alternatives'],
+  answer: ['answer', 'correctanswer', 'correctoption', 'key', 'answerkey'],
+  predicted_marks: ['marks', 'predictedmarks', 'mark', 'points', 'grade', 'maxmarks'],
+  bloom_level: ['bloomlevel', 'bloom', 'bloomslevel', 'bl', 'rbt', 'rbtlevel', 'cognitivelevel'],
+  difficulty: ['difficulty', 'difficultylevel', 'level'],
+  matched_unit: ['unit', 'matchedunit', 'module'],
+  matched_topic: ['topic', 'matchedtopic'],
+  co: ['co', 'courseoutcome', 'outcome'],
+  tags: ['tags', 'tag', 'keywords']
+};
+
+// Header row written by exports; imports of an exported file map themselves
+const EXPORT_HEADERS = {
+  question: 'Question',
+  question_type: 'Type',
+  options: 'Options',
+  answer: 'Answer',
+  predicted_marks: 'Marks',
+  bloom_level: 'Bloom Level',
+  difficulty: 'Difficulty',
+  matched_unit: 'Unit',
+  matched_topic: 'Topic',
+  co: 'CO',
+  tags: 'Tags'
+};
+
+const headerKey = header => String(header || '').toLowerCase().replace(/[^a-z0-9]/g, '');
+
+const isBlank = cells => !cells || cells.every(value => String(value).trim() === '');
+
+// Best guess at which column holds each field, by header name
+function guessMapping(columns) {
+  const mapping = {};
+  for (const field of FIELDS) {
+    const column = columns.find(name => COLUMN_ALIASES[field].includes(headerKey(name)));
+    if (column !== undefined) mapping[field] = column;
+  }
+  return mapping;
+}
+
+/**
+ * Turn spreadsheet rows into import records. The first non-blank row is the header; `mapping`
+ * ({ field: header }) overrides the guessed columns, and an empty header unmaps a field.
+ * Record numbers are spreadsheet row numbers so the report points at the right line.
+ */
+function readTable(rows, mapping = {}) {
+  const headerIndex = rows.findIndex(cells => !isBlank(cells));
+  if (headerIndex === -1) {
+    return { columns: [], mapping: {}, records: [] };
+  }
+
+  const columns = rows[headerIndex].map(name => String(name).trim());
+  const resolved = { ...guessMapping(columns), ...mapping };
+  for (const field of Object.keys(resolved)) {
+    if (!FIELDS.includes(field) || !columns.includes(resolved[field])) delete resolved[field];
+  }
+
+  const records = [];
+  rows.forEach((cells, idx) => {
+    if (idx <= headerIndex || isBlank(cells)) return;
+
+    const fields = {};
+    for (const [field, column] of Object.entries(resolved)) {
+      fields[field] = cells[columns.indexOf(column)];
+    }
+    records.push({ row: idx + 1, fields });
+  });
+
+  return { columns, mapping: resolved, records };
+}
+
+// Options in one cell, and the answer as the correct option's letter (or True/False)
+function cellValue(question, field) {
+  const options = question.options || [];
+  const correct = options.findIndex(option => option.is_correct);
+  switch (field) {
+    case 'question_type':
+      return TYPE_NAMES[question.question_type] || TYPE_NAMES.DESCRIPTIVE;
+    case 'options':
+      return question.question_type === 'MULTIPLE_CHOICE' ? options.map(option => option.text).join(OPTION_SEPARATOR) : '';
+    case 'answer':
+      if (correct === -1) return '';
+      return question.question_type === 'TRUE_FALSE' ? options[correct].text : optionLetter(correct);
+    case 'tags':
+      return (question.tags || []).join(', ');
+    default:
+      return question[field];
+  }
+}
+
+// Bank rows as spreadsheet rows, header first
+const writeTable = questions => [
+  FIELDS.map(field => EXPORT_HEADERS[field]),
+  ...questions.map(question => FIELDS.map(field => cellValue(question, field) ?? ''))
+];
+
+module.exports = {
+  FIELDS,
+  OPTION_SEPARATOR,
+  guessMapping,
+  readTable,
+  writeTable
+};
@@ -0,0 +1,58 @@
+// server/utils/bankFormats/xlsx.js - Excel workbook reading and writing
+
+const ExcelJS = require('exceljs');
+
+// Text of a cell whatever it holds: rich text, formula results and hyperlinks included
+const cellText = cell => {
+  const { value } = cell;
+  if (value === null || value === undefined) return '';
+  if (value instanceof Date) return value.toISOString();
+  if (typeof value === 'object') {
+    if (Array.isArray(value.richText)) return value.richText.map(part => part.text).join('');
+    if (value.result !== undefined) return String(value.result);
+    if (value.text !== undefined) return String(value.text);
+  }
+  return String(value);
+};
+
+// Rows of cell strings from the first worksheet, like parseCsv returns: a row's index is its
+// sheet row number less one, with empty rows left empty
+async function readXlsx(buffer) {
+  const workbook = new ExcelJS.Workbook();
+  await workbook.xlsx.load(buffer);
+
+  const worksheet = workbook.worksheets[0];
+  if (!worksheet) return [];
+
+  const rows = Array.from({ length: worksheet.rowCount }, () => []);
+  const width = worksheet.columnCount;
+  worksheet.eachRow({ includeEmpty: false }, row => {
+    const cells = [];
+    for (let column = 1; column <= width; column++) {
+      cells.push(cellText(row.getCell(column)));
+    }
+    rows[row.number - 1] = cells;
+  });
+  return rows;
+}
+
+// A single-sheet workbook with a bold header row
+async function writeXlsx(rows, sheetName = 'Questions') {
+  const workbook = new ExcelJS.Workbook();
+  const worksheet = workbook.addWorksheet(sheetName);
+
+  worksheet.addRows(rows);
+  worksheet.getRow(1).font = { bold: true };
+  worksheet.columns.forEach(column => {
+    column.width = 18;
+  });
+  worksheet.getColumn(1).width = 80;
+  worksheet.getColumn(1).alignment = { wrapText: true, vertical: 'top' };
+
+  return Buffer.from(await workbook.xlsx.writeBuffer());
+}
+
+module.exports = {
+  readXlsx,
+  writeXlsx
+};
@@ -0,0 +1,145 @@
+// server/utils/bankReview.js - Corrections educators make to processed question bank rows
+
+const BLOOM_LEVELS = ['L1', 'L2', 'L3', 'L4', 'L5', 'L6'];
+// Difficulty is stored lower-case whichever processor, import or editor produced it
+const DIFFICULTIES = ['easy', 'medium', 'hard'];
+
+const DIFFICULTY_ALIASES = { moderate: 'medium', average: 'medium', difficult: 'hard', simple: 'easy' };
+
+// One of DIFFICULTIES for any casing or common synonym, or undefined
+function normalizeDifficulty(value) {
+  const text = String(value ?? '').trim().toLowerCase();
+  return DIFFICULTIES.includes(text) ? text : DIFFICULTY_ALIASES[text];
+}
+
+// Fields an educator may correct; everything else comes from the processor
+const EDITABLE_FIELDS = ['question', 'predicted_marks', 'bloom_level', 'difficulty', 'matched_topic', 'matched_unit'];
+
+const BULK_ACTIONS = ['verify', 'unverify', 'delete'];
+
+// Rows whose topic match is weaker than this are highlighted for review
+function getSimilarityThreshold() {
+  const threshold = parseFloat(process.env.REVIEW_SIMILARITY_THRESHOLD);
+  return Number.isFinite(threshold) ? threshold : 0.3;
+}
+
+const nextQuestionId = questions =>
+  questions.reduce((max, question) => Math.max(max, question.question_id), 0) + 1;
+
+const withVerification = (question, verified) => ({
+  ...question,
+  verified,
+  verifiedAt: verified ? new Date() : undefined
+});
+
+/**
+ * Apply an educator's correction to one row. Any change to the text or classification
+ * marks the row as edited; `verified` is applied as given.
+ */
+function correctQuestion(question, changes) {
+  let corrected = { ...question };
+
+  for (const field of EDITABLE_FIELDS) {
+    if (changes[field] !== undefined && changes[field] !== question[field]) {
+      corrected[field] = changes[field];
+      corrected.edited = true;
+    }
+  }
+
+  if (changes.verified !== undefined) {
+    corrected = withVerification(corrected, Boolean(changes.verified));
+  }
+
+  return corrected;
+}
+
+function applyBulkAction(questions, questionIds, action) {
+  const selected = new Set(questionIds.map(Number));
+
+  if (action === 'delete') {
+    return questions.filter(question => !selected.has(question.question_id));
+  }
+
+  return questions.map(question => selected.has(question.question_id)
+    ? withVerification(question, action === 'verify')
+    : question);
+}
+
+/**
+ * Join rows the processor split apart, in bank order. The merged row keeps the first row's id
+ * and place, so its usage history carries over; marks are added up and it needs verifying again.
+ */
+function mergeQuestions(questions, questionIds) {
+  const ids = new Set(questionIds.map(Number));
+  const rows = questions.filter(question => ids.has(question.question_id));
+
+  if (rows.length < 2 || rows.length !== ids.size) {
+    throw new Error('Select at least two existing questions to merge');
+  }
+
+  const [first, ...rest] = rows;
+  const merged = withVerification({
+    ...first,
+    question: rows.map(row => row.question.trim()).join('\n'),
+    predicted_marks: rows.reduce((sum, row) => sum + row.predicted_marks, 0),
+    edited: true
+  }, false);
+
+  const removed = new Set(rest.map(row => row.question_id));
+  return questions
+    .filter(question => !removed.has(question.question_id))
+    .map(question => question.question_id === first.question_id ? merged : question);
+}
+
+/**
+ * Split one row into several. The first part keeps the row's id; the others are new rows
+ * placed right after it. Marks are shared out evenly, at least one per part.
+ */
+function splitQuestion(questions, questionId, parts) {
+  const index = questions.findIndex(question => question.question_id === Number(questionId));
+  const texts = parts.map(part => String(part).trim()).filter(Boolean);
+
+  if (index === -1) {
+    throw new Error('Question not found');
+  }
+  if (texts.length < 2) {
+    throw new Error('A question must be split into at least two parts');
+  }
+
+  const original = questions[index];
+  const share = Math.max(1, Math.floor(original.predicted_marks / texts.length));
+  const firstShare = Math.max(share, original.predicted_marks - share * (texts.length - 1));
+  let newId = nextQuestionId(questions);
+
+  const { _id, ...template } = original;
+  const split = texts.map((text, idx) => withVerification({
+    ...(idx === 0 ? original : { ...template, question_id: newId++ }),
+    question: text,
+    predicted_marks: idx === 0 ? firstShare : share,
+    edited: true
+  }, false));
+
+  return [...questions.slice(0, index), ...split, ...questions.slice(index + 1)];
+}
+
+function summarizeReview(questions, threshold) {
+  return {
+    total: questions.length,
+    verified: questions.filter(question => question.verified).length,
+    edited: questions.filter(question => question.edited).length,
+    lowSimilarity: questions.filter(question => question.topic_similarity < threshold).length
+  };
+}
+
+module.exports = {
+  BLOOM_LEVELS,
+  BULK_ACTIONS,
+  DIFFICULTIES,
+  applyBulkAction,
+  correctQuestion,
+  getSimilarityThreshold,
+  mergeQuestions,
+  normalizeDifficulty,
+  splitQuestion,
+  summarizeReview
+};
@@ -0,0 +1,100 @@
+// server/utils/bankVersions.js - Merging and comparing versions of a course's processed question bank
+
+// Fields whose change between versions counts as a reclassification rather than a new question
+const CLASSIFICATION_FIELDS = ['predicted_marks', 'bloom_level', 'difficulty', 'matched_topic', 'matched_unit'];
+
+const normalize = value => (value || '').toString().trim().toLowerCase().replace(/\s+/g, ' ');
+
+// Questions and topics are matched across versions by their text, since ids are per upload
+const questionKey = question => normalize(question.question);
+const topicKey = topic => normalize(topic.topic);
+
+const nextId = (items, field) => items.reduce((max, item) => Math.max(max, item[field] || 0), 0) + 1;
+
+const questionSummary = question => ({
+  question_id: question.question_id,
+  question: question.question,
+  predicted_marks: question.predicted_marks,
+  bloom_level: question.bloom_level,
+  difficulty: question.difficulty,
+  matched_topic: question.matched_topic,
+  matched_unit: question.matched_unit
+});
+
+const topicSummary = topic => ({ topic_id: topic.topic_id, unit: topic.unit, topic: topic.topic });
+
+/**
+ * Add a new upload's questions and topics to an existing bank. Everything in the base is kept
+ * as is, including its row ids, verification and usage history; only unseen questions and
+ * topics are appended, renumbered after the base.
+ */
+function mergeBanks(base, incoming) {
+  const seenQuestions = new Set(base.questions.map(questionKey));
+  const seenTopics = new Set(base.topics.map(topicKey));
+  let questionId = nextId(base.questions, 'question_id');
+  let topicId = nextId(base.topics, 'topic_id');
+
+  const addedQuestions = [];
+  for (const question of incoming.questions) {
+    const key = questionKey(question);
+    if (seenQuestions.has(key)) continue;
+    seenQuestions.add(key);
+    const { _id, ...fields } = question;
+    addedQuestions.push({ ...fields, question_id: questionId++ });
+  }
+
+  const addedTopics = [];
+  for (const topic of incoming.topics) {
+    const key = topicKey(topic);
+    if (seenTopics.has(key)) continue;
+    seenTopics.add(key);
+    const { _id, ...fields } = topic;
+    addedTopics.push({ ...fields, topic_id: topicId++ });
+  }
+
+  return {
+    questions: [...base.questions, ...addedQuestions],
+    topics: [...base.topics, ...addedTopics],
+    added: { questions: addedQuestions.length, topics: addedTopics.length }
+  };
+}
+
+function diffItems(fromItems, toItems, keyOf, fields, summarize) {
+  const fromByKey = new Map(fromItems.map(item => [keyOf(item), item]));
+  const toByKey = new Map(toItems.map(item => [keyOf(item), item]));
+
+  const added = toItems.filter(item => !fromByKey.has(keyOf(item))).map(summarize);
+  const removed = fromItems.filter(item => !toByKey.has(keyOf(item))).map(summarize);
+  const reclassified = [];
+  let unchanged = 0;
+
+  for (const item of toItems) {
+    const previous = fromByKey.get(keyOf(item));
+    if (!previous) continue;
+
+    const changes = fields
+      .filter(field => normalize(previous[field]) !== normalize(item[field]))
+      .map(field => ({ field, from: previous[field], to: item[field] }));
+
+    if (changes.length > 0) {
+      reclassified.push({ ...summarize(item), changes });
+    } else {
+      unchanged++;
+    }
+  }
+
+  return { added, removed, reclassified, unchanged };
+}
+
+// What changed from one version of a bank to another
+function diffVersions(from, to) {
+  return {
+    questions: diffItems(from.questions, to.questions, questionKey, CLASSIFICATION_FIELDS, questionSummary),
+    topics: diffItems(from.topics, to.topics, topicKey, ['unit'], topicSummary)
+  };
+}
+
+module.exports = {
+  diffVersions,
+  mergeBanks
+};
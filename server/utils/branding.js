@@ -0,0 +1,110 @@
+// server/utils/branding.js - Institution letterhead of rendered papers and a department's overrides of it
+
+// Used until an admin saves the institution settings
+const DEFAULT_BRANDING = {
+  name: process.env.INSTITUTION_NAME || 'Institution Name',
+  affiliation: process.env.INSTITUTION_AFFILIATION || '',
+  address: '',
+  departmentLine: '',
+  logo: '',
+  footerText: '',
+  registerNumber: { enabled: true, digits: 10 }
+};
+
+const REGISTER_NUMBER_DIGITS = { min: 4, max: 20 };
+
+// Text fields an admin sets for the institution, and those a department may override
+const INSTITUTION_FIELDS = ['name', 'affiliation', 'address', 'departmentLine', 'footerText'];
+const DEPARTMENT_FIELDS = ['affiliation', 'address', 'departmentLine', 'footerText'];
+
+const MAX_TEXT_LENGTH = 300;
+
+const LOGO_TYPES = ['image/png', 'image/jpeg'];
+const MAX_LOGO_SIZE = 512 * 1024;
+
+/**
+ * Clean up submitted letterhead fields. Text is trimmed; a department may leave any field
+ * empty to use the institution's, so only the institution needs a name.
+ *
+ * @param {Object} input - Submitted fields
+ * @param {string[]} fields - INSTITUTION_FIELDS or DEPARTMENT_FIELDS
+ * @returns {{ branding: Object, errors: string[] }}
+ */
+function validateBranding(input, fields) {
+  const errors = [];
+  const branding = {};
+
+  for (const field of fields) {
+    const value = input[field] === undefined || input[field] === null ? '' : String(input[field]).trim();
+    if (value.length > MAX_TEXT_LENGTH) {
+      errors.push(`${field} must be at most ${MAX_TEXT_LENGTH} characters`);
+    }
+    branding[field] = value;
+  }
+
+  if (fields.includes('name') && !branding.name) {
+    errors.push('Institution name is required');
+  }
+
+  // A department leaves the register number box to the institution unless it sends one
+  const registerNumber = input.registerNumber;
+  if (registerNumber !== undefined && registerNumber !== null) {
+    const digits = Number(registerNumber.digits);
+    if (!Number.isInteger(digits) || digits < REGISTER_NUMBER_DIGITS.min || digits > REGISTER_NUMBER_DIGITS.max) {
+      errors.push(`Register number digits must be between ${REGISTER_NUMBER_DIGITS.min} and ${REGISTER_NUMBER_DIGITS.max}`);
+    }
+    branding.registerNumber = { enabled: Boolean(registerNumber.enabled), digits };
+  }
+
+  return { branding, errors };
+}
+
+// An uploaded logo as the data URL it is stored as
+function logoDataUrl(file) {
+  if (!LOGO_TYPES.includes(file.mimetype)) {
+    throw Object.assign(new Error('The logo must be a PNG or JPEG image'), { status: 400 });
+  }
+  if (file.size > MAX_LOGO_SIZE) {
+    throw Object.assign(new Error(`The logo must be at most ${MAX_LOGO_SIZE / 1024} KB`), { status: 400 });
+  }
+  return `data:${file.mimetype};base64,${file.buffer.toString('base64')}`;
+}
+
+/**
+ * The letterhead printed on a department's papers: the institution settings with the fields the
+ * department has set in their place. Without a department line the department's own name is used.
+ *
+ * @param {Object} settings - InstitutionSettings document (saved or defaults)
+ * @param {Object|null} department - Department document, if the department has one
+ * @param {string} departmentName - Department of the paper's educator
+ * @returns {{ name, affiliation, address, departmentLine, logo, footerText, registerNumber: { enabled, digits }, department }}
+ */
+function resolveBranding(settings, department, departmentName = '') {
+  const overrides = (department && department.branding) || {};
+  const pick = field => overrides[field] || settings[field] || DEFAULT_BRANDING[field];
+
+  const registerNumber = overrides.registerNumber && overrides.registerNumber.digits
+    ? overrides.registerNumber
+    : settings.registerNumber || DEFAULT_BRANDING.registerNumber;
+
+  return {
+    name: settings.name || DEFAULT_BRANDING.name,
+    affiliation: pick('affiliation'),
+    address: pick('address'),
+    departmentLine: pick('departmentLine') || (departmentName ? `Department of ${departmentName}` : ''),
+    logo: settings.logo || '',
+    footerText: pick('footerText'),
+    registerNumber: { enabled: Boolean(registerNumber.enabled), digits: registerNumber.digits },
+    department: departmentName
+  };
+}
+
+module.exports = {
+  DEFAULT_BRANDING,
+  DEPARTMENT_FIELDS,
+  INSTITUTION_FIELDS,
+  REGISTER_NUMBER_DIGITS,
+  logoDataUrl,
+  resolveBranding,
+  validateBranding
+};
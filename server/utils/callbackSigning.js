@@ -0,0 +1,60 @@
+// server/utils/callbackSigning.js - HMAC signatures and one-time tokens for processor callbacks
+
+const crypto = require('crypto');
+
+// Signature header format: sha256=<hex HMAC of "<timestamp>.<raw body>">
+const SIGNATURE_PREFIX = 'sha256=';
+
+const sha256 = value => crypto.createHash('sha256').update(value).digest('hex');
+
+const safeEqual = (a, b) => {
+  const left = Buffer.from(String(a));
+  const right = Buffer.from(String(b));
+  return left.length === right.length && crypto.timingSafeEqual(left, right);
+};
+
+function signPayload(secret, timestamp, rawBody) {
+  const hmac = crypto.createHmac('sha256', secret);
+  hmac.update(`${timestamp}.`);
+  hmac.update(rawBody);
+  return SIGNATURE_PREFIX + hmac.digest('hex');
+}
+
+/**
+ * Check a callback's signature and timestamp.
+ *
+ * @param {Object} options { secret, timestamp (unix seconds), signature, rawBody, maxSkewMs, now }
+ * @returns {string|null} why the callback was rejected, or null when it is valid
+ */
+function verifySignature({ secret, timestamp, signature, rawBody, maxSkewMs, now = Date.now() }) {
+  if (!timestamp || !signature) {
+    return 'Missing signature or timestamp';
+  }
+
+  const sentAt = Number(timestamp) * 1000;
+  if (!Number.isFinite(sentAt) || Math.abs(now - sentAt) > maxSkewMs) {
+    return 'Timestamp is outside the allowed window';
+  }
+
+  if (!safeEqual(signPayload(secret, timestamp, rawBody || ''), signature)) {
+    return 'Invalid signature';
+  }
+
+  return null;
+}
+
+// The plain token goes to the processor with the job; only its hash is stored
+function createCallbackToken() {
+  const token = crypto.randomBytes(32).toString('hex');
+  return { token, hash: sha256(token) };
+}
+
+const hashToken = token => sha256(String(token));
+
+module.exports = {
+  createCallbackToken,
+  hashToken,
+  sha256,
+  signPayload,
+  verifySignature
+};
@@ -0,0 +1,83 @@
+// server/utils/courseOutcomes.js - Course outcome (CO) codes, definitions and the topic-to-CO mapping
+
+const normalize = value => (value || '').toString().trim().toLowerCase().replace(/\s+/g, ' ');
+
+// "3", "co 3" and "CO-3" all name CO3; anything else is kept as typed, in capitals
+function normalizeCoCode(value) {
+  const text = String(value).trim().toUpperCase();
+  const match = text.match(/^(?:CO\s*-?\s*)?(\d+)$/);
+  return match ? `CO${parseInt(match[1], 10)}` : text;
+}
+
+// Papers and patterns keep the CO as a number: CO3 -> 3
+function coNumber(value) {
+  if (value === undefined || value === null || value === '') return undefined;
+  const match = normalizeCoCode(value).match(/^CO(\d+)$/);
+  return match ? parseInt(match[1], 10) : undefined;
+}
+
+/**
+ * Check a course's outcome list and bring it to the stored shape: codes as CO<n>, trimmed
+ * statements, distinct topics, sorted by CO number. A topic may belong to one CO only, so
+ * tagging a question by its topic is never ambiguous.
+ *
+ * @param {Array<{ code: string, statement: string, topics?: string[] }>} outcomes
+ * @returns {{ outcomes: Array, errors: string[] }}
+ */
+function validateOutcomes(outcomes = []) {
+  const errors = [];
+  const codes = new Set();
+  const topicOwners = new Map();
+
+  const cleaned = outcomes.map((outcome, idx) => {
+    const code = normalizeCoCode(outcome.code || '');
+    const statement = String(outcome.statement || '').trim();
+    const topics = [];
+    for (const topic of (outcome.topics || []).map(value => String(value).trim()).filter(Boolean)) {
+      if (!topics.some(kept => normalize(kept) === normalize(topic))) topics.push(topic);
+    }
+
+    if (coNumber(code) === undefined) {
+      errors.push(`Outcome ${idx + 1}: "${outcome.code || ''}" is not a CO code such as CO1`);
+    } else if (codes.has(code)) {
+      errors.push(`${code} is defined more than once`);
+    }
+    codes.add(code);
+
+    if (!statement) errors.push(`${code || `Outcome ${idx + 1}`} needs a statement`);
+
+    for (const topic of topics) {
+      const owner = topicOwners.get(normalize(topic));
+      if (owner && owner !== code) {
+        errors.push(`Topic "${topic}" is mapped to both ${owner} and ${code}`);
+      }
+      topicOwners.set(normalize(topic), code);
+    }
+
+    return { code, statement, topics };
+  });
+
+  cleaned.sort((a, b) => (coNumber(a.code) || 0) - (coNumber(b.code) || 0));
+  return { outcomes: cleaned, errors };
+}
+
+// CO code of a syllabus topic under a course's mapping, if the topic is mapped
+function outcomeForTopic(outcomes = [], topic) {
+  const key = normalize(topic);
+  if (!key) return undefined;
+
+  const outcome = outcomes.find(candidate => (candidate.topics || []).some(mapped => normalize(mapped) === key));
+  return outcome ? outcome.code : undefined;
+}
+
+// A question's own CO tag wins; untagged questions take the CO their topic is mapped to
+const resolveOutcome = (outcomes, question) =>
+  (question.co ? normalizeCoCode(question.co) : undefined) || outcomeForTopic(outcomes, question.topic);
+
+module.exports = {
+  coNumber,
+  normalizeCoCode,
+  outcomeForTopic,
+  resolveOutcome,
+  validateOutcomes
+};
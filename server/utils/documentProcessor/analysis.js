@@ -0,0 +1,131 @@
+// server/utils/documentProcessor/analysis.js - Lexical topic matching and Bloom/difficulty estimates
+
+const { DIFFICULTIES } = require('../bankReview');
+
+const STOPWORDS = new Set([
+  'a', 'an', 'and', 'are', 'as', 'at', 'be', 'between', 'by', 'can', 'does', 'each', 'for', 'from', 'give',
+  'how', 'in', 'into', 'is', 'it', 'its', 'of', 'on', 'or', 'suitable', 'that', 'the', 'their', 'them',
+  'these', 'this', 'those', 'to', 'two', 'using', 'various', 'what', 'when', 'where', 'which', 'why',
+  'with', 'your', 'example', 'examples', 'neat', 'diagram', 'sketch', 'brief', 'briefly', 'detail', 'marks'
+]);
+
+// Question verbs per Bloom level, checked in order of appearance in the question
+const BLOOM_VERBS = {
+  L1: ['define', 'list', 'state', 'name', 'identify', 'recall', 'what', 'mention', 'label', 'enumerate'],
+  L2: ['explain', 'describe', 'discuss', 'summarise', 'summarize', 'illustrate', 'interpret', 'classify', 'outline', 'distinguish'],
+  L3: ['apply', 'solve', 'compute', 'calculate', 'demonstrate', 'implement', 'use', 'find', 'determine', 'construct', 'show', 'write'],
+  L4: ['analyse', 'analyze', 'compare', 'contrast', 'differentiate', 'examine', 'inspect', 'categorise', 'categorize', 'trace'],
+  L5: ['evaluate', 'justify', 'assess', 'criticise', 'criticize', 'critique', 'recommend', 'defend', 'judge', 'argue'],
+  L6: ['design', 'develop', 'create', 'propose', 'formulate', 'devise', 'plan', 'compose', 'invent', 'generate']
+};
+
+const VERB_LEVELS = new Map(
+  Object.entries(BLOOM_VERBS).flatMap(([level, verbs]) => verbs.map(verb => [verb, level]))
+);
+
+const LEVELS = ['L1', 'L2', 'L3', 'L4', 'L5', 'L6'];
+
+// Crude suffix stripping so "scheduling" meets "scheduler" and "pages" meets "paging"
+const stem = word => word
+  .replace(/(ations?|ings?|ers?|ed|ly|ies|es|s)$/, '')
+  .replace(/(.)\1$/, '$1');
+
+const words = text => (text || '').toLowerCase().match(/[a-z][a-z0-9+#-]*/g) || [];
+
+const tokenize = text => words(text)
+  .filter(word => word.length > 1 && !STOPWORDS.has(word))
+  .map(stem)
+  .filter(word => word.length > 1);
+
+function termFrequencies(tokens) {
+  const frequencies = new Map();
+  for (const token of tokens) {
+    frequencies.set(token, (frequencies.get(token) || 0) + 1);
+  }
+  return frequencies;
+}
+
+/**
+ * TF-IDF cosine similarity of questions against the syllabus topics.
+ *
+ * @param {Array} topics [{ unit, topic, topic_id }]
+ * @returns {(text: string) => { topic: Object|null, similarity: number }}
+ */
+function createTopicMatcher(topics) {
+  const documents = topics.map(topic => termFrequencies(tokenize(topic.topic)));
+
+  const documentCounts = new Map();
+  for (const frequencies of documents) {
+    for (const token of frequencies.keys()) {
+      documentCounts.set(token, (documentCounts.get(token) || 0) + 1);
+    }
+  }
+  const idf = token => Math.log(1 + topics.length / (documentCounts.get(token) || 1));
+
+  const toVector = frequencies => {
+    const vector = new Map();
+    let norm = 0;
+    for (const [token, count] of frequencies) {
+      const weight = count * idf(token);
+      vector.set(token, weight);
+      norm += weight * weight;
+    }
+    return { vector, norm: Math.sqrt(norm) };
+  };
+
+  const topicVectors = documents.map(toVector);
+
+  return text => {
+    const query = toVector(termFrequencies(tokenize(text)));
+    let best = { topic: null, similarity: 0 };
+    if (query.norm === 0) return best;
+
+    topicVectors.forEach(({ vector, norm }, idx) => {
+      if (norm === 0) return;
+      let dot = 0;
+      for (const [token, weight] of query.vector) {
+        dot += weight * (vector.get(token) || 0);
+      }
+      const similarity = dot / (query.norm * norm);
+      if (similarity > best.similarity) {
+        best = { topic: topics[idx], similarity };
+      }
+    });
+
+    return { topic: best.topic, similarity: Math.round(best.similarity * 1000) / 1000 };
+  };
+}
+
+// The first recognised verb decides; questions usually open with it
+function estimateBloomLevel(text) {
+  for (const word of words(text)) {
+    const level = VERB_LEVELS.get(word);
+    if (level) return level;
+  }
+  return 'L2';
+}
+
+// Marks for questions without an annotation, from their Bloom level and length
+function estimateMarks(text, bloomLevel) {
+  const length = words(text).length;
+  const level = LEVELS.indexOf(bloomLevel);
+  if (length <= 12 && level <= 1) return 2;
+  if (length <= 25 && level <= 3) return 5;
+  return 10;
+}
+
+// Lower Bloom levels read as easy and higher as hard; large or tiny mark values move one step
+function estimateDifficulty(bloomLevel, marks) {
+  let band = Math.floor(Math.max(0, LEVELS.indexOf(bloomLevel)) / 2);
+  if (marks >= 10) band += 1;
+  if (marks <= 2) band -= 1;
+  return DIFFICULTIES[Math.min(DIFFICULTIES.length - 1, Math.max(0, band))];
+}
+
+module.exports = {
+  createTopicMatcher,
+  estimateBloomLevel,
+  estimateDifficulty,
+  estimateMarks,
+  tokenize
+};
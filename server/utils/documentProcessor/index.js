@@ -0,0 +1,71 @@
+// server/utils/documentProcessor/index.js - Built-in processing of an uploaded question bank and syllabus
+
+const { extractPdfText } = require('./pdfText');
+const { parseSyllabus } = require('./syllabus');
+const { splitQuestions } = require('./questionBank');
+const {
+  createTopicMatcher,
+  estimateBloomLevel,
+  estimateDifficulty,
+  estimateMarks
+} = require('./analysis');
+
+/**
+ * Turn question bank and syllabus text into ProcessedData questions and topics,
+ * with the same field names the remote (Colab) processor returns.
+ *
+ * @returns {{ questions: Array, topics: Array }}
+ */
+function analyseDocuments(questionBankText, syllabusText) {
+  const topics = parseSyllabus(syllabusText);
+  const matchTopic = createTopicMatcher(topics);
+
+  const questions = splitQuestions(questionBankText).map((entry, idx) => {
+    const bloomLevel = entry.bloomLevel || estimateBloomLevel(entry.question);
+    const marks = entry.marks || estimateMarks(entry.question, bloomLevel);
+    const { topic, similarity } = matchTopic(entry.question);
+
+    return {
+      question_id: idx + 1,
+      question: entry.question,
+      predicted_marks: marks,
+      bloom_level: bloomLevel,
+      difficulty: estimateDifficulty(bloomLevel, marks),
+      matched_topic: topic ? topic.topic : 'Unmatched',
+      matched_unit: topic ? topic.unit : 'Unmatched',
+      topic_similarity: similarity
+    };
+  });
+
+  return { questions, topics };
+}
+
+// Errors carry the stage they happened in, for the processing job's failure report
+async function atStage(stage, fn) {
+  try {
+    return await fn();
+  } catch (error) {
+    error.stage = error.stage || stage;
+    throw error;
+  }
+}
+
+async function processDocuments(questionBankPath, syllabusPath) {
+  const [questionBankText, syllabusText] = await atStage('extract', () => Promise.all([
+    extractPdfText(questionBankPath),
+    extractPdfText(syllabusPath)
+  ]));
+
+  return atStage('analyse', () => {
+    const result = analyseDocuments(questionBankText, syllabusText);
+    if (result.questions.length === 0) {
+      throw new Error('No numbered questions found in the question bank');
+    }
+    return result;
+  });
+}
+
+module.exports = {
+  analyseDocuments,
+  processDocuments
+};
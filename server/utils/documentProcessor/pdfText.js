@@ -0,0 +1,12 @@
+// server/utils/documentProcessor/pdfText.js - Plain text of an uploaded PDF
+
+const fs = require('fs');
+// The package entry point runs a self-test when required without a parent module; the library file does not
+const pdfParse = require('pdf-parse/lib/pdf-parse.js');
+
+async function extractPdfText(filePath) {
+  const result = await pdfParse(fs.readFileSync(filePath));
+  return result.text || '';
+}
+
+module.exports = { extractPdfText };
@@ -0,0 +1,69 @@
+// server/utils/documentProcessor/questionBank.js - Numbered questions and their annotations from question bank text
+
+// "1.", "12)", "Q3.", "Q.4:", and sub-parts "a)", "(b)" at the start of a line
+const QUESTION_START = /^\s*(?:q(?:uestion)?\s*\.?\s*)?(\d{1,3})\s*[.):\]-]\s*(?:([a-h])\s*[.)\]]\s*)?(.*)$/i;
+const PART_START = /^\s*\(?([a-h])\s*[.)\]]\s+(.*)$/i;
+
+// "(5 marks)", "[10M]", "- 6 M", "08 Marks"
+const MARKS = /[[(]?\s*(\d{1,2}(?:\.\d)?)\s*(?:m|marks?)\b\s*[\])]?/i;
+
+// Bloom level annotations such as "(BL-4)" or "[K2]", or a bare "L3" closing the line (not "L1 cache")
+const BLOOM = /[[(]\s*(?:bl|l|k)\s*-?\s*([1-6])\s*[\])]|\b(?:bl|l|k)\s*-?\s*([1-6])\s*$/i;
+
+// Course outcome tags are not part of the question
+const CO_TAG = /[[(]?\s*co\s*-?\s*\d+\s*[\])]?/gi;
+
+// Page furniture repeated by the PDF on every page
+const NOISE_LINE = /^\s*(page\s+\d+(\s+of\s+\d+)?|\d+|question\s+bank|q\.?\s*no\.?.*marks.*)\s*$/i;
+
+function parseAnnotations(raw) {
+  let text = raw.replace(CO_TAG, ' ');
+
+  const marks = text.match(MARKS);
+  if (marks) text = text.replace(MARKS, ' ');
+
+  text = text.replace(/[\s|,-]+$/, '');
+  const bloom = text.match(BLOOM);
+  if (bloom) text = text.replace(BLOOM, ' ');
+
+  return {
+    question: text.replace(/\s+/g, ' ').replace(/[\s[(|,-]+$/, '').trim(),
+    marks: marks ? parseFloat(marks[1]) : null,
+    bloomLevel: bloom ? `L${bloom[1] || bloom[2]}` : null
+  };
+}
+
+/**
+ * Split question bank text into questions. Each numbered question, and each lettered
+ * part of one, becomes its own entry; wrapped lines are joined back together.
+ *
+ * @returns {Array<{ question: string, marks: number|null, bloomLevel: string|null }>}
+ */
+function splitQuestions(text) {
+  const blocks = [];
+  let current = null;
+
+  for (const line of (text || '').split(/\r?\n/)) {
+    if (!line.trim() || NOISE_LINE.test(line)) continue;
+
+    const start = line.match(QUESTION_START);
+    const part = !start && current ? line.match(PART_START) : null;
+
+    if (start) {
+      current = { lines: [start[3]] };
+      blocks.push(current);
+    } else if (part) {
+      current = { lines: [part[2]] };
+      blocks.push(current);
+    } else if (current) {
+      current.lines.push(line);
+    }
+  }
+
+  return blocks
+    .map(block => parseAnnotations(block.lines.join(' ')))
+    // A bare number followed by a part letter leaves an empty stem before the first part
+    .filter(entry => entry.question.split(' ').length >= 3);
+}
+
+module.exports = { splitQuestions };
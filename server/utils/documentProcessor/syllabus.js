@@ -0,0 +1,64 @@
+// server/utils/documentProcessor/syllabus.js - Units and topics from syllabus text
+
+const ROMAN = { i: 1, ii: 2, iii: 3, iv: 4, v: 5, vi: 6, vii: 7, viii: 8, ix: 9, x: 10 };
+
+// "UNIT - II: Memory Management", "Module 3", "Unit IV Process Scheduling"
+const UNIT_HEADING = /^\s*(unit|module|chapter)\s*[-–:.]?\s*([ivx]+|\d+)\b\s*[-–:.)]?\s*(.*)$/i;
+
+// Everything after these belongs to the book list or course outcomes, not the units
+const END_OF_UNITS = /^\s*(text\s*books?|reference\s*books?|references|course\s+outcomes|e-?resources|web\s+links)\b/i;
+
+// Contact hours and similar bookkeeping that sits on unit lines
+const NOISE = /\b\d+\s*(hours?|hrs?|periods?|lectures?)\b|\bl\s*-?\s*\d+\b|\bt\s*-?\s*\d+\b/gi;
+
+const unitNumber = value => ROMAN[value.toLowerCase()] || parseInt(value, 10);
+
+function splitTopics(text) {
+  return text
+    .replace(NOISE, ' ')
+    .split(/[,;.\n•]|\s[-–]\s/)
+    .map(topic => topic.replace(/\s+/g, ' ').replace(/^[\s:()\d-]+|[\s:()-]+$/g, '').trim())
+    .filter(topic => topic.length > 2 && /[a-z]/i.test(topic));
+}
+
+/**
+ * Parse syllabus text into topics with the field names of ProcessedData.topics.
+ * Text before the first unit heading is ignored unless the syllabus has no headings at all.
+ *
+ * @returns {Array<{ unit: string, topic_id: number, topic: string }>}
+ */
+function parseSyllabus(text) {
+  const units = [];
+  let current = null;
+
+  for (const line of (text || '').split(/\r?\n/)) {
+    if (END_OF_UNITS.test(line)) break;
+
+    const heading = line.match(UNIT_HEADING);
+    if (heading) {
+      current = { unit: `Unit ${unitNumber(heading[2])}`, lines: [heading[3]] };
+      units.push(current);
+    } else if (current) {
+      current.lines.push(line);
+    }
+  }
+
+  if (units.length === 0) {
+    units.push({ unit: 'Unit 1', lines: (text || '').split(/\r?\n/) });
+  }
+
+  const topics = [];
+  const seen = new Set();
+  for (const { unit, lines } of units) {
+    for (const topic of splitTopics(lines.join('\n'))) {
+      const key = `${unit}|${topic.toLowerCase()}`;
+      if (seen.has(key)) continue;
+      seen.add(key);
+      topics.push({ unit, topic_id: topics.length + 1, topic });
+    }
+  }
+
+  return topics;
+}
+
+module.exports = { parseSyllabus };
@@ -0,0 +1,239 @@
+// server/utils/examPatterns.js - Helpers for reading exam patterns during setup, generation and rendering
+
+const ExamPattern = require('../models/ExamPattern');
+const { isObjective } = require('./questionTypes');
+
+// Part labels a, b, c ... for objective sections with many one-mark questions
+const partLabels = count => Array.from({ length: count }, (_, idx) => String.fromCharCode(97 + idx));
+
+// Built-in layouts that used to be hardcoded in the setup pages and generators
+const DEFAULT_PATTERNS = [
+  {
+    name: 'CIE - 3 Sections (15 marks each)',
+    description: 'Answer any two of three sections with parts a/b/c',
+    examType: 'CIE',
+    sections: [1, 2, 3].map(section => ({
+      title: `Section ${section}`,
+      unit: `Unit ${section}`,
+      marks: 15,
+      parts: ['a', 'b', 'c'].map(label => ({
+        label,
+        marks: 5,
+        optional: false,
+        defaultLevel: label === 'c' ? 'hard' : 'medium'
+      }))
+    })),
+    choiceRule: { mode: 'ANY', answerCount: 2 },
+    totalMarks: 30,
+    duration: 90,
+    instructions: [
+      'Answer any TWO sections out of three',
+      'Each section carries 15 marks',
+      'All parts of a question should be answered contiguously'
+    ],
+    isDefault: true
+  },
+  {
+    name: 'SEE - 5 Modules (20 marks each)',
+    description: 'Five modules with two alternative questions each',
+    examType: 'SEE',
+    sections: Array.from({ length: 10 }, (_, idx) => ({
+      title: `Question ${idx + 1}`,
+      unit: '',
+      co: Math.floor(idx / 2) + 1,
+      marks: 20,
+      parts: [
+        { label: 'a', marks: 5, optional: false, defaultLevel: 'medium' },
+        { label: 'b', marks: 7, optional: false, defaultLevel: 'medium' },
+        { label: 'c', marks: 8, optional: false, defaultLevel: 'hard' }
+      ]
+    })),
+    choiceRule: { mode: 'ALTERNATIVES', groupSize: 2, groupTitle: 'Module' },
+    totalMarks: 100,
+    duration: 180,
+    instructions: [
+      'Answer any one full question from each module',
+      'Each module carries 20 marks',
+      'All parts of a question should be answered contiguously'
+    ],
+    isDefault: true
+  },
+  {
+    name: 'CIE - Quiz (20 objective questions)',
+    description: 'Fifteen multiple choice and five true/false questions of one mark each',
+    examType: 'CIE',
+    sections: [
+      {
+        title: 'Part A - Multiple Choice',
+        unit: '',
+        marks: 15,
+        questionType: 'MULTIPLE_CHOICE',
+        negativeMarks: 0.25,
+        parts: partLabels(15).map(label => ({ label, marks: 1, optional: false, defaultLevel: 'easy' }))
+      },
+      {
+        title: 'Part B - True or False',
+        unit: '',
+        marks: 5,
+        questionType: 'TRUE_FALSE',
+        negativeMarks: 0,
+        parts: partLabels(5).map(label => ({ label, marks: 1, optional: false, defaultLevel: 'easy' }))
+      }
+    ],
+    choiceRule: { mode: 'ALL' },
+    totalMarks: 20,
+    duration: 30,
+    instructions: [
+      'Answer all questions',
+      'Choose the one correct option for each multiple choice question',
+      '0.25 marks are deducted for each wrong multiple choice answer'
+    ],
+    isDefault: true
+  },
+  {
+    name: 'CIE - MCQ part with 2 sections (30 marks)',
+    description: 'Ten one-mark MCQs followed by two descriptive sections',
+    examType: 'CIE',
+    sections: [
+      {
+        title: 'Part A - Multiple Choice',
+        unit: '',
+        marks: 10,
+        questionType: 'MULTIPLE_CHOICE',
+        negativeMarks: 0,
+        parts: partLabels(10).map(label => ({ label, marks: 1, optional: false, defaultLevel: 'easy' }))
+      },
+      ...[1, 2].map(section => ({
+        title: `Part B - Section ${section}`,
+        unit: `Unit ${section}`,
+        marks: 10,
+        questionType: 'DESCRIPTIVE',
+        parts: [
+          { label: 'a', marks: 5, optional: false, defaultLevel: 'medium' },
+          { label: 'b', marks: 5, optional: false, defaultLevel: 'hard' }
+        ]
+      }))
+    ],
+    choiceRule: { mode: 'ALL' },
+    totalMarks: 30,
+    duration: 75,
+    instructions: [
+      'Answer all questions',
+      'Choose the one correct option for each multiple choice question'
+    ],
+    isDefault: true
+  }
+];
+
+// Group section indexes the way the choice rule presents them (alternatives share a group)
+function getSectionGroups(pattern) {
+  const { sections, choiceRule = {} } = pattern;
+  const groupSize = choiceRule.mode === 'ALTERNATIVES' ? Math.max(choiceRule.groupSize || 1, 1) : 1;
+  const groups = [];
+
+  for (let idx = 0; idx < sections.length; idx += groupSize) {
+    groups.push(sections.slice(idx, idx + groupSize).map((_, offset) => idx + offset));
+  }
+
+  return groups;
+}
+
+// Marks a candidate can score under the pattern's choice rule
+function computeMaxMarks(pattern) {
+  const { sections, choiceRule = {} } = pattern;
+
+  if (choiceRule.mode === 'ANY') {
+    return [...sections]
+      .map(section => section.marks)
+      .sort((a, b) => b - a)
+      .slice(0, choiceRule.answerCount || sections.length)
+      .reduce((sum, marks) => sum + marks, 0);
+  }
+
+  if (choiceRule.mode === 'ALTERNATIVES') {
+    return getSectionGroups(pattern)
+      .reduce((sum, group) => sum + Math.max(...group.map(idx => sections[idx].marks)), 0);
+  }
+
+  return sections.reduce((sum, section) => sum + section.marks, 0);
+}
+
+// Returns a list of human readable problems, empty when the pattern is usable
+function validatePattern(pattern) {
+  const errors = [];
+
+  if (!pattern.sections || pattern.sections.length === 0) {
+    return ['Pattern must have at least one section'];
+  }
+
+  pattern.sections.forEach((section, idx) => {
+    const parts = section.parts || [];
+    if (parts.length === 0) {
+      errors.push(`${section.title || `Section ${idx + 1}`} must have at least one part`);
+      return;
+    }
+
+    const labels = parts.map(part => part.label);
+    if (new Set(labels).size !== labels.length) {
+      errors.push(`${section.title} has duplicate part labels`);
+    }
+
+    if (section.negativeMarks && isObjective(section.questionType) && parts.some(part => section.negativeMarks >= part.marks)) {
+      errors.push(`${section.title} deducts ${section.negativeMarks} marks per wrong answer, which must be less than the marks of each part`);
+    }
+
+    const requiredMarks = parts.filter(part => !part.optional).reduce((sum, part) => sum + part.marks, 0);
+    const allMarks = parts.reduce((sum, part) => sum + part.marks, 0);
+    if (section.marks < requiredMarks || section.marks > allMarks) {
+      errors.push(`${section.title} carries ${section.marks} marks but its parts add up to ${requiredMarks}-${allMarks}`);
+    }
+  });
+
+  const { choiceRule = {} } = pattern;
+  if (choiceRule.mode === 'ANY' && (!choiceRule.answerCount || choiceRule.answerCount > pattern.sections.length)) {
+    errors.push('Answer count must be between 1 and the number of sections');
+  }
+  if (choiceRule.mode === 'ALTERNATIVES' && pattern.sections.length % (choiceRule.groupSize || 1) !== 0) {
+    errors.push('Number of sections must be a multiple of the alternatives group size');
+  }
+
+  if (errors.length === 0 && computeMaxMarks(pattern) !== pattern.totalMarks) {
+    errors.push(`Total marks is ${pattern.totalMarks} but the sections allow ${computeMaxMarks(pattern)}`);
+  }
+
+  return errors;
+}
+
+// Make sure the built-in patterns exist so every educator has something to start from
+async function ensureDefaultPatterns() {
+  for (const pattern of DEFAULT_PATTERNS) {
+    await ExamPattern.updateOne(
+      { isDefault: true, examType: pattern.examType, name: pattern.name },
+      { $setOnInsert: pattern },
+      { upsert: true }
+    );
+  }
+}
+
+// Load the requested pattern, falling back to the built-in one for the exam type
+async function resolvePattern(educatorId, patternId, examType) {
+  if (patternId) {
+    const pattern = await ExamPattern.findOne({
+      _id: patternId,
+      $or: [{ educator: educatorId }, { isDefault: true }]
+    });
+    if (pattern) return pattern;
+  }
+
+  await ensureDefaultPatterns();
+  return ExamPattern.findOne({ isDefault: true, examType });
+}
+
+module.exports = {
+  DEFAULT_PATTERNS,
+  getSectionGroups,
+  computeMaxMarks,
+  validatePattern,
+  ensureDefaultPatterns,
+  resolvePattern
+};
@@ -0,0 +1,114 @@
+// server/utils/exams.js - Exam kinds, the exam type of their papers, the exam lifecycle and an exam's history
+
+const crypto = require('crypto');
+const { isOwner, isReviewer } = require('./paperWorkflow');
+
+const EXAM_TYPES = ['CIE1', 'CIE2', 'SEMESTER_END'];
+
+const EXAM_STATUSES = ['DRAFT', 'FINALIZED', 'PUBLISHED'];
+
+// Allowed moves from each status and who may make them: the exam's owner or a reviewer (admin).
+// Going back to DRAFT is not a transition but an admin unlock with a recorded reason
+const EXAM_TRANSITIONS = {
+  DRAFT: { FINALIZED: 'owner' },
+  FINALIZED: { PUBLISHED: 'reviewer' },
+  PUBLISHED: {}
+};
+
+// A finalized or published exam freezes its papers and their answer keys
+const LOCKED_EXAM_STATUSES = ['FINALIZED', 'PUBLISHED'];
+
+// Papers, patterns and the cool-off only tell internal tests (CIE) from semester-end exams (SEE)
+const PAPER_EXAM_TYPES = {
+  CIE1: 'CIE',
+  CIE2: 'CIE',
+  SEMESTER_END: 'SEE'
+};
+
+const DEFAULT_INSTRUCTIONS = 'Answer all questions. Each question carries marks as indicated.';
+
+const paperExamType = examType => PAPER_EXAM_TYPES[examType];
+
+const isExamLocked = exam => LOCKED_EXAM_STATUSES.includes(exam.status);
+
+function availableExamTransitions(exam, educator) {
+  return Object.entries(EXAM_TRANSITIONS[exam.status] || {})
+    .filter(([, actor]) => actor === 'reviewer' ? isReviewer(educator) : isOwner(exam, educator))
+    .map(([status]) => status);
+}
+
+const canUnlockExam = (exam, educator) => isExamLocked(exam) && isReviewer(educator);
+
+const sha256 = value => crypto.createHash('sha256').update(JSON.stringify(value)).digest('hex');
+
+// Fingerprint of what a paper prints: recomputed later, a different hash means the paper changed
+const paperContentHash = paper => sha256({
+  title: paper.title,
+  content: paper.content,
+  questions: paper.questions,
+  totalMarks: paper.totalMarks
+});
+
+const answerKeyHash = answerKey => sha256((answerKey ? answerKey.entries : []).map(entry => ({
+  questionId: entry.questionId,
+  keyPoints: entry.keyPoints.map(point => ({ text: point.text, marks: point.marks })),
+  modelAnswer: entry.modelAnswer
+})));
+
+const person = by => (by && by.name ? { _id: by._id, name: by.name, role: by.role } : undefined);
+
+const paperRef = paper => ({ _id: paper._id, title: paper.title, setLabel: paper.setLabel });
+
+/**
+ * One timeline of an exam and its papers, newest first: the exam being created, changing
+ * status and being unlocked, each paper being saved and each step of its review.
+ *
+ * @param {Object} exam - Exam with statusHistory.by populated
+ * @param {Array} papers - The exam's papers with statusHistory.by populated
+ * @returns {Array<{ at: Date, event: string, from?: string, to?: string, note?: string, by?: Object, paper?: Object }>}
+ */
+function examHistory(exam, papers = []) {
+  const history = [{ at: exam.createdAt, event: 'EXAM_CREATED', by: person(exam.educator) }];
+
+  for (const change of exam.statusHistory || []) {
+    history.push({
+      at: change.at,
+      event: change.unlock ? 'EXAM_UNLOCKED' : 'EXAM_STATUS',
+      from: change.from,
+      to: change.to,
+      note: change.note,
+      by: person(change.by)
+    });
+  }
+
+  for (const paper of papers) {
+    history.push({ at: paper.createdAt, event: 'PAPER_SAVED', paper: paperRef(paper) });
+    for (const change of paper.statusHistory || []) {
+      history.push({
+        at: change.at,
+        event: 'PAPER_STATUS',
+        from: change.from,
+        to: change.to,
+        note: change.note,
+        by: person(change.by),
+        paper: paperRef(paper)
+      });
+    }
+  }
+
+  return history.sort((a, b) => new Date(b.at) - new Date(a.at));
+}
+
+module.exports = {
+  DEFAULT_INSTRUCTIONS,
+  EXAM_STATUSES,
+  EXAM_TRANSITIONS,
+  EXAM_TYPES,
+  answerKeyHash,
+  availableExamTransitions,
+  canUnlockExam,
+  examHistory,
+  isExamLocked,
+  paperContentHash,
+  paperExamType
+};
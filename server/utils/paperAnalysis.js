@@ -0,0 +1,213 @@
+// server/utils/paperAnalysis.js - Question paper analysis report for accreditation audits (NBA/NAAC)
+
+const ExcelJS = require('exceljs');
+const { BLOOM_LEVELS } = require('./bankReview');
+const { articulationMatrix } = require('./programOutcomes');
+
+const normalize = value => (value || '').toString().trim().toLowerCase().replace(/\s+/g, ' ');
+
+const round = (value, places = 3) => Math.round(value * 10 ** places) / 10 ** places;
+
+const share = (marks, total) => (total > 0 ? round(marks / total) : 0);
+
+// Question count and marks per key, in the order the keys are first given
+function tally(questions, keyOf, keys = []) {
+  const totals = new Map(keys.map(key => [key, { questionCount: 0, marks: 0 }]));
+  for (const question of questions) {
+    const key = keyOf(question);
+    const total = totals.get(key) || { questionCount: 0, marks: 0 };
+    totals.set(key, { questionCount: total.questionCount + 1, marks: total.marks + (Number(question.marks) || 0) });
+  }
+  return totals;
+}
+
+/**
+ * Analyse a saved paper from the fields stored on its questions: marks per CO and per Bloom
+ * level, which syllabus units and topics it covers, and how far it can attain each program
+ * outcome through the course's CO-PO matrix.
+ *
+ * A PO's attainment potential is the marks on its correlated COs weighted by the correlation
+ * level, as a share of every mark on the paper at level 3: 1 means the whole paper assesses the
+ * PO at high correlation. Its level is the marks-weighted average correlation of those COs.
+ *
+ * @param {Object} paper - Saved QuestionPaper (title, examType, semester, totalMarks, questions ...)
+ * @param {Object} course - Course with name, code, department, outcomes and poMapping
+ * @param {Array<{ code: string, statement: string }>} programOutcomes - The department's POs
+ * @param {Array<{ unit: string, topic: string }>} syllabusTopics - Topics of the course's active bank
+ */
+function analyzePaper(paper, course, programOutcomes = [], syllabusTopics = []) {
+  const questions = paper.questions || [];
+  const outcomes = course.outcomes || [];
+  const mapping = course.poMapping || [];
+  const questionMarks = questions.reduce((sum, question) => sum + (Number(question.marks) || 0), 0);
+  const warnings = [];
+
+  // Every defined CO gets a row, even at no marks; untagged questions come last
+  const coTotals = tally(questions, question => (question.co ? `CO${question.co}` : ''), outcomes.map(outcome => outcome.code));
+  const co = [...coTotals.entries()]
+    .map(([code, total]) => ({
+      code,
+      statement: (outcomes.find(outcome => outcome.code === code) || {}).statement || '',
+      ...total,
+      share: share(total.marks, questionMarks)
+    }))
+    .sort((a, b) => (a.code ? parseInt(a.code.slice(2), 10) : Infinity) - (b.code ? parseInt(b.code.slice(2), 10) : Infinity));
+
+  for (const row of co) {
+    if (row.code && row.marks === 0) warnings.push(`${row.code} is not assessed on this paper`);
+  }
+  const untagged = co.find(row => !row.code);
+  if (untagged) warnings.push(`${untagged.questionCount} question(s) carrying ${untagged.marks} marks have no CO`);
+
+  const bloomTotals = tally(questions, question => question.bloomLevel || '', BLOOM_LEVELS);
+  const bloom = [...bloomTotals.entries()]
+    .filter(([level, total]) => level || total.questionCount > 0)
+    .map(([level, total]) => ({ level, ...total, share: share(total.marks, questionMarks) }));
+
+  // Units in syllabus order, then units only the paper names; a topic is covered when a
+  // question on the paper is on it
+  const syllabusUnits = new Map();
+  for (const { unit, topic } of syllabusTopics) {
+    syllabusUnits.set(unit, [...(syllabusUnits.get(unit) || []), topic]);
+  }
+  const unitTotals = tally(questions, question => question.unit || '', [...syllabusUnits.keys()]);
+  const units = [...unitTotals.entries()].map(([unit, total]) => {
+    const unitQuestions = questions.filter(question => (question.unit || '') === unit);
+    const paperTopics = new Set(unitQuestions.map(question => normalize(question.topic)).filter(Boolean));
+    const topics = syllabusUnits.get(unit) || [];
+    return {
+      unit,
+      ...total,
+      share: share(total.marks, questionMarks),
+      syllabusTopics: topics.length,
+      coveredTopics: topics.filter(topic => paperTopics.has(normalize(topic))).length,
+      topics: [...new Set(unitQuestions.map(question => question.topic).filter(Boolean))]
+    };
+  });
+
+  for (const row of units) {
+    if (row.unit && syllabusUnits.has(row.unit) && row.marks === 0) warnings.push(`${row.unit} is not covered`);
+  }
+
+  const matrix = articulationMatrix(outcomes, programOutcomes, mapping);
+  const coMarks = new Map(co.map(row => [row.code, row.marks]));
+  const po = programOutcomes.map(outcome => {
+    let marks = 0;
+    let weighted = 0;
+    for (const row of matrix.rows) {
+      const level = row.levels[outcome.code];
+      if (!level) continue;
+      marks += coMarks.get(row.co) || 0;
+      weighted += (coMarks.get(row.co) || 0) * level;
+    }
+    return {
+      code: outcome.code,
+      statement: outcome.statement,
+      marks,
+      level: marks > 0 ? round(weighted / marks, 2) : 0,
+      potential: questionMarks > 0 ? round(weighted / (3 * questionMarks)) : 0
+    };
+  });
+
+  if (programOutcomes.length === 0) {
+    warnings.push(`No program outcomes are defined for the ${course.department || 'course\'s'} department`);
+  } else if (mapping.length === 0) {
+    warnings.push('The course has no CO-PO mapping, so PO attainment cannot be estimated');
+  }
+
+  return {
+    paper: {
+      _id: paper._id,
+      title: paper.title,
+      examType: paper.examType,
+      semester: paper.semester,
+      setLabel: paper.setLabel,
+      totalMarks: paper.totalMarks,
+      totalQuestions: paper.totalQuestions
+    },
+    course: { name: course.name, code: course.code, department: course.department },
+    generatedAt: new Date(),
+    questionMarks,
+    co,
+    bloom,
+    units,
+    unitCoverage: {
+      covered: units.filter(row => row.unit && syllabusUnits.has(row.unit) && row.marks > 0).length,
+      total: syllabusUnits.size
+    },
+    programOutcomes: po,
+    matrix,
+    warnings
+  };
+}
+
+const percent = value => `${Math.round(value * 100)}%`;
+
+// Worksheet with a bold header row and the given column widths
+function addSheet(workbook, name, header, rows, widths) {
+  const worksheet = workbook.addWorksheet(name);
+  worksheet.addRow(header);
+  worksheet.addRows(rows);
+  worksheet.getRow(1).font = { bold: true };
+  widths.forEach((width, idx) => {
+    worksheet.getColumn(idx + 1).width = width;
+    worksheet.getColumn(idx + 1).alignment = { wrapText: true, vertical: 'top' };
+  });
+  return worksheet;
+}
+
+// The analysis as a workbook with a sheet per table, in the order the PDF prints them
+async function writeAnalysisXlsx(analysis) {
+  const workbook = new ExcelJS.Workbook();
+  const { paper, course } = analysis;
+
+  addSheet(workbook, 'Summary', ['Field', 'Value'], [
+    ['Course', `${course.name} (${course.code})`],
+    ['Department', course.department || ''],
+    ['Paper', paper.title],
+    ['Exam Type', paper.examType],
+    ['Semester', paper.semester],
+    ['Set', paper.setLabel || ''],
+    ['Total Marks', paper.totalMarks],
+    ['Questions', paper.totalQuestions],
+    ['Units Covered', `${analysis.unitCoverage.covered} of ${analysis.unitCoverage.total}`],
+    ['Generated', analysis.generatedAt.toISOString()],
+    ...analysis.warnings.map(warning => ['Warning', warning])
+  ], [20, 80]);
+
+  addSheet(workbook, 'CO Marks', ['CO', 'Course Outcome', 'Questions', 'Marks', 'Share'],
+    analysis.co.map(row => [row.code || 'No CO', row.statement, row.questionCount, row.marks, percent(row.share)]),
+    [10, 60, 12, 10, 10]);
+
+  addSheet(workbook, 'Bloom Levels', ['Bloom Level', 'Questions', 'Marks', 'Share'],
+    analysis.bloom.map(row => [row.level || 'Not set', row.questionCount, row.marks, percent(row.share)]),
+    [14, 12, 10, 10]);
+
+  addSheet(workbook, 'Unit Coverage', ['Unit', 'Questions', 'Marks', 'Share', 'Topics Covered', 'Topics on Paper'],
+    analysis.units.map(row => [
+      row.unit || 'No unit',
+      row.questionCount,
+      row.marks,
+      percent(row.share),
+      row.syllabusTopics ? `${row.coveredTopics} of ${row.syllabusTopics}` : '',
+      row.topics.join(', ')
+    ]),
+    [20, 12, 10, 10, 16, 60]);
+
+  const poCodes = analysis.programOutcomes.map(outcome => outcome.code);
+  addSheet(workbook, 'CO-PO Matrix', ['CO', ...poCodes], [
+    ...analysis.matrix.rows.map(row => [row.co, ...poCodes.map(code => row.levels[code] || '-')]),
+    ['Average', ...poCodes.map(code => analysis.matrix.average[code] || '-')]
+  ], [12, ...poCodes.map(() => 8)]);
+
+  addSheet(workbook, 'PO Attainment', ['PO', 'Program Outcome', 'Marks', 'Level', 'Potential'],
+    analysis.programOutcomes.map(row => [row.code, row.statement, row.marks, row.level, percent(row.potential)]),
+    [10, 60, 10, 10, 12]);
+
+  return Buffer.from(await workbook.xlsx.writeBuffer());
+}
+
+module.exports = {
+  analyzePaper,
+  writeAnalysisXlsx
+};
@@ -0,0 +1,492 @@
+// server/utils/paperAssembler.js - Assembles a whole paper from a question bank against pattern-level constraints
+
+const { isObjective } = require('./questionTypes');
+const { coNumber, normalizeCoCode } = require('./courseOutcomes');
+const { normalizeDifficulty } = require('./bankReview');
+
+const MARKS_TOLERANCE = 2;
+const RELAXED_MARKS_TOLERANCE = 4;
+
+// Paper objective weights: per-slot fit is roughly 0-175, so coverage and balance need to be comparable
+const COVERAGE_WEIGHT = 30;
+const DISTRIBUTION_WEIGHT = 150;
+
+// Share of marks a distribution may be off target before it is reported as relaxed
+const DISTRIBUTION_TOLERANCE = 0.2;
+
+const IMPROVEMENT_PASSES = 3;
+
+const BLOOM_LEVELS = ['L1', 'L2', 'L3', 'L4', 'L5', 'L6'];
+const BLOOM_BY_DIFFICULTY = {
+  easy: ['L1', 'L2'],
+  medium: ['L3', 'L4'],
+  hard: ['L5', 'L6']
+};
+
+const SOFT_CONSTRAINTS = ['topic', 'reuse', 'difficulty', 'marks'];
+
+// Each tier drops one more soft constraint; a slot is filled at the strictest tier that has a candidate
+const RELAXATION_TIERS = SOFT_CONSTRAINTS.map((_, idx) => SOFT_CONSTRAINTS.slice(0, idx));
+RELAXATION_TIERS.push(SOFT_CONSTRAINTS);
+
+const RELAXATION_MESSAGES = {
+  topic: 'No unused bank question matched the requested topic/unit',
+  reuse: 'Only questions used in recent papers fitted this part',
+  difficulty: 'No unused bank question matched the requested difficulty',
+  marks: `No unused bank question was within ${MARKS_TOLERANCE} marks of the requested marks`,
+  bank: 'No unused bank question fitted this part, so a question was generated instead'
+};
+
+const normalize = value => (value || '').toString().trim().toLowerCase();
+
+// A question's own CO tag, as the number papers keep
+const questionCo = question => coNumber(question.co);
+
+const questionKey = question => String(question._id || normalize(question.question));
+
+// Questions off the slot's unit and topic only get in once 'topic' is relaxed, so they are reported
+const matchesTopic = (question, slot) => {
+  const topicMatch = Boolean(slot.config.topic) &&
+    normalize(question.matched_topic).includes(normalize(slot.config.topic));
+
+  // Sections tied to a unit accept either the unit or the requested topic
+  if (slot.preferredUnit) {
+    return topicMatch || normalize(question.matched_unit).includes(slot.preferredUnit);
+  }
+  return !slot.config.topic || topicMatch;
+};
+
+// The question type is never relaxed: an MCQ slot cannot take a descriptive question or the other way round
+const matchesSlot = (question, slot, relaxed) => {
+  if ((question.question_type || 'DESCRIPTIVE') !== slot.questionType) {
+    return false;
+  }
+  const tolerance = relaxed.includes('marks') ? RELAXED_MARKS_TOLERANCE : MARKS_TOLERANCE;
+  if (!question.predicted_marks || Math.abs(question.predicted_marks - slot.config.marks) > tolerance) {
+    return false;
+  }
+  if (!relaxed.includes('difficulty') && normalize(question.difficulty) !== normalize(slot.config.level)) {
+    return false;
+  }
+  if (!relaxed.includes('reuse') && slot.coolingIds.has(questionKey(question))) {
+    return false;
+  }
+  return relaxed.includes('topic') || matchesTopic(question, slot);
+};
+
+// How well a single bank question fits a single slot, independent of the rest of the paper
+const slotFit = (question, slot) => {
+  let score = (question.topic_similarity || 0) * 100;
+  if (question.predicted_marks === slot.config.marks) score += 50;
+  if (slot.preferredUnit && normalize(question.matched_unit).includes(slot.preferredUnit)) score += 25;
+  if (slot.co && questionCo(question) === slot.co) score += 25;
+  return score;
+};
+
+// Turn a { key: weight } map into shares that sum to 1
+const toShares = weights => {
+  const total = Object.values(weights).reduce((sum, value) => sum + value, 0);
+  const shares = {};
+  for (const [key, value] of Object.entries(weights)) {
+    shares[key] = total > 0 ? value / total : 0;
+  }
+  return shares;
+};
+
+// Sum of absolute share differences: 0 is on target, 2 is completely disjoint
+const deviation = (target, actual) => {
+  const keys = new Set([...Object.keys(target), ...Object.keys(actual)]);
+  let total = 0;
+  for (const key of keys) {
+    total += Math.abs((target[key] || 0) - (actual[key] || 0));
+  }
+  return total;
+};
+
+// CO weights keyed by code; "2" and "co2" both target CO2
+const normalizeCoWeights = weights => {
+  const normalized = {};
+  for (const [code, weight] of Object.entries(weights)) {
+    if (Number(weight) > 0) normalized[normalizeCoCode(code)] = Number(weight);
+  }
+  return normalized;
+};
+
+// Default targets follow the requested per-part difficulty; Bloom levels are spread across each difficulty band.
+// A CO target is only set when requested
+const buildTargets = (slots, targets = {}) => {
+  const difficulty = {};
+  const bloom = {};
+
+  for (const { config } of slots) {
+    const level = normalize(config.level) || 'medium';
+    difficulty[level] = (difficulty[level] || 0) + config.marks;
+
+    const band = BLOOM_BY_DIFFICULTY[level] || BLOOM_BY_DIFFICULTY.medium;
+    for (const bloomLevel of band) {
+      bloom[bloomLevel] = (bloom[bloomLevel] || 0) + config.marks / band.length;
+    }
+  }
+
+  const co = targets.co ? normalizeCoWeights(targets.co) : {};
+
+  return {
+    difficulty: toShares(targets.difficulty || difficulty),
+    bloom: toShares(targets.bloom || bloom),
+    co: Object.keys(co).length > 0 ? toShares(co) : null
+  };
+};
+
+// Difficulty and Bloom level of whatever currently fills a slot; generated fallbacks follow the slot's request
+const describeAssignment = (assignment, slot) => {
+  if (assignment.question) {
+    return {
+      difficulty: normalize(assignment.question.difficulty),
+      bloomLevel: assignment.question.bloom_level,
+      unit: normalize(assignment.question.matched_unit),
+      topic: normalize(assignment.question.matched_topic),
+      co: questionCo(assignment.question) || slot.co
+    };
+  }
+  const level = normalize(slot.config.level);
+  return {
+    difficulty: level,
+    bloomLevel: (BLOOM_BY_DIFFICULTY[level] || BLOOM_BY_DIFFICULTY.medium)[0],
+    unit: slot.preferredUnit,
+    topic: normalize(slot.config.topic),
+    co: slot.co
+  };
+};
+
+const measurePaper = (slots, assignments) => {
+  const difficulty = {};
+  const bloom = {};
+  const co = {};
+  const units = new Set();
+  const topics = new Set();
+
+  slots.forEach((slot, idx) => {
+    const assignment = assignments[idx];
+    if (!assignment) return;
+
+    const details = describeAssignment(assignment, slot);
+    const marks = slot.config.marks;
+    if (details.difficulty) difficulty[details.difficulty] = (difficulty[details.difficulty] || 0) + marks;
+    if (BLOOM_LEVELS.includes(details.bloomLevel)) bloom[details.bloomLevel] = (bloom[details.bloomLevel] || 0) + marks;
+    if (details.co) co[`CO${details.co}`] = (co[`CO${details.co}`] || 0) + marks;
+    if (details.unit) units.add(details.unit);
+    if (details.topic) topics.add(details.topic);
+  });
+
+  return {
+    difficulty: toShares(difficulty),
+    bloom: toShares(bloom),
+    co: toShares(co),
+    units,
+    topics
+  };
+};
+
+const scorePaper = (slots, assignments, targets) => {
+  const measured = measurePaper(slots, assignments);
+  let score = 0;
+
+  slots.forEach((slot, idx) => {
+    const assignment = assignments[idx];
+    if (assignment && assignment.question) {
+      // Relaxed picks should lose to strict ones whenever both are available
+      score += slotFit(assignment.question, slot) - assignment.tier * 100;
+    }
+  });
+
+  score += COVERAGE_WEIGHT * (measured.units.size + measured.topics.size);
+  score -= DISTRIBUTION_WEIGHT * (deviation(targets.difficulty, measured.difficulty) + deviation(targets.bloom, measured.bloom));
+  if (targets.co) score -= DISTRIBUTION_WEIGHT * deviation(targets.co, measured.co);
+  return score;
+};
+
+// Setup can change a part's question type and negative marking from the section's defaults
+const slotQuestionType = (config, section) => config.questionType || section.questionType || 'DESCRIPTIVE';
+
+const slotNegativeMarks = (config, section) =>
+  isObjective(slotQuestionType(config, section)) ? (config.negativeMarks ?? section.negativeMarks ?? 0) : undefined;
+
+const buildSlot = (config, section, sectionNumber, coolingIds) => ({
+  config,
+  section,
+  sectionNumber,
+  questionType: slotQuestionType(config, section),
+  preferredUnit: normalize(section.unit),
+  // The CO a part asks for; questions tagged with it fit better but any CO is allowed
+  co: config.co || section.co,
+  coolingIds
+});
+
+// Duplicate texts in the bank count as the same question
+const dedupeBank = bankQuestions => {
+  const seen = new Set();
+  return bankQuestions.filter(question => {
+    const text = normalize(question.question);
+    if (!text || seen.has(text)) return false;
+    seen.add(text);
+    return true;
+  });
+};
+
+// Constraints of the slot a bank question does not meet, regardless of which tier let it in
+const violatedConstraints = (question, slot) =>
+  SOFT_CONSTRAINTS.filter(constraint =>
+    !matchesSlot(question, slot, SOFT_CONSTRAINTS.filter(other => other !== constraint)));
+
+const toPaperQuestion = (selected, slot) => ({
+  questionId: slot.config.questionId,
+  section: slot.sectionNumber,
+  text: selected.question,
+  type: slot.questionType,
+  options: (selected.options || []).map(option => ({ text: option.text, isCorrect: !!option.isCorrect })),
+  marks: slot.config.marks,
+  negativeMarks: slotNegativeMarks(slot.config, slot.section),
+  // The picked question's own difficulty, so a relaxed pick is not reported as the requested one
+  difficulty: normalizeDifficulty(selected.difficulty) || slot.config.level,
+  bloomLevel: selected.bloom_level,
+  unit: selected.matched_unit,
+  topic: selected.matched_topic,
+  co: questionCo(selected) || slot.co,
+  source: 'processed_data',
+  originalId: selected._id,
+  similarity: selected.topic_similarity
+});
+
+// Lowest tier at which a bank question is allowed into a slot, or -1 if never
+const lowestTier = (question, slot) =>
+  RELAXATION_TIERS.findIndex(relaxed => matchesSlot(question, slot, relaxed));
+
+/**
+ * Assemble a paper from bank questions.
+ *
+ * Every active part in the pattern is treated as a slot. Slots are filled most-constrained-first,
+ * each pick maximising the whole-paper objective (slot fit, unit/topic coverage, Bloom and difficulty
+ * balance), followed by a few hill-climbing passes of replacements and swaps. A bank question is never
+ * used twice. When a slot can only be filled by dropping a constraint, or the paper misses its
+ * distribution targets, the relaxation is recorded.
+ *
+ * @param {Object}   options
+ * @param {Array}    options.bankQuestions   processed bank questions (question, predicted_marks, bloom_level, ...)
+ * @param {Object}   options.pattern         exam pattern
+ * @param {Array}    options.questionConfigs per-part configs from the setup page
+ * @param {Object}   [options.targets]       optional { bloom: { L1: weight }, difficulty: { easy: weight }, co: { CO1: weight } }
+ * @param {Set}      [options.coolingIds]    bank question ids used in recent papers; picked only as a relaxation
+ * @param {Function} options.fallback        async (config, section, sectionNumber) => generated question
+ * @returns {Promise<{ questions: Array, relaxations: Array, distribution: Object }>}
+ */
+async function assemblePaper({ bankQuestions = [], pattern, questionConfigs, targets, coolingIds = new Set(), fallback }) {
+  const slots = [];
+  pattern.sections.forEach((section, idx) => {
+    const sectionNumber = idx + 1;
+    questionConfigs
+      .filter(q => q.section === sectionNumber && q.included !== false)
+      .forEach(config => slots.push(buildSlot(config, section, sectionNumber, coolingIds)));
+  });
+
+  const resolvedTargets = buildTargets(slots, targets);
+  const bank = dedupeBank(bankQuestions);
+
+  const tiers = slots.map(slot => bank.map(question => lowestTier(question, slot)));
+  const strictCounts = tiers.map(slotTiers => slotTiers.filter(tier => tier === 0).length);
+
+  const order = slots
+    .map((_, idx) => idx)
+    .sort((a, b) => strictCounts[a] - strictCounts[b]);
+
+  const assignments = new Array(slots.length).fill(null);
+  const used = new Set();
+
+  // Greedy construction, most constrained slot first
+  for (const slotIdx of order) {
+    const slotTiers = tiers[slotIdx];
+    const bestTier = Math.min(...slotTiers.filter((tier, qIdx) => tier >= 0 && !used.has(questionKey(bank[qIdx]))), Infinity);
+
+    if (bestTier === Infinity) {
+      assignments[slotIdx] = { question: null, tier: RELAXATION_TIERS.length };
+      continue;
+    }
+
+    let best = null;
+    let bestScore = -Infinity;
+    bank.forEach((question, qIdx) => {
+      if (slotTiers[qIdx] !== bestTier || used.has(questionKey(question))) return;
+      assignments[slotIdx] = { question, tier: bestTier };
+      const score = scorePaper(slots, assignments, resolvedTargets);
+      if (score > bestScore) {
+        bestScore = score;
+        best = question;
+      }
+    });
+
+    assignments[slotIdx] = { question: best, tier: bestTier };
+    used.add(questionKey(best));
+  }
+
+  // Hill climbing: replace a pick with an unused question, or swap two picks, when the paper improves
+  let currentScore = scorePaper(slots, assignments, resolvedTargets);
+  for (let pass = 0; pass < IMPROVEMENT_PASSES; pass++) {
+    let improved = false;
+
+    for (let slotIdx = 0; slotIdx < slots.length; slotIdx++) {
+      const current = assignments[slotIdx];
+      if (!current.question) continue;
+
+      bank.forEach((question, qIdx) => {
+        const tier = tiers[slotIdx][qIdx];
+        if (tier < 0 || tier > assignments[slotIdx].tier || used.has(questionKey(question))) return;
+
+        const previous = assignments[slotIdx];
+        assignments[slotIdx] = { question, tier };
+        const score = scorePaper(slots, assignments, resolvedTargets);
+        if (score > currentScore) {
+          used.delete(questionKey(previous.question));
+          used.add(questionKey(question));
+          currentScore = score;
+          improved = true;
+        } else {
+          assignments[slotIdx] = previous;
+        }
+      });
+
+      for (let otherIdx = slotIdx + 1; otherIdx < slots.length; otherIdx++) {
+        const mine = assignments[slotIdx];
+        const theirs = assignments[otherIdx];
+        if (!theirs.question) continue;
+
+        const myNewTier = lowestTier(theirs.question, slots[slotIdx]);
+        const theirNewTier = lowestTier(mine.question, slots[otherIdx]);
+        if (myNewTier < 0 || theirNewTier < 0 || myNewTier > mine.tier || theirNewTier > theirs.tier) continue;
+
+        assignments[slotIdx] = { question: theirs.question, tier: myNewTier };
+        assignments[otherIdx] = { question: mine.question, tier: theirNewTier };
+        const score = scorePaper(slots, assignments, resolvedTargets);
+        if (score > currentScore) {
+          currentScore = score;
+          improved = true;
+        } else {
+          assignments[slotIdx] = mine;
+          assignments[otherIdx] = theirs;
+        }
+      }
+    }
+
+    if (!improved) break;
+  }
+
+  const relaxations = [];
+  const questions = [];
+  // Sequential so a local LLM backend only sees one fallback request at a time
+  for (const [idx, slot] of slots.entries()) {
+    const assignment = assignments[idx];
+    const { config, section, sectionNumber } = slot;
+
+    if (!assignment.question) {
+      relaxations.push({ questionId: config.questionId, constraint: 'bank', message: RELAXATION_MESSAGES.bank });
+      questions.push(await fallback(config, section, sectionNumber));
+      continue;
+    }
+
+    for (const constraint of violatedConstraints(assignment.question, slot)) {
+      relaxations.push({ questionId: config.questionId, constraint, message: RELAXATION_MESSAGES[constraint] });
+    }
+
+    questions.push(toPaperQuestion(assignment.question, slot));
+  }
+
+  const measured = measurePaper(slots, assignments);
+  const distribution = {
+    bloom: { target: resolvedTargets.bloom, actual: measured.bloom },
+    difficulty: { target: resolvedTargets.difficulty, actual: measured.difficulty },
+    co: { target: resolvedTargets.co, actual: measured.co },
+    unitsCovered: [...measured.units],
+    topicsCovered: [...measured.topics]
+  };
+
+  for (const key of ['bloom', 'difficulty']) {
+    const offBy = deviation(distribution[key].target, distribution[key].actual) / 2;
+    if (offBy > DISTRIBUTION_TOLERANCE) {
+      relaxations.push({
+        constraint: `${key}Distribution`,
+        message: `${key === 'bloom' ? 'Bloom level' : 'Difficulty'} distribution is ${Math.round(offBy * 100)}% of marks away from target`
+      });
+    }
+  }
+
+  // Every CO given a target weight must appear on the paper; the mix is then held to the tolerance
+  if (resolvedTargets.co) {
+    const missingCos = Object.keys(resolvedTargets.co).filter(code => !measured.co[code]);
+    if (missingCos.length > 0) {
+      relaxations.push({
+        constraint: 'coCoverage',
+        message: `No question on the paper covers ${missingCos.join(', ')}`
+      });
+    }
+
+    const offBy = deviation(resolvedTargets.co, measured.co) / 2;
+    if (offBy > DISTRIBUTION_TOLERANCE) {
+      relaxations.push({
+        constraint: 'coDistribution',
+        message: `CO distribution is ${Math.round(offBy * 100)}% of marks away from target`
+      });
+    }
+  }
+
+  const missingUnits = [...new Set(slots.map(slot => slot.preferredUnit).filter(Boolean))]
+    .filter(unit => ![...measured.units].some(covered => covered.includes(unit)));
+  if (missingUnits.length > 0) {
+    relaxations.push({
+      constraint: 'unitCoverage',
+      message: `No bank question covers ${missingUnits.join(', ')}`
+    });
+  }
+
+  return { questions, relaxations, distribution };
+}
+
+/**
+ * Rank bank questions that could replace the one in a single slot.
+ *
+ * Candidates that meet every constraint come first, then ones that needed relaxing, each group ordered
+ * by slot fit. Questions already on the paper are skipped.
+ *
+ * @param {Object} options
+ * @param {Array}  options.bankQuestions processed bank questions
+ * @param {Object} options.pattern       exam pattern
+ * @param {Object} options.config        the slot's question config
+ * @param {Array}  [options.excludeIds]  bank question ids already used on the paper
+ * @param {Set}    [options.coolingIds]  bank question ids used in recent papers
+ * @param {number} [options.limit]       maximum number of candidates
+ * @returns {Array} paper questions with `relaxed` constraints and a `score`
+ */
+function rankAlternatives({ bankQuestions = [], pattern, config, excludeIds = [], coolingIds = new Set(), limit = 10 }) {
+  const section = pattern.sections[config.section - 1];
+  if (!section) return [];
+
+  const slot = buildSlot(config, section, config.section, coolingIds);
+  const excluded = new Set(excludeIds.map(String));
+
+  return dedupeBank(bankQuestions)
+    .filter(question => !excluded.has(questionKey(question)))
+    .map(question => ({ question, tier: lowestTier(question, slot) }))
+    .filter(({ tier }) => tier >= 0)
+    .map(({ question, tier }) => ({ question, tier, score: slotFit(question, slot) }))
+    .sort((a, b) => a.tier - b.tier || b.score - a.score)
+    .slice(0, limit)
+    .map(({ question, score }) => ({
+      ...toPaperQuestion(question, slot),
+      relaxed: violatedConstraints(question, slot),
+      score: Math.round(score)
+    }));
+}
+
+module.exports = {
+  assemblePaper,
+  rankAlternatives,
+  slotNegativeMarks,
+  slotQuestionType
+};
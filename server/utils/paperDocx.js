@@ -0,0 +1,396 @@
+// server/utils/paperDocx.js - Word (DOCX) rendering of saved question papers and their answer keys
+
+const {
+  AlignmentType,
+  BorderStyle,
+  Document,
+  Footer,
+  ImageRun,
+  Packer,
+  PageNumber,
+  Paragraph,
+  ShadingType,
+  Table,
+  TableCell,
+  TableRow,
+  TextRun,
+  WidthType
+} = require('docx');
+const { getSectionGroups } = require('./examPatterns');
+const {
+  REGISTER_NUMBER_LABEL,
+  formatDuration,
+  getExamTitle,
+  letterheadContent,
+  paperHeader,
+  questionLabel,
+  sectionOf,
+  withSetLabel
+} = require('./paperHeader');
+const { analyzePaper } = require('./paperAnalysis');
+const { correctOption, isObjective, optionLetter } = require('./questionTypes');
+
+// A4 with 15mm margins, in twentieths of a point
+const PAGE_MARGIN = 850;
+const CONTENT_WIDTH = 11906 - PAGE_MARGIN * 2;
+
+// Q.No., Question, Marks, CO, BL
+const QUESTION_COLUMNS = [900, 6900, 1100, 700, 600];
+// Q.No., Key points, Marks
+const ANSWER_KEY_COLUMNS = [900, 8200, 1100];
+
+// Questions per row of the answer grid
+const GRID_COLUMNS = 5;
+
+const LOGO_SIZE = 64;
+const REGISTER_BOX_WIDTH = 340;
+
+const HEADING_FILL = 'EBEBEB';
+
+const NO_BORDERS = {
+  top: { style: BorderStyle.NONE, size: 0, color: 'FFFFFF' },
+  bottom: { style: BorderStyle.NONE, size: 0, color: 'FFFFFF' },
+  left: { style: BorderStyle.NONE, size: 0, color: 'FFFFFF' },
+  right: { style: BorderStyle.NONE, size: 0, color: 'FFFFFF' },
+  insideHorizontal: { style: BorderStyle.NONE, size: 0, color: 'FFFFFF' },
+  insideVertical: { style: BorderStyle.NONE, size: 0, color: 'FFFFFF' }
+};
+
+const coCode = co => `CO${co}`;
+
+const sectionQuestions = (questions, section) => questions.filter(question => sectionOf(question) === section);
+
+const text = (value, options = {}) => new TextRun({ text: String(value), size: 20, ...options });
+
+const paragraph = (value, options = {}, run = {}) =>
+  new Paragraph({ children: [text(value, run)], ...options });
+
+const cell = (children, { width, columnSpan, bold, align, fill } = {}) => new TableCell({
+  children: (Array.isArray(children) ? children : [children]).map(line =>
+    line instanceof Paragraph ? line : paragraph(line, { alignment: align }, { bold })
+  ),
+  width: width ? { size: width, type: WidthType.DXA } : undefined,
+  columnSpan,
+  shading: fill ? { type: ShadingType.CLEAR, fill, color: 'auto' } : undefined,
+  margins: { top: 60, bottom: 60, left: 80, right: 80 }
+});
+
+// A row across every column, for section headings and "OR"
+const spanningRow = (value, columnCount, { align, fill } = {}) => new TableRow({
+  children: [cell(value, { columnSpan: columnCount, bold: true, align, fill })]
+});
+
+const table = (rows, columnWidths, borders) => new Table({
+  rows,
+  columnWidths,
+  width: { size: CONTENT_WIDTH, type: WidthType.DXA },
+  borders
+});
+
+// Logo, institution name, affiliation, address and department line, centred
+function letterhead(branding) {
+  const { logo, name, lines } = letterheadContent(branding);
+  const children = [];
+
+  if (logo) {
+    children.push(new Paragraph({
+      alignment: AlignmentType.CENTER,
+      children: [new ImageRun({ data: logo.data, transformation: { width: LOGO_SIZE, height: LOGO_SIZE } })]
+    }));
+  }
+
+  children.push(paragraph(name, { alignment: AlignmentType.CENTER }, { bold: true, size: 28 }));
+  for (const line of lines) {
+    children.push(paragraph(line, { alignment: AlignmentType.CENTER }));
+  }
+
+  return children;
+}
+
+// Empty boxes for the candidate's register number, on the right
+function registerNumberBoxes(branding) {
+  const { enabled, digits } = branding.registerNumber;
+  if (!enabled) return [];
+
+  const boxes = Array.from({ length: digits }, () => cell('', { width: REGISTER_BOX_WIDTH }));
+  return [
+    new Paragraph({ children: [] }),
+    new Table({
+      rows: [new TableRow({ children: [cell(REGISTER_NUMBER_LABEL, { width: 700, bold: true, align: AlignmentType.RIGHT }), ...boxes] })],
+      columnWidths: [700, ...boxes.map(() => REGISTER_BOX_WIDTH)],
+      alignment: AlignmentType.RIGHT,
+      borders: {
+        top: { style: BorderStyle.SINGLE, size: 4, color: '000000' },
+        bottom: { style: BorderStyle.SINGLE, size: 4, color: '000000' },
+        left: { style: BorderStyle.NONE, size: 0, color: 'FFFFFF' },
+        right: { style: BorderStyle.SINGLE, size: 4, color: '000000' },
+        insideHorizontal: { style: BorderStyle.NONE, size: 0, color: 'FFFFFF' },
+        insideVertical: { style: BorderStyle.SINGLE, size: 4, color: '000000' }
+      }
+    })
+  ];
+}
+
+// Letterhead, register number boxes, title and the course/semester/duration/max-marks table,
+// followed by the instructions when there are any
+function header(paper, pattern, branding, title, { instructions = true } = {}) {
+  const details = paperHeader(paper, pattern);
+  const course = paper.course.name ? `${paper.course.name} (${paper.course.code})` : paper.course.code;
+  const columnWidth = CONTENT_WIDTH / 4;
+
+  const rows = [
+    ['Course', course, 'Semester', paper.semester],
+    ['Duration', formatDuration(details.duration), 'Max. Marks', String(details.maxMarks)],
+    ...(paper.exam ? [['Exam', paper.exam.title, 'Date', details.date]] : [])
+  ].map(values => new TableRow({
+    children: values.map((value, idx) => cell(value, { width: columnWidth, bold: idx % 2 === 0 }))
+  }));
+
+  const children = [
+    ...letterhead(branding),
+    ...registerNumberBoxes(branding),
+    paragraph(withSetLabel(title, paper.setLabel), { alignment: AlignmentType.CENTER, spacing: { before: 240, after: 160 } }, { bold: true, size: 24 }),
+    table(rows, Array(4).fill(columnWidth))
+  ];
+
+  if (instructions && details.instructions.length > 0) {
+    children.push(paragraph('Instructions:', { spacing: { before: 200 } }, { bold: true }));
+    for (const instruction of details.instructions) {
+      children.push(paragraph(`• ${instruction}`));
+    }
+  }
+
+  return children;
+}
+
+// Exam cell footer above the page number on every page
+const footer = branding => new Footer({
+  children: [
+    ...(branding.footerText ? [paragraph(branding.footerText, { alignment: AlignmentType.CENTER }, { size: 16 })] : []),
+    new Paragraph({
+      alignment: AlignmentType.CENTER,
+      children: [
+        text('Page ', { size: 18 }),
+        new TextRun({ children: [PageNumber.CURRENT], size: 18 }),
+        text(' of ', { size: 18 }),
+        new TextRun({ children: [PageNumber.TOTAL_PAGES], size: 18 })
+      ]
+    })
+  ]
+});
+
+const toBuffer = (branding, children) => Packer.toBuffer(new Document({
+  sections: [{
+    properties: { page: { margin: { top: PAGE_MARGIN, bottom: PAGE_MARGIN, left: PAGE_MARGIN, right: PAGE_MARGIN } } },
+    footers: { default: footer(branding) },
+    children
+  }]
+}));
+
+const questionCell = question => [
+  paragraph(question.text),
+  ...(question.options || []).map((option, idx) => paragraph(`(${optionLetter(idx)}) ${option.text}`, { indent: { left: 240 } }))
+];
+
+const questionRow = question => new TableRow({
+  cantSplit: true,
+  children: [
+    cell(questionLabel(question), { width: QUESTION_COLUMNS[0], bold: true }),
+    cell(questionCell(question), { width: QUESTION_COLUMNS[1] }),
+    cell([String(question.marks), ...(question.negativeMarks ? [`-${question.negativeMarks} for a wrong answer`] : [])],
+      { width: QUESTION_COLUMNS[2], align: AlignmentType.CENTER }),
+    cell(question.co ? coCode(question.co) : '-', { width: QUESTION_COLUMNS[3], align: AlignmentType.CENTER }),
+    cell(question.bloomLevel || '-', { width: QUESTION_COLUMNS[4], align: AlignmentType.CENTER })
+  ]
+});
+
+const questionHeadRow = () => new TableRow({
+  tableHeader: true,
+  children: ['Q.No.', 'Question', 'Marks', 'CO', 'BL'].map((value, idx) =>
+    cell(value, { width: QUESTION_COLUMNS[idx], bold: true, fill: HEADING_FILL }))
+});
+
+// Marks per CO with each CO's statement; nothing when no question carries a CO
+function coMarksTable(paper) {
+  const { co } = analyzePaper(paper, paper.course);
+  if (!co.some(row => row.code)) return [];
+
+  const widths = [900, 7100, 1100, 1100];
+  const rows = [
+    spanningRow('CO-WISE MARKS DISTRIBUTION', 4, { fill: HEADING_FILL }),
+    new TableRow({ children: ['CO', 'Course Outcome', 'Marks', '%'].map((value, idx) => cell(value, { width: widths[idx], bold: true })) }),
+    ...co.map(row => new TableRow({
+      children: [
+        cell(row.code || '-', { width: widths[0], bold: true }),
+        cell(row.code ? row.statement : 'Questions without a CO', { width: widths[1] }),
+        cell(String(row.marks), { width: widths[2], align: AlignmentType.RIGHT }),
+        cell(`${Math.round(row.share * 100)}%`, { width: widths[3], align: AlignmentType.RIGHT })
+      ]
+    }))
+  ];
+
+  return [new Paragraph({ children: [], spacing: { before: 240 } }), table(rows, widths)];
+}
+
+/**
+ * Render a saved paper as a Word document the exam cell can edit before printing: the
+ * letterhead and header table, then a table per section (per module for papers with
+ * alternatives, with an "OR" row between the alternatives), each section on a new page, and
+ * the CO-wise marks table after the last.
+ *
+ * @param {Object} paper - QuestionPaper with course (name, code, outcomes) and exam populated
+ * @param {Object} pattern - The paper's exam pattern
+ * @param {Object} branding - Letterhead from InstitutionSettings.resolveFor
+ * @returns {Promise<Buffer>}
+ */
+async function writePaperDocx(paper, pattern, branding) {
+  const isAlternatives = pattern.choiceRule.mode === 'ALTERNATIVES';
+  const children = header(paper, pattern, branding, getExamTitle(paper.examType));
+
+  getSectionGroups(pattern).forEach((group, groupIdx) => {
+    const rows = [questionHeadRow()];
+
+    if (isAlternatives) {
+      const co = pattern.sections[group[0]].co;
+      const title = `${(pattern.choiceRule.groupTitle || 'Module').toUpperCase()} ${groupIdx + 1}${co ? ` (${coCode(co)})` : ''}`;
+      rows.push(spanningRow(title, QUESTION_COLUMNS.length, { fill: HEADING_FILL }));
+    }
+
+    group.forEach((sectionIdx, position) => {
+      if (!isAlternatives) {
+        rows.push(spanningRow(pattern.sections[sectionIdx].title.toUpperCase(), QUESTION_COLUMNS.length, { fill: HEADING_FILL }));
+      }
+
+      rows.push(...sectionQuestions(paper.questions, sectionIdx + 1).map(questionRow));
+
+      if (isAlternatives && position < group.length - 1) {
+        rows.push(spanningRow('OR', QUESTION_COLUMNS.length, { align: AlignmentType.CENTER }));
+      }
+    });
+
+    children.push(new Paragraph({ children: [], pageBreakBefore: groupIdx > 0, spacing: { before: 240 } }));
+    children.push(table(rows, QUESTION_COLUMNS));
+  });
+
+  children.push(...coMarksTable(paper));
+  children.push(paragraph('*** END OF QUESTION PAPER ***', { alignment: AlignmentType.CENTER, spacing: { before: 360 } }, { bold: true }));
+
+  return toBuffer(branding, children);
+}
+
+// The answer of an objective question: its correct option's letter, or True/False
+const objectiveAnswer = question => {
+  if (question.type === 'TRUE_FALSE') {
+    const answer = (question.options || []).find(option => option.isCorrect);
+    return answer ? answer.text : null;
+  }
+  return correctOption(question);
+};
+
+// Objective answers as label/answer pairs, GRID_COLUMNS questions to a row
+function answerGridTable(questions) {
+  const objective = questions.filter(question => isObjective(question.type));
+  if (objective.length === 0) return [];
+
+  const width = CONTENT_WIDTH / (GRID_COLUMNS * 2);
+  const rows = [spanningRow('ANSWER GRID', GRID_COLUMNS * 2, { fill: HEADING_FILL })];
+  for (let idx = 0; idx < objective.length; idx += GRID_COLUMNS) {
+    const cells = objective.slice(idx, idx + GRID_COLUMNS).flatMap(question => [
+      cell(questionLabel(question), { width, bold: true, align: AlignmentType.CENTER }),
+      cell(objectiveAnswer(question) || '?', { width, align: AlignmentType.CENTER })
+    ]);
+    while (cells.length < GRID_COLUMNS * 2) cells.push(cell('', { width }));
+    rows.push(new TableRow({ children: cells }));
+  }
+
+  return [new Paragraph({ children: [], spacing: { before: 240 } }), table(rows, Array(GRID_COLUMNS * 2).fill(width))];
+}
+
+// A question's heading row, then its key points with their marks and the model answer;
+// objective questions only name their correct option
+function answerKeyRows(question, entry) {
+  const [labelWidth, textWidth, marksWidth] = ANSWER_KEY_COLUMNS;
+  const rows = [new TableRow({
+    cantSplit: true,
+    children: [
+      cell(questionLabel(question), { width: labelWidth, bold: true, fill: HEADING_FILL }),
+      cell(question.text, { width: textWidth, bold: true, fill: HEADING_FILL }),
+      cell(`${question.marks}M`, { width: marksWidth, bold: true, fill: HEADING_FILL, align: AlignmentType.RIGHT })
+    ]
+  })];
+
+  const detailRow = (value, marks = '') => new TableRow({
+    children: [
+      cell('', { width: labelWidth }),
+      cell(value, { width: textWidth }),
+      cell(marks, { width: marksWidth, align: AlignmentType.RIGHT })
+    ]
+  });
+
+  if (isObjective(question.type)) {
+    rows.push(detailRow(`Answer: ${objectiveAnswer(question) || 'not marked'}`));
+    return rows;
+  }
+
+  if (!entry) {
+    rows.push(detailRow(paragraph('No answer key entry', {}, { italics: true })));
+    return rows;
+  }
+
+  entry.keyPoints.forEach((point, idx) => {
+    rows.push(detailRow(`${idx + 1}. ${point.text}`, String(point.marks)));
+  });
+
+  if (entry.modelAnswer) {
+    rows.push(detailRow([
+      paragraph('Model answer:', {}, { italics: true, bold: true }),
+      ...entry.modelAnswer.split('\n').map(line => paragraph(line, {}, { italics: true }))
+    ]));
+  }
+
+  return rows;
+}
+
+/**
+ * Render a paper's scheme of evaluation as a Word document: the letterhead and header table
+ * without instructions or register number boxes, the answer grid of its objective questions,
+ * then each section's questions with their key points and model answers, a section to a page.
+ *
+ * @param {Object} paper - QuestionPaper with course and exam populated
+ * @param {Object} pattern - The paper's exam pattern
+ * @param {Array} entries - AnswerKey entries; questions without one are marked as such
+ * @param {Object} branding - Letterhead from InstitutionSettings.resolveFor
+ * @returns {Promise<Buffer>}
+ */
+async function writeAnswerKeyDocx(paper, pattern, entries, branding) {
+  const keyBranding = { ...branding, registerNumber: { ...branding.registerNumber, enabled: false } };
+  const byId = new Map(entries.map(entry => [entry.questionId, entry]));
+  const children = [
+    ...header(paper, pattern, keyBranding, 'SCHEME OF EVALUATION', { instructions: false }),
+    ...answerGridTable(paper.questions)
+  ];
+
+  let sectionCount = 0;
+  pattern.sections.forEach((section, sectionIdx) => {
+    const questions = sectionQuestions(paper.questions, sectionIdx + 1);
+    if (questions.length === 0) return;
+
+    const rows = [
+      new TableRow({
+        tableHeader: true,
+        children: ['Q.No.', 'Key points', 'Marks'].map((value, idx) => cell(value, { width: ANSWER_KEY_COLUMNS[idx], bold: true }))
+      }),
+      ...questions.flatMap(question => answerKeyRows(question, byId.get(question.questionId)))
+    ];
+
+    children.push(paragraph(section.title.toUpperCase(), { pageBreakBefore: sectionCount++ > 0, spacing: { before: 240, after: 120 } }, { bold: true }));
+    children.push(table(rows, ANSWER_KEY_COLUMNS, NO_BORDERS));
+  });
+
+  return toBuffer(keyBranding, children);
+}
+
+module.exports = {
+  writeAnswerKeyDocx,
+  writePaperDocx
+};
@@ -0,0 +1,74 @@
+// server/utils/paperHeader.js - Letterhead, title, question labels and header details printed on server-rendered papers
+//
+// Mirrors the client's PDF header (getExamTitle, withSetLabel, getQuestionLabel and getPaperHeader in
+// src/lib/questionPaper.ts, formatDuration in src/lib/examPattern.ts, REGISTER_NUMBER_LABEL in
+// src/lib/branding.ts); change both together so the PDF and Word papers print the same header
+
+const REGISTER_NUMBER_LABEL = 'USN';
+
+const getExamTitle = examType =>
+  examType === 'CIE' ? 'CONTINUOUS INTERNAL EVALUATION' : 'SEMESTER END EXAMINATION';
+
+// Title with the paper's set, e.g. "SCHEME OF EVALUATION - SET B"
+const withSetLabel = (title, setLabel) => (setLabel ? `${title} - SET ${setLabel}` : title);
+
+function formatDuration(minutes) {
+  const hours = minutes / 60;
+  if (minutes < 60) return `${minutes} Minutes`;
+  return `${Number.isInteger(hours) ? hours : hours.toFixed(1)} ${hours === 1 ? 'Hour' : 'Hours'}`;
+}
+
+const formatExamDate = date =>
+  date ? new Date(date).toLocaleDateString('en-GB', { day: 'numeric', month: 'short', year: 'numeric' }) : '';
+
+// Papers saved before patterns existed have no section on their questions; it leads their id
+const sectionOf = question => question.section || parseInt(question.questionId, 10);
+
+// Label printed before a question, e.g. "1A" or "10B"
+const questionLabel = question => {
+  const section = sectionOf(question);
+  return `${section}${question.questionId.slice(String(section).length).toUpperCase()}`;
+};
+
+// The institution's letterhead, shared by every server-rendered PDF and Word document: the logo (decoded,
+// with its jsPDF image format), the name, then the affiliation, address and department lines under it
+function letterheadContent(branding) {
+  const { logo } = branding;
+  return {
+    logo: logo
+      ? {
+        dataUrl: logo,
+        format: logo.startsWith('data:image/png') ? 'PNG' : 'JPEG',
+        data: Buffer.from(logo.split(',')[1], 'base64')
+      }
+      : null,
+    name: branding.name,
+    lines: [branding.affiliation, branding.address, branding.departmentLine].filter(Boolean)
+  };
+}
+
+// Duration, date, max marks and instructions: the exam's, falling back to the pattern's for papers without an exam
+function paperHeader(paper, pattern) {
+  const { exam } = paper;
+  const instructions = exam && exam.instructions
+    ? exam.instructions.split('\n').map(line => line.trim()).filter(Boolean)
+    : [];
+  return {
+    duration: (exam && exam.duration) || pattern.duration,
+    maxMarks: (exam && exam.maxMarks) || pattern.totalMarks,
+    date: formatExamDate(exam && exam.examDate) || formatExamDate(new Date()),
+    instructions: instructions.length > 0 ? instructions : pattern.instructions || []
+  };
+}
+
+module.exports = {
+  REGISTER_NUMBER_LABEL,
+  formatDuration,
+  formatExamDate,
+  getExamTitle,
+  letterheadContent,
+  paperHeader,
+  questionLabel,
+  sectionOf,
+  withSetLabel
+};
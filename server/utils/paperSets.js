@@ -0,0 +1,149 @@
+// server/utils/paperSets.js - Parallel paper sets (Set A/B/C) and how equivalent they are
+
+const SET_LABELS = ['A', 'B', 'C'];
+const MAX_PAPER_SETS = SET_LABELS.length;
+
+// Share of marks two sets' Bloom or difficulty mix may differ by and still count as equivalent
+const EQUIVALENCE_TOLERANCE = 0.15;
+
+const SHARE_NAMES = { difficulty: 'difficulty', bloom: 'Bloom levels', co: 'COs' };
+
+const normalize = value => (value || '').toString().trim().toLowerCase().replace(/\s+/g, ' ');
+
+// Turn a { key: marks } map into shares of the paper's marks
+const toShares = weights => {
+  const total = Object.values(weights).reduce((sum, value) => sum + value, 0);
+  const shares = {};
+  for (const [key, value] of Object.entries(weights)) {
+    shares[key] = total > 0 ? Math.round((value / total) * 1000) / 1000 : 0;
+  }
+  return shares;
+};
+
+// Half the sum of absolute share differences: the share of marks that would have to move
+const shareDifference = (a, b) => {
+  const keys = new Set([...Object.keys(a), ...Object.keys(b)]);
+  let total = 0;
+  for (const key of keys) {
+    total += Math.abs((a[key] || 0) - (b[key] || 0));
+  }
+  return Math.round((total / 2) * 1000) / 1000;
+};
+
+// Marks, difficulty, Bloom and CO mix and units of one set's questions
+function summarizeSet(setLabel, questions) {
+  const difficulty = {};
+  const bloom = {};
+  const co = {};
+  const units = new Set();
+  let totalMarks = 0;
+
+  for (const question of questions) {
+    const marks = Number(question.marks) || 0;
+    totalMarks += marks;
+    if (question.difficulty) difficulty[question.difficulty] = (difficulty[question.difficulty] || 0) + marks;
+    if (question.bloomLevel) bloom[question.bloomLevel] = (bloom[question.bloomLevel] || 0) + marks;
+    if (question.co) co[`CO${question.co}`] = (co[`CO${question.co}`] || 0) + marks;
+    if (question.unit) units.add(question.unit);
+  }
+
+  return {
+    setLabel,
+    questionCount: questions.length,
+    totalMarks,
+    difficulty: toShares(difficulty),
+    bloom: toShares(bloom),
+    co: toShares(co),
+    units: [...units].sort()
+  };
+}
+
+/**
+ * Compare parallel sets of one paper. Each set is summarised, every pair of sets gets the
+ * share of marks by which their difficulty, Bloom and CO mixes differ, and questions that appear
+ * in more than one set (same bank question or same text) are listed.
+ *
+ * @param {Array<{ setLabel: string, questions: Array }>} sets
+ * @returns {{ sets: Array, pairs: Array, sharedQuestions: Array, warnings: string[], equivalent: boolean }}
+ */
+function compareSets(sets) {
+  const summaries = sets.map(set => summarizeSet(set.setLabel, set.questions));
+  const warnings = [];
+
+  const pairs = [];
+  for (let first = 0; first < summaries.length; first++) {
+    for (let second = first + 1; second < summaries.length; second++) {
+      const a = summaries[first];
+      const b = summaries[second];
+      const pair = {
+        sets: [a.setLabel, b.setLabel],
+        difficulty: shareDifference(a.difficulty, b.difficulty),
+        bloom: shareDifference(a.bloom, b.bloom),
+        co: shareDifference(a.co, b.co)
+      };
+      pairs.push(pair);
+
+      for (const key of ['difficulty', 'bloom', 'co']) {
+        if (pair[key] > EQUIVALENCE_TOLERANCE) {
+          warnings.push(`Sets ${a.setLabel} and ${b.setLabel} differ by ${Math.round(pair[key] * 100)}% of marks in ${SHARE_NAMES[key]}`);
+        }
+      }
+    }
+  }
+
+  const marks = [...new Set(summaries.map(summary => summary.totalMarks))];
+  if (marks.length > 1) {
+    warnings.push(`The sets carry different total marks (${summaries.map(summary => `${summary.setLabel}: ${summary.totalMarks}`).join(', ')})`);
+  }
+
+  const unitLists = [...new Set(summaries.map(summary => summary.units.join('|')))];
+  if (unitLists.length > 1) {
+    warnings.push('The sets do not cover the same units');
+  }
+
+  const seen = new Map();
+  const sharedQuestions = [];
+  for (const set of sets) {
+    for (const question of set.questions) {
+      const keys = [normalize(question.text), question.originalId && String(question.originalId)].filter(Boolean);
+      const earlier = keys.map(key => seen.get(key)).find(Boolean);
+      if (earlier && earlier.setLabel !== set.setLabel) {
+        sharedQuestions.push({
+          text: question.text,
+          questions: [`${earlier.setLabel}:${earlier.questionId}`, `${set.setLabel}:${question.questionId}`]
+        });
+      }
+      for (const key of keys) {
+        if (!seen.has(key)) seen.set(key, { setLabel: set.setLabel, questionId: question.questionId });
+      }
+    }
+  }
+  if (sharedQuestions.length > 0) {
+    warnings.push(`${sharedQuestions.length} question${sharedQuestions.length === 1 ? ' appears' : 's appear'} in more than one set`);
+  }
+
+  return {
+    sets: summaries,
+    pairs,
+    sharedQuestions,
+    tolerance: EQUIVALENCE_TOLERANCE,
+    warnings,
+    equivalent: warnings.length === 0
+  };
+}
+
+// Bloom, difficulty and CO targets that make later sets follow the first set's mix
+const blueprintTargets = distribution => distribution && {
+  bloom: distribution.bloom.actual,
+  difficulty: distribution.difficulty.actual,
+  co: distribution.co && Object.keys(distribution.co.actual).length > 0 ? distribution.co.actual : undefined
+};
+
+module.exports = {
+  EQUIVALENCE_TOLERANCE,
+  MAX_PAPER_SETS,
+  SET_LABELS,
+  blueprintTargets,
+  compareSets,
+  summarizeSet
+};
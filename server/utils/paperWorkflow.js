@@ -0,0 +1,54 @@
+// server/utils/paperWorkflow.js - Review and approval states of a question paper
+
+const PAPER_STATUSES = ['DRAFT', 'SUBMITTED', 'CHANGES_REQUESTED', 'APPROVED', 'LOCKED'];
+
+// Allowed moves from each status and who may make them: the paper's owner or a reviewer (admin)
+const TRANSITIONS = {
+  DRAFT: { SUBMITTED: 'owner' },
+  SUBMITTED: { CHANGES_REQUESTED: 'reviewer', APPROVED: 'reviewer' },
+  CHANGES_REQUESTED: { SUBMITTED: 'owner' },
+  APPROVED: { LOCKED: 'reviewer' },
+  LOCKED: {}
+};
+
+// Only these statuses accept new revisions; a paper under review or approved stays as reviewed
+const EDITABLE_STATUSES = ['DRAFT', 'CHANGES_REQUESTED'];
+
+// Once approved a paper can no longer be deleted by its educator
+const DELETABLE_STATUSES = ['DRAFT', 'SUBMITTED', 'CHANGES_REQUESTED'];
+
+const isReviewer = educator => educator.role === 'admin';
+
+const isOwner = (paper, educator) =>
+  String(paper.educator._id || paper.educator) === String(educator._id);
+
+// Papers saved before the workflow existed have no status and count as drafts
+const getStatus = paper => paper.status || 'DRAFT';
+
+// A paper of a finalized or published exam stays as it is until an admin unlocks the exam
+function availableTransitions(paper, educator) {
+  if (paper.examLocked) return [];
+  return Object.entries(TRANSITIONS[getStatus(paper)] || {})
+    .filter(([, actor]) => actor === 'reviewer' ? isReviewer(educator) : isOwner(paper, educator))
+    .map(([status]) => status);
+}
+
+const isEditable = paper => !paper.examLocked && EDITABLE_STATUSES.includes(getStatus(paper));
+
+const isDeletable = paper => !paper.examLocked && DELETABLE_STATUSES.includes(getStatus(paper));
+
+// Reviewers can open any paper; educators only their own
+const paperAccessFilter = (educator, paperId) =>
+  isReviewer(educator) ? { _id: paperId } : { _id: paperId, educator: educator._id };
+
+module.exports = {
+  PAPER_STATUSES,
+  TRANSITIONS,
+  availableTransitions,
+  getStatus,
+  isDeletable,
+  isEditable,
+  isOwner,
+  isReviewer,
+  paperAccessFilter
+};
@@ -0,0 +1,410 @@
+// server/utils/processingQueue.js - Durable queue that processes uploads with retries, backoff and timeouts
+
+const fs = require('fs');
+const path = require('path');
+const axios = require('axios');
+const mongoose = require('mongoose');
+const ProcessedData = require('../models/ProcessedData');
+const ProcessingJob = require('../models/ProcessingJob');
+const { processDocuments } = require('./documentProcessor');
+const { createCallbackToken, hashToken } = require('./callbackSigning');
+const { mergeBanks } = require('./bankVersions');
+const { describeErrors, validateCallbackPayload, validateProcessingResult } = require('./processingResult');
+
+const UPLOAD_DIR = path.join(__dirname, '../uploads');
+
+const envInt = (name, fallback) => parseInt(process.env[name], 10) || fallback;
+
+const settings = () => ({
+  maxAttempts: envInt('PROCESSING_MAX_ATTEMPTS', 3),
+  // Doubles after every failed attempt
+  retryDelay: envInt('PROCESSING_RETRY_DELAY_MS', 30 * 1000),
+  // How long a local run may take, and how long to wait for the remote processor's callback
+  runTimeout: envInt('PROCESSING_RUN_TIMEOUT_MS', 5 * 60 * 1000),
+  callbackTimeout: envInt('PROCESSING_CALLBACK_TIMEOUT_MS', 15 * 60 * 1000),
+  pollInterval: envInt('PROCESSING_POLL_INTERVAL_MS', 5 * 1000)
+});
+
+// DOCUMENT_PROCESSOR picks the backend; without it, uploads go to Colab when a webhook is configured
+function getDocumentProcessor() {
+  if (process.env.DOCUMENT_PROCESSOR) {
+    return process.env.DOCUMENT_PROCESSOR;
+  }
+  return process.env.COLAB_WEBHOOK_URL ? 'colab' : 'local';
+}
+
+const stageError = (stage, message) => Object.assign(new Error(message), { stage });
+const rejection = (status, message, extra) => Object.assign(new Error(message), { status }, extra);
+
+const uploadPaths = processedData => ({
+  questionBankPath: path.join(UPLOAD_DIR, processedData.questionBankFile),
+  syllabusPath: path.join(UPLOAD_DIR, processedData.syllabusFile)
+});
+
+function withTimeout(promise, ms, message) {
+  let timer;
+  const timeout = new Promise((_, reject) => {
+    timer = setTimeout(() => reject(stageError('timeout', message)), ms);
+  });
+  return Promise.race([promise, timeout]).finally(() => clearTimeout(timer));
+}
+
+// Store the result and make the upload the course's active bank; a merge upload is
+// stored as the active bank plus its new questions and topics
+async function completeJob(job, { questions, topics }) {
+  const processedData = await ProcessedData.findById(job.processedData);
+  if (!processedData) {
+    throw stageError('store', 'Upload record no longer exists');
+  }
+  let bank = { questions, topics };
+
+  if (processedData.uploadMode === 'merge') {
+    const base = await ProcessedData.findActiveBank(processedData.educator, processedData.course);
+    if (base) {
+      bank = mergeBanks(base.toObject(), bank);
+      processedData.mergedFrom = base._id;
+      console.log(`🔀 Merged into version ${base.version}: ${bank.added.questions} new questions, ${bank.added.topics} new topics`);
+    }
+  }
+
+  processedData.questions = bank.questions;
+  processedData.topics = bank.topics;
+  processedData.processingStatus = 'COMPLETED';
+  processedData.processedAt = new Date();
+  processedData.failureReason = undefined;
+  processedData.failedStage = undefined;
+  await processedData.activate();
+
+  job.status = 'COMPLETED';
+  job.finishedAt = new Date();
+  job.updatedAt = new Date();
+  await job.save();
+
+  console.log(`✅ Processing completed for process ID: ${job.processedData}`);
+  console.log(`📊 Questions: ${bank.questions.length}, Topics: ${bank.topics.length}`);
+}
+
+// Queue another attempt with backoff, or fail the upload once attempts run out
+async function failJob(job, error) {
+  const { retryDelay } = settings();
+  const stage = error.stage || 'analyse';
+  const message = error.message || String(error);
+  const willRetry = job.attempts < job.maxAttempts;
+
+  job.lastError = message;
+  job.failedStage = stage;
+  job.callbackDeadline = undefined;
+  job.callbackTokenHash = undefined;
+  job.updatedAt = new Date();
+
+  if (willRetry) {
+    job.status = 'QUEUED';
+    job.nextRunAt = new Date(Date.now() + retryDelay * 2 ** (job.attempts - 1));
+  } else {
+    job.status = 'FAILED';
+    job.finishedAt = new Date();
+  }
+  await job.save();
+
+  await ProcessedData.findByIdAndUpdate(job.processedData, {
+    processingStatus: willRetry ? 'PENDING' : 'FAILED',
+    failureReason: willRetry
+      ? `Attempt ${job.attempts} of ${job.maxAttempts} failed: ${message}. Retrying at ${job.nextRunAt.toISOString()}`
+      : message,
+    failedStage: stage
+  });
+
+  console.error(`❌ Processing attempt ${job.attempts} failed at ${stage} for process ID: ${job.processedData}: ${message}`);
+}
+
+async function runLocal(job, processedData) {
+  const { questionBankPath, syllabusPath } = uploadPaths(processedData);
+  const { runTimeout } = settings();
+
+  const result = await withTimeout(
+    processDocuments(questionBankPath, syllabusPath),
+    runTimeout,
+    `Local processing did not finish within ${Math.round(runTimeout / 1000)} seconds`
+  );
+
+  const errors = validateProcessingResult(result);
+  if (errors.length > 0) {
+    throw stageError('store', describeErrors(errors));
+  }
+  await completeJob(job, result);
+}
+
+async function dispatchToColab(job, processedData) {
+  const colabWebhookUrl = process.env.COLAB_WEBHOOK_URL;
+  if (!colabWebhookUrl) {
+    throw stageError('dispatch', 'COLAB_WEBHOOK_URL not configured in environment variables');
+  }
+
+  const { questionBankPath, syllabusPath } = uploadPaths(processedData);
+
+  // A fresh token per attempt, so callbacks for an earlier attempt are refused
+  const { token, hash } = createCallbackToken();
+  await ProcessingJob.updateOne({ _id: job._id }, { callbackTokenHash: hash });
+
+  // Convert file paths to base64
+  const payload = {
+    processId: processedData._id,
+    attempt: job.attempts,
+    callbackToken: token,
+    questionBank: fs.readFileSync(questionBankPath, { encoding: 'base64' }),
+    syllabus: fs.readFileSync(syllabusPath, { encoding: 'base64' }),
+    callbackUrl: `${process.env.BASE_URL}/api/upload/processing-complete`
+  };
+
+  console.log('📤 Sending to Colab:', colabWebhookUrl);
+
+  try {
+    await axios.post(colabWebhookUrl, payload, {
+      timeout: 30000, // 30 seconds timeout
+      headers: {
+        'Content-Type': 'application/json',
+        'Authorization': `Bearer ${process.env.COLAB_API_KEY}`
+      }
+    });
+  } catch (error) {
+    throw stageError('dispatch', `Colab webhook request failed: ${error.message}`);
+  }
+
+  // The callback may already have completed the job while the request was in flight
+  await ProcessingJob.updateOne({ _id: job._id, status: 'RUNNING' }, {
+    status: 'AWAITING_CALLBACK',
+    callbackDeadline: new Date(Date.now() + settings().callbackTimeout),
+    updatedAt: new Date()
+  });
+
+  console.log(`✅ Processing triggered successfully for process ID: ${processedData._id}`);
+}
+
+async function runJob(job) {
+  try {
+    const processedData = await ProcessedData.findById(job.processedData);
+    if (!processedData) {
+      job.status = 'FAILED';
+      job.lastError = 'Upload record no longer exists';
+      job.finishedAt = new Date();
+      await job.save();
+      return;
+    }
+
+    console.log(`🔄 Starting ${job.backend} processing for: ${processedData._id} (attempt ${job.attempts})`);
+
+    await ProcessedData.findByIdAndUpdate(processedData._id, {
+      processingStatus: 'PROCESSING'
+    });
+
+    const { questionBankPath, syllabusPath } = uploadPaths(processedData);
+    if (!fs.existsSync(questionBankPath) || !fs.existsSync(syllabusPath)) {
+      throw stageError('extract', 'Uploaded files are missing from the server');
+    }
+
+    if (job.backend === 'local') {
+      await runLocal(job, processedData);
+    } else {
+      await dispatchToColab(job, processedData);
+    }
+  } catch (error) {
+    await failJob(job, error);
+  }
+}
+
+// Remote jobs whose callback never arrived count as a failed attempt
+async function expireCallbacks() {
+  const overdue = await ProcessingJob.find({
+    status: 'AWAITING_CALLBACK',
+    callbackDeadline: { $lt: new Date() }
+  });
+
+  for (const job of overdue) {
+    await failJob(job, stageError('timeout', 'No callback received from the remote processor'));
+  }
+}
+
+async function claimNextJob() {
+  return ProcessingJob.findOneAndUpdate(
+    { status: 'QUEUED', nextRunAt: { $lte: new Date() } },
+    {
+      $set: { status: 'RUNNING', startedAt: new Date(), updatedAt: new Date() },
+      $inc: { attempts: 1 }
+    },
+    { new: true, sort: { nextRunAt: 1 } }
+  );
+}
+
+let ticking = false;
+
+// One job at a time; documents are processed in this process and must not starve requests
+async function tick() {
+  if (ticking) return;
+  ticking = true;
+
+  try {
+    await expireCallbacks();
+
+    let job = await claimNextJob();
+    while (job) {
+      await runJob(job);
+      job = await claimNextJob();
+    }
+  } catch (error) {
+    console.error('❌ Processing queue error:', error);
+  } finally {
+    ticking = false;
+  }
+}
+
+const wake = () => setImmediate(tick);
+
+async function enqueueProcessing(processedData) {
+  const job = await ProcessingJob.create({
+    processedData: processedData._id,
+    educator: processedData.educator,
+    backend: getDocumentProcessor(),
+    maxAttempts: settings().maxAttempts
+  });
+  wake();
+  return job;
+}
+
+/**
+ * Apply a signed result posted by the remote processor. Each attempt's token is accepted once;
+ * a repeated delivery of the accepted callback is recognised by its digest and changes nothing.
+ *
+ * @param {Object} payload { status: 'success' | 'failed', questions, topics, error, callbackToken }
+ * @param {string} digest SHA-256 of the raw callback body
+ * @returns {Promise<{duplicate: boolean}>}
+ * @throws errors tagged with an HTTP status: 404 unknown process, 409 already finished,
+ *   403 wrong or used token, 422 invalid result (with `errors`)
+ */
+async function handleProcessingCallback(processId, payload, digest) {
+  const job = mongoose.Types.ObjectId.isValid(processId)
+    ? await ProcessingJob.findOne({ processedData: processId })
+    : null;
+
+  if (!job) {
+    throw rejection(404, `No processing job for process ID: ${processId}`);
+  }
+
+  if (job.callbackDigest === digest) {
+    return { duplicate: true };
+  }
+
+  if (job.status === 'COMPLETED' || job.status === 'FAILED') {
+    throw rejection(409, `Processing has already ${job.status === 'COMPLETED' ? 'completed' : 'failed'}`);
+  }
+
+  // Consume the token atomically so two deliveries cannot both be applied
+  const claimed = await ProcessingJob.findOneAndUpdate(
+    {
+      _id: job._id,
+      status: { $in: ['RUNNING', 'AWAITING_CALLBACK'] },
+      callbackTokenHash: hashToken(payload.callbackToken)
+    },
+    {
+      $unset: { callbackTokenHash: 1 },
+      $set: { callbackDigest: digest, callbackReceivedAt: new Date(), updatedAt: new Date() }
+    },
+    { new: true }
+  );
+
+  if (!claimed) {
+    const current = await ProcessingJob.findById(job._id);
+    if (current && current.callbackDigest === digest) {
+      return { duplicate: true };
+    }
+    throw rejection(403, 'Callback token is invalid or has already been used');
+  }
+
+  const errors = validateCallbackPayload(payload);
+  if (errors.length > 0) {
+    await failJob(claimed, stageError('store', describeErrors(errors)));
+    wake();
+    throw rejection(422, 'Invalid processing result', { errors });
+  }
+
+  if (payload.status === 'success') {
+    await completeJob(claimed, payload);
+  } else {
+    await failJob(claimed, stageError('remote', payload.error || 'Remote processor reported a failure'));
+    wake();
+  }
+
+  return { duplicate: false };
+}
+
+// Start a failed upload over with a fresh set of attempts
+async function retryProcessing(processedData) {
+  let job = await ProcessingJob.findOne({ processedData: processedData._id });
+
+  if (job && job.status !== 'FAILED') {
+    throw Object.assign(new Error(`Processing is ${job.status.toLowerCase().replace('_', ' ')}`), { status: 409 });
+  }
+
+  if (!job) {
+    job = new ProcessingJob({ processedData: processedData._id, educator: processedData.educator });
+  }
+
+  job.backend = getDocumentProcessor();
+  job.status = 'QUEUED';
+  job.attempts = 0;
+  job.maxAttempts = settings().maxAttempts;
+  job.nextRunAt = new Date();
+  job.callbackDeadline = undefined;
+  job.finishedAt = undefined;
+  job.updatedAt = new Date();
+  await job.save();
+
+  await ProcessedData.findByIdAndUpdate(processedData._id, {
+    processingStatus: 'PENDING',
+    $unset: { failureReason: 1, failedStage: 1 }
+  });
+
+  wake();
+  return job;
+}
+
+// Resume after a restart: interrupted runs go back on the queue without using up an attempt,
+// and uploads left pending by the old fire-and-forget flow get a job
+async function recoverJobs() {
+  const interrupted = await ProcessingJob.updateMany(
+    { status: 'RUNNING' },
+    { $set: { status: 'QUEUED', nextRunAt: new Date(), updatedAt: new Date() }, $inc: { attempts: -1 } }
+  );
+
+  const jobIds = await ProcessingJob.distinct('processedData');
+  const orphans = await ProcessedData.find({
+    _id: { $nin: jobIds },
+    processingStatus: { $in: ['PENDING', 'PROCESSING'] }
+  });
+
+  for (const processedData of orphans) {
+    await ProcessingJob.create({
+      processedData: processedData._id,
+      educator: processedData.educator,
+      backend: getDocumentProcessor(),
+      maxAttempts: settings().maxAttempts
+    });
+  }
+
+  if (interrupted.modifiedCount > 0 || orphans.length > 0) {
+    console.log(`🔁 Resuming ${interrupted.modifiedCount} interrupted and ${orphans.length} orphaned processing jobs`);
+  }
+}
+
+async function startProcessingQueue() {
+  await recoverJobs();
+  setInterval(tick, settings().pollInterval).unref();
+  wake();
+}
+
+module.exports = {
+  enqueueProcessing,
+  getDocumentProcessor,
+  handleProcessingCallback,
+  retryProcessing,
+  startProcessingQueue
+};
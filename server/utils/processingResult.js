@@ -0,0 +1,58 @@
+// server/utils/processingResult.js - Validates processor output against the ProcessedData schema
+
+const ProcessedData = require('../models/ProcessedData');
+
+const CALLBACK_STATUSES = ['success', 'failed'];
+
+/**
+ * Validate questions and topics before they are stored.
+ *
+ * @returns {Array<{path: string, message: string}>} empty when the result can be stored
+ */
+function validateProcessingResult({ questions, topics }) {
+  const errors = [];
+
+  if (!Array.isArray(questions)) {
+    errors.push({ path: 'questions', message: 'questions must be an array' });
+  } else if (questions.length === 0) {
+    errors.push({ path: 'questions', message: 'No questions were extracted' });
+  }
+  if (!Array.isArray(topics)) {
+    errors.push({ path: 'topics', message: 'topics must be an array' });
+  }
+  if (errors.length > 0) {
+    return errors;
+  }
+
+  // Only the result fields are checked; the rest of the record already exists
+  const validationError = new ProcessedData({ questions, topics }).validateSync();
+  const fieldErrors = validationError ? Object.values(validationError.errors) : [];
+
+  return fieldErrors
+    .filter(error => /^(questions|topics)\./.test(error.path))
+    .map(error => ({ path: error.path, message: error.message }));
+}
+
+// Shape of a callback from the remote processor; a failure report carries no result
+function validateCallbackPayload(payload) {
+  if (!CALLBACK_STATUSES.includes(payload.status)) {
+    return [{ path: 'status', message: `status must be one of: ${CALLBACK_STATUSES.join(', ')}` }];
+  }
+  if (payload.status === 'failed') {
+    return [];
+  }
+  return validateProcessingResult(payload);
+}
+
+// One-line summary for failure reasons
+function describeErrors(errors, limit = 3) {
+  const shown = errors.slice(0, limit).map(error => `${error.path}: ${error.message}`);
+  const more = errors.length > limit ? ` (and ${errors.length - limit} more)` : '';
+  return `Invalid processing result - ${shown.join('; ')}${more}`;
+}
+
+module.exports = {
+  describeErrors,
+  validateCallbackPayload,
+  validateProcessingResult
+};
@@ -0,0 +1,139 @@
+// server/utils/programOutcomes.js - Program outcomes (POs/PSOs) and the CO-PO articulation matrix
+
+const { coNumber } = require('./courseOutcomes');
+
+const CORRELATION_LEVELS = [1, 2, 3];
+
+// "1", "po 1" and "PO-1" all name PO1, and "pso 2" PSO2; anything else is kept as typed, in capitals
+function normalizePoCode(value) {
+  const text = String(value).trim().toUpperCase();
+  const match = text.match(/^(PSO|PO)?\s*-?\s*(\d+)$/);
+  return match ? `${match[1] || 'PO'}${parseInt(match[2], 10)}` : text;
+}
+
+const isPoCode = code => /^PS?O\d+$/.test(code);
+
+// POs first, then PSOs, each by number
+const comparePoCodes = (a, b) => {
+  const key = code => {
+    const match = code.match(/^(PS?O)(\d+)$/);
+    return match ? [match[1] === 'PO' ? 0 : 1, parseInt(match[2], 10)] : [2, 0];
+  };
+  const [groupA, numberA] = key(a);
+  const [groupB, numberB] = key(b);
+  return groupA - groupB || numberA - numberB;
+};
+
+/**
+ * Check a department's program outcome list and bring it to the stored shape: codes as PO<n>
+ * or PSO<n>, trimmed statements, sorted POs first.
+ *
+ * @param {Array<{ code: string, statement: string }>} programOutcomes
+ * @returns {{ programOutcomes: Array, errors: string[] }}
+ */
+function validateProgramOutcomes(programOutcomes = []) {
+  const errors = [];
+  const codes = new Set();
+
+  const cleaned = programOutcomes.map((outcome, idx) => {
+    const code = normalizePoCode(outcome.code || '');
+    const statement = String(outcome.statement || '').trim();
+
+    if (!isPoCode(code)) {
+      errors.push(`Outcome ${idx + 1}: "${outcome.code || ''}" is not a PO or PSO code such as PO1`);
+    } else if (codes.has(code)) {
+      errors.push(`${code} is defined more than once`);
+    }
+    codes.add(code);
+
+    if (!statement) errors.push(`${code || `Outcome ${idx + 1}`} needs a statement`);
+
+    return { code, statement };
+  });
+
+  cleaned.sort((a, b) => comparePoCodes(a.code, b.code));
+  return { programOutcomes: cleaned, errors };
+}
+
+/**
+ * Check a course's CO-PO correlations against its COs and its department's POs. Entries with
+ * no level are dropped, so clearing a cell of the matrix removes the correlation.
+ *
+ * @param {Array<{ co: string, po: string, level: number }>} mapping
+ * @param {string[]} coCodes - The course's CO codes
+ * @param {string[]} poCodes - The department's PO and PSO codes
+ * @returns {{ mapping: Array, errors: string[] }}
+ */
+function validatePoMapping(mapping = [], coCodes = [], poCodes = []) {
+  const errors = [];
+  const seen = new Set();
+  const cleaned = [];
+
+  for (const entry of mapping) {
+    if (!entry.level) continue;
+
+    const co = coNumber(entry.co) === undefined ? String(entry.co || '') : `CO${coNumber(entry.co)}`;
+    const po = normalizePoCode(entry.po || '');
+    const level = Number(entry.level);
+
+    if (!coCodes.includes(co)) {
+      errors.push(`${co || 'A correlation'} is not one of the course's outcomes`);
+    } else if (!poCodes.includes(po)) {
+      errors.push(`${po || 'A correlation'} is not a program outcome of the course's department`);
+    } else if (!CORRELATION_LEVELS.includes(level)) {
+      errors.push(`${co}-${po}: the correlation level must be 1, 2 or 3`);
+    } else if (seen.has(`${co}-${po}`)) {
+      errors.push(`${co}-${po} is given more than once`);
+    } else {
+      cleaned.push({ co, po, level });
+    }
+    seen.add(`${co}-${po}`);
+  }
+
+  cleaned.sort((a, b) => (coNumber(a.co) - coNumber(b.co)) || comparePoCodes(a.po, b.po));
+  return { mapping: cleaned, errors };
+}
+
+// Correlation level of a CO-PO pair, 0 when the pair is not correlated
+const correlationLevel = (mapping = [], co, po) => {
+  const entry = mapping.find(candidate => candidate.co === co && candidate.po === po);
+  return entry ? entry.level : 0;
+};
+
+/**
+ * The CO-PO articulation matrix as audit forms print it: a row of levels per CO and, per PO,
+ * the average of the levels its correlated COs have.
+ *
+ * @returns {{ rows: Array<{ co: string, levels: Object<string, number> }>, average: Object<string, number> }}
+ */
+function articulationMatrix(outcomes = [], programOutcomes = [], mapping = []) {
+  const rows = outcomes.map(outcome => ({
+    co: outcome.code,
+    levels: Object.fromEntries(programOutcomes.map(po => [po.code, correlationLevel(mapping, outcome.code, po.code)]))
+  }));
+
+  const average = {};
+  for (const po of programOutcomes) {
+    const levels = rows.map(row => row.levels[po.code]).filter(Boolean);
+    average[po.code] = levels.length > 0
+      ? Math.round(levels.reduce((sum, level) => sum + level, 0) / levels.length * 100) / 100
+      : 0;
+  }
+
+  return { rows, average };
+}
+
+// Correlations whose CO no longer exists are dropped when a course's outcomes change
+const prunePoMapping = (mapping = [], coCodes = []) =>
+  mapping.filter(entry => coCodes.includes(entry.co));
+
+module.exports = {
+  CORRELATION_LEVELS,
+  articulationMatrix,
+  comparePoCodes,
+  correlationLevel,
+  normalizePoCode,
+  prunePoMapping,
+  validatePoMapping,
+  validateProgramOutcomes
+};
@@ -0,0 +1,150 @@
+// server/utils/questionBank.js - Mapping between the course question bank, processed uploads and imports
+
+const { BLOOM_LEVELS, DIFFICULTIES, normalizeDifficulty } = require('./bankReview');
+const { QUESTION_TYPES, normalizeOptions } = require('./questionTypes');
+const { normalizeCoCode } = require('./courseOutcomes');
+
+const SOURCES = ['manual', 'upload', 'import'];
+
+// Fields an educator may set when authoring or editing a bank question
+const EDITABLE_FIELDS = ['text', 'type', 'options', 'marks', 'bloomLevel', 'difficulty', 'unit', 'topic', 'co', 'tags', 'verified'];
+
+// Bank fields that mirror a processed upload row; CO and tags exist only in the bank
+const ROW_FIELDS = {
+  text: 'question',
+  type: 'question_type',
+  marks: 'predicted_marks',
+  bloomLevel: 'bloom_level',
+  difficulty: 'difficulty',
+  unit: 'matched_unit',
+  topic: 'matched_topic',
+  verified: 'verified'
+};
+
+const escapeRegex = value => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+const normalizeTags = tags => {
+  const list = Array.isArray(tags) ? tags : String(tags || '').split(',');
+  return [...new Set(list.map(tag => String(tag).trim().toLowerCase()).filter(Boolean))];
+};
+
+// Processed rows name the correct option the processor's way
+const fromRowOptions = (options = []) => options.map(option => ({ text: option.text, isCorrect: !!option.is_correct }));
+const toRowOptions = (options = []) => options.map(option => ({ text: option.text, is_correct: option.isCorrect }));
+
+// Bank fields for one row of a processed upload. The row's _id is kept so papers that already
+// used the question keep their reuse history
+const fromProcessedRow = row => ({
+  _id: row._id,
+  text: row.question,
+  type: row.question_type || 'DESCRIPTIVE',
+  options: fromRowOptions(row.options),
+  marks: row.predicted_marks,
+  bloomLevel: row.bloom_level,
+  difficulty: normalizeDifficulty(row.difficulty),
+  unit: row.matched_unit,
+  topic: row.matched_topic,
+  topicSimilarity: row.topic_similarity,
+  verified: !!row.verified,
+  verifiedAt: row.verifiedAt
+});
+
+// Bank fields for a question read from an imported file (see bankFormats)
+const fromImportedQuestion = question => ({
+  text: question.question,
+  type: question.question_type || 'DESCRIPTIVE',
+  options: fromRowOptions(question.options),
+  marks: question.predicted_marks,
+  bloomLevel: question.bloom_level,
+  difficulty: question.difficulty,
+  unit: question.matched_unit,
+  topic: question.matched_topic,
+  co: question.co,
+  tags: question.tags || []
+});
+
+// A bank question in the field shape the paper assembler works with
+const toAssemblerQuestion = question => ({
+  _id: question._id,
+  question: question.text,
+  question_type: question.type || 'DESCRIPTIVE',
+  options: question.options || [],
+  predicted_marks: question.marks,
+  bloom_level: question.bloomLevel,
+  difficulty: question.difficulty,
+  matched_topic: question.topic || '',
+  matched_unit: question.unit || '',
+  topic_similarity: question.topicSimilarity || 0,
+  co: question.co,
+  verified: question.verified
+});
+
+// Only the editable fields of a request body, cleaned up. `currentType` is the stored question's
+// type, so options sent on their own are checked against it
+function pickChanges(body, currentType = 'DESCRIPTIVE') {
+  const changes = {};
+  for (const field of EDITABLE_FIELDS) {
+    if (body[field] === undefined) continue;
+    changes[field] = body[field];
+  }
+
+  if (typeof changes.text === 'string') changes.text = changes.text.trim();
+  if (changes.marks !== undefined) changes.marks = Number(changes.marks);
+  if (typeof changes.difficulty === 'string') changes.difficulty = changes.difficulty.toLowerCase();
+  if (changes.tags !== undefined) changes.tags = normalizeTags(changes.tags);
+  if (changes.type !== undefined || changes.options !== undefined) {
+    changes.options = normalizeOptions(changes.type || currentType, changes.options);
+  }
+  if (typeof changes.co === 'string') changes.co = changes.co.trim() && normalizeCoCode(changes.co);
+  if (changes.verified !== undefined) {
+    changes.verified = changes.verified === true || changes.verified === 'true';
+    changes.verifiedAt = changes.verified ? new Date() : undefined;
+  }
+  return changes;
+}
+
+// The processed-row equivalent of a bank edit, for writing back to the active upload
+function toRowChanges(changes) {
+  const rowChanges = {};
+  for (const [field, rowField] of Object.entries(ROW_FIELDS)) {
+    if (changes[field] !== undefined) rowChanges[rowField] = changes[field];
+  }
+  if (changes.options !== undefined) rowChanges.options = toRowOptions(changes.options);
+  if (changes.verified !== undefined) rowChanges.verifiedAt = changes.verifiedAt;
+  return rowChanges;
+}
+
+// Mongo filter for the bank browser's query string
+function buildBankFilter(scope, query = {}) {
+  const filter = { ...scope };
+
+  if (query.search) filter.text = { $regex: escapeRegex(String(query.search).trim()), $options: 'i' };
+  if (query.unit) filter.unit = query.unit;
+  if (query.topic) filter.topic = query.topic;
+  if (query.co) filter.co = normalizeCoCode(query.co);
+  if (query.tag) filter.tags = String(query.tag).toLowerCase();
+  if (BLOOM_LEVELS.includes(query.bloomLevel)) filter.bloomLevel = query.bloomLevel;
+  if (DIFFICULTIES.includes(query.difficulty)) filter.difficulty = query.difficulty;
+  if (SOURCES.includes(query.source)) filter.source = query.source;
+  // Questions stored before types existed have no type and are descriptive
+  if (query.type === 'DESCRIPTIVE') {
+    filter.type = { $in: ['DESCRIPTIVE', null] };
+  } else if (QUESTION_TYPES.includes(query.type)) {
+    filter.type = query.type;
+  }
+  if (query.verified === 'true' || query.verified === 'false') filter.verified = query.verified === 'true';
+
+  return filter;
+}
+
+module.exports = {
+  EDITABLE_FIELDS,
+  SOURCES,
+  buildBankFilter,
+  fromImportedQuestion,
+  fromProcessedRow,
+  normalizeTags,
+  pickChanges,
+  toAssemblerQuestion,
+  toRowChanges
+};
@@ -0,0 +1,98 @@
+// server/utils/questionProviders/index.js - Picks the provider used when the bank cannot fill a part
+
+const templateProvider = require('./templateProvider');
+const llmProvider = require('./llmProvider');
+const { normalizeOptions } = require('../questionTypes');
+
+const providers = {
+  [templateProvider.name]: templateProvider,
+  [llmProvider.name]: llmProvider
+};
+
+// Same mapping the paper assembler uses for its default Bloom targets
+const BLOOM_FOR_DIFFICULTY = { easy: 'L1', medium: 'L3', hard: 'L5' };
+
+const bloomLevelForDifficulty = difficulty =>
+  BLOOM_FOR_DIFFICULTY[(difficulty || '').toLowerCase()] || BLOOM_FOR_DIFFICULTY.medium;
+
+function getQuestionProvider(name = process.env.QUESTION_PROVIDER) {
+  return providers[name] || templateProvider;
+}
+
+/**
+ * Generate one question through the configured provider.
+ *
+ * @param {Object} request { course: { name, code, questionTemplates }, unit, topic, bloomLevel, marks, difficulty, questionType, syllabusTopics }
+ * @returns {Promise<{ text: string, options: Array, topic: string, bloomLevel: string, provider: string }>}
+ *   The provider that actually produced the text; a failing LLM falls back to templates. Objective
+ *   questions from templates have placeholder options and no answer for the educator to fill in.
+ */
+async function generateQuestion(request) {
+  const provider = getQuestionProvider();
+  const questionType = request.questionType || 'DESCRIPTIVE';
+  let result;
+  let used = provider;
+
+  try {
+    result = await provider.generate(request);
+  } catch (error) {
+    if (provider === templateProvider) throw error;
+
+    console.error(`Question provider "${provider.name}" failed, using templates:`, error.message);
+    result = await templateProvider.generate(request);
+    used = templateProvider;
+  }
+
+  return { ...result, options: normalizeOptions(questionType, result.options), provider: used.name };
+}
+
+// Whole-mark split across key points, earlier points taking the remainder
+function splitMarks(total, count) {
+  const base = Math.floor(total / count);
+  return Array.from({ length: count }, (_, idx) => base + (idx < total - base * count ? 1 : 0));
+}
+
+// Keep the provider's split when it adds up to the question's marks, otherwise split evenly
+function allocateMarks(keyPoints, total) {
+  const sum = keyPoints.reduce((acc, point) => acc + (point.marks || 0), 0);
+  if (sum === total) return keyPoints;
+
+  const marks = splitMarks(total, keyPoints.length);
+  return keyPoints.map((point, idx) => ({ ...point, marks: marks[idx] }));
+}
+
+/**
+ * Draft the scheme of evaluation for one paper question through the configured provider.
+ *
+ * @param {Object} request { course: { name, code }, question: { text, marks, bloomLevel, unit, topic } }
+ * @returns {Promise<{ keyPoints: { text: string, marks: number }[], modelAnswer: string, provider: string }>}
+ *   Key point marks always add up to the question's marks; a failing LLM falls back to templates.
+ */
+async function draftAnswer(request) {
+  const provider = getQuestionProvider();
+  let result;
+  let used = provider;
+
+  try {
+    result = await provider.draftAnswer(request);
+  } catch (error) {
+    if (provider === templateProvider) throw error;
+
+    console.error(`Question provider "${provider.name}" failed to draft an answer, using templates:`, error.message);
+    result = await templateProvider.draftAnswer(request);
+    used = templateProvider;
+  }
+
+  return {
+    keyPoints: allocateMarks(result.keyPoints, request.question.marks || 0),
+    modelAnswer: result.modelAnswer,
+    provider: used.name
+  };
+}
+
+module.exports = {
+  bloomLevelForDifficulty,
+  getQuestionProvider,
+  generateQuestion,
+  draftAnswer
+};
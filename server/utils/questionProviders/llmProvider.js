@@ -0,0 +1,164 @@
+// server/utils/questionProviders/llmProvider.js - Fallback questions from an OpenAI-compatible chat completions endpoint
+
+const axios = require('axios');
+
+const BLOOM_VERBS = {
+  L1: 'Remember',
+  L2: 'Understand',
+  L3: 'Apply',
+  L4: 'Analyse',
+  L5: 'Evaluate',
+  L6: 'Create'
+};
+
+function buildPrompt({ course, unit, topic, bloomLevel, marks, difficulty }) {
+  return [
+    `Write one university examination question for the course "${course.name}" (${course.code}).`,
+    unit ? `Unit: ${unit}.` : null,
+    topic ? `Topic: ${topic}.` : 'Choose a topic from the course syllabus.',
+    `Bloom's taxonomy level: ${bloomLevel} (${BLOOM_VERBS[bloomLevel] || 'Apply'}).`,
+    `Difficulty: ${difficulty}. Marks: ${marks}.`,
+    'Reply with the question text only, without numbering, marks or answer.'
+  ].filter(Boolean).join('\n');
+}
+
+function buildObjectivePrompt({ course, unit, topic, bloomLevel, difficulty, questionType }) {
+  const format = questionType === 'TRUE_FALSE'
+    ? 'Write one true/false statement. Reply with JSON only, in the form {"question": "...", "answer": true}.'
+    : 'Write one multiple choice question with four options and exactly one correct option. ' +
+      'Reply with JSON only, in the form {"question": "...", "options": ["...", "...", "...", "..."], "answer": 0}, ' +
+      'where answer is the index of the correct option.';
+
+  return [
+    `Write an objective examination question for the course "${course.name}" (${course.code}).`,
+    unit ? `Unit: ${unit}.` : null,
+    topic ? `Topic: ${topic}.` : 'Choose a topic from the course syllabus.',
+    `Bloom's taxonomy level: ${bloomLevel} (${BLOOM_VERBS[bloomLevel] || 'Apply'}). Difficulty: ${difficulty}.`,
+    format
+  ].filter(Boolean).join('\n');
+}
+
+// Options of an objective question from the model's JSON reply
+function parseObjective(content, questionType) {
+  const json = (content || '').match(/\{[\s\S]*\}/);
+  if (!json) {
+    throw new Error('LLM returned no question');
+  }
+
+  const parsed = JSON.parse(json[0]);
+  const text = String(parsed.question || '').trim();
+  if (!text) {
+    throw new Error('LLM returned an empty question');
+  }
+
+  if (questionType === 'TRUE_FALSE') {
+    const answer = parsed.answer === true || String(parsed.answer).toLowerCase() === 'true';
+    return { text, options: [{ text: 'True', isCorrect: answer }, { text: 'False', isCorrect: !answer }] };
+  }
+
+  const options = (parsed.options || []).map((option, idx) => ({
+    text: String(option).trim(),
+    isCorrect: idx === Number(parsed.answer)
+  }));
+  if (options.length < 2 || !options.some(option => option.isCorrect)) {
+    throw new Error('LLM returned no usable options');
+  }
+  return { text, options };
+}
+
+function buildAnswerPrompt({ course, question }) {
+  return [
+    `Write the scheme of evaluation for this ${question.marks}-mark question from the course "${course.name}" (${course.code}):`,
+    question.text,
+    'Reply with JSON only, in the form {"keyPoints": [{"text": "...", "marks": 2}], "modelAnswer": "..."}.',
+    `The marks of the key points must add up to ${question.marks}. Keep the model answer to what a good student would write.`
+  ].join('\n');
+}
+
+// Models often wrap the answer in quotes or prefix it with "Question:"
+const cleanResponse = content =>
+  content.trim().replace(/^question\s*[:.-]\s*/i, '').replace(/^["']|["']$/g, '').trim();
+
+async function complete(system, prompt) {
+  const baseUrl = process.env.LLM_BASE_URL;
+  if (!baseUrl) {
+    throw new Error('LLM_BASE_URL not configured');
+  }
+
+  const headers = { 'Content-Type': 'application/json' };
+  if (process.env.LLM_API_KEY) {
+    headers['Authorization'] = `Bearer ${process.env.LLM_API_KEY}`;
+  }
+
+  const response = await axios.post(`${baseUrl.replace(/\/$/, '')}/chat/completions`, {
+    model: process.env.LLM_MODEL || 'llama3',
+    temperature: 0.7,
+    messages: [
+      { role: 'system', content: system },
+      { role: 'user', content: prompt }
+    ]
+  }, {
+    timeout: parseInt(process.env.LLM_TIMEOUT_MS, 10) || 30000,
+    headers
+  });
+
+  return response.data?.choices?.[0]?.message?.content;
+}
+
+const llmProvider = {
+  name: 'llm',
+
+  async generate(request) {
+    if (request.questionType === 'MULTIPLE_CHOICE' || request.questionType === 'TRUE_FALSE') {
+      const content = await complete(
+        'You are an experienced university examiner who writes clear, unambiguous objective questions.',
+        buildObjectivePrompt(request)
+      );
+
+      return {
+        ...parseObjective(content, request.questionType),
+        topic: request.topic || request.unit || request.course.name,
+        bloomLevel: request.bloomLevel
+      };
+    }
+
+    const content = await complete(
+      'You are an experienced university examiner who writes clear, unambiguous exam questions.',
+      buildPrompt(request)
+    );
+    if (!content || !cleanResponse(content)) {
+      throw new Error('LLM returned an empty response');
+    }
+
+    return {
+      text: cleanResponse(content),
+      topic: request.topic || request.unit || request.course.name,
+      bloomLevel: request.bloomLevel
+    };
+  },
+
+  async draftAnswer(request) {
+    const content = await complete(
+      'You are an experienced university examiner who writes schemes of evaluation.',
+      buildAnswerPrompt(request)
+    );
+
+    // Tolerate prose or code fences around the JSON object
+    const json = (content || '').match(/\{[\s\S]*\}/);
+    if (!json) {
+      throw new Error('LLM returned no answer key');
+    }
+
+    const parsed = JSON.parse(json[0]);
+    const keyPoints = (parsed.keyPoints || [])
+      .filter(point => point && point.text)
+      .map(point => ({ text: String(point.text).trim(), marks: Number(point.marks) || 0 }));
+    if (keyPoints.length === 0) {
+      throw new Error('LLM returned no key points');
+    }
+
+    return { keyPoints, modelAnswer: String(parsed.modelAnswer || '').trim() };
+  }
+};
+
+module.exports = llmProvider;
@@ -0,0 +1,123 @@
+// server/utils/questionProviders/templateProvider.js - Course-aware template engine for fallback questions
+
+// Generic stems per Bloom level; {topic}, {course}, {unit} and {marks} are filled in per request
+const BLOOM_TEMPLATES = {
+  L1: [
+    'Define {topic} and state its key terms.',
+    'List the main characteristics of {topic}.',
+    'What is meant by {topic}? Give a brief description.'
+  ],
+  L2: [
+    'Explain {topic} with a suitable example.',
+    'Describe the role of {topic} in {course}.',
+    'Summarise the main ideas behind {topic} with a neat sketch where applicable.'
+  ],
+  L3: [
+    'Apply the concepts of {topic} to solve a representative problem from {unit}.',
+    'Illustrate how {topic} is used in practice with a worked example.',
+    'Demonstrate the procedure involved in {topic} step by step.'
+  ],
+  L4: [
+    'Analyse the advantages and limitations of {topic}.',
+    'Compare {topic} with a related approach from {course}.',
+    'Examine the factors that influence {topic} and explain their effect.'
+  ],
+  L5: [
+    'Critically evaluate {topic} and justify where it should be preferred.',
+    'Assess the effectiveness of {topic} for a given scenario and defend your conclusion.',
+    'Evaluate two alternative approaches to {topic} and recommend one with reasons.'
+  ],
+  L6: [
+    'Design a solution based on {topic} for a realistic problem in {course}.',
+    'Propose an improved approach to {topic} and explain its design decisions.',
+    'Formulate a complete method that uses {topic} to address a new problem from {unit}.'
+  ]
+};
+
+// Scheme-of-evaluation points per Bloom level, in the order an answer is expected to cover them
+const ANSWER_POINTS = {
+  L1: ['Definition of {topic}', 'Key terms', 'Main characteristics', 'Example'],
+  L2: ['Explanation of {topic}', 'Suitable example', 'Diagram or sketch', 'Role in {course}'],
+  L3: ['Concepts of {topic} used', 'Step-by-step procedure', 'Worked solution', 'Final result'],
+  L4: ['Description of {topic}', 'Advantages', 'Limitations', 'Comparison', 'Conclusion'],
+  L5: ['Criteria for evaluation', 'Analysis of {topic}', 'Alternatives considered', 'Justified recommendation', 'Conclusion'],
+  L6: ['Problem statement', 'Design using {topic}', 'Design decisions', 'Evaluation of the design', 'Conclusion']
+};
+
+// Objective stems; the options are left for the educator to write, as templates cannot know the answer
+const OBJECTIVE_TEMPLATES = {
+  MULTIPLE_CHOICE: [
+    'Which of the following best describes {topic}?',
+    'Which of the following statements about {topic} is correct?',
+    'Which of the following is a characteristic of {topic}?'
+  ],
+  TRUE_FALSE: [
+    'State whether the following statement about {topic} is true or false: ...'
+  ]
+};
+
+const OPTION_PLACEHOLDERS = ['Option A', 'Option B', 'Option C', 'Option D'];
+
+const pick = list => list[Math.floor(Math.random() * list.length)];
+
+const fill = (template, values) =>
+  template.replace(/\{(topic|course|unit|marks)\}/g, (_, key) => values[key]);
+
+// Prefer the requested topic, then a syllabus topic from the same unit, then anything on the syllabus
+function chooseTopic({ topic, unit, course, syllabusTopics = [] }) {
+  if (topic) return topic;
+
+  const unitKey = (unit || '').toLowerCase();
+  const inUnit = syllabusTopics.filter(t => unitKey && t.unit && t.unit.toLowerCase().includes(unitKey));
+  const candidates = inUnit.length > 0 ? inUnit : syllabusTopics;
+  if (candidates.length > 0) return pick(candidates).topic;
+
+  return `the core concepts of ${course.name}`;
+}
+
+const templateProvider = {
+  name: 'template',
+
+  async generate(request) {
+    const { course, unit, bloomLevel, marks, questionType } = request;
+    const topic = chooseTopic(request);
+
+    if (OBJECTIVE_TEMPLATES[questionType]) {
+      return {
+        text: fill(pick(OBJECTIVE_TEMPLATES[questionType]), { topic, course: course.name, unit: unit || course.name, marks }),
+        options: questionType === 'MULTIPLE_CHOICE' ? OPTION_PLACEHOLDERS.map(text => ({ text, isCorrect: false })) : [],
+        topic,
+        bloomLevel
+      };
+    }
+
+    // Course-specific templates win over the generic stems for the same Bloom level
+    const courseTemplates = (course.questionTemplates || [])
+      .filter(t => t.bloomLevel === bloomLevel)
+      .map(t => t.text);
+    const templates = courseTemplates.length > 0
+      ? courseTemplates
+      : BLOOM_TEMPLATES[bloomLevel] || BLOOM_TEMPLATES.L3;
+
+    return {
+      text: fill(pick(templates), { topic, course: course.name, unit: unit || course.name, marks }),
+      topic,
+      bloomLevel
+    };
+  },
+
+  // Roughly one key point per two marks; the model answer is an outline for the educator to complete
+  async draftAnswer({ course, question }) {
+    const topic = question.topic || question.unit || course.name;
+    const points = ANSWER_POINTS[question.bloomLevel] || ANSWER_POINTS.L3;
+    const count = Math.min(points.length, Math.max(1, Math.ceil(question.marks / 2)));
+    const keyPoints = points.slice(0, count).map(point => fill(point, { topic, course: course.name }));
+
+    return {
+      keyPoints: keyPoints.map(text => ({ text })),
+      modelAnswer: keyPoints.map((text, idx) => `${idx + 1}. ${text}: ...`).join('\n')
+    };
+  }
+};
+
+module.exports = templateProvider;
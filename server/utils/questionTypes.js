@@ -0,0 +1,111 @@
+// server/utils/questionTypes.js - Descriptive and objective (MCQ, true/false) questions and their options
+
+const QUESTION_TYPES = ['DESCRIPTIVE', 'MULTIPLE_CHOICE', 'TRUE_FALSE'];
+const OBJECTIVE_TYPES = ['MULTIPLE_CHOICE', 'TRUE_FALSE'];
+
+const MIN_CHOICES = 2;
+const MAX_CHOICES = 6;
+
+// Options that read wrongly anywhere but last, e.g. "All of the above"
+const PINNED_OPTION = /\b(all|none|both|neither)\b.*\babove\b/i;
+
+const isObjective = type => OBJECTIVE_TYPES.includes(type);
+
+// Rows and papers saved before question types existed are descriptive
+const questionType = question => question.type || 'DESCRIPTIVE';
+
+const optionLetter = idx => String.fromCharCode(65 + idx);
+
+/**
+ * Clean up the options of a question for its type. Descriptive questions have none, and a
+ * true/false question always has "True" then "False" with the given answer marked.
+ */
+function normalizeOptions(type, options = []) {
+  if (!isObjective(type)) return [];
+
+  const cleaned = (Array.isArray(options) ? options : [])
+    .map(option => ({ text: String(option.text ?? '').trim(), isCorrect: option.isCorrect === true || option.isCorrect === 'true' }))
+    .filter(option => option.text);
+
+  if (type === 'TRUE_FALSE') {
+    const answer = cleaned.find(option => option.isCorrect);
+    const isTrue = answer ? /^t(rue)?$/i.test(answer.text) : null;
+    return [
+      { text: 'True', isCorrect: isTrue === true },
+      { text: 'False', isCorrect: isTrue === false }
+    ];
+  }
+
+  return cleaned;
+}
+
+// Why the options cannot be used for this question type, or null when they can
+function validateOptions(type, options = []) {
+  if (!isObjective(type)) return null;
+
+  const correct = options.filter(option => option.isCorrect).length;
+  if (type === 'MULTIPLE_CHOICE' && (options.length < MIN_CHOICES || options.length > MAX_CHOICES)) {
+    return `A multiple choice question needs ${MIN_CHOICES} to ${MAX_CHOICES} options`;
+  }
+  if (correct !== 1) {
+    return type === 'TRUE_FALSE' ? 'Mark the statement true or false' : 'Mark exactly one option as correct';
+  }
+  return null;
+}
+
+// Letter of the correct option, e.g. "B", or null when none is marked
+function correctOption(question) {
+  const idx = (question.options || []).findIndex(option => option.isCorrect);
+  return idx === -1 ? null : optionLetter(idx);
+}
+
+// FNV-1a hash of the seed, fed to mulberry32 so the same seed always gives the same order
+function seededRandom(seed) {
+  let state = 2166136261;
+  for (const char of String(seed)) {
+    state = Math.imul(state ^ char.charCodeAt(0), 16777619);
+  }
+
+  return () => {
+    state = (state + 0x6d2b79f5) | 0;
+    let t = Math.imul(state ^ (state >>> 15), 1 | state);
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+/**
+ * Shuffle the options of every multiple choice question, the same way every time for the same
+ * seed so each paper set keeps its own order. "All/none of the above" options stay last and
+ * true/false questions are left alone.
+ */
+function shuffleOptions(questions, seed) {
+  return questions.map(question => {
+    if (questionType(question) !== 'MULTIPLE_CHOICE' || !question.options || question.options.length < 2) {
+      return question;
+    }
+
+    const random = seededRandom(`${seed}:${question.questionId}`);
+    const movable = question.options.filter(option => !PINNED_OPTION.test(option.text));
+    const pinned = question.options.filter(option => PINNED_OPTION.test(option.text));
+
+    for (let idx = movable.length - 1; idx > 0; idx--) {
+      const swap = Math.floor(random() * (idx + 1));
+      [movable[idx], movable[swap]] = [movable[swap], movable[idx]];
+    }
+
+    return { ...question, options: [...movable, ...pinned] };
+  });
+}
+
+module.exports = {
+  OBJECTIVE_TYPES,
+  QUESTION_TYPES,
+  correctOption,
+  isObjective,
+  normalizeOptions,
+  optionLetter,
+  questionType,
+  shuffleOptions,
+  validateOptions
+};
@@ -0,0 +1,102 @@
+// server/utils/reuseHistory.js - Cross-paper usage of bank questions and the generation cool-off
+
+const QuestionPaper = require('../models/QuestionPaper');
+
+const COOL_OFF_EXAM_TYPES = ['CIE', 'SEE'];
+
+// Questions from the last N saved papers of each exam type are held back from generation, and
+// so are those of any paper of that type saved within withinDays days (last year's SEE)
+const DEFAULT_COOL_OFF = { CIE: 2, SEE: 1, withinDays: { CIE: 0, SEE: 365 } };
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const toCount = (value, fallback) => {
+  const count = value !== undefined ? parseInt(value, 10) : fallback;
+  return Number.isNaN(count) ? 0 : Math.max(0, count);
+};
+
+/**
+ * Build usage history for every bank question used in an educator's saved papers for a course.
+ *
+ * @returns {Promise<{ papers: Array, history: Object }>} papers newest first, and
+ *   history keyed by bank question id: { count, lastUsedAt, papers: [{ _id, title, examType, createdAt }] }
+ */
+async function getReuseHistory(educatorId, courseId) {
+  const papers = await QuestionPaper.find({ educator: educatorId, course: courseId })
+    .select('title examType setGroup createdAt questions.originalId')
+    .sort({ createdAt: -1 });
+
+  const history = {};
+  for (const paper of papers) {
+    const summary = { _id: paper._id, title: paper.title, examType: paper.examType, createdAt: paper.createdAt };
+
+    // A question repeated inside one paper still counts as one use of that paper
+    const ids = new Set(paper.questions.map(q => q.originalId).filter(Boolean));
+    for (const id of ids) {
+      if (!history[id]) {
+        history[id] = { count: 0, lastUsedAt: null, papers: [] };
+      }
+      const entry = history[id];
+      entry.count += 1;
+      entry.papers.push(summary);
+      if (!entry.lastUsedAt || paper.createdAt > entry.lastUsedAt) {
+        entry.lastUsedAt = paper.createdAt;
+      }
+    }
+  }
+
+  return { papers, history };
+}
+
+// Merge a request's cool-off with the defaults; negative or non-numeric values count as 0
+function resolveCoolOff(coolOff = {}) {
+  const withinDays = coolOff.withinDays || {};
+  const resolved = { withinDays: {} };
+  for (const examType of COOL_OFF_EXAM_TYPES) {
+    resolved[examType] = toCount(coolOff[examType], DEFAULT_COOL_OFF[examType]);
+    resolved.withinDays[examType] = toCount(withinDays[examType], DEFAULT_COOL_OFF.withinDays[examType]);
+  }
+  return resolved;
+}
+
+// Ids of bank questions used in the papers covered by the cool-off: the most recent ones of each
+// exam type, and any saved within that type's window. The sets of one paper (Set A/B/C) count
+// as a single paper
+function getCoolingIds(papers, coolOff, now = new Date()) {
+  const seen = {};
+  const counted = new Set();
+  const ids = new Set();
+  const withinDays = coolOff.withinDays || {};
+
+  for (const paper of papers) {
+    const key = String(paper.setGroup || paper._id);
+    if (!counted.has(key)) {
+      counted.add(key);
+      seen[paper.examType] = (seen[paper.examType] || 0) + 1;
+    }
+    const isRecent = seen[paper.examType] <= (coolOff[paper.examType] || 0);
+    const isWithinWindow = now - paper.createdAt <= (withinDays[paper.examType] || 0) * DAY_MS;
+    if (!isRecent && !isWithinWindow) continue;
+
+    for (const question of paper.questions) {
+      if (question.originalId) ids.add(String(question.originalId));
+    }
+  }
+
+  return ids;
+}
+
+// History and cooling set for a generation request in one call
+async function loadCoolOff(educatorId, courseId, coolOff) {
+  const { papers, history } = await getReuseHistory(educatorId, courseId);
+  const resolved = resolveCoolOff(coolOff);
+  return { history, coolOff: resolved, coolingIds: getCoolingIds(papers, resolved) };
+}
+
+module.exports = {
+  DEFAULT_COOL_OFF,
+  getReuseHistory,
+  resolveCoolOff,
+  getCoolingIds,
+  loadCoolOff
+};
@@ -13,6 +13,16 @@ import CieExamSetup from "./pages/CieExamSetup";
 import SemesterExamSetup from "./pages/SemesterExamSetup";
 import GenerateQuestions from "./pages/GenerateQuestions";
 import DocumentUpload from "./pages/DocumentUpload";
+import ExamPatterns from "./pages/ExamPatterns";
+import QuestionPaperDetail from "./pages/QuestionPaperDetail";
+import ReviewQueue from "./pages/ReviewQueue";
+import ProcessedDataReview from "./pages/ProcessedDataReview";
+import BankVersions from "./pages/BankVersions";
+import QuestionBank from "./pages/QuestionBank";
+import CourseOutcomes from "./pages/CourseOutcomes";
+import ProgramOutcomes from "./pages/ProgramOutcomes";
+import ExamDetail from "./pages/ExamDetail";
+import BrandingSettings from "./pages/BrandingSettings";
 import WelcomeSplash from "./pages/WelcomeSplash";
 import { AuthProvider } from "./contexts/AuthContext";
 import SecureRoute from "./components/SecureRoute";
@@ -50,6 +60,16 @@ const App = () => (
               <Route path="/cie-exam-setup" element={<CieExamSetup />} />
               <Route path="/semester-exam-setup" element={<SemesterExamSetup />} />
               <Route path="/generate-questions" element={<GenerateQuestions />} />
+              <Route path="/exam-patterns" element={<ExamPatterns />} />
+              <Route path="/question-papers/:id" element={<QuestionPaperDetail />} />
+              <Route path="/review-queue" element={<ReviewQueue />} />
+              <Route path="/processed-data/:id/review" element={<ProcessedDataReview />} />
+              <Route path="/courses/:courseId/bank-versions" element={<BankVersions />} />
+              <Route path="/courses/:courseId/question-bank" element={<QuestionBank />} />
+              <Route path="/courses/:courseId/outcomes" element={<CourseOutcomes />} />
+              <Route path="/courses/:courseId/po-mapping" element={<ProgramOutcomes />} />
+              <Route path="/exams/:id" element={<ExamDetail />} />
+              <Route path="/settings/branding" element={<BrandingSettings />} />
             </Route>
 
             {/* Catch-all route */}
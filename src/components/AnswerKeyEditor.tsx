@@ -0,0 +1,369 @@
+import { useCallback, useEffect, useState } from "react";
+import axios from "axios";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import { useToast } from "@/components/ui/use-toast";
+import { AlertTriangle, Download, FileText, Loader2, Lock, Plus, RefreshCw, Save, Trash2, Wand2 } from "lucide-react";
+import { questionPaperAPI } from "@/lib/api";
+import { PaperDocument, getQuestionLabel } from "@/lib/questionPaper";
+import {
+  AnswerKey,
+  AnswerKeyEntry,
+  AnswerKeyPoint,
+  getAnswerKeyFilename,
+  getKeyPointsTotal,
+  isEntryStale,
+} from "@/lib/answerKey";
+import { downloadAnswerKeyPdf } from "@/lib/pdfExport";
+import { getAnswerGrid, isObjective } from "@/lib/questionTypes";
+import { saveBlob } from "@/lib/questionBank";
+
+interface AnswerKeyEditorProps {
+  paperId: string;
+  paper: PaperDocument;
+  // Reviewers see the key of another educator's paper without editing it
+  readOnly?: boolean;
+}
+
+// Scheme of evaluation for a saved paper: drafted by the question provider, then edited by the educator
+const AnswerKeyEditor = ({ paperId, paper, readOnly = false }: AnswerKeyEditorProps) => {
+  const { toast } = useToast();
+  const [answerKey, setAnswerKey] = useState<AnswerKey | null>(null);
+  const [entries, setEntries] = useState<AnswerKeyEntry[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [draftingIds, setDraftingIds] = useState<string[] | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+  const [hasChanges, setHasChanges] = useState(false);
+  const [isDownloadingDocx, setIsDownloadingDocx] = useState(false);
+
+  const applyAnswerKey = (key: AnswerKey | null) => {
+    setAnswerKey(key);
+    setEntries(key ? key.entries : []);
+    setHasChanges(false);
+  };
+
+  const loadAnswerKey = useCallback(async () => {
+    try {
+      const response = await questionPaperAPI.getAnswerKey(paperId);
+      applyAnswerKey(response.data);
+    } catch (error) {
+      // A paper without an answer key yet is not an error
+      if (!axios.isAxiosError(error) || error.response?.status !== 404) {
+        console.error("Error loading answer key:", error);
+      }
+      applyAnswerKey(null);
+    } finally {
+      setIsLoading(false);
+    }
+  }, [paperId]);
+
+  useEffect(() => {
+    loadAnswerKey();
+  }, [loadAnswerKey]);
+
+  const canEdit = !answerKey?.locked && !readOnly;
+  const entryById = new Map(entries.map(entry => [entry.questionId, entry]));
+  // Objective questions are keyed by the correct option on the paper, not by key points
+  const descriptiveQuestions = paper.questions.filter(question => !isObjective(question.type));
+  const answerGrid = getAnswerGrid(paper.questions, getQuestionLabel);
+  const missingCount = descriptiveQuestions.filter(question => !entryById.has(question.questionId)).length;
+
+  const handleDraft = async (questionIds?: string[]) => {
+    if (hasChanges && questionIds) {
+      toast({
+        title: "Unsaved changes",
+        description: "Save your edits before redrafting a question.",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    setDraftingIds(questionIds || []);
+    try {
+      const response = await questionPaperAPI.draftAnswerKey(paperId, questionIds);
+      applyAnswerKey(response.data.answerKey);
+      toast({
+        title: "Answer key drafted",
+        description: response.data.message,
+      });
+    } catch (error) {
+      const data = axios.isAxiosError(error) ? error.response?.data : undefined;
+      toast({
+        title: "Drafting failed",
+        description: data?.message || "Failed to draft the answer key. Please try again.",
+        variant: "destructive",
+      });
+    } finally {
+      setDraftingIds(null);
+    }
+  };
+
+  const handleSave = async () => {
+    setIsSaving(true);
+    try {
+      const response = await questionPaperAPI.updateAnswerKey(paperId, entries);
+      applyAnswerKey(response.data.answerKey);
+      toast({
+        title: "Answer key saved",
+        description: "Your changes to the scheme of evaluation have been saved.",
+      });
+    } catch (error) {
+      const data = axios.isAxiosError(error) ? error.response?.data : undefined;
+      toast({
+        title: "Save failed",
+        description: data?.errors?.[0]?.msg || data?.message || "Failed to save the answer key.",
+        variant: "destructive",
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const updateEntry = (questionId: string, changes: Partial<AnswerKeyEntry>) => {
+    setEntries(entries.map(entry => entry.questionId === questionId ? { ...entry, ...changes } : entry));
+    setHasChanges(true);
+  };
+
+  const updatePoint = (entry: AnswerKeyEntry, pointIdx: number, changes: Partial<AnswerKeyPoint>) => {
+    updateEntry(entry.questionId, {
+      keyPoints: entry.keyPoints.map((point, idx) => idx === pointIdx ? { ...point, ...changes } : point),
+    });
+  };
+
+  const handleDownload = () => {
+    const filename = getAnswerKeyFilename(paper, 'pdf');
+    downloadAnswerKeyPdf(paper, entries, filename);
+    toast({
+      title: "Download Started",
+      description: `Answer key saved as ${filename}`,
+    });
+  };
+
+  // Rendered by the server from the saved key, so unsaved edits are not in it
+  const handleDownloadDocx = async () => {
+    setIsDownloadingDocx(true);
+    try {
+      const filename = getAnswerKeyFilename(paper, 'docx');
+      const response = await questionPaperAPI.downloadAnswerKeyDocx(paperId);
+      saveBlob(response.data, filename);
+
+      try {
+        await questionPaperAPI.trackDownload(paperId);
+      } catch (error) {
+        console.error('Failed to track download:', error);
+      }
+
+      toast({
+        title: "Download Started",
+        description: `Answer key saved as ${filename}`,
+      });
+    } catch {
+      toast({
+        title: "Download failed",
+        description: "Failed to export the answer key as a Word document.",
+        variant: "destructive",
+      });
+    } finally {
+      setIsDownloadingDocx(false);
+    }
+  };
+
+  return (
+    <Card className="bg-black/40 backdrop-blur-sm border-cyan-400/30 shadow-lg">
+      <CardHeader className="flex flex-row items-center justify-between space-y-0">
+        <CardTitle className="text-white flex items-center">
+          Answer Key
+          {answerKey?.locked && (
+            <Badge className="ml-3 bg-yellow-700">
+              <Lock className="h-3 w-3 mr-1" />
+              Locked
+            </Badge>
+          )}
+        </CardTitle>
+        {answerKey && (
+          <div className="flex gap-2">
+            {canEdit && missingCount > 0 && (
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => handleDraft()}
+                disabled={draftingIds !== null || hasChanges}
+                className="text-cyan-100 hover:bg-cyan-900/30 hover:text-white border-cyan-500/30"
+              >
+                <Wand2 className="h-4 w-4 mr-2" />
+                Draft {missingCount} Missing
+              </Button>
+            )}
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={handleDownload}
+              className="text-cyan-100 hover:bg-cyan-900/30 hover:text-white border-cyan-500/30"
+            >
+              <Download className="h-4 w-4 mr-2" />
+              Download Answer Key
+            </Button>
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={handleDownloadDocx}
+              disabled={isDownloadingDocx || hasChanges}
+              className="text-cyan-100 hover:bg-cyan-900/30 hover:text-white border-cyan-500/30"
+            >
+              {isDownloadingDocx ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <FileText className="h-4 w-4 mr-2" />}
+              Download Word
+            </Button>
+            {canEdit && hasChanges && (
+              <Button size="sm" onClick={handleSave} disabled={isSaving} className="bg-cyan-600 hover:bg-cyan-500">
+                {isSaving ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Save className="h-4 w-4 mr-2" />}
+                Save Answer Key
+              </Button>
+            )}
+          </div>
+        )}
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {answerGrid.length > 0 && (
+          <div className="p-4 rounded-md bg-black/20 border border-cyan-500/20">
+            <p className="text-sm font-medium text-cyan-100 mb-2">Answer Grid</p>
+            <div className="grid grid-cols-5 md:grid-cols-10 gap-2 text-sm">
+              {answerGrid.map(entry => (
+                <span key={entry.questionId} className={entry.answer ? "text-white" : "text-yellow-300"}>
+                  <span className="font-semibold">{entry.label}.</span> {entry.answer ?? "?"}
+                </span>
+              ))}
+            </div>
+            {answerGrid.some(entry => !entry.answer) && (
+              <p className="text-xs text-yellow-300 mt-2">Questions showing "?" have no correct option marked; mark it when editing the paper.</p>
+            )}
+          </div>
+        )}
+        {isLoading ? (
+          <p className="text-cyan-200">Loading...</p>
+        ) : !answerKey ? (
+          <div className="text-center py-6">
+            <p className="text-cyan-200 mb-4">
+              No scheme of evaluation yet.{!readOnly && " Draft one with key points, a marks split and a model answer for every question."}
+            </p>
+            {!readOnly && (
+              <Button onClick={() => handleDraft()} disabled={draftingIds !== null} className="bg-cyan-600 hover:bg-cyan-500">
+                {draftingIds !== null ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Wand2 className="h-4 w-4 mr-2" />}
+                Draft Answer Key
+              </Button>
+            )}
+          </div>
+        ) : (
+          descriptiveQuestions.map((question) => {
+            const entry = entryById.get(question.questionId);
+            const isDrafting = !!draftingIds?.includes(question.questionId);
+
+            return (
+              <div key={question.questionId} className="p-4 rounded-md bg-black/20 border border-cyan-500/20 space-y-3">
+                <div className="flex items-start justify-between gap-3">
+                  <p className="text-white">
+                    <span className="font-semibold mr-2">{getQuestionLabel(question)}.</span>
+                    {question.text}
+                  </p>
+                  <div className="flex items-center gap-2 shrink-0">
+                    {entry && isEntryStale(entry, question) && (
+                      <Badge variant="outline" className="text-yellow-300 border-yellow-500/40">
+                        <AlertTriangle className="h-3 w-3 mr-1" />
+                        Question changed
+                      </Badge>
+                    )}
+                    {entry && (
+                      <Badge
+                        variant="outline"
+                        className={getKeyPointsTotal(entry) === question.marks
+                          ? "text-green-300 border-green-500/40"
+                          : "text-red-300 border-red-500/40"}
+                      >
+                        {getKeyPointsTotal(entry)} / {question.marks} marks
+                      </Badge>
+                    )}
+                    {canEdit && (
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => handleDraft([question.questionId])}
+                        disabled={draftingIds !== null}
+                        className="text-cyan-100 hover:bg-cyan-900/30 hover:text-white"
+                      >
+                        {isDrafting ? <Loader2 className="h-4 w-4 mr-1 animate-spin" /> : <RefreshCw className="h-4 w-4 mr-1" />}
+                        {entry ? "Redraft" : "Draft"}
+                      </Button>
+                    )}
+                  </div>
+                </div>
+
+                {entry && (
+                  <>
+                    <div className="space-y-2">
+                      {entry.keyPoints.map((point, pointIdx) => (
+                        <div key={pointIdx} className="flex items-center gap-2">
+                          <span className="w-6 text-sm text-cyan-200">{pointIdx + 1}.</span>
+                          <Input
+                            value={point.text}
+                            onChange={(e) => updatePoint(entry, pointIdx, { text: e.target.value })}
+                            disabled={!canEdit}
+                            className="bg-black/50 border-cyan-500/30 text-white"
+                          />
+                          <Input
+                            type="number"
+                            min="0"
+                            step="0.5"
+                            value={point.marks}
+                            onChange={(e) => updatePoint(entry, pointIdx, { marks: parseFloat(e.target.value) || 0 })}
+                            disabled={!canEdit}
+                            className="w-20 bg-black/50 border-cyan-500/30 text-white"
+                          />
+                          {canEdit && (
+                            <Button
+                              variant="ghost"
+                              size="sm"
+                              onClick={() => updateEntry(entry.questionId, {
+                                keyPoints: entry.keyPoints.filter((_, idx) => idx !== pointIdx),
+                              })}
+                              className="text-red-300 hover:bg-red-900/30 hover:text-red-200"
+                            >
+                              <Trash2 className="h-4 w-4" />
+                            </Button>
+                          )}
+                        </div>
+                      ))}
+                      {canEdit && (
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => updateEntry(entry.questionId, {
+                            keyPoints: [...entry.keyPoints, { text: "", marks: 0 }],
+                          })}
+                          className="text-cyan-100 hover:bg-cyan-900/30 hover:text-white"
+                        >
+                          <Plus className="h-4 w-4 mr-1" />
+                          Add key point
+                        </Button>
+                      )}
+                    </div>
+                    <Textarea
+                      value={entry.modelAnswer}
+                      onChange={(e) => updateEntry(entry.questionId, { modelAnswer: e.target.value })}
+                      disabled={!canEdit}
+                      placeholder="Model answer"
+                      className="min-h-[80px] text-sm bg-black/40 border-cyan-500/30 text-white"
+                    />
+                  </>
+                )}
+              </div>
+            );
+          })
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default AnswerKeyEditor;
@@ -0,0 +1,43 @@
+import { Button } from "@/components/ui/button";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { FileDown, Loader2 } from "lucide-react";
+import { BankFileFormat, FILE_FORMAT_LABELS } from "@/lib/questionBank";
+
+interface BankExportMenuProps {
+  label?: string;
+  isExporting: boolean;
+  onExport: (format: BankFileFormat) => void;
+}
+
+// Picks the file format questions are exported in, for spreadsheets or the LMS
+const BankExportMenu = ({ label = "Export", isExporting, onExport }: BankExportMenuProps) => (
+  <DropdownMenu>
+    <DropdownMenuTrigger asChild>
+      <Button
+        variant="outline"
+        size="sm"
+        disabled={isExporting}
+        className="text-cyan-100 hover:bg-cyan-900/30 hover:text-white border-cyan-500/30"
+      >
+        {isExporting ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <FileDown className="h-4 w-4 mr-2" />}
+        {label}
+      </Button>
+    </DropdownMenuTrigger>
+    <DropdownMenuContent className="bg-slate-800 text-white border-slate-700">
+      <DropdownMenuLabel>Format</DropdownMenuLabel>
+      {(Object.keys(FILE_FORMAT_LABELS) as BankFileFormat[]).map(format => (
+        <DropdownMenuItem key={format} onClick={() => onExport(format)}>
+          {FILE_FORMAT_LABELS[format]}
+        </DropdownMenuItem>
+      ))}
+    </DropdownMenuContent>
+  </DropdownMenu>
+);
+
+export default BankExportMenu;
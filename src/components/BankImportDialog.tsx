@@ -0,0 +1,248 @@
+import { useState } from "react";
+import axios from "axios";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useToast } from "@/components/ui/use-toast";
+import { FileSearch, Loader2, Upload } from "lucide-react";
+import { bankQuestionAPI } from "@/lib/api";
+import { BLOOM_LEVELS, DIFFICULTIES } from "@/lib/bankReview";
+import { DifficultyLevel } from "@/lib/examPattern";
+import {
+  ColumnMapping,
+  FILE_FORMAT_LABELS,
+  ImportDefaults,
+  ImportReportEntry,
+  ImportResult,
+  MAPPABLE_FIELD_LABELS,
+  MappableField,
+  isTabularFormat,
+} from "@/lib/questionBank";
+
+interface BankImportDialogProps {
+  open: boolean;
+  courseId: string;
+  onClose: () => void;
+  onImported: () => void;
+}
+
+// Radix selects cannot hold an empty value
+const NONE = "none";
+
+const STATUS_STYLES: Record<ImportReportEntry['status'], string> = {
+  valid: "bg-green-600",
+  invalid: "bg-red-600",
+  duplicate: "bg-yellow-600",
+};
+
+// Checks a CSV, XLSX, Moodle XML or GIFT file against the bank, then imports its valid rows
+const BankImportDialog = ({ open, courseId, onClose, onImported }: BankImportDialogProps) => {
+  const { toast } = useToast();
+  const [file, setFile] = useState<File | null>(null);
+  const [mapping, setMapping] = useState<ColumnMapping>({});
+  const [defaults, setDefaults] = useState<ImportDefaults>({});
+  const [result, setResult] = useState<ImportResult | null>(null);
+  const [busy, setBusy] = useState<'check' | 'import' | null>(null);
+
+  const reset = () => {
+    setFile(null);
+    setMapping({});
+    setDefaults({});
+    setResult(null);
+  };
+
+  const handleClose = () => {
+    reset();
+    onClose();
+  };
+
+  const runImport = async (dryRun: boolean) => {
+    if (!file) return;
+
+    setBusy(dryRun ? 'check' : 'import');
+    try {
+      const response = await bankQuestionAPI.importQuestions(courseId, file, { mapping, defaults, dryRun });
+      const data: ImportResult = response.data;
+
+      if (dryRun) {
+        setResult(data);
+        setMapping(data.mapping || {});
+        return;
+      }
+
+      toast({
+        title: "Questions imported",
+        description: `${data.imported} questions added to the bank; ${data.summary.invalid} invalid and ${data.summary.duplicate} duplicate rows skipped.`,
+      });
+      reset();
+      onImported();
+    } catch (error) {
+      const data = axios.isAxiosError(error) ? error.response?.data : undefined;
+      toast({
+        title: dryRun ? "Check failed" : "Import failed",
+        description: data?.message || "Failed to read the file.",
+        variant: "destructive",
+      });
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  const setDefault = (field: keyof ImportDefaults, value: string) => {
+    setDefaults(current => {
+      const next = { ...current };
+      if (value === NONE || value === "") {
+        delete next[field];
+      } else if (field === 'predicted_marks') {
+        next.predicted_marks = Number(value);
+      } else if (field === 'difficulty') {
+        next.difficulty = value as DifficultyLevel;
+      } else {
+        next[field] = value;
+      }
+      return next;
+    });
+  };
+
+  const setColumn = (field: MappableField, column: string) => {
+    setMapping(current => ({ ...current, [field]: column === NONE ? "" : column }));
+  };
+
+  const columns = result?.columns ?? [];
+  const problems = result?.report.filter(entry => entry.status !== 'valid') ?? [];
+
+  return (
+    <Dialog open={open} onOpenChange={(isOpen) => !isOpen && handleClose()}>
+      <DialogContent className="max-w-3xl max-h-[90vh] overflow-y-auto bg-slate-900 border-cyan-500/30 text-white">
+        <DialogHeader>
+          <DialogTitle>Import Questions</DialogTitle>
+          <DialogDescription className="text-cyan-200">
+            CSV or Excel sheets with a header row, Moodle XML or GIFT. Every row is checked first; only valid questions that are not already in the bank are added.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <Input
+            type="file"
+            accept=".csv,.xlsx,.xml,.gift,.txt"
+            onChange={(e) => {
+              setFile(e.target.files?.[0] ?? null);
+              setMapping({});
+              setResult(null);
+            }}
+            className="bg-black/40 border-cyan-500/30 text-white"
+          />
+
+          <div>
+            <p className="text-sm font-medium text-cyan-100 mb-2">Defaults for fields the file leaves empty</p>
+            <div className="grid grid-cols-4 gap-2">
+              <Input
+                type="number"
+                min={1}
+                placeholder="Marks"
+                value={defaults.predicted_marks ?? ""}
+                onChange={(e) => setDefault('predicted_marks', e.target.value)}
+                className="bg-black/40 border-cyan-500/30 text-white"
+              />
+              <Select value={defaults.bloom_level ?? NONE} onValueChange={(value) => setDefault('bloom_level', value)}>
+                <SelectTrigger className="border-cyan-500/30 bg-black/40 text-white">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent className="bg-slate-800 text-white border-slate-700">
+                  <SelectItem value={NONE}>No default Bloom level</SelectItem>
+                  {BLOOM_LEVELS.map(level => <SelectItem key={level} value={level}>{level}</SelectItem>)}
+                </SelectContent>
+              </Select>
+              <Select value={defaults.difficulty ?? NONE} onValueChange={(value) => setDefault('difficulty', value)}>
+                <SelectTrigger className="border-cyan-500/30 bg-black/40 text-white capitalize">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent className="bg-slate-800 text-white border-slate-700">
+                  <SelectItem value={NONE}>No default difficulty</SelectItem>
+                  {DIFFICULTIES.map(level => <SelectItem key={level} value={level} className="capitalize">{level}</SelectItem>)}
+                </SelectContent>
+              </Select>
+              <Input
+                placeholder="Unit"
+                value={defaults.matched_unit ?? ""}
+                onChange={(e) => setDefault('matched_unit', e.target.value)}
+                className="bg-black/40 border-cyan-500/30 text-white"
+              />
+            </div>
+          </div>
+
+          {result && isTabularFormat(result.format) && (
+            <div>
+              <p className="text-sm font-medium text-cyan-100 mb-2">Columns</p>
+              <div className="grid grid-cols-2 md:grid-cols-4 gap-2">
+                {(Object.keys(MAPPABLE_FIELD_LABELS) as MappableField[]).map(field => (
+                  <div key={field} className="space-y-1">
+                    <p className="text-xs text-cyan-200">{MAPPABLE_FIELD_LABELS[field]}</p>
+                    <Select value={mapping[field] || NONE} onValueChange={(value) => setColumn(field, value)}>
+                      <SelectTrigger className="border-cyan-500/30 bg-black/40 text-white">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent className="bg-slate-800 text-white border-slate-700">
+                        <SelectItem value={NONE}>Not in file</SelectItem>
+                        {columns.map(column => <SelectItem key={column} value={column}>{column}</SelectItem>)}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                ))}
+              </div>
+            </div>
+          )}
+
+          {result && (
+            <div className="space-y-3">
+              <p className="text-sm text-cyan-100">
+                {FILE_FORMAT_LABELS[result.format]}: {result.summary.total} questions, {result.summary.valid} valid,
+                {" "}{result.summary.invalid} invalid, {result.summary.duplicate} duplicates
+              </p>
+              {problems.length > 0 && (
+                <div className="space-y-2 max-h-64 overflow-y-auto">
+                  {problems.map(entry => (
+                    <div key={entry.row} className="p-2 rounded-md border border-cyan-500/20 bg-black/30 text-sm">
+                      <div className="flex items-center gap-2">
+                        <Badge className={STATUS_STYLES[entry.status]}>{entry.status}</Badge>
+                        <span className="text-cyan-200">{isTabularFormat(result.format) ? "Row" : "Question"} {entry.row}</span>
+                        <span className="truncate text-white">{entry.question.question}</span>
+                      </div>
+                      <ul className="list-disc list-inside text-xs text-red-200 mt-1">
+                        {entry.errors.map(message => <li key={message}>{message}</li>)}
+                      </ul>
+                    </div>
+                  ))}
+                </div>
+              )}
+            </div>
+          )}
+        </div>
+
+        <DialogFooter>
+          <Button
+            variant="outline"
+            onClick={() => runImport(true)}
+            disabled={!file || busy !== null}
+            className="text-cyan-100 hover:bg-cyan-900/30 hover:text-white border-cyan-500/30"
+          >
+            {busy === 'check' ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <FileSearch className="h-4 w-4 mr-2" />}
+            {result ? "Check Again" : "Check File"}
+          </Button>
+          <Button
+            onClick={() => runImport(false)}
+            disabled={!result || result.summary.valid === 0 || busy !== null}
+            className="bg-cyan-600 hover:bg-cyan-500"
+          >
+            {busy === 'import' ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Upload className="h-4 w-4 mr-2" />}
+            Import {result?.summary.valid ?? 0} Questions
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default BankImportDialog;
@@ -0,0 +1,46 @@
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { CourseOutcome, getCoMarks } from "@/lib/courseOutcomes";
+import { GeneratedQuestion } from "@/lib/questionPaper";
+
+interface CoMarksTableProps {
+  questions: GeneratedQuestion[];
+  outcomes?: CourseOutcome[];
+}
+
+// CO-wise marks of a paper, as printed under the questions
+const CoMarksTable = ({ questions, outcomes }: CoMarksTableProps) => {
+  const rows = getCoMarks(questions, outcomes);
+
+  if (!rows.some(row => row.code)) {
+    return <p className="text-sm text-cyan-300/70">No question on this paper is tagged with a course outcome.</p>;
+  }
+
+  return (
+    <Table>
+      <TableHeader>
+        <TableRow className="border-cyan-500/20 hover:bg-transparent">
+          <TableHead className="text-cyan-200 w-20">CO</TableHead>
+          <TableHead className="text-cyan-200">Course Outcome</TableHead>
+          <TableHead className="text-cyan-200 w-24">Questions</TableHead>
+          <TableHead className="text-cyan-200 w-20">Marks</TableHead>
+          <TableHead className="text-cyan-200 w-20">Share</TableHead>
+        </TableRow>
+      </TableHeader>
+      <TableBody>
+        {rows.map(row => (
+          <TableRow key={row.code || "none"} className="border-cyan-500/20">
+            <TableCell className="font-semibold text-white">{row.code || "—"}</TableCell>
+            <TableCell className={row.code ? "text-cyan-100" : "text-cyan-300/70 italic"}>
+              {row.code ? row.statement || "Not defined for this course" : "Questions without a CO"}
+            </TableCell>
+            <TableCell className="text-white">{row.questionCount}</TableCell>
+            <TableCell className={row.marks === 0 ? "text-yellow-300" : "text-white"}>{row.marks}</TableCell>
+            <TableCell className="text-white">{Math.round(row.share * 100)}%</TableCell>
+          </TableRow>
+        ))}
+      </TableBody>
+    </Table>
+  );
+};
+
+export default CoMarksTable;
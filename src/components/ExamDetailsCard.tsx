@@ -0,0 +1,105 @@
+import { useEffect, useState } from "react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import ExamFields from "@/components/ExamFields";
+import { examsAPI } from "@/lib/api";
+import {
+  EXAM_KINDS,
+  EXAM_KIND_LABELS,
+  EXAM_STATUS_LABELS,
+  Exam,
+  ExamDraft,
+  PaperExamType,
+  formatExamDate,
+  formatExamHeader,
+  isExamLocked,
+} from "@/lib/exams";
+
+// Select value for creating a new exam rather than adding a paper to an existing one
+const NEW_EXAM = "new";
+
+interface ExamDetailsCardProps {
+  courseId: string;
+  paperExamType: PaperExamType;
+  semester: string;
+  selectedExam: Exam | null;
+  draft: ExamDraft;
+  // Should be stable (a state setter): it also applies the initial exam once the list loads
+  onSelectExam: (exam: Exam | null) => void;
+  onDraftChange: (changes: Partial<ExamDraft>) => void;
+  // Exam to start from, e.g. when generating another paper from the exam details page
+  initialExamId?: string;
+}
+
+// Pick the exam a paper is generated for, or describe a new one; its details head the paper
+const ExamDetailsCard = ({
+  courseId,
+  paperExamType,
+  semester,
+  selectedExam,
+  draft,
+  onSelectExam,
+  onDraftChange,
+  initialExamId,
+}: ExamDetailsCardProps) => {
+  const [exams, setExams] = useState<Exam[]>([]);
+
+  useEffect(() => {
+    if (!courseId) return;
+
+    examsAPI.getCourseExams(courseId, paperExamType)
+      .then(response => {
+        const courseExams: Exam[] = response.data.filter((exam: Exam) => exam.semester === semester);
+        setExams(courseExams);
+        const initialExam = courseExams.find(exam => exam._id === initialExamId && !isExamLocked(exam.status));
+        if (initialExam) onSelectExam(initialExam);
+      })
+      .catch(error => {
+        console.error("Error loading exams:", error);
+        setExams([]);
+      });
+  }, [courseId, paperExamType, semester, initialExamId, onSelectExam]);
+
+  return (
+    <Card className="mb-6 shadow-xl bg-black/40 backdrop-blur-sm border-cyan-500/30">
+      <CardHeader>
+        <CardTitle className="text-white">Exam Details</CardTitle>
+        <CardDescription className="text-cyan-200">
+          Duration, date, instructions and max marks in the paper header come from the exam.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <Select
+          value={selectedExam?._id ?? NEW_EXAM}
+          onValueChange={(value) => onSelectExam(exams.find(exam => exam._id === value) ?? null)}
+        >
+          <SelectTrigger className="border-cyan-500/30 bg-black/50 text-white">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent className="bg-slate-800 text-white border-slate-700">
+            <SelectItem value={NEW_EXAM}>New exam</SelectItem>
+            {/* A finalized exam takes no new papers */}
+            {exams.map(exam => (
+              <SelectItem key={exam._id} value={exam._id} disabled={isExamLocked(exam.status)}>
+                {exam.title} ({EXAM_KIND_LABELS[exam.examType]}, {exam.paperCount ?? 0} papers)
+                {isExamLocked(exam.status) && ` - ${EXAM_STATUS_LABELS[exam.status]}, locked`}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+
+        {selectedExam ? (
+          <p className="text-sm text-cyan-100">
+            {formatExamHeader(selectedExam)}
+            {selectedExam.examDate ? ` • ${formatExamDate(selectedExam.examDate)}` : ""}
+            {` • ${EXAM_STATUS_LABELS[selectedExam.status]}`}
+          </p>
+        ) : (
+          <ExamFields draft={draft} onChange={onDraftChange} kinds={EXAM_KINDS[paperExamType]} />
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default ExamDetailsCard;
@@ -0,0 +1,92 @@
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { EXAM_KIND_LABELS, ExamDraft, ExamKind } from "@/lib/exams";
+
+interface ExamFieldsProps {
+  draft: ExamDraft;
+  onChange: (changes: Partial<ExamDraft>) => void;
+  // Kinds the exam may be; the kind of a saved exam is fixed
+  kinds?: ExamKind[];
+  disabled?: boolean;
+}
+
+// Title, kind, date, duration, max marks and instructions of an exam, as printed on its papers
+const ExamFields = ({ draft, onChange, kinds, disabled = false }: ExamFieldsProps) => (
+  <div className="space-y-4">
+    <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+      <div>
+        <label className="text-sm text-cyan-200">Exam Title</label>
+        <Input
+          value={draft.title}
+          disabled={disabled}
+          onChange={(e) => onChange({ title: e.target.value })}
+          className="bg-black/50 border-cyan-500/30 text-white"
+        />
+      </div>
+      <div>
+        <label className="text-sm text-cyan-200">Exam</label>
+        {kinds && kinds.length > 1 ? (
+          <Select value={draft.examType} disabled={disabled} onValueChange={(value) => onChange({ examType: value as ExamKind })}>
+            <SelectTrigger className="border-cyan-500/30 bg-black/50 text-white">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent className="bg-slate-800 text-white border-slate-700">
+              {kinds.map(kind => (
+                <SelectItem key={kind} value={kind}>{EXAM_KIND_LABELS[kind]}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        ) : (
+          <p className="mt-2 text-white">{EXAM_KIND_LABELS[draft.examType]}</p>
+        )}
+      </div>
+    </div>
+    <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+      <div>
+        <label className="text-sm text-cyan-200">Exam Date</label>
+        <Input
+          type="date"
+          value={draft.examDate}
+          disabled={disabled}
+          onChange={(e) => onChange({ examDate: e.target.value })}
+          className="bg-black/50 border-cyan-500/30 text-white"
+        />
+      </div>
+      <div>
+        <label className="text-sm text-cyan-200">Duration (minutes)</label>
+        <Input
+          type="number"
+          min="1"
+          value={draft.duration}
+          disabled={disabled}
+          onChange={(e) => onChange({ duration: parseInt(e.target.value) || 0 })}
+          className="bg-black/50 border-cyan-500/30 text-white"
+        />
+      </div>
+      <div>
+        <label className="text-sm text-cyan-200">Max. Marks</label>
+        <Input
+          type="number"
+          min="0"
+          value={draft.maxMarks}
+          disabled={disabled}
+          onChange={(e) => onChange({ maxMarks: parseInt(e.target.value) || 0 })}
+          className="bg-black/50 border-cyan-500/30 text-white"
+        />
+      </div>
+    </div>
+    <div>
+      <label className="text-sm text-cyan-200">Instructions (one per line)</label>
+      <Textarea
+        value={draft.instructions}
+        disabled={disabled}
+        onChange={(e) => onChange({ instructions: e.target.value })}
+        className="bg-black/50 border-cyan-500/30 text-white"
+        rows={3}
+      />
+    </div>
+  </div>
+);
+
+export default ExamFields;
@@ -0,0 +1,516 @@
+import { useEffect, useState } from "react";
+import { useLocation, useNavigate } from "react-router-dom";
+import axios from "axios";
+import { useAuth } from "@/contexts/AuthContext";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Input } from "@/components/ui/input";
+import { useToast } from "@/components/ui/use-toast";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { Badge } from "@/components/ui/badge";
+import { ArrowLeft, Database, Bot, Loader2, Settings } from "lucide-react";
+import { uploadAPI, coursesAPI, examPatternAPI, examsAPI } from "@/lib/api";
+import NetworkGridBackground from "@/components/NetworkGridBackground";
+import PatternQuestionConfig from "@/components/PatternQuestionConfig";
+import ExamDetailsCard from "@/components/ExamDetailsCard";
+import { Exam, ExamDraft, PaperExamType, newExamDraft } from "@/lib/exams";
+import { ExamPattern, QuestionConfig, buildQuestionConfigs, formatDuration, validateSectionMarks } from "@/lib/examPattern";
+
+interface ProcessedTopic {
+  unit: string;
+  topic_id: number;
+  topic: string;
+}
+
+interface Course {
+  _id: string;
+  name: string;
+  code: string;
+}
+
+const PAGE_TITLES: Record<PaperExamType, string> = {
+  CIE: "CIE Exam Configuration",
+  SEE: "Semester End Exam Configuration",
+};
+
+interface ExamSetupProps {
+  examType: PaperExamType;
+}
+
+// Setup page for a CIE or semester end paper: course, exam, pattern and per-question configuration
+const ExamSetup = ({ examType }: ExamSetupProps) => {
+  const { isAuthenticated } = useAuth();
+  const navigate = useNavigate();
+  const location = useLocation();
+  const { toast } = useToast();
+  
+  const [examConfig, setExamConfig] = useState<{
+    examType: string;
+    semester: string;
+    course: string;
+    courseId?: string;
+    hasQuestionBank?: boolean;
+    // Set when adding another paper to an existing exam
+    examId?: string;
+  } | null>(null);
+  
+  const [questionConfigs, setQuestionConfigs] = useState<QuestionConfig[]>([]);
+  const [patterns, setPatterns] = useState<ExamPattern[]>([]);
+  const [selectedPattern, setSelectedPattern] = useState<ExamPattern | null>(null);
+  const [numQuestions, setNumQuestions] = useState<number>(5);
+  const [availableTopics, setAvailableTopics] = useState<string[]>([]);
+  const [processedTopics, setProcessedTopics] = useState<ProcessedTopic[]>([]);
+  const [courses, setCourses] = useState<Course[]>([]);
+  const [selectedCourseId, setSelectedCourseId] = useState<string>("");
+  const [hasProcessedData, setHasProcessedData] = useState<boolean>(false);
+  const [isLoadingData, setIsLoadingData] = useState<boolean>(true);
+  const [selectedExam, setSelectedExam] = useState<Exam | null>(null);
+  const [examDraft, setExamDraft] = useState<ExamDraft>(newExamDraft(examType, null, "", ""));
+  const [isCreatingExam, setIsCreatingExam] = useState<boolean>(false);
+
+  useEffect(() => {
+    if (!isAuthenticated) {
+      navigate("/login");
+      return;
+    }
+    
+    const state = location.state as {
+      examType: string;
+      semester: string;
+      course: string;
+      courseId?: string;
+      hasQuestionBank?: boolean;
+      examId?: string;
+    } | null;
+    
+    if (!state) {
+      toast({
+        title: "Error",
+        description: "No exam configuration provided",
+        variant: "destructive",
+      });
+      navigate("/dashboard");
+      return;
+    }
+    
+    setExamConfig(state);
+    setExamDraft(newExamDraft(examType, null, state.course, state.semester));
+    
+    // Load data
+    loadInitialData(state);
+  }, [examType, isAuthenticated, location.state, navigate, toast]);
+
+  const loadInitialData = async (state: any) => {
+    try {
+      setIsLoadingData(true);
+      
+      // Load the exam patterns and start from the first (built-in) one
+      const patternsResponse = await examPatternAPI.getPatterns(examType);
+      setPatterns(patternsResponse.data);
+      if (patternsResponse.data.length > 0) {
+        applyPattern(patternsResponse.data[0]);
+      }
+      
+      // Then fetch courses
+      const coursesResponse = await coursesAPI.getAllCourses();
+      setCourses(coursesResponse.data);
+      
+      // Find the course ID
+      let courseId = state.courseId;
+      if (!courseId && state.course) {
+        const course = coursesResponse.data.find((c: Course) => c.code === state.course);
+        courseId = course?._id;
+      }
+      
+      if (courseId) {
+        setSelectedCourseId(courseId);
+        
+        // Load processed data for this course
+        await loadProcessedData(courseId);
+      } else {
+        console.log("No course ID found");
+        setHasProcessedData(false);
+        setDefaultTopics();
+      }
+    } catch (error) {
+      console.error("Error loading initial data:", error);
+      setHasProcessedData(false);
+      setDefaultTopics();
+    } finally {
+      setIsLoadingData(false);
+    }
+  };
+
+  const loadProcessedData = async (courseId: string) => {
+    try {
+      console.log("Loading processed data for course:", courseId);
+      
+      const response = await uploadAPI.getProcessedData(courseId);
+      
+      if (response.data && response.data.questions.length > 0) {
+        console.log("Processed data found:", response.data);
+        
+        setHasProcessedData(true);
+        setProcessedTopics(response.data.topics || []);
+        
+        // Extract unique topics from processed data
+        const topics = response.data.topics ? response.data.topics.map((t: ProcessedTopic) => t.topic) : [];
+        console.log("Extracted topics:", topics);
+        
+        setAvailableTopics(topics);
+        
+        toast({
+          title: "Processed data loaded",
+          description: `Found ${response.data.questions.length} questions and ${topics.length} topics`,
+        });
+      } else {
+        console.log("No processed data found");
+        setHasProcessedData(false);
+        setDefaultTopics();
+      }
+    } catch (error) {
+      console.error("Error loading processed data:", error);
+      setHasProcessedData(false);
+      setDefaultTopics();
+    }
+  };
+
+  const setDefaultTopics = () => {
+    const defaultTopics = [
+      "Introduction to Operating Systems",
+      "Process Management",
+      "Memory Management", 
+      "File Systems",
+      "I/O Systems",
+      "Virtualization",
+      "Distributed Systems",
+      "Security and Protection"
+    ];
+    console.log("Setting default topics:", defaultTopics);
+    setAvailableTopics(defaultTopics);
+  };
+
+  const applyPattern = (pattern: ExamPattern) => {
+    setSelectedPattern(pattern);
+    setQuestionConfigs(buildQuestionConfigs(pattern));
+    // A new exam takes the pattern's duration, marks and instructions until they are edited
+    setExamDraft(prev => ({
+      ...prev,
+      duration: pattern.duration,
+      maxMarks: pattern.totalMarks,
+      instructions: pattern.instructions.join("\n"),
+    }));
+  };
+
+  const handlePatternChange = (patternId: string) => {
+    const pattern = patterns.find(p => p._id === patternId);
+    if (pattern) {
+      applyPattern(pattern);
+    }
+  };
+
+  const handleConfigChange = (questionId: string, changes: Partial<QuestionConfig>) => {
+    setQuestionConfigs(prevConfigs => 
+      prevConfigs.map(config => 
+        config.questionId === questionId ? { ...config, ...changes } : config
+      )
+    );
+  };
+
+  // The exam the paper is generated for: the selected one, or a new exam from the form
+  const resolveExam = async (): Promise<Exam | null> => {
+    if (selectedExam) return selectedExam;
+
+    if (!examDraft.title.trim()) {
+      toast({
+        title: "Missing exam title",
+        description: "Please give the exam a title",
+        variant: "destructive",
+      });
+      return null;
+    }
+
+    setIsCreatingExam(true);
+    try {
+      const response = await examsAPI.createExam({
+        ...examDraft,
+        examDate: examDraft.examDate || undefined,
+        courseId: selectedCourseId,
+        semester: examConfig!.semester,
+        patternId: selectedPattern?._id,
+      });
+      setSelectedExam(response.data);
+      return response.data;
+    } catch (error) {
+      const data = axios.isAxiosError(error) ? error.response?.data : undefined;
+      toast({
+        title: "Exam not created",
+        description: data?.errors?.[0]?.msg || data?.message || "Failed to create the exam",
+        variant: "destructive",
+      });
+      return null;
+    } finally {
+      setIsCreatingExam(false);
+    }
+  };
+
+  const handleSubmit = async () => {
+    if (!selectedPattern) {
+      toast({
+        title: "Missing exam pattern",
+        description: "Please select an exam pattern",
+        variant: "destructive",
+      });
+      return;
+    }
+    
+    const marksError = validateSectionMarks(selectedPattern, questionConfigs);
+    if (marksError) {
+      toast({
+        title: "Invalid marks distribution",
+        description: marksError,
+        variant: "destructive",
+      });
+      return;
+    }
+    
+    const activeQuestions = questionConfigs.filter(q => q.included);
+    const missingTopics = activeQuestions.some(q => !q.topic);
+    
+    if (missingTopics) {
+      toast({
+        title: "Missing topic selection",
+        description: "Please select a topic for each active question",
+        variant: "destructive",
+      });
+      return;
+    }
+    
+    const exam = await resolveExam();
+    if (!exam) return;
+    
+    navigate("/generate-questions", {
+      state: {
+        examConfig: {
+          ...examConfig,
+          courseId: selectedCourseId
+        },
+        exam,
+        pattern: selectedPattern,
+        questionConfigs,
+        numQuestions,
+        useQuestionBank: hasProcessedData
+      }
+    });
+  };
+
+  const goBack = () => {
+    navigate("/exam-type-selection", { 
+      state: examConfig?.hasQuestionBank ? { 
+        preSelectedCourse: examConfig.course,
+        hasQuestionBank: true 
+      } : undefined 
+    });
+  };
+
+  if (!examConfig) {
+    return (
+      <NetworkGridBackground>
+        <div className="flex items-center justify-center min-h-screen">
+          <div className="text-white">Loading...</div>
+        </div>
+      </NetworkGridBackground>
+    );
+  }
+
+  if (isLoadingData) {
+    return (
+      <NetworkGridBackground>
+        <div className="flex items-center justify-center min-h-screen">
+          <div className="bg-black/40 backdrop-blur-sm p-8 rounded-lg border border-cyan-500/30">
+            <Loader2 className="w-8 h-8 animate-spin text-cyan-400 mx-auto" />
+            <span className="mt-4 block text-white text-center">Loading exam data...</span>
+          </div>
+        </div>
+      </NetworkGridBackground>
+    );
+  }
+
+  console.log("Available topics in render:", availableTopics);
+
+  return (
+    <NetworkGridBackground>
+      <div className="min-h-screen">
+        <header className="bg-black/40 backdrop-blur-sm border-b border-cyan-500/20 shadow-sm">
+          <div className="max-w-7xl mx-auto py-4 px-4 sm:px-6 lg:px-8 flex items-center">
+            <Button variant="ghost" size="sm" onClick={goBack} className="mr-4 text-cyan-100 hover:bg-cyan-900/30 hover:text-white">
+              <ArrowLeft className="h-4 w-4 mr-2" />
+              Back
+            </Button>
+            <h1 className="text-2xl font-bold text-white">{PAGE_TITLES[examType]}</h1>
+          </div>
+        </header>
+        
+        <main className="max-w-7xl mx-auto py-6 sm:px-6 lg:px-8">
+          <div className="px-4 py-6 sm:px-0">
+            <Card className="mb-6 shadow-xl bg-black/40 backdrop-blur-sm border-cyan-500/30">
+              <CardHeader>
+                <CardTitle className="text-white">Exam Information</CardTitle>
+              </CardHeader>
+              <CardContent>
+                <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                  <div>
+                    <p className="text-sm font-medium text-cyan-300">Exam Type</p>
+                    <p className="mt-1 text-white">{examConfig.examType === "CIE" ? "CIE" : "Semester End"}</p>
+                  </div>
+                  <div>
+                    <p className="text-sm font-medium text-cyan-300">Semester</p>
+                    <p className="mt-1 text-white">{examConfig.semester}</p>
+                  </div>
+                  <div>
+                    <p className="text-sm font-medium text-cyan-300">Course</p>
+                    <p className="mt-1 text-white">{examConfig.course}</p>
+                  </div>
+                </div>
+                
+                <div className="mt-4 p-3 rounded-md border">
+                  <div className="flex items-center justify-between">
+                    <div className="flex items-center space-x-2">
+                      {hasProcessedData ? (
+                        <>
+                          <Database className="h-5 w-5 text-green-400" />
+                          <Badge variant="default" className="bg-green-600">Processed Data Available</Badge>
+                        </>
+                      ) : (
+                        <>
+                          <Bot className="h-5 w-5 text-blue-400" />
+                          <Badge variant="secondary">AI Generation Mode</Badge>
+                        </>
+                      )}
+                    </div>
+                    <p className="text-sm text-cyan-200">
+                      {hasProcessedData 
+                        ? `${availableTopics.length} topics from your question bank`
+                        : "Questions will be generated using AI with default topics"
+                      }
+                    </p>
+                  </div>
+                  
+                  {hasProcessedData && (
+                    <Alert className="mt-3 bg-green-900/20 border-green-500/30">
+                      <AlertDescription className="text-green-100">
+                        <strong>Smart Generation:</strong> Questions will be intelligently selected from your uploaded question bank based on difficulty, marks, and topics.
+                      </AlertDescription>
+                    </Alert>
+                  )}
+                </div>
+
+                {/* Debug Information - Remove in production */}
+                <div className="mt-4 p-3 bg-yellow-900/20 border border-yellow-500/30 rounded-md">
+                  <p className="text-yellow-100 text-sm">
+                    <strong>Debug Info:</strong> Available topics count: {availableTopics.length}
+                    <br />
+                    Topics: {availableTopics.join(", ")}
+                  </p>
+                </div>
+              </CardContent>
+            </Card>
+            
+            {selectedCourseId && (
+              <ExamDetailsCard
+                courseId={selectedCourseId}
+                paperExamType={examType}
+                semester={examConfig.semester}
+                selectedExam={selectedExam}
+                draft={examDraft}
+                onSelectExam={setSelectedExam}
+                onDraftChange={(changes) => setExamDraft(prev => ({ ...prev, ...changes }))}
+                initialExamId={examConfig.examId}
+              />
+            )}
+            
+            <Card className="mb-6 shadow-xl bg-black/40 backdrop-blur-sm border-cyan-500/30">
+              <CardHeader>
+                <CardTitle className="flex justify-between items-center text-white">
+                  <span>Exam Pattern</span>
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => navigate("/exam-patterns")}
+                    className="text-cyan-100 hover:bg-cyan-900/30 hover:text-white border-cyan-500/30"
+                  >
+                    <Settings className="h-4 w-4 mr-2" />
+                    Manage Patterns
+                  </Button>
+                </CardTitle>
+              </CardHeader>
+              <CardContent>
+                <Select value={selectedPattern?._id} onValueChange={handlePatternChange}>
+                  <SelectTrigger className="border-cyan-500/30 bg-black/50 text-white">
+                    <SelectValue placeholder="Select an exam pattern" />
+                  </SelectTrigger>
+                  <SelectContent className="bg-slate-800 text-white border-slate-700">
+                    {patterns.map(pattern => (
+                      <SelectItem key={pattern._id} value={pattern._id}>
+                        {pattern.name}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                {selectedPattern && (
+                  <p className="mt-2 text-sm text-cyan-200">
+                    {selectedPattern.sections.length} sections • {selectedPattern.totalMarks} marks • {formatDuration(selectedPattern.duration)}
+                  </p>
+                )}
+              </CardContent>
+            </Card>
+            
+            {selectedPattern && (
+              <PatternQuestionConfig
+                pattern={selectedPattern}
+                questionConfigs={questionConfigs}
+                topics={availableTopics}
+                onChange={handleConfigChange}
+              />
+            )}
+            
+            <Card className="mb-6 shadow-xl bg-black/40 backdrop-blur-sm border-cyan-500/30">
+              <CardHeader>
+                <CardTitle className="text-white">Generation Settings</CardTitle>
+              </CardHeader>
+              <CardContent>
+                <div className="space-y-2">
+                  <label className="text-sm font-medium text-cyan-200">Number of questions to generate per section</label>
+                  <Input 
+                    type="number" 
+                    min="1" 
+                    max="20"
+                    value={numQuestions} 
+                    onChange={(e) => setNumQuestions(parseInt(e.target.value) || 1)}
+                    className="bg-black/50 border-cyan-500/30 text-white"
+                  />
+                  <p className="text-sm text-cyan-200/70">
+                    {hasProcessedData 
+                      ? `AI will select the best ${numQuestions} questions from your question bank for each section`
+                      : `AI will generate ${numQuestions} question options for each section`
+                    }
+                  </p>
+                </div>
+              </CardContent>
+            </Card>
+            
+            <div className="flex justify-end mt-6">
+              <Button onClick={handleSubmit} disabled={isCreatingExam} className="bg-cyan-600 hover:bg-cyan-500">
+                {isCreatingExam && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+                Generate Question Paper
+              </Button>
+            </div>
+          </div>
+        </main>
+      </div>
+    </NetworkGridBackground>
+  );
+};
+
+export default ExamSetup;
\ No newline at end of file
@@ -0,0 +1,86 @@
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Plus, X } from "lucide-react";
+import { MAX_CHOICES, QuestionOption, QuestionType, optionLetter } from "@/lib/questionTypes";
+
+interface OptionsEditorProps {
+  type: QuestionType;
+  options: QuestionOption[];
+  onChange: (options: QuestionOption[]) => void;
+}
+
+// Edits the options of an objective question; exactly one option is marked correct
+const OptionsEditor = ({ type, options, onChange }: OptionsEditorProps) => {
+  const markCorrect = (correctIdx: number) =>
+    onChange(options.map((option, idx) => ({ ...option, isCorrect: idx === correctIdx })));
+
+  if (type === 'TRUE_FALSE') {
+    return (
+      <div className="flex items-center gap-2">
+        <span className="text-sm text-cyan-200">Answer</span>
+        {options.map((option, idx) => (
+          <Button
+            key={option.text}
+            type="button"
+            size="sm"
+            variant="outline"
+            onClick={() => markCorrect(idx)}
+            className={option.isCorrect
+              ? "bg-cyan-600 hover:bg-cyan-500 text-white border-cyan-500"
+              : "text-cyan-100 hover:bg-cyan-900/30 hover:text-white border-cyan-500/30"}
+          >
+            {option.text}
+          </Button>
+        ))}
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-2">
+      {options.map((option, idx) => (
+        <div key={idx} className="flex items-center gap-2">
+          <span className="w-6 font-semibold text-white">{optionLetter(idx)}</span>
+          <Input
+            value={option.text}
+            placeholder={`Option ${optionLetter(idx)}`}
+            onChange={(e) => onChange(options.map((current, currentIdx) =>
+              currentIdx === idx ? { ...current, text: e.target.value } : current))}
+            className="bg-black/40 border-cyan-500/30 text-white"
+          />
+          <Checkbox
+            id={`option-correct-${idx}`}
+            checked={option.isCorrect}
+            onCheckedChange={() => markCorrect(idx)}
+            className="border-white/50 data-[state=checked]:bg-green-600 data-[state=checked]:border-green-600"
+          />
+          <label htmlFor={`option-correct-${idx}`} className="text-xs text-cyan-200 cursor-pointer">Correct</label>
+          <Button
+            type="button"
+            variant="ghost"
+            size="sm"
+            onClick={() => onChange(options.filter((_, currentIdx) => currentIdx !== idx))}
+            className="text-red-300 hover:text-red-100"
+          >
+            <X className="h-4 w-4" />
+          </Button>
+        </div>
+      ))}
+      {options.length < MAX_CHOICES && (
+        <Button
+          type="button"
+          variant="outline"
+          size="sm"
+          onClick={() => onChange([...options, { text: "", isCorrect: false }])}
+          className="text-cyan-100 hover:bg-cyan-900/30 hover:text-white border-cyan-500/30"
+        >
+          <Plus className="h-4 w-4 mr-1" />
+          Add Option
+        </Button>
+      )}
+    </div>
+  );
+};
+
+export default OptionsEditor;
@@ -0,0 +1,198 @@
+import { useCallback, useEffect, useState } from "react";
+import axios from "axios";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { useToast } from "@/components/ui/use-toast";
+import { BarChart3, Download, FileSpreadsheet, Loader2 } from "lucide-react";
+import { questionPaperAPI } from "@/lib/api";
+import { PaperAnalysis, formatLevel, getAnalysisFilename } from "@/lib/paperAnalysis";
+import { formatShare } from "@/lib/paperSets";
+import { saveBlob } from "@/lib/questionBank";
+
+interface PaperAnalysisReportProps {
+  paperId: string;
+}
+
+// Bloom levels, unit coverage and PO attainment of a saved paper, downloadable for audits
+const PaperAnalysisReport = ({ paperId }: PaperAnalysisReportProps) => {
+  const { toast } = useToast();
+  const [analysis, setAnalysis] = useState<PaperAnalysis | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [exportingFormat, setExportingFormat] = useState<"pdf" | "xlsx" | null>(null);
+
+  const loadAnalysis = useCallback(async () => {
+    try {
+      const response = await questionPaperAPI.getAnalysis(paperId);
+      setAnalysis(response.data);
+    } catch (error) {
+      console.error("Error loading paper analysis:", error);
+      setAnalysis(null);
+    } finally {
+      setIsLoading(false);
+    }
+  }, [paperId]);
+
+  useEffect(() => {
+    loadAnalysis();
+  }, [loadAnalysis]);
+
+  // The server renders both files
+  const handleDownload = async (format: "pdf" | "xlsx") => {
+    if (!analysis) return;
+
+    setExportingFormat(format);
+    try {
+      const response = format === "pdf"
+        ? await questionPaperAPI.downloadAnalysisPdf(paperId)
+        : await questionPaperAPI.downloadAnalysisXlsx(paperId);
+      saveBlob(response.data, getAnalysisFilename(analysis, format));
+    } catch (error) {
+      const data = axios.isAxiosError(error) ? error.response?.data : undefined;
+      toast({
+        title: "Download failed",
+        description: data?.message || "Failed to download the analysis report.",
+        variant: "destructive",
+      });
+    } finally {
+      setExportingFormat(null);
+    }
+  };
+
+  return (
+    <Card className="bg-black/40 backdrop-blur-sm border-cyan-400/30 shadow-lg">
+      <CardHeader>
+        <CardTitle className="text-white flex items-center justify-between">
+          <span className="flex items-center">
+            <BarChart3 className="h-5 w-5 mr-2 text-cyan-400" />
+            Paper Analysis
+          </span>
+          {analysis && (
+            <div className="flex gap-2">
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => handleDownload("pdf")}
+                disabled={exportingFormat !== null}
+                className="text-cyan-100 hover:bg-cyan-900/30 hover:text-white border-cyan-500/30"
+              >
+                {exportingFormat === "pdf" ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Download className="h-4 w-4 mr-2" />}
+                PDF
+              </Button>
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => handleDownload("xlsx")}
+                disabled={exportingFormat !== null}
+                className="text-cyan-100 hover:bg-cyan-900/30 hover:text-white border-cyan-500/30"
+              >
+                {exportingFormat === "xlsx" ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <FileSpreadsheet className="h-4 w-4 mr-2" />}
+                XLSX
+              </Button>
+            </div>
+          )}
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {isLoading ? (
+          <Loader2 className="h-6 w-6 animate-spin text-cyan-400" />
+        ) : !analysis ? (
+          <p className="text-sm text-cyan-300/70">The analysis of this paper could not be loaded.</p>
+        ) : (
+          <>
+            <div>
+              <h3 className="text-sm font-medium text-cyan-200 mb-3">Bloom-level Distribution</h3>
+              <div className="space-y-2">
+                {analysis.bloom.map(row => (
+                  <div key={row.level || "none"} className="flex items-center gap-3 text-sm">
+                    <span className="w-14 text-white">{row.level || "Not set"}</span>
+                    <div className="flex-1 h-3 rounded bg-cyan-900/30">
+                      <div className="h-3 rounded bg-cyan-500" style={{ width: formatShare(row.share) }} />
+                    </div>
+                    <span className="w-24 text-right text-cyan-100">{row.marks} marks • {formatShare(row.share)}</span>
+                  </div>
+                ))}
+              </div>
+            </div>
+
+            <div>
+              <h3 className="text-sm font-medium text-cyan-200 mb-3">
+                Unit Coverage ({analysis.unitCoverage.covered} of {analysis.unitCoverage.total} syllabus units)
+              </h3>
+              <Table>
+                <TableHeader>
+                  <TableRow className="border-cyan-500/20 hover:bg-transparent">
+                    <TableHead className="text-cyan-200">Unit</TableHead>
+                    <TableHead className="text-cyan-200 w-24">Questions</TableHead>
+                    <TableHead className="text-cyan-200 w-20">Marks</TableHead>
+                    <TableHead className="text-cyan-200 w-20">Share</TableHead>
+                    <TableHead className="text-cyan-200 w-32">Topics Covered</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {analysis.units.map(row => (
+                    <TableRow key={row.unit || "none"} className="border-cyan-500/20">
+                      <TableCell className="font-semibold text-white">{row.unit || "No unit"}</TableCell>
+                      <TableCell className="text-white">{row.questionCount}</TableCell>
+                      <TableCell className={row.marks === 0 ? "text-yellow-300" : "text-white"}>{row.marks}</TableCell>
+                      <TableCell className="text-white">{formatShare(row.share)}</TableCell>
+                      <TableCell className="text-cyan-100">
+                        {row.syllabusTopics ? `${row.coveredTopics} of ${row.syllabusTopics}` : "-"}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+
+            {analysis.programOutcomes.length > 0 && (
+              <div>
+                <h3 className="text-sm font-medium text-cyan-200 mb-3">PO Attainment Potential</h3>
+                <Table>
+                  <TableHeader>
+                    <TableRow className="border-cyan-500/20 hover:bg-transparent">
+                      <TableHead className="text-cyan-200 w-20">PO</TableHead>
+                      <TableHead className="text-cyan-200">Program Outcome</TableHead>
+                      <TableHead className="text-cyan-200 w-20">Marks</TableHead>
+                      <TableHead className="text-cyan-200 w-20">Level</TableHead>
+                      <TableHead className="text-cyan-200 w-24">Potential</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {analysis.programOutcomes.map(row => (
+                      <TableRow key={row.code} className="border-cyan-500/20">
+                        <TableCell className="font-semibold text-white">{row.code}</TableCell>
+                        <TableCell className="text-cyan-100">{row.statement}</TableCell>
+                        <TableCell className="text-white">{row.marks}</TableCell>
+                        <TableCell className="text-white">{formatLevel(row.level)}</TableCell>
+                        <TableCell className="text-white">{formatShare(row.potential)}</TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+                <p className="text-xs text-cyan-300/70 mt-2">
+                  Potential is the marks on a PO's correlated COs weighted by correlation level, out of the whole paper at level 3.
+                </p>
+              </div>
+            )}
+
+            {analysis.warnings.length > 0 && (
+              <Alert className="bg-yellow-900/20 border-yellow-500/30">
+                <AlertDescription className="text-yellow-100">
+                  <ul className="list-disc list-inside space-y-1 text-sm">
+                    {analysis.warnings.map((warning, idx) => (
+                      <li key={idx}>{warning}</li>
+                    ))}
+                  </ul>
+                </AlertDescription>
+              </Alert>
+            )}
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default PaperAnalysisReport;
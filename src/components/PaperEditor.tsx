@@ -0,0 +1,162 @@
+import { useState } from "react";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { GripVertical } from "lucide-react";
+import { ExamPattern, getSectionGroups } from "@/lib/examPattern";
+import {
+  GeneratedQuestion,
+  getPaperMaxMarks,
+  getQuestionLabel,
+  getQuestionsTotal,
+  getSectionQuestions,
+  moveQuestion,
+} from "@/lib/questionPaper";
+import { isObjective } from "@/lib/questionTypes";
+import OptionsEditor from "@/components/OptionsEditor";
+
+interface PaperEditorProps {
+  pattern: ExamPattern;
+  questions: GeneratedQuestion[];
+  onChange: (questions: GeneratedQuestion[]) => void;
+}
+
+// Structured editor for a generated paper; the text and PDF are always rendered from what is edited here
+const PaperEditor = ({ pattern, questions, onChange }: PaperEditorProps) => {
+  const [draggedId, setDraggedId] = useState<string | null>(null);
+  const isAlternatives = pattern.choiceRule.mode === 'ALTERNATIVES';
+  const maxMarks = getPaperMaxMarks(pattern, questions);
+
+  const updateQuestion = (questionId: string, changes: Partial<GeneratedQuestion>) => {
+    onChange(questions.map(question =>
+      question.questionId === questionId ? { ...question, ...changes } : question
+    ));
+  };
+
+  const handleDrop = (targetSection: number, beforeQuestionId?: string) => {
+    if (!draggedId) return;
+    onChange(moveQuestion(pattern, questions, draggedId, targetSection, beforeQuestionId));
+    setDraggedId(null);
+  };
+
+  const renderSection = (sectionIdx: number) => {
+    const section = pattern.sections[sectionIdx];
+    const sectionNumber = sectionIdx + 1;
+    const sectionTotal = getQuestionsTotal(questions, sectionNumber);
+
+    return (
+      <div
+        key={sectionNumber}
+        onDragOver={(e) => e.preventDefault()}
+        onDrop={() => handleDrop(sectionNumber)}
+        className="border border-cyan-500/30 p-4 rounded-md bg-black/20"
+      >
+        <div className="flex items-center justify-between mb-3">
+          <h3 className="text-lg font-medium text-cyan-100">{section.title}</h3>
+          <Badge
+            variant="outline"
+            className={sectionTotal === section.marks ? "text-green-300 border-green-500/40" : "text-red-300 border-red-500/40"}
+          >
+            {sectionTotal} / {section.marks} marks
+          </Badge>
+        </div>
+
+        <div className="space-y-3">
+          {getSectionQuestions(questions, sectionNumber).map((question) => (
+            <div
+              key={question.questionId}
+              draggable
+              onDragStart={() => setDraggedId(question.questionId)}
+              onDragEnd={() => setDraggedId(null)}
+              onDragOver={(e) => e.preventDefault()}
+              onDrop={(e) => {
+                e.stopPropagation();
+                handleDrop(sectionNumber, question.questionId);
+              }}
+              className={`flex items-start gap-3 p-3 rounded-md border bg-black/30 ${
+                draggedId === question.questionId ? "border-cyan-400 opacity-50" : "border-cyan-500/20"
+              }`}
+            >
+              <GripVertical className="h-5 w-5 mt-2 text-cyan-400/70 cursor-grab shrink-0" />
+              <span className="mt-2 w-10 font-semibold text-white shrink-0">{getQuestionLabel(question)}.</span>
+
+              <div className="flex-1 space-y-2">
+                <Textarea
+                  value={question.text}
+                  onChange={(e) => updateQuestion(question.questionId, { text: e.target.value })}
+                  className="min-h-[60px] text-sm bg-black/40 border-cyan-500/30 text-white"
+                />
+                {isObjective(question.type) && (
+                  <OptionsEditor
+                    type={question.type!}
+                    options={question.options || []}
+                    onChange={(options) => updateQuestion(question.questionId, { options })}
+                  />
+                )}
+              </div>
+
+              <div className="w-40 space-y-2 shrink-0">
+                <div className="flex items-center gap-2">
+                  <Input
+                    type="number"
+                    min="0"
+                    value={question.marks}
+                    onChange={(e) => updateQuestion(question.questionId, { marks: parseInt(e.target.value) || 0 })}
+                    className="bg-black/50 border-cyan-500/30 text-white"
+                  />
+                  <span className="text-sm text-cyan-200">marks</span>
+                </div>
+                <Select
+                  value={String(question.section)}
+                  onValueChange={(value) => onChange(moveQuestion(pattern, questions, question.questionId, parseInt(value)))}
+                >
+                  <SelectTrigger className="h-8 border-cyan-500/30 bg-black/50 text-white text-xs">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent className="bg-slate-800 text-white border-slate-700">
+                    {pattern.sections.map((target, idx) => (
+                      <SelectItem key={idx} value={String(idx + 1)}>
+                        Move to {target.title}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+          ))}
+
+          {getSectionQuestions(questions, sectionNumber).length === 0 && (
+            <p className="text-sm text-cyan-200/60 text-center py-4">Drop a question here</p>
+          )}
+        </div>
+      </div>
+    );
+  };
+
+  return (
+    <div className="space-y-6 max-h-[60vh] overflow-y-auto pr-1">
+      <div className="flex justify-end">
+        <Badge
+          variant="outline"
+          className={maxMarks === pattern.totalMarks ? "text-green-300 border-green-500/40" : "text-red-300 border-red-500/40"}
+        >
+          Max marks {maxMarks} / {pattern.totalMarks}
+        </Badge>
+      </div>
+
+      {isAlternatives
+        ? getSectionGroups(pattern).map((group, groupIdx) => (
+          <div key={groupIdx} className="space-y-3">
+            <h3 className="font-semibold text-white">
+              {pattern.choiceRule.groupTitle || "Module"} {groupIdx + 1}
+            </h3>
+            {group.map(renderSection)}
+          </div>
+        ))
+        : pattern.sections.map((_, idx) => renderSection(idx))}
+    </div>
+  );
+};
+
+export default PaperEditor;
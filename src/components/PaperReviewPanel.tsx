@@ -0,0 +1,193 @@
+import { useState } from "react";
+import axios from "axios";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Textarea } from "@/components/ui/textarea";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useToast } from "@/components/ui/use-toast";
+import { ClipboardCheck, Loader2, MessageSquare } from "lucide-react";
+import { questionPaperAPI } from "@/lib/api";
+import { GeneratedQuestion, getQuestionLabel } from "@/lib/questionPaper";
+import {
+  PAPER_STATUS_LABELS,
+  PaperStatus,
+  ReviewedQuestionPaper,
+  TRANSITION_LABELS,
+} from "@/lib/paperReview";
+
+interface PaperReviewPanelProps {
+  paper: ReviewedQuestionPaper;
+  questions: GeneratedQuestion[];
+  onChange: (paper: ReviewedQuestionPaper) => void;
+}
+
+const WHOLE_PAPER = "paper";
+
+// Workflow actions, the comment thread and the status history of a saved paper
+const PaperReviewPanel = ({ paper, questions, onChange }: PaperReviewPanelProps) => {
+  const { toast } = useToast();
+  const [note, setNote] = useState("");
+  const [commentText, setCommentText] = useState("");
+  const [commentTarget, setCommentTarget] = useState(WHOLE_PAPER);
+  const [pendingStatus, setPendingStatus] = useState<PaperStatus | null>(null);
+  const [isCommenting, setIsCommenting] = useState(false);
+
+  const labelFor = (questionId: string) => {
+    const question = questions.find(q => q.questionId === questionId);
+    return question ? `Q${getQuestionLabel(question)}` : `Q${questionId.toUpperCase()}`;
+  };
+
+  const handleTransition = async (status: PaperStatus) => {
+    setPendingStatus(status);
+    try {
+      const response = await questionPaperAPI.changeStatus(paper._id, status, note);
+      onChange(response.data.questionPaper);
+      setNote("");
+      toast({
+        title: PAPER_STATUS_LABELS[status],
+        description: response.data.message,
+      });
+    } catch (error) {
+      const data = axios.isAxiosError(error) ? error.response?.data : undefined;
+      toast({
+        title: "Status change failed",
+        description: data?.message || "Failed to change the paper's status.",
+        variant: "destructive",
+      });
+    } finally {
+      setPendingStatus(null);
+    }
+  };
+
+  const handleComment = async () => {
+    if (!commentText.trim()) return;
+
+    setIsCommenting(true);
+    try {
+      const response = await questionPaperAPI.addComment(paper._id, {
+        text: commentText,
+        questionId: commentTarget === WHOLE_PAPER ? undefined : commentTarget,
+      });
+      onChange(response.data.questionPaper);
+      setCommentText("");
+    } catch (error) {
+      const data = axios.isAxiosError(error) ? error.response?.data : undefined;
+      toast({
+        title: "Comment failed",
+        description: data?.errors?.[0]?.msg || data?.message || "Failed to add the comment.",
+        variant: "destructive",
+      });
+    } finally {
+      setIsCommenting(false);
+    }
+  };
+
+  return (
+    <Card className="bg-black/40 backdrop-blur-sm border-cyan-400/30 shadow-lg">
+      <CardHeader>
+        <CardTitle className="text-white flex items-center">
+          <ClipboardCheck className="h-5 w-5 mr-2 text-cyan-400" />
+          Review
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {paper.availableTransitions.length > 0 && (
+          <div className="space-y-3">
+            <Textarea
+              value={note}
+              onChange={(e) => setNote(e.target.value)}
+              placeholder={paper.availableTransitions.includes('CHANGES_REQUESTED')
+                ? "Note for the educator (required when requesting changes)"
+                : "Note (optional)"}
+              className="min-h-[60px] text-sm bg-black/40 border-cyan-500/30 text-white"
+            />
+            <div className="flex flex-wrap gap-2">
+              {paper.availableTransitions.map((status) => (
+                <Button
+                  key={status}
+                  size="sm"
+                  onClick={() => handleTransition(status)}
+                  disabled={pendingStatus !== null}
+                  className={status === 'CHANGES_REQUESTED' ? "bg-orange-600 hover:bg-orange-500" : "bg-cyan-600 hover:bg-cyan-500"}
+                >
+                  {pendingStatus === status && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+                  {TRANSITION_LABELS[status] || PAPER_STATUS_LABELS[status]}
+                </Button>
+              ))}
+            </div>
+          </div>
+        )}
+
+        <div className="space-y-3">
+          <h3 className="text-cyan-100 font-medium flex items-center">
+            <MessageSquare className="h-4 w-4 mr-2" />
+            Comments ({paper.reviewComments.length})
+          </h3>
+          {paper.reviewComments.map((comment) => (
+            <div key={comment._id} className="p-3 rounded-md bg-black/20 border border-cyan-500/20">
+              <div className="flex items-center gap-2 text-xs text-cyan-200 mb-1">
+                <span className="font-medium text-white">{comment.author?.name || "Unknown"}</span>
+                {comment.author?.role === 'admin' && <Badge variant="outline" className="text-cyan-200 border-cyan-500/40">Reviewer</Badge>}
+                <Badge variant="outline" className="text-white border-white/30">
+                  {comment.questionId ? labelFor(comment.questionId) : "Whole paper"}
+                </Badge>
+                <span>{new Date(comment.createdAt).toLocaleString()}</span>
+                {!!comment.revision && <span>• revision {comment.revision}</span>}
+              </div>
+              <p className="text-white text-sm whitespace-pre-wrap">{comment.text}</p>
+            </div>
+          ))}
+
+          <div className="flex items-start gap-2">
+            <Select value={commentTarget} onValueChange={setCommentTarget}>
+              <SelectTrigger className="w-40 border-cyan-500/30 bg-black/50 text-white">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent className="bg-slate-800 text-white border-slate-700">
+                <SelectItem value={WHOLE_PAPER}>Whole paper</SelectItem>
+                {questions.map((question) => (
+                  <SelectItem key={question.questionId} value={question.questionId}>
+                    Q{getQuestionLabel(question)}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Textarea
+              value={commentText}
+              onChange={(e) => setCommentText(e.target.value)}
+              placeholder="Add a comment"
+              className="min-h-[40px] text-sm bg-black/40 border-cyan-500/30 text-white"
+            />
+            <Button
+              size="sm"
+              onClick={handleComment}
+              disabled={isCommenting || !commentText.trim()}
+              className="bg-cyan-600 hover:bg-cyan-500"
+            >
+              {isCommenting ? <Loader2 className="h-4 w-4 animate-spin" /> : "Comment"}
+            </Button>
+          </div>
+        </div>
+
+        {paper.statusHistory.length > 0 && (
+          <div className="space-y-2">
+            <h3 className="text-cyan-100 font-medium">History</h3>
+            {[...paper.statusHistory].reverse().map((change) => (
+              <div key={change._id} className="text-sm border-l-2 border-cyan-500/40 pl-3">
+                <p className="text-white">
+                  {PAPER_STATUS_LABELS[change.from]} → {PAPER_STATUS_LABELS[change.to]}
+                  <span className="text-cyan-200"> by {change.by?.name || "Unknown"}</span>
+                </p>
+                <p className="text-xs text-cyan-200">{new Date(change.at).toLocaleString()}</p>
+                {change.note && <p className="text-cyan-100 italic">{change.note}</p>}
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default PaperReviewPanel;
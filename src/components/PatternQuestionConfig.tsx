@@ -0,0 +1,188 @@
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Input } from "@/components/ui/input";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Badge } from "@/components/ui/badge";
+import TopicSelector from "@/components/TopicSelector";
+import {
+  ExamPattern,
+  QuestionConfig,
+  getSectionConfigs,
+  getSectionGroups,
+  getSectionTotal,
+} from "@/lib/examPattern";
+import { QUESTION_TYPE_LABELS, QuestionType, isObjective } from "@/lib/questionTypes";
+
+interface PatternQuestionConfigProps {
+  pattern: ExamPattern;
+  questionConfigs: QuestionConfig[];
+  topics: string[];
+  onChange: (questionId: string, changes: Partial<QuestionConfig>) => void;
+}
+
+// Renders the per-part configuration (type, topic, difficulty, marks) for every section of a pattern
+const PatternQuestionConfig = ({ pattern, questionConfigs, topics, onChange }: PatternQuestionConfigProps) => {
+  const isAlternatives = pattern.choiceRule.mode === 'ALTERNATIVES';
+
+  const renderSection = (sectionIdx: number) => {
+    const section = pattern.sections[sectionIdx];
+    const sectionNumber = sectionIdx + 1;
+    const sectionTotal = getSectionTotal(questionConfigs, sectionNumber);
+
+    return (
+      <div key={sectionNumber} className="border border-cyan-500/30 p-4 rounded-md bg-black/20">
+        <div className="flex items-center justify-between mb-3">
+          <h3 className="text-lg font-medium text-cyan-100">{section.title}</h3>
+          <Badge
+            variant="outline"
+            className={sectionTotal === section.marks ? "text-green-300 border-green-500/40" : "text-red-300 border-red-500/40"}
+          >
+            {sectionTotal} / {section.marks} marks
+          </Badge>
+        </div>
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+          {getSectionConfigs(questionConfigs, sectionNumber).map((question) => (
+            <div key={question.questionId} className="border border-cyan-500/20 p-3 rounded-md bg-black/30">
+              <p className="font-medium mb-2 text-white">
+                {isAlternatives ? `Part ${question.questionId.slice(String(sectionNumber).length).toUpperCase()}` : `Question ${question.questionId.toUpperCase()}`}
+              </p>
+
+              <div className="space-y-3">
+                <div>
+                  <label className="text-sm text-cyan-200">Question Type</label>
+                  <Select
+                    value={question.questionType}
+                    onValueChange={(questionType) => onChange(question.questionId, {
+                      questionType: questionType as QuestionType,
+                      negativeMarks: isObjective(questionType as QuestionType) ? question.negativeMarks : undefined,
+                    })}
+                  >
+                    <SelectTrigger className="border-cyan-500/30 bg-black/50 text-white">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent className="bg-slate-800 text-white border-slate-700">
+                      {(Object.keys(QUESTION_TYPE_LABELS) as QuestionType[]).map(type => (
+                        <SelectItem key={type} value={type}>{QUESTION_TYPE_LABELS[type]}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+
+                <div>
+                  <label className="text-sm text-cyan-200">Topic</label>
+                  <TopicSelector
+                    topics={topics}
+                    selectedTopic={question.topic}
+                    onChange={(topic) => onChange(question.questionId, { topic })}
+                    placeholder={topics.length > 0 ? "Select topic for this question" : "No topics available"}
+                  />
+                </div>
+
+                <div>
+                  <label className="text-sm text-cyan-200">Difficulty Level</label>
+                  <Select
+                    value={question.level}
+                    onValueChange={(level) => onChange(question.questionId, { level })}
+                  >
+                    <SelectTrigger className="border-cyan-500/30 bg-black/50 text-white">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent className="bg-slate-800 text-white border-slate-700">
+                      <SelectItem value="easy">Easy</SelectItem>
+                      <SelectItem value="medium">Medium</SelectItem>
+                      <SelectItem value="hard">Hard</SelectItem>
+                    </SelectContent>
+                  </Select>
+                </div>
+
+                <div>
+                  <label className="text-sm text-cyan-200">Marks</label>
+                  <Input
+                    type="number"
+                    min="1"
+                    max={section.marks}
+                    value={question.marks}
+                    onChange={(e) => onChange(question.questionId, { marks: parseInt(e.target.value) || 0 })}
+                    className="bg-black/50 border-cyan-500/30 text-white"
+                  />
+                </div>
+
+                {isObjective(question.questionType) && (
+                  <div>
+                    <label className="text-sm text-cyan-200">Negative Marks per Wrong Answer</label>
+                    <Input
+                      type="number"
+                      min="0"
+                      step="0.25"
+                      value={question.negativeMarks ?? 0}
+                      onChange={(e) => onChange(question.questionId, { negativeMarks: Math.max(0, parseFloat(e.target.value) || 0) })}
+                      className="bg-black/50 border-cyan-500/30 text-white"
+                    />
+                  </div>
+                )}
+
+                {question.optional && (
+                  <div className="flex items-center space-x-2">
+                    <Checkbox
+                      id={`include-${question.questionId}`}
+                      checked={question.included}
+                      onCheckedChange={(checked) => onChange(question.questionId, { included: checked as boolean })}
+                      className="border-white/50 data-[state=checked]:bg-cyan-600 data-[state=checked]:border-cyan-600"
+                    />
+                    <label
+                      htmlFor={`include-${question.questionId}`}
+                      className="text-sm cursor-pointer text-cyan-100"
+                    >
+                      Include {question.questionId.toUpperCase()}
+                    </label>
+                  </div>
+                )}
+              </div>
+            </div>
+          ))}
+        </div>
+      </div>
+    );
+  };
+
+  if (isAlternatives) {
+    const groupTitle = pattern.choiceRule.groupTitle || "Module";
+
+    return (
+      <div className="space-y-6">
+        {getSectionGroups(pattern).map((group, groupIdx) => {
+          const co = pattern.sections[group[0]].co;
+          return (
+            <Card key={groupIdx} className="mb-6 shadow-xl bg-black/40 backdrop-blur-sm border-cyan-500/30">
+              <CardHeader>
+                <CardTitle className="text-white">
+                  {groupTitle} {groupIdx + 1}{co ? ` (CO${co})` : ""}
+                </CardTitle>
+              </CardHeader>
+              <CardContent>
+                <div className="space-y-6">
+                  {group.map(renderSection)}
+                </div>
+              </CardContent>
+            </Card>
+          );
+        })}
+      </div>
+    );
+  }
+
+  return (
+    <Card className="mb-6 shadow-xl bg-black/40 backdrop-blur-sm border-cyan-500/30">
+      <CardHeader>
+        <CardTitle className="text-white">Question Configuration</CardTitle>
+      </CardHeader>
+      <CardContent>
+        <div className="space-y-6">
+          {pattern.sections.map((_, idx) => renderSection(idx))}
+        </div>
+      </CardContent>
+    </Card>
+  );
+};
+
+export default PatternQuestionConfig;
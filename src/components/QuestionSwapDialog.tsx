@@ -0,0 +1,193 @@
+import { useEffect, useState } from "react";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { useToast } from "@/components/ui/use-toast";
+import { Bot, Loader2 } from "lucide-react";
+import { questionAPI } from "@/lib/api";
+import { QuestionConfig } from "@/lib/examPattern";
+import { CoolOff, GeneratedQuestion, QuestionAlternative, getQuestionLabel } from "@/lib/questionPaper";
+import { formatOptions } from "@/lib/questionTypes";
+
+interface QuestionSwapDialogProps {
+  question: GeneratedQuestion | null;
+  config: QuestionConfig | null;
+  courseId: string;
+  examType: string;
+  patternId?: string;
+  // Bank questions already on the paper, so the same one is never offered twice
+  usedIds: string[];
+  coolOff: CoolOff;
+  // Only offer bank questions an educator has verified
+  verifiedOnly?: boolean;
+  // Seed the paper's MCQ options were shuffled with, so a replacement is shuffled the same way
+  optionSeed?: string;
+  onClose: () => void;
+  onSelect: (question: GeneratedQuestion) => void;
+}
+
+// Lists ranked bank alternatives for one slot, plus a freshly generated option
+const QuestionSwapDialog = ({
+  question,
+  config,
+  courseId,
+  examType,
+  patternId,
+  usedIds,
+  coolOff,
+  verifiedOnly = false,
+  optionSeed,
+  onClose,
+  onSelect,
+}: QuestionSwapDialogProps) => {
+  const { toast } = useToast();
+  const [alternatives, setAlternatives] = useState<QuestionAlternative[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [isGenerating, setIsGenerating] = useState(false);
+
+  useEffect(() => {
+    if (!config) return;
+
+    const loadAlternatives = async () => {
+      setIsLoading(true);
+      setAlternatives([]);
+      try {
+        const response = await questionAPI.getAlternatives({
+          courseId,
+          examType,
+          patternId,
+          config,
+          excludeIds: usedIds,
+          coolOff,
+          verifiedOnly,
+          optionSeed,
+        });
+        setAlternatives(response.data.candidates);
+      } catch (error) {
+        console.error("Error loading alternatives:", error);
+        toast({
+          title: "Could not load alternatives",
+          description: "Failed to fetch alternative questions from the question bank.",
+          variant: "destructive",
+        });
+      } finally {
+        setIsLoading(false);
+      }
+    };
+
+    loadAlternatives();
+  }, [config, courseId, examType, patternId, usedIds, coolOff, verifiedOnly, optionSeed, toast]);
+
+  const handleUseAlternative = (alternative: QuestionAlternative) => {
+    const { relaxed, score, ...picked } = alternative;
+    onSelect(picked);
+  };
+
+  const handleGenerateAlternative = async () => {
+    if (!config) return;
+
+    setIsGenerating(true);
+    try {
+      const response = await questionAPI.regenerateQuestion({ courseId, examType, patternId, config, optionSeed });
+      onSelect(response.data.question);
+    } catch (error) {
+      console.error("Error generating alternative:", error);
+      toast({
+        title: "Generation failed",
+        description: "Failed to generate an alternative question. Please try again.",
+        variant: "destructive",
+      });
+    } finally {
+      setIsGenerating(false);
+    }
+  };
+
+  return (
+    <Dialog open={!!question} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="max-w-3xl bg-slate-900 border-cyan-500/30 text-white">
+        <DialogHeader>
+          <DialogTitle>Swap Question {question ? getQuestionLabel(question) : ""}</DialogTitle>
+          <DialogDescription className="text-cyan-200">
+            Alternatives from your latest question bank with the same marks, difficulty and unit, best match first.
+          </DialogDescription>
+        </DialogHeader>
+
+        {question && (
+          <div className="p-3 rounded-md bg-black/30 border border-cyan-500/20 text-sm">
+            <p className="text-cyan-200 mb-1">Current</p>
+            <p>{question.text}</p>
+          </div>
+        )}
+
+        <div className="space-y-3 max-h-[50vh] overflow-y-auto">
+          {isLoading && (
+            <div className="flex items-center justify-center py-8 text-cyan-200">
+              <Loader2 className="h-5 w-5 mr-2 animate-spin" />
+              Finding alternatives...
+            </div>
+          )}
+
+          {!isLoading && alternatives.length === 0 && (
+            <p className="text-center py-6 text-cyan-200/70">
+              No unused question in the bank fits this slot.
+            </p>
+          )}
+
+          {alternatives.map((alternative) => (
+            <div
+              key={alternative.originalId}
+              className="p-3 rounded-md bg-black/30 border border-cyan-500/20 hover:border-cyan-400/60"
+            >
+              <p className="mb-2">{alternative.text}</p>
+              {formatOptions(alternative.options).map((option, idx) => (
+                <p key={idx} className="text-sm text-cyan-100 ml-4">{option}</p>
+              ))}
+              <div className="flex flex-wrap items-center gap-2">
+                <Badge variant="outline" className="text-white border-white/30">
+                  Similarity {Math.round((alternative.similarity || 0) * 100)}%
+                </Badge>
+                <Badge variant="outline" className="text-white border-white/30">
+                  {alternative.bloomLevel}
+                </Badge>
+                <Badge variant="outline" className="text-white border-white/30">
+                  {alternative.unit}
+                </Badge>
+                {alternative.recentlyUsed && (
+                  <Badge variant="outline" className="text-yellow-300 border-yellow-500/40">
+                    Used in {alternative.reuseCount} recent paper{alternative.reuseCount === 1 ? "" : "s"}
+                  </Badge>
+                )}
+                {alternative.relaxed.filter((constraint) => constraint !== "reuse").map((constraint) => (
+                  <Badge key={constraint} variant="outline" className="text-yellow-300 border-yellow-500/40">
+                    {constraint} relaxed
+                  </Badge>
+                ))}
+                <Button
+                  size="sm"
+                  onClick={() => handleUseAlternative(alternative)}
+                  className="ml-auto bg-cyan-600 hover:bg-cyan-500"
+                >
+                  Use this
+                </Button>
+              </div>
+            </div>
+          ))}
+        </div>
+
+        <div className="flex justify-end">
+          <Button
+            variant="outline"
+            onClick={handleGenerateAlternative}
+            disabled={isGenerating}
+            className="text-cyan-100 hover:bg-cyan-900/30 hover:text-white border-cyan-500/30"
+          >
+            {isGenerating ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Bot className="h-4 w-4 mr-2" />}
+            AI Alternative
+          </Button>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default QuestionSwapDialog;
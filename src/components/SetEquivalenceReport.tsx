@@ -0,0 +1,94 @@
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Scale } from "lucide-react";
+import { BLOOM_LEVELS, DIFFICULTIES } from "@/lib/bankReview";
+import { SetEquivalence, formatShare } from "@/lib/paperSets";
+
+interface SetEquivalenceReportProps {
+  equivalence: SetEquivalence;
+}
+
+// How closely parallel sets match in marks, difficulty, Bloom levels and unit coverage
+const SetEquivalenceReport = ({ equivalence }: SetEquivalenceReportProps) => {
+  const bloomLevels = BLOOM_LEVELS.filter(level => equivalence.sets.some(set => set.bloom[level]));
+
+  return (
+    <Card className="bg-black/20 border-cyan-500/20">
+      <CardHeader className="pb-2">
+        <CardTitle className="text-white flex items-center justify-between text-base">
+          <span className="flex items-center">
+            <Scale className="h-4 w-4 mr-2 text-cyan-400" />
+            Set Equivalence
+          </span>
+          <Badge className={equivalence.equivalent ? "bg-green-700 text-white" : "bg-yellow-700 text-white"}>
+            {equivalence.equivalent ? "Equivalent" : "Check the differences"}
+          </Badge>
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <Table>
+          <TableHeader>
+            <TableRow className="border-cyan-500/20 hover:bg-transparent">
+              <TableHead className="text-cyan-200 w-16">Set</TableHead>
+              <TableHead className="text-cyan-200 w-16">Marks</TableHead>
+              {DIFFICULTIES.map(difficulty => (
+                <TableHead key={difficulty} className="text-cyan-200 capitalize">{difficulty}</TableHead>
+              ))}
+              {bloomLevels.map(level => (
+                <TableHead key={level} className="text-cyan-200">{level}</TableHead>
+              ))}
+              <TableHead className="text-cyan-200">Units</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {equivalence.sets.map(set => (
+              <TableRow key={set.setLabel} className="border-cyan-500/20">
+                <TableCell className="font-semibold text-white">{set.setLabel}</TableCell>
+                <TableCell className="text-white">{set.totalMarks}</TableCell>
+                {DIFFICULTIES.map(difficulty => (
+                  <TableCell key={difficulty} className="text-cyan-100">{formatShare(set.difficulty[difficulty])}</TableCell>
+                ))}
+                {bloomLevels.map(level => (
+                  <TableCell key={level} className="text-cyan-100">{formatShare(set.bloom[level])}</TableCell>
+                ))}
+                <TableCell className="text-cyan-100 text-xs">{set.units.join(", ") || "-"}</TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+
+        <div className="flex flex-wrap gap-2 text-sm">
+          {equivalence.pairs.map(pair => (
+            <Badge key={pair.sets.join("")} variant="outline" className="text-cyan-100 border-cyan-500/30">
+              {pair.sets.join(" vs ")}: difficulty {formatShare(pair.difficulty)}, Bloom {formatShare(pair.bloom)} apart
+            </Badge>
+          ))}
+        </div>
+        <p className="text-xs text-cyan-300/70">
+          Sets count as equivalent when no pair differs by more than {formatShare(equivalence.tolerance)} of marks.
+        </p>
+
+        {equivalence.warnings.length > 0 && (
+          <Alert className="bg-yellow-900/20 border-yellow-500/30">
+            <AlertDescription className="text-yellow-100">
+              <ul className="list-disc list-inside space-y-1 text-sm">
+                {equivalence.warnings.map((warning, idx) => (
+                  <li key={idx}>{warning}</li>
+                ))}
+                {equivalence.sharedQuestions.map((shared, idx) => (
+                  <li key={`shared-${idx}`}>
+                    {shared.questions.map(question => `Set ${question.replace(":", " Q").toUpperCase()}`).join(" and ")}: {shared.text}
+                  </li>
+                ))}
+              </ul>
+            </AlertDescription>
+          </Alert>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default SetEquivalenceReport;
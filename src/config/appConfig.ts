@@ -8,6 +8,12 @@ export const AUTH_CONFIG = {
   tokenExpiry: 7 * 24 * 60 * 60 * 1000, // 7 days in milliseconds
 };
 
+// Institution details printed on exported question papers
+export const INSTITUTION_CONFIG = {
+  name: import.meta.env.VITE_INSTITUTION_NAME || 'Institution Name',
+  affiliation: import.meta.env.VITE_INSTITUTION_AFFILIATION || '',
+};
+
 // Request timeout settings
 export const REQUEST_TIMEOUT = 30000; // 30 seconds
 
@@ -20,4 +26,10 @@ export const ROUTES = {
   CIE_EXAM: '/cie-exam-setup',
   SEMESTER_EXAM: '/semester-exam-setup',
   GENERATE_QUESTIONS: '/generate-questions',
+  EXAM_PATTERNS: '/exam-patterns',
+  QUESTION_PAPER: '/question-papers/:id',
+  REVIEW_QUEUE: '/review-queue',
+  PROCESSED_DATA_REVIEW: '/processed-data/:id/review',
+  BANK_VERSIONS: '/courses/:courseId/bank-versions',
+  QUESTION_BANK: '/courses/:courseId/question-bank',
 };
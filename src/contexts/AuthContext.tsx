@@ -9,6 +9,7 @@ interface Educator {
   department: string;
   semester: string;
   courses: string[];
+  role?: 'educator' | 'admin';
 }
 
 interface AuthContextType {
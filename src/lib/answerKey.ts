@@ -0,0 +1,39 @@
+// src/lib/answerKey.ts - Answer key (scheme of evaluation) attached to a saved question paper
+import { GeneratedQuestion } from "@/lib/questionPaper";
+
+export interface AnswerKeyPoint {
+  text: string;
+  marks: number;
+}
+
+export interface AnswerKeyEntry {
+  questionId: string;
+  // The question as it read when the entry was drafted or last saved
+  questionText?: string;
+  marks?: number;
+  keyPoints: AnswerKeyPoint[];
+  modelAnswer: string;
+  provider?: string;
+  edited?: boolean;
+}
+
+// Shape of /api/question-papers/:id/answer-key
+export interface AnswerKey {
+  _id: string;
+  paper: string;
+  entries: AnswerKeyEntry[];
+  locked: boolean;
+  lockedAt?: string;
+  updatedAt: string;
+}
+
+export const getKeyPointsTotal = (entry: AnswerKeyEntry) =>
+  entry.keyPoints.reduce((sum, point) => sum + (point.marks || 0), 0);
+
+// The paper was edited after this entry was written, so it may no longer answer the question
+export const isEntryStale = (entry: AnswerKeyEntry, question: GeneratedQuestion) =>
+  (entry.questionText !== undefined && entry.questionText !== question.text) ||
+  (entry.marks !== undefined && entry.marks !== question.marks);
+
+export const getAnswerKeyFilename = (paper: { examType: string; course: string; semester: string }, extension: string) =>
+  `${paper.examType}_${paper.course}_Semester${paper.semester}_AnswerKey.${extension}`;
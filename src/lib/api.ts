@@ -1,6 +1,22 @@
 // src/lib/api.ts - Enhanced API with question paper endpoints
 import axios from 'axios';
 import { API_BASE_URL, AUTH_CONFIG, REQUEST_TIMEOUT } from '@/config/appConfig';
+import type { ExamPattern, QuestionConfig } from '@/lib/examPattern';
+import type { CoolOff, GeneratedQuestion } from '@/lib/questionPaper';
+import type { AnswerKeyEntry } from '@/lib/answerKey';
+import type { SetLabel } from '@/lib/paperSets';
+import type { CourseOutcome } from '@/lib/courseOutcomes';
+import type { PoCorrelation, ProgramOutcome } from '@/lib/programOutcomes';
+import type { ExamKind, ExamStatus, PaperExamType } from '@/lib/exams';
+import type { BankQuestionChanges, BulkAction } from '@/lib/bankReview';
+import type { DepartmentBranding, InstitutionSettings } from '@/lib/branding';
+import type {
+  BankFileFormat,
+  ColumnMapping,
+  ImportDefaults,
+  QuestionBankDraft,
+  QuestionBankFilters,
+} from '@/lib/questionBank';
 
 // Create axios instance with configuration
 const api = axios.create({
@@ -69,17 +85,96 @@ export const authAPI = {
 // Courses API endpoints
 export const coursesAPI = {
   getAllCourses: () => api.get('/courses'),
+  
+  getOutcomes: (courseId: string) => api.get(`/courses/${courseId}/outcomes`),
+  
+  // Replaces the whole list, topic mapping included
+  updateOutcomes: (courseId: string, outcomes: CourseOutcome[]) =>
+    api.put(`/courses/${courseId}/outcomes`, { outcomes }),
+  
+  // The course's COs, its department's POs and the CO-PO correlations
+  getPoMapping: (courseId: string) => api.get(`/courses/${courseId}/po-mapping`),
+  
+  updatePoMapping: (courseId: string, mapping: PoCorrelation[]) =>
+    api.put(`/courses/${courseId}/po-mapping`, { mapping }),
+};
+
+// Departments API endpoints
+export const departmentsAPI = {
+  getProgramOutcomes: (department: string) =>
+    api.get(`/departments/${encodeURIComponent(department)}/program-outcomes`),
+  
+  updateProgramOutcomes: (department: string, programOutcomes: ProgramOutcome[]) =>
+    api.put(`/departments/${encodeURIComponent(department)}/program-outcomes`, { programOutcomes }),
+  
+  getBranding: (department: string) =>
+    api.get(`/departments/${encodeURIComponent(department)}/branding`),
+  
+  // Empty fields and a null registerNumber fall back to the institution's
+  updateBranding: (department: string, branding: DepartmentBranding) =>
+    api.put(`/departments/${encodeURIComponent(department)}/branding`, branding),
+};
+
+// Institution letterhead API endpoints
+export const institutionAPI = {
+  getSettings: () => api.get('/institution/settings'),
+  
+  updateSettings: (settings: Omit<InstitutionSettings, 'logo' | 'updatedAt' | 'canEdit'>) =>
+    api.put('/institution/settings', settings),
+  
+  uploadLogo: (file: File) => {
+    const formData = new FormData();
+    formData.append('logo', file);
+    return api.post('/institution/settings/logo', formData, {
+      headers: { 'Content-Type': 'multipart/form-data' },
+    });
+  },
+  
+  removeLogo: () => api.delete('/institution/settings/logo'),
+  
+  // Letterhead of a course's papers, or of the educator's own department without a course
+  getBranding: (courseId?: string) => api.get('/institution/branding', { params: { courseId } }),
 };
 
 // Exams API endpoints
 export const examsAPI = {
   createExam: (examData: {
-    examType: string;
+    examType: ExamKind;
     semester: string;
     courseId: string;
+    patternId?: string;
+    title?: string;
+    examDate?: string;
+    duration?: number;
+    maxMarks?: number;
+    instructions?: string;
   }) => api.post('/exams', examData),
   
   getEducatorExams: () => api.get('/exams'),
+  
+  // The exam with its papers and history
+  getExam: (examId: string) => api.get(`/exams/${examId}`),
+  
+  getCourseExams: (courseId: string, paperExamType?: PaperExamType) =>
+    api.get(`/exams/course/${courseId}`, { params: { paperExamType } }),
+  
+  // An empty examDate clears the date
+  updateExam: (examId: string, examData: {
+    title?: string;
+    examDate?: string;
+    duration?: number;
+    maxMarks?: number;
+    instructions?: string;
+  }) => api.put(`/exams/${examId}`, examData),
+  
+  updateExamStatus: (examId: string, status: ExamStatus, note?: string) =>
+    api.put(`/exams/${examId}/status`, { status, note }),
+  
+  // Reopen a finalized or published exam as a draft (admin)
+  unlockExam: (examId: string, reason: string) =>
+    api.post(`/exams/${examId}/unlock`, { reason }),
+  
+  deleteExam: (examId: string) => api.delete(`/exams/${examId}`),
 };
 
 // Upload API endpoints
@@ -101,6 +196,9 @@ export const uploadAPI = {
   
   getCourseHistory: (courseId: string) => 
     api.get(`/upload/course-history/${courseId}`),
+
+  retryProcessing: (processId: string) =>
+    api.post(`/upload/${processId}/retry`),
 };
 
 // Question Generation API endpoints
@@ -108,7 +206,16 @@ export const questionAPI = {
   generateQuestions: (config: {
     courseId: string;
     examType: string;
+    patternId?: string;
     questionConfigs: any[];
+    coolOff?: CoolOff;
+    verifiedOnly?: boolean;
+    // Marks weight per CO; every CO given a weight must be covered
+    targets?: { co?: Record<string, number> };
+    // Shuffles the options of multiple choice questions, the same way for the same seed
+    optionSeed?: string;
+    // 2 or 3 generates parallel sets with no shared questions
+    setCount?: number;
     useProcessedData: boolean;
   }) => api.post('/questions/generate', config),
   
@@ -121,14 +228,34 @@ export const questionAPI = {
   }) => api.post('/questions/filter', filters),
   
   getQuestionStats: (courseId: string) => api.get(`/questions/stats/${courseId}`),
+  
+  getAlternatives: (request: {
+    courseId: string;
+    examType: string;
+    patternId?: string;
+    config: QuestionConfig;
+    excludeIds?: string[];
+    coolOff?: CoolOff;
+    verifiedOnly?: boolean;
+    optionSeed?: string;
+    limit?: number;
+  }) => api.post('/questions/alternatives', request),
+  
+  regenerateQuestion: (request: {
+    courseId: string;
+    examType: string;
+    patternId?: string;
+    config: QuestionConfig;
+    optionSeed?: string;
+  }) => api.post('/questions/regenerate', request),
 };
 
 // Question Paper API endpoints (NEW)
 export const questionPaperAPI = {
+  // The paper takes its course, exam type and semester from the exam
   saveQuestionPaper: (paperData: {
-    courseId: string;
-    examType: string;
-    semester: string;
+    examId: string;
+    patternId?: string;
     title: string;
     content: string;
     questions: any[];
@@ -138,17 +265,176 @@ export const questionPaperAPI = {
     processedDataUsed?: string;
   }) => api.post('/question-papers', paperData),
   
+  // The sets of one generation run, saved as linked papers
+  saveQuestionPaperSets: (paperData: {
+    examId: string;
+    patternId?: string;
+    title: string;
+    processedDataUsed?: string;
+    sets: {
+      setLabel: SetLabel;
+      content: string;
+      questions: GeneratedQuestion[];
+      totalMarks: number;
+      totalQuestions: number;
+      generationSource: string;
+    }[];
+  }) => api.post('/question-papers/sets', paperData),
+  
+  // Saving an existing paper again stores a new revision
+  updateQuestionPaper: (paperId: string, paperData: {
+    title?: string;
+    patternId?: string;
+    content?: string;
+    questions?: GeneratedQuestion[];
+    totalMarks?: number;
+    totalQuestions?: number;
+    generationSource?: string;
+    note?: string;
+  }) => api.put(`/question-papers/${paperId}`, paperData),
+  
   getMyQuestionPapers: () => api.get('/question-papers'),
   
   getQuestionPaper: (paperId: string) => api.get(`/question-papers/${paperId}`),
   
+  getPaperSets: (paperId: string) => api.get(`/question-papers/${paperId}/sets`),
+  
   trackDownload: (paperId: string) => api.put(`/question-papers/${paperId}/download`),
   
+  // Word documents for the exam cell to edit before printing
+  downloadDocx: (paperId: string) =>
+    api.get(`/question-papers/${paperId}/docx`, { responseType: 'blob' }),
+  
+  downloadAnswerKeyDocx: (paperId: string) =>
+    api.get(`/question-papers/${paperId}/answer-key/docx`, { responseType: 'blob' }),
+  
+  exportPaper: (paperId: string, format: BankFileFormat) =>
+    api.get(`/question-papers/${paperId}/export`, { params: { format }, responseType: 'blob' }),
+  
+  getAnalysis: (paperId: string) => api.get(`/question-papers/${paperId}/analysis`),
+  
+  downloadAnalysisXlsx: (paperId: string) =>
+    api.get(`/question-papers/${paperId}/analysis`, { params: { format: 'xlsx' }, responseType: 'blob' }),
+  
+  downloadAnalysisPdf: (paperId: string) =>
+    api.get(`/question-papers/${paperId}/analysis`, { params: { format: 'pdf' }, responseType: 'blob' }),
+  
+  getRevisions: (paperId: string) => api.get(`/question-papers/${paperId}/revisions`),
+  
+  getRevision: (paperId: string, revision: number) =>
+    api.get(`/question-papers/${paperId}/revisions/${revision}`),
+  
+  restoreRevision: (paperId: string, revision: number) =>
+    api.post(`/question-papers/${paperId}/revisions/${revision}/restore`),
+  
+  getAnswerKey: (paperId: string) => api.get(`/question-papers/${paperId}/answer-key`),
+  
+  // Drafts every question without an entry, or redrafts the given questions
+  draftAnswerKey: (paperId: string, questionIds?: string[]) =>
+    api.post(`/question-papers/${paperId}/answer-key/draft`, { questionIds }),
+  
+  updateAnswerKey: (paperId: string, entries: AnswerKeyEntry[]) =>
+    api.put(`/question-papers/${paperId}/answer-key`, { entries }),
+  
   deleteQuestionPaper: (paperId: string) => api.delete(`/question-papers/${paperId}`),
   
   getCourseQuestionPapers: (courseId: string) => api.get(`/question-papers/course/${courseId}`),
   
+  getReuseHistory: (courseId: string) => api.get(`/question-papers/reuse/${courseId}`),
+  
+  changeStatus: (paperId: string, status: string, note?: string) =>
+    api.post(`/question-papers/${paperId}/status`, { status, note }),
+  
+  addComment: (paperId: string, comment: { text: string; questionId?: string }) =>
+    api.post(`/question-papers/${paperId}/comments`, comment),
+  
+  getReviewQueue: (status?: string) => api.get('/question-papers/review/queue', { params: { status } }),
+  
   getQuestionPaperStats: () => api.get('/question-papers/stats'),
 };
 
+// Exam Pattern API endpoints
+export const examPatternAPI = {
+  getPatterns: (examType?: string) =>
+    api.get('/exam-patterns', { params: examType ? { examType } : undefined }),
+
+  getPattern: (patternId: string) => api.get(`/exam-patterns/${patternId}`),
+
+  createPattern: (pattern: Omit<ExamPattern, '_id' | 'isDefault'>) =>
+    api.post('/exam-patterns', pattern),
+
+  updatePattern: (patternId: string, pattern: Partial<ExamPattern>) =>
+    api.put(`/exam-patterns/${patternId}`, pattern),
+
+  deletePattern: (patternId: string) => api.delete(`/exam-patterns/${patternId}`),
+};
+
+// Processed question bank review endpoints
+export const processedDataAPI = {
+  getProcessedData: (processId: string) => api.get(`/processed-data/${processId}`),
+
+  updateQuestion: (processId: string, questionId: number, changes: BankQuestionChanges) =>
+    api.put(`/processed-data/${processId}/questions/${questionId}`, changes),
+
+  bulkAction: (processId: string, action: BulkAction, questionIds: number[]) =>
+    api.post(`/processed-data/${processId}/questions/bulk`, { action, questionIds }),
+
+  mergeQuestions: (processId: string, questionIds: number[]) =>
+    api.post(`/processed-data/${processId}/questions/merge`, { questionIds }),
+
+  splitQuestion: (processId: string, questionId: number, parts: string[]) =>
+    api.post(`/processed-data/${processId}/questions/${questionId}/split`, { parts }),
+
+  getVersions: (courseId: string) => api.get(`/processed-data/course/${courseId}/versions`),
+
+  // Re-activating an older version rolls the course back to it
+  activateVersion: (processId: string) => api.post(`/processed-data/${processId}/activate`),
+
+  compareVersions: (from: string, to: string) =>
+    api.get('/processed-data/compare', { params: { from, to } }),
+};
+
+// Question bank endpoints
+export const bankQuestionAPI = {
+  getQuestions: (courseId: string, filters: QuestionBankFilters = {}) =>
+    api.get(`/bank-questions/course/${courseId}`, { params: filters }),
+
+  getQuestion: (id: string) => api.get(`/bank-questions/${id}`),
+
+  createQuestion: (courseId: string, question: QuestionBankDraft) =>
+    api.post('/bank-questions', { ...question, courseId }),
+
+  updateQuestion: (id: string, changes: Partial<QuestionBankDraft>) =>
+    api.put(`/bank-questions/${id}`, changes),
+
+  deleteQuestion: (id: string) => api.delete(`/bank-questions/${id}`),
+
+  // Questions without a CO take the one their topic is mapped to
+  tagOutcomes: (courseId: string) => api.post(`/bank-questions/course/${courseId}/tag-outcomes`),
+
+  // dryRun only validates the file and returns the per-row report
+  importQuestions: (
+    courseId: string,
+    file: File,
+    options: { mapping?: ColumnMapping; defaults?: ImportDefaults; dryRun?: boolean } = {}
+  ) => {
+    const formData = new FormData();
+    formData.append('file', file);
+    formData.append('mapping', JSON.stringify(options.mapping || {}));
+    formData.append('defaults', JSON.stringify(options.defaults || {}));
+    formData.append('dryRun', String(!!options.dryRun));
+    return fileUploadApi.post(`/bank-questions/course/${courseId}/import`, formData, {
+      headers: {
+        'Content-Type': 'multipart/form-data',
+      },
+    });
+  },
+
+  exportQuestions: (courseId: string, format: BankFileFormat, filters: QuestionBankFilters = {}) =>
+    api.get(`/bank-questions/course/${courseId}/export`, {
+      params: { ...filters, format },
+      responseType: 'blob',
+    }),
+};
+
 export default api;
\ No newline at end of file
@@ -0,0 +1,102 @@
+import { DifficultyLevel } from "./examPattern";
+
+// One processed question bank row, as returned by the document processor and corrected on review
+export interface BankQuestion {
+  _id: string;
+  question_id: number;
+  question: string;
+  predicted_marks: number;
+  bloom_level: string;
+  difficulty: string;
+  matched_topic: string;
+  matched_unit: string;
+  topic_similarity: number;
+  verified?: boolean;
+  verifiedAt?: string;
+  edited?: boolean;
+}
+
+export interface BankTopic {
+  _id: string;
+  unit: string;
+  topic_id: number;
+  topic: string;
+}
+
+export interface BankReviewSummary {
+  total: number;
+  verified: number;
+  edited: number;
+  lowSimilarity: number;
+}
+
+export interface ReviewedProcessedData {
+  _id: string;
+  course: { _id: string; name: string; code: string };
+  version: number;
+  isActive: boolean;
+  uploadedAt: string;
+  processedAt?: string;
+  originalFileNames: { questionBank: string; syllabus: string };
+  questions: BankQuestion[];
+  topics: BankTopic[];
+  similarityThreshold: number;
+  summary: BankReviewSummary;
+}
+
+export type BankQuestionChanges = Partial<Pick<
+  BankQuestion,
+  'question' | 'predicted_marks' | 'bloom_level' | 'difficulty' | 'matched_topic' | 'matched_unit' | 'verified'
+>>;
+
+export type BulkAction = 'verify' | 'unverify' | 'delete';
+
+export type BankSortKey =
+  | 'question_id'
+  | 'question'
+  | 'predicted_marks'
+  | 'bloom_level'
+  | 'difficulty'
+  | 'matched_unit'
+  | 'topic_similarity'
+  | 'verified';
+
+export type SortDirection = 'asc' | 'desc';
+
+export const BLOOM_LEVELS = ['L1', 'L2', 'L3', 'L4', 'L5', 'L6'];
+export const DIFFICULTIES: DifficultyLevel[] = ['easy', 'medium', 'hard'];
+
+const DIFFICULTY_ORDER: Record<string, number> = { easy: 0, medium: 1, hard: 2 };
+
+const sortValue = (question: BankQuestion, key: BankSortKey): number | string => {
+  switch (key) {
+    case 'difficulty':
+      return DIFFICULTY_ORDER[question.difficulty] ?? 3;
+    case 'matched_unit':
+      // "Unit 10" sorts after "Unit 9"
+      return parseInt(question.matched_unit.replace(/\D/g, ''), 10) || 0;
+    case 'verified':
+      return question.verified ? 1 : 0;
+    case 'question':
+      return question.question.toLowerCase();
+    default:
+      return question[key];
+  }
+};
+
+export const sortBankQuestions = (questions: BankQuestion[], key: BankSortKey, direction: SortDirection) => {
+  const factor = direction === 'asc' ? 1 : -1;
+  return [...questions].sort((a, b) => {
+    const left = sortValue(a, key);
+    const right = sortValue(b, key);
+    if (left === right) return a.question_id - b.question_id;
+    return (left < right ? -1 : 1) * factor;
+  });
+};
+
+export const isLowSimilarity = (question: BankQuestion, threshold: number) =>
+  question.topic_similarity < threshold;
+
+export const getTopicUnits = (topics: BankTopic[]) =>
+  Array.from(new Set(topics.map(topic => topic.unit))).sort((a, b) =>
+    (parseInt(a.replace(/\D/g, ''), 10) || 0) - (parseInt(b.replace(/\D/g, ''), 10) || 0));
@@ -0,0 +1,72 @@
+export type UploadMode = 'replace' | 'merge';
+
+export interface BankVersion {
+  _id: string;
+  version: number;
+  isActive: boolean;
+  activatedAt?: string;
+  processingStatus: 'PENDING' | 'PROCESSING' | 'COMPLETED' | 'FAILED';
+  uploadMode?: UploadMode;
+  mergedFrom?: { _id: string; version: number } | string;
+  questionsCount: number;
+  topicsCount: number;
+  verifiedCount: number;
+  originalFileNames: { questionBank: string; syllabus: string };
+  uploadedAt: string;
+  processedAt?: string;
+}
+
+export interface FieldChange {
+  field: string;
+  from: string | number;
+  to: string | number;
+}
+
+export interface VersionQuestion {
+  question_id: number;
+  question: string;
+  predicted_marks: number;
+  bloom_level: string;
+  difficulty: string;
+  matched_topic: string;
+  matched_unit: string;
+  changes?: FieldChange[];
+}
+
+export interface VersionTopic {
+  topic_id: number;
+  unit: string;
+  topic: string;
+  changes?: FieldChange[];
+}
+
+export interface ItemDiff<T> {
+  added: T[];
+  removed: T[];
+  reclassified: T[];
+  unchanged: number;
+}
+
+export interface VersionDiff {
+  from: BankVersion;
+  to: BankVersion;
+  questions: ItemDiff<VersionQuestion>;
+  topics: ItemDiff<VersionTopic>;
+}
+
+export const UPLOAD_MODE_LABELS: Record<UploadMode, string> = {
+  replace: "Replace the active question bank",
+  merge: "Merge into the active question bank",
+};
+
+export const FIELD_LABELS: Record<string, string> = {
+  predicted_marks: "Marks",
+  bloom_level: "Bloom",
+  difficulty: "Difficulty",
+  matched_topic: "Topic",
+  matched_unit: "Unit",
+  unit: "Unit",
+};
+
+export const getMergedFromVersion = (version: BankVersion) =>
+  typeof version.mergedFrom === 'object' ? version.mergedFrom.version : undefined;
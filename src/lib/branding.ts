@@ -0,0 +1,58 @@
+// src/lib/branding.ts - Institution letterhead printed on rendered papers and a department's overrides
+import { INSTITUTION_CONFIG } from "@/config/appConfig";
+
+export interface RegisterNumberBox {
+  enabled: boolean;
+  digits: number;
+}
+
+// Letterhead as printed on a paper, from /api/institution/branding and with saved papers
+export interface Branding {
+  name: string;
+  affiliation: string;
+  address: string;
+  departmentLine: string;
+  // PNG or JPEG data URL; empty when there is no logo
+  logo: string;
+  footerText: string;
+  registerNumber: RegisterNumberBox;
+  department?: string;
+}
+
+// Shape of /api/institution/settings
+export interface InstitutionSettings extends Omit<Branding, 'department'> {
+  updatedAt?: string;
+  canEdit: boolean;
+}
+
+// Fields a department overrides; empty ones use the institution's
+export interface DepartmentBranding {
+  affiliation?: string;
+  address?: string;
+  departmentLine?: string;
+  footerText?: string;
+  registerNumber?: Partial<RegisterNumberBox> | null;
+}
+
+export const REGISTER_NUMBER_DIGITS = { min: 4, max: 20 };
+
+// Used while the letterhead loads, and for papers rendered without one
+export const DEFAULT_BRANDING: Branding = {
+  name: INSTITUTION_CONFIG.name,
+  affiliation: INSTITUTION_CONFIG.affiliation,
+  address: "",
+  departmentLine: "",
+  logo: "",
+  footerText: "",
+  registerNumber: { enabled: true, digits: 10 },
+};
+
+// Name, affiliation, address and department line, top to bottom, skipping empty ones
+export const getLetterheadLines = (branding: Branding) =>
+  [branding.affiliation, branding.address, branding.departmentLine].filter(Boolean);
+
+// Mirrors the server's paperHeader.js, which labels the Word paper's register number boxes
+export const REGISTER_NUMBER_LABEL = "USN";
+
+// jsPDF image format of a logo data URL
+export const getLogoFormat = (logo: string) => (logo.startsWith("data:image/png") ? "PNG" : "JPEG");
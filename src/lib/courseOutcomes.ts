@@ -0,0 +1,59 @@
+// src/lib/courseOutcomes.ts - Course outcomes (COs), the topic-to-CO mapping and CO-wise marks
+import type { GeneratedQuestion } from "@/lib/questionPaper";
+
+export interface CourseOutcome {
+  code: string;
+  statement: string;
+  // Syllabus topics this CO covers; a topic belongs to one CO at most
+  topics: string[];
+}
+
+// One row of a paper's CO-wise marks table; code is empty for questions without a CO
+export interface CoMarksRow {
+  code: string;
+  statement?: string;
+  questionCount: number;
+  marks: number;
+  share: number;
+}
+
+// Papers and patterns keep the CO as a number
+export const coCode = (co: number) => `CO${co}`;
+
+export const coNumber = (code: string) => {
+  const match = code.trim().toUpperCase().match(/^(?:CO\s*-?\s*)?(\d+)$/);
+  return match ? parseInt(match[1], 10) : undefined;
+};
+
+// Code for the next outcome added to a list, e.g. CO4 after CO1-CO3
+export const nextOutcomeCode = (outcomes: CourseOutcome[]) =>
+  coCode(Math.max(0, ...outcomes.map(outcome => coNumber(outcome.code) ?? 0)) + 1);
+
+// The CO a topic is mapped to, if any
+export const getTopicOutcome = (outcomes: CourseOutcome[], topic: string) => {
+  const key = topic.trim().toLowerCase();
+  return outcomes.find(outcome => outcome.topics.some(mapped => mapped.trim().toLowerCase() === key))?.code;
+};
+
+// Marks each CO carries on a paper, every defined CO included even at zero marks
+export const getCoMarks = (questions: GeneratedQuestion[], outcomes: CourseOutcome[] = []): CoMarksRow[] => {
+  const totals = new Map<string, { questionCount: number; marks: number }>(
+    outcomes.map(outcome => [outcome.code, { questionCount: 0, marks: 0 }])
+  );
+  for (const question of questions) {
+    const code = question.co ? coCode(question.co) : "";
+    const total = totals.get(code) ?? { questionCount: 0, marks: 0 };
+    totals.set(code, { questionCount: total.questionCount + 1, marks: total.marks + question.marks });
+  }
+
+  const allMarks = questions.reduce((sum, question) => sum + question.marks, 0);
+  return [...totals.entries()]
+    .map(([code, total]) => ({
+      code,
+      statement: outcomes.find(outcome => outcome.code === code)?.statement,
+      ...total,
+      share: allMarks > 0 ? total.marks / allMarks : 0,
+    }))
+    // Untagged questions last
+    .sort((a, b) => (coNumber(a.code) ?? Infinity) - (coNumber(b.code) ?? Infinity));
+};
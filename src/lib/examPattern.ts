@@ -0,0 +1,133 @@
+// src/lib/examPattern.ts - Exam pattern types and helpers shared by setup, generation and rendering
+import type { QuestionType } from "@/lib/questionTypes";
+
+export type DifficultyLevel = 'easy' | 'medium' | 'hard';
+
+export interface PatternPart {
+  label: string;
+  marks: number;
+  optional: boolean;
+  defaultLevel: DifficultyLevel;
+}
+
+export interface PatternSection {
+  title: string;
+  unit?: string;
+  co?: number;
+  marks: number;
+  parts: PatternPart[];
+  questionType?: QuestionType;
+  // Deducted per wrong answer in objective sections
+  negativeMarks?: number;
+}
+
+export interface ChoiceRule {
+  mode: 'ALL' | 'ANY' | 'ALTERNATIVES';
+  answerCount?: number;
+  groupSize?: number;
+  groupTitle?: string;
+}
+
+export interface ExamPattern {
+  _id: string;
+  name: string;
+  description?: string;
+  examType: 'CIE' | 'SEE';
+  sections: PatternSection[];
+  choiceRule: ChoiceRule;
+  totalMarks: number;
+  duration: number;
+  instructions: string[];
+  isDefault?: boolean;
+}
+
+export interface QuestionConfig {
+  questionId: string;
+  section: number; // 1-based index into pattern.sections
+  level: string;
+  marks: number;
+  included: boolean; // Optional parts can be switched off
+  optional: boolean;
+  co?: number;
+  topic: string;
+  // Initialised from the section so setup can mix an MCQ part into descriptive sections
+  questionType: QuestionType;
+  negativeMarks?: number;
+}
+
+// Create one config per part, e.g. 1a, 1b, 2a ... in pattern order
+export const buildQuestionConfigs = (pattern: ExamPattern): QuestionConfig[] =>
+  pattern.sections.flatMap((section, idx) =>
+    section.parts.map(part => ({
+      questionId: `${idx + 1}${part.label}`,
+      section: idx + 1,
+      level: part.defaultLevel,
+      marks: part.marks,
+      included: !part.optional,
+      optional: part.optional,
+      co: section.co,
+      topic: "",
+      questionType: section.questionType || 'DESCRIPTIVE',
+      negativeMarks: section.negativeMarks
+    }))
+  );
+
+export const getSectionConfigs = (configs: QuestionConfig[], section: number) =>
+  configs.filter(config => config.section === section);
+
+export const getSectionTotal = (configs: QuestionConfig[], section: number) =>
+  getSectionConfigs(configs, section)
+    .filter(config => config.included)
+    .reduce((sum, config) => sum + config.marks, 0);
+
+// Returns a message for the first section whose marks do not add up, or null
+export const validateSectionMarks = (pattern: ExamPattern, configs: QuestionConfig[]): string | null => {
+  for (const [idx, section] of pattern.sections.entries()) {
+    const total = getSectionTotal(configs, idx + 1);
+    if (total !== section.marks) {
+      return `${section.title} must have a total of ${section.marks} marks. Current total: ${total}`;
+    }
+  }
+  return null;
+};
+
+// Section indexes grouped the way they are printed; alternatives share a group
+export const getSectionGroups = (pattern: ExamPattern): number[][] => {
+  const groupSize = pattern.choiceRule.mode === 'ALTERNATIVES'
+    ? Math.max(pattern.choiceRule.groupSize || 1, 1)
+    : 1;
+  const groups: number[][] = [];
+
+  for (let idx = 0; idx < pattern.sections.length; idx += groupSize) {
+    groups.push(pattern.sections.slice(idx, idx + groupSize).map((_, offset) => idx + offset));
+  }
+
+  return groups;
+};
+
+// Marks a candidate can score under the pattern's choice rule
+export const computeMaxMarks = (pattern: ExamPattern): number => {
+  const { sections, choiceRule } = pattern;
+
+  if (choiceRule.mode === 'ANY') {
+    return [...sections]
+      .map(section => section.marks)
+      .sort((a, b) => b - a)
+      .slice(0, choiceRule.answerCount || sections.length)
+      .reduce((sum, marks) => sum + marks, 0);
+  }
+
+  if (choiceRule.mode === 'ALTERNATIVES') {
+    return getSectionGroups(pattern)
+      .reduce((sum, group) => sum + Math.max(...group.map(idx => sections[idx].marks)), 0);
+  }
+
+  return sections.reduce((sum, section) => sum + section.marks, 0);
+};
+
+// Mirrors the server's paperHeader.js, which prints the Word paper's duration
+export const formatDuration = (minutes: number) => {
+  const hours = minutes / 60;
+  if (minutes < 60) return `${minutes} Minutes`;
+  return `${Number.isInteger(hours) ? hours : hours.toFixed(1)} ${hours === 1 ? "Hour" : "Hours"}`;
+};
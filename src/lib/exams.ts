@@ -0,0 +1,175 @@
+// src/lib/exams.ts - Exams, the papers set for them and the header details they give those papers
+import { ExamPattern, formatDuration } from "@/lib/examPattern";
+import type { PaperStatus } from "@/lib/paperReview";
+import type { SetLabel } from "@/lib/paperSets";
+
+export type ExamKind = 'CIE1' | 'CIE2' | 'SEMESTER_END';
+
+export type ExamStatus = 'DRAFT' | 'FINALIZED' | 'PUBLISHED';
+
+// Papers and patterns only tell internal tests (CIE) from semester-end exams (SEE)
+export type PaperExamType = 'CIE' | 'SEE';
+
+export const EXAM_KIND_LABELS: Record<ExamKind, string> = {
+  CIE1: "CIE 1",
+  CIE2: "CIE 2",
+  SEMESTER_END: "Semester End",
+};
+
+export const EXAM_KINDS: Record<PaperExamType, ExamKind[]> = {
+  CIE: ['CIE1', 'CIE2'],
+  SEE: ['SEMESTER_END'],
+};
+
+export const EXAM_STATUSES: ExamStatus[] = ['DRAFT', 'FINALIZED', 'PUBLISHED'];
+
+export const EXAM_STATUS_LABELS: Record<ExamStatus, string> = {
+  DRAFT: "Draft",
+  FINALIZED: "Finalized",
+  PUBLISHED: "Published",
+};
+
+export const EXAM_STATUS_STYLES: Record<ExamStatus, string> = {
+  DRAFT: "bg-slate-600",
+  FINALIZED: "bg-blue-600",
+  PUBLISHED: "bg-green-600",
+};
+
+// Button labels for moving an exam into each status; going back to draft is an admin unlock
+export const EXAM_TRANSITION_LABELS: Partial<Record<ExamStatus, string>> = {
+  FINALIZED: "Finalize & Lock",
+  PUBLISHED: "Publish",
+};
+
+// Mirrors the server: a finalized or published exam freezes its papers and answer keys
+export const isExamLocked = (status: ExamStatus) => status === 'FINALIZED' || status === 'PUBLISHED';
+
+// What an exam prints in the header of its papers
+export interface ExamHeader {
+  _id?: string;
+  title: string;
+  examType: ExamKind;
+  semester: string;
+  duration: number;
+  examDate?: string | null;
+  // One instruction per line
+  instructions: string;
+  // 0 leaves the pattern's total
+  maxMarks: number;
+  status: ExamStatus;
+}
+
+interface ExamPerson {
+  _id: string;
+  name: string;
+  role?: 'educator' | 'admin';
+}
+
+export interface Exam extends ExamHeader {
+  _id: string;
+  course: { _id: string; name: string; code: string };
+  examPattern?: Pick<ExamPattern, '_id' | 'name' | 'examType' | 'totalMarks' | 'duration'> | string | null;
+  educator: ExamPerson | string;
+  statusHistory?: { from: ExamStatus; to: ExamStatus; by: ExamPerson | null; note?: string; unlock?: boolean; at: string }[];
+  // Listed exams carry the number of papers saved for them
+  paperCount?: number;
+  createdAt: string;
+}
+
+export interface ExamPaperSummary {
+  _id: string;
+  title: string;
+  setGroup?: string;
+  setLabel?: SetLabel;
+  status: PaperStatus;
+  totalMarks: number;
+  totalQuestions: number;
+  revision?: number;
+  downloadCount: number;
+  // Frozen with its exam; intact tells whether it still matches the hash stored when the exam was finalized
+  examLocked?: boolean;
+  lockedAt?: string;
+  contentHash?: string;
+  intact?: boolean;
+  createdAt: string;
+  updatedAt?: string;
+}
+
+export type ExamHistoryEvent = 'EXAM_CREATED' | 'EXAM_STATUS' | 'EXAM_UNLOCKED' | 'PAPER_SAVED' | 'PAPER_STATUS';
+
+export interface ExamHistoryEntry {
+  at: string;
+  event: ExamHistoryEvent;
+  from?: string;
+  to?: string;
+  note?: string;
+  by?: ExamPerson;
+  paper?: { _id: string; title: string; setLabel?: SetLabel };
+}
+
+// Shape of /api/exams/:id
+export interface ExamDetail {
+  exam: Exam;
+  papers: ExamPaperSummary[];
+  history: ExamHistoryEntry[];
+  isOwner: boolean;
+  availableTransitions: ExamStatus[];
+  canUnlock: boolean;
+}
+
+// Fields of the exam form on the setup pages and the exam details page
+export interface ExamDraft {
+  title: string;
+  examType: ExamKind;
+  examDate: string;
+  duration: number;
+  maxMarks: number;
+  instructions: string;
+}
+
+export const getPaperExamType = (kind: ExamKind): PaperExamType => (kind === 'SEMESTER_END' ? 'SEE' : 'CIE');
+
+export const getExamInstructions = (exam: Pick<ExamHeader, 'instructions'>) =>
+  exam.instructions.split("\n").map(line => line.trim()).filter(Boolean);
+
+export const formatExamDate = (date?: string | null) =>
+  date ? new Date(date).toLocaleDateString(undefined, { day: "numeric", month: "short", year: "numeric" }) : "";
+
+// Duration and marks of an exam in one line, e.g. "1.5 Hours • 50 marks"
+export const formatExamHeader = (exam: Pick<ExamHeader, 'duration' | 'maxMarks'>) =>
+  `${formatDuration(exam.duration)} • ${exam.maxMarks ? `${exam.maxMarks} marks` : "marks from the pattern"}`;
+
+// Date input value (yyyy-mm-dd) of a stored date
+export const toDateInput = (date?: string | null) => (date ? new Date(date).toISOString().slice(0, 10) : "");
+
+// A new exam for a pattern starts with the pattern's duration, marks and instructions
+export const newExamDraft = (
+  paperExamType: PaperExamType,
+  pattern: Pick<ExamPattern, 'duration' | 'totalMarks' | 'instructions'> | null,
+  course: string,
+  semester: string
+): ExamDraft => ({
+  title: `${EXAM_KIND_LABELS[EXAM_KINDS[paperExamType][0]]} - ${course} - Semester ${semester}`,
+  examType: EXAM_KINDS[paperExamType][0],
+  examDate: "",
+  duration: pattern?.duration ?? 60,
+  maxMarks: pattern?.totalMarks ?? 0,
+  instructions: pattern?.instructions.join("\n") ?? "",
+});
+
+export const toExamDraft = (exam: ExamHeader): ExamDraft => ({
+  title: exam.title,
+  examType: exam.examType,
+  examDate: toDateInput(exam.examDate),
+  duration: exam.duration,
+  maxMarks: exam.maxMarks,
+  instructions: exam.instructions,
+});
+
+export const HISTORY_EVENT_LABELS: Record<ExamHistoryEvent, string> = {
+  EXAM_CREATED: "Exam created",
+  EXAM_STATUS: "Exam status changed",
+  EXAM_UNLOCKED: "Exam unlocked",
+  PAPER_SAVED: "Paper saved",
+  PAPER_STATUS: "Paper status changed",
+};
@@ -0,0 +1,73 @@
+// src/lib/paperAnalysis.ts - Question paper analysis report (CO, Bloom, unit and PO tables) for audits
+import type { SetLabel } from "@/lib/paperSets";
+import type { Branding } from "@/lib/branding";
+
+export interface AnalysisMarksRow {
+  questionCount: number;
+  marks: number;
+  share: number;
+}
+
+export interface AnalysisCoRow extends AnalysisMarksRow {
+  // Empty for questions without a CO
+  code: string;
+  statement: string;
+}
+
+export interface AnalysisBloomRow extends AnalysisMarksRow {
+  level: string;
+}
+
+export interface AnalysisUnitRow extends AnalysisMarksRow {
+  // Empty for questions without a unit
+  unit: string;
+  syllabusTopics: number;
+  coveredTopics: number;
+  topics: string[];
+}
+
+export interface AnalysisPoRow {
+  code: string;
+  statement: string;
+  // Marks on the COs correlated with this PO
+  marks: number;
+  // Marks-weighted average correlation level of those COs, 0-3
+  level: number;
+  // Correlation-weighted marks as a share of the whole paper at level 3
+  potential: number;
+}
+
+export interface PaperAnalysis {
+  paper: {
+    _id: string;
+    title: string;
+    examType: "CIE" | "SEE";
+    semester: string;
+    setLabel?: SetLabel;
+    totalMarks: number;
+    totalQuestions: number;
+  };
+  course: { name: string; code: string; department?: string };
+  generatedAt: string;
+  questionMarks: number;
+  co: AnalysisCoRow[];
+  bloom: AnalysisBloomRow[];
+  units: AnalysisUnitRow[];
+  unitCoverage: { covered: number; total: number };
+  programOutcomes: AnalysisPoRow[];
+  matrix: {
+    rows: { co: string; levels: Record<string, number> }[];
+    average: Record<string, number>;
+  };
+  warnings: string[];
+  // Letterhead of the course's department
+  branding?: Branding;
+}
+
+export const getAnalysisFilename = (analysis: PaperAnalysis, extension: string) =>
+  `${analysis.course.code}_${analysis.paper.examType}_Semester${analysis.paper.semester}${
+    analysis.paper.setLabel ? `_Set${analysis.paper.setLabel}` : ""
+  }_Analysis.${extension}`;
+
+// Matrix cells and averages print as "-" when there is no correlation
+export const formatLevel = (level?: number) => (level ? String(level) : "-");
@@ -0,0 +1,72 @@
+// src/lib/paperReview.ts - Review and approval workflow of saved question papers
+import { SavedQuestionPaper } from "@/lib/questionPaper";
+
+export type PaperStatus = 'DRAFT' | 'SUBMITTED' | 'CHANGES_REQUESTED' | 'APPROVED' | 'LOCKED';
+
+interface ReviewPerson {
+  _id: string;
+  name: string;
+  role?: 'educator' | 'admin';
+}
+
+export interface ReviewComment {
+  _id: string;
+  author: ReviewPerson | null;
+  // Set when the comment is about one question rather than the whole paper
+  questionId?: string;
+  text: string;
+  revision?: number;
+  createdAt: string;
+}
+
+export interface StatusChange {
+  _id: string;
+  from: PaperStatus;
+  to: PaperStatus;
+  by: ReviewPerson | null;
+  note?: string;
+  at: string;
+}
+
+// Shape of /api/question-papers/:id, with what the current user may do with the paper
+export interface ReviewedQuestionPaper extends SavedQuestionPaper {
+  educator: { _id: string; name: string; email: string; department: string };
+  status: PaperStatus;
+  statusHistory: StatusChange[];
+  reviewComments: ReviewComment[];
+  // Reviewers can open other educators' papers but only the owner edits them
+  isOwner: boolean;
+  availableTransitions: PaperStatus[];
+}
+
+export const PAPER_STATUS_LABELS: Record<PaperStatus, string> = {
+  DRAFT: "Draft",
+  SUBMITTED: "Submitted for Review",
+  CHANGES_REQUESTED: "Changes Requested",
+  APPROVED: "Approved",
+  LOCKED: "Locked",
+};
+
+export const PAPER_STATUS_STYLES: Record<PaperStatus, string> = {
+  DRAFT: "bg-slate-600",
+  SUBMITTED: "bg-blue-600",
+  CHANGES_REQUESTED: "bg-orange-600",
+  APPROVED: "bg-green-600",
+  LOCKED: "bg-yellow-700",
+};
+
+// Button labels for moving a paper into each status
+export const TRANSITION_LABELS: Partial<Record<PaperStatus, string>> = {
+  SUBMITTED: "Submit for Review",
+  CHANGES_REQUESTED: "Request Changes",
+  APPROVED: "Approve",
+  LOCKED: "Lock Paper",
+};
+
+// Mirrors the server: only drafts and papers sent back for changes accept new revisions,
+// and nothing changes while the paper's exam is finalized
+export const isPaperEditable = (status: PaperStatus = 'DRAFT', examLocked = false) =>
+  !examLocked && (status === 'DRAFT' || status === 'CHANGES_REQUESTED');
+
+export const isPaperDeletable = (status: PaperStatus = 'DRAFT', examLocked = false) =>
+  !examLocked && status !== 'APPROVED' && status !== 'LOCKED';
@@ -0,0 +1,46 @@
+// src/lib/paperSets.ts - Parallel paper sets (Set A/B/C) generated in one run
+import type { PaperStatus } from "@/lib/paperReview";
+import type { GeneratedQuestion, PaperRelaxation } from "@/lib/questionPaper";
+
+export type SetLabel = 'A' | 'B' | 'C';
+
+export const SET_LABELS: SetLabel[] = ['A', 'B', 'C'];
+export const MAX_PAPER_SETS = SET_LABELS.length;
+
+// One set of a generation run; single papers have no label
+export interface PaperSet {
+  setLabel?: SetLabel;
+  questions: GeneratedQuestion[];
+  relaxations: PaperRelaxation[];
+}
+
+// Marks shares of one set, as compared by the server
+export interface SetSummary {
+  setLabel: SetLabel;
+  questionCount: number;
+  totalMarks: number;
+  difficulty: Record<string, number>;
+  bloom: Record<string, number>;
+  units: string[];
+}
+
+export interface SetEquivalence {
+  sets: SetSummary[];
+  // Share of marks by which two sets' mixes differ
+  pairs: { sets: [SetLabel, SetLabel]; difficulty: number; bloom: number }[];
+  sharedQuestions: { text: string; questions: string[] }[];
+  tolerance: number;
+  warnings: string[];
+  equivalent: boolean;
+}
+
+// A sibling set of a saved paper, from /api/question-papers/:id/sets
+export interface LinkedPaperSet {
+  _id: string;
+  title: string;
+  setLabel: SetLabel;
+  status: PaperStatus;
+  totalMarks: number;
+}
+
+export const formatShare = (share = 0) => `${Math.round(share * 100)}%`;
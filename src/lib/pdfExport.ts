@@ -0,0 +1,365 @@
+// src/lib/pdfExport.ts - PDF rendering of question papers and answer keys with jsPDF and autotable
+import { jsPDF } from "jspdf";
+import autoTable, { RowInput } from "jspdf-autotable";
+import { AnswerKeyEntry } from "@/lib/answerKey";
+import { Branding, DEFAULT_BRANDING, REGISTER_NUMBER_LABEL, getLetterheadLines, getLogoFormat } from "@/lib/branding";
+import { coCode, getCoMarks } from "@/lib/courseOutcomes";
+import { formatDuration, getSectionGroups } from "@/lib/examPattern";
+import {
+  GeneratedQuestion,
+  PaperDocument,
+  getBranding,
+  getCourseLabel,
+  getExamTitle,
+  getNegativeMarksNote,
+  getPaperHeader,
+  getQuestionLabel,
+  getSectionQuestions,
+  withSetLabel,
+} from "@/lib/questionPaper";
+import { formatOptions, getAnswer, getAnswerGrid, isObjective } from "@/lib/questionTypes";
+
+const PAGE_MARGIN = 15;
+
+type AutoTableDocument = jsPDF & { lastAutoTable: { finalY: number } };
+
+// Questions per row of the answer grid
+const GRID_COLUMNS = 5;
+
+// Q.No., Question, Marks, CO, BL
+const QUESTION_COLUMNS = 5;
+
+// Question text with its options underneath, each on its own line
+const getQuestionCell = (question: GeneratedQuestion) =>
+  [question.text, ...formatOptions(question.options)].join("\n");
+
+const LOGO_SIZE = 20;
+
+// Side of one register number box
+const REGISTER_BOX_SIZE = 6;
+
+// Letterhead: logo on the left, then institution name, affiliation, address and department line
+// centred; returns the y below it
+const drawLetterhead = (doc: jsPDF, branding: Branding) => {
+  const pageWidth = doc.internal.pageSize.getWidth();
+  let y = 18;
+
+  if (branding.logo) {
+    doc.addImage(branding.logo, getLogoFormat(branding.logo), PAGE_MARGIN, 8, LOGO_SIZE, LOGO_SIZE);
+  }
+
+  doc.setFont("helvetica", "bold");
+  doc.setFontSize(14);
+  doc.text(branding.name, pageWidth / 2, y, { align: "center" });
+
+  doc.setFont("helvetica", "normal");
+  doc.setFontSize(10);
+  for (const line of getLetterheadLines(branding)) {
+    y += 5;
+    doc.text(line, pageWidth / 2, y, { align: "center" });
+  }
+
+  return Math.max(y, branding.logo ? 8 + LOGO_SIZE : y) + 6;
+};
+
+// Empty boxes for the candidate's register number, right-aligned; returns the y below them
+const drawRegisterNumberBoxes = (doc: jsPDF, branding: Branding, y: number) => {
+  const { enabled, digits } = branding.registerNumber;
+  if (!enabled) return y;
+
+  const right = doc.internal.pageSize.getWidth() - PAGE_MARGIN;
+  const left = right - digits * REGISTER_BOX_SIZE;
+
+  doc.setFont("helvetica", "bold");
+  doc.setFontSize(10);
+  doc.text(REGISTER_NUMBER_LABEL, left - 2, y + REGISTER_BOX_SIZE - 1.5, { align: "right" });
+  doc.setLineWidth(0.3);
+  for (let box = 0; box < digits; box++) {
+    doc.rect(left + box * REGISTER_BOX_SIZE, y, REGISTER_BOX_SIZE, REGISTER_BOX_SIZE);
+  }
+
+  return y + REGISTER_BOX_SIZE + 6;
+};
+
+// Header block: letterhead, register number boxes, exam title and the course/semester/duration/max-marks table
+const drawHeader = (doc: AutoTableDocument, paper: PaperDocument, title = getExamTitle(paper.examType)) => {
+  const pageWidth = doc.internal.pageSize.getWidth();
+  const header = getPaperHeader(paper);
+  const branding = getBranding(paper);
+
+  let titleY = drawLetterhead(doc, branding);
+  titleY = drawRegisterNumberBoxes(doc, branding, titleY - 4);
+
+  doc.setFont("helvetica", "bold");
+  doc.setFontSize(12);
+  doc.text(withSetLabel(title, paper.setLabel), pageWidth / 2, titleY, { align: "center" });
+
+  autoTable(doc, {
+    startY: titleY + 5,
+    theme: "grid",
+    styles: { fontSize: 10, cellPadding: 2 },
+    columnStyles: { 0: { fontStyle: "bold" }, 2: { fontStyle: "bold" } },
+    body: [
+      ["Course", getCourseLabel(paper), "Semester", paper.semester],
+      ["Duration", formatDuration(header.duration), "Max. Marks", String(header.maxMarks)],
+      ...(paper.exam ? [["Exam", paper.exam.title, "Date", header.date]] : []),
+    ],
+    margin: { left: PAGE_MARGIN, right: PAGE_MARGIN },
+  });
+
+  let y = doc.lastAutoTable.finalY + 6;
+
+  if (header.instructions.length > 0) {
+    doc.setFont("helvetica", "bold");
+    doc.setFontSize(10);
+    doc.text("Instructions:", PAGE_MARGIN, y);
+    doc.setFont("helvetica", "normal");
+    y += 5;
+
+    for (const instruction of header.instructions) {
+      const lines = doc.splitTextToSize(`- ${instruction}`, pageWidth - PAGE_MARGIN * 2);
+      doc.text(lines, PAGE_MARGIN, y);
+      y += lines.length * 5;
+    }
+  }
+
+  return y + 2;
+};
+
+// One table for the whole paper so questions paginate naturally; headings and OR are spanning rows
+const buildQuestionRows = (paper: PaperDocument): RowInput[] => {
+  const { pattern, questions } = paper;
+  const isAlternatives = pattern.choiceRule.mode === "ALTERNATIVES";
+  const rows: RowInput[] = [];
+
+  getSectionGroups(pattern).forEach((group, groupIdx) => {
+    if (isAlternatives) {
+      const co = pattern.sections[group[0]].co;
+      rows.push([{
+        content: `${(pattern.choiceRule.groupTitle || "Module").toUpperCase()} ${groupIdx + 1}${co ? ` (${coCode(co)})` : ""}`,
+        colSpan: QUESTION_COLUMNS,
+        styles: { fontStyle: "bold", fillColor: [235, 235, 235] },
+      }]);
+    }
+
+    group.forEach((sectionIdx, position) => {
+      const section = pattern.sections[sectionIdx];
+
+      if (!isAlternatives) {
+        rows.push([{
+          content: section.title.toUpperCase(),
+          colSpan: QUESTION_COLUMNS,
+          styles: { fontStyle: "bold", fillColor: [235, 235, 235] },
+        }]);
+      }
+
+      for (const question of getSectionQuestions(questions, sectionIdx + 1)) {
+        const negative = getNegativeMarksNote(question);
+        rows.push([
+          getQuestionLabel(question),
+          getQuestionCell(question),
+          { content: [`${question.marks}`, negative].filter(Boolean).join("\n"), styles: { halign: "center" } },
+          { content: question.co ? coCode(question.co) : "-", styles: { halign: "center" } },
+          { content: question.bloomLevel || "-", styles: { halign: "center" } },
+        ]);
+      }
+
+      if (isAlternatives && position < group.length - 1) {
+        rows.push([{ content: "OR", colSpan: QUESTION_COLUMNS, styles: { halign: "center", fontStyle: "bold" } }]);
+      }
+    });
+  });
+
+  return rows;
+};
+
+// Marks per CO, with each CO's statement; empty when no question carries a CO
+const buildCoMarksRows = (paper: PaperDocument): RowInput[] => {
+  const coMarks = getCoMarks(paper.questions, paper.outcomes);
+  if (!coMarks.some(row => row.code)) return [];
+
+  return coMarks.map(row => [
+    row.code || "-",
+    row.code ? row.statement ?? "" : "Questions without a CO",
+    String(row.marks),
+    `${Math.round(row.share * 100)}%`,
+  ]);
+};
+
+// Objective answers as label/answer pairs, GRID_COLUMNS questions to a row
+const buildAnswerGridRows = (paper: PaperDocument): RowInput[] => {
+  const grid = getAnswerGrid(paper.questions, getQuestionLabel);
+  const rows: RowInput[] = [];
+
+  for (let idx = 0; idx < grid.length; idx += GRID_COLUMNS) {
+    const cells = grid.slice(idx, idx + GRID_COLUMNS).flatMap(entry => [
+      { content: entry.label, styles: { fontStyle: "bold" as const } },
+      entry.answer ?? "?",
+    ]);
+    while (cells.length < GRID_COLUMNS * 2) cells.push("");
+    rows.push(cells);
+  }
+
+  return rows;
+};
+
+// Each descriptive question is followed by its key points with their marks and then the model
+// answer; objective questions only name their correct option
+const buildAnswerKeyRows = (paper: PaperDocument, entries: AnswerKeyEntry[]): RowInput[] => {
+  const byId = new Map(entries.map(entry => [entry.questionId, entry]));
+  const rows: RowInput[] = [];
+
+  paper.pattern.sections.forEach((_, sectionIdx) => {
+    for (const question of getSectionQuestions(paper.questions, sectionIdx + 1)) {
+      const entry = byId.get(question.questionId);
+
+      rows.push([
+        { content: getQuestionLabel(question), styles: { fontStyle: "bold", fillColor: [235, 235, 235] } },
+        { content: question.text, styles: { fontStyle: "bold", fillColor: [235, 235, 235] } },
+        { content: `${question.marks}M`, styles: { halign: "right", fontStyle: "bold", fillColor: [235, 235, 235] } },
+      ]);
+
+      if (isObjective(question.type)) {
+        rows.push(["", `Answer: ${getAnswer(question) ?? "not marked"}`, ""]);
+        continue;
+      }
+
+      if (!entry) {
+        rows.push(["", { content: "No answer key entry", styles: { fontStyle: "italic" } }, ""]);
+        continue;
+      }
+
+      entry.keyPoints.forEach((point, idx) => {
+        rows.push(["", `${idx + 1}. ${point.text}`, { content: `${point.marks}`, styles: { halign: "right" } }]);
+      });
+
+      if (entry.modelAnswer) {
+        rows.push(["", { content: `Model answer:\n${entry.modelAnswer}`, colSpan: 2, styles: { fontStyle: "italic" } }]);
+      }
+    }
+  });
+
+  return rows;
+};
+
+// Page numbers, with the exam cell's footer text above them on every page
+const drawPageNumbers = (doc: jsPDF, branding: Branding) => {
+  const pageCount = doc.getNumberOfPages();
+  const pageWidth = doc.internal.pageSize.getWidth();
+  const pageHeight = doc.internal.pageSize.getHeight();
+
+  doc.setFont("helvetica", "normal");
+
+  for (let page = 1; page <= pageCount; page++) {
+    doc.setPage(page);
+    if (branding.footerText) {
+      doc.setFontSize(8);
+      doc.text(branding.footerText, pageWidth / 2, pageHeight - 12, { align: "center" });
+    }
+    doc.setFontSize(9);
+    doc.text(`Page ${page} of ${pageCount}`, pageWidth / 2, pageHeight - 8, { align: "center" });
+  }
+};
+
+export const buildQuestionPaperPdf = (paper: PaperDocument) => {
+  const doc = new jsPDF({ unit: "mm", format: "a4" }) as AutoTableDocument;
+  const startY = drawHeader(doc, paper);
+
+  autoTable(doc, {
+    startY,
+    theme: "plain",
+    head: [["Q.No.", "Question", "Marks", "CO", "BL"]],
+    body: buildQuestionRows(paper),
+    styles: { fontSize: 10, cellPadding: 2, valign: "top" },
+    headStyles: { fontStyle: "bold", lineWidth: { bottom: 0.3 } },
+    columnStyles: {
+      0: { cellWidth: 16, fontStyle: "bold" },
+      2: { cellWidth: 22 },
+      3: { cellWidth: 14 },
+      4: { cellWidth: 12 },
+    },
+    margin: { left: PAGE_MARGIN, right: PAGE_MARGIN, bottom: 15 },
+  });
+
+  const coRows = buildCoMarksRows(paper);
+  if (coRows.length > 0) {
+    autoTable(doc, {
+      startY: doc.lastAutoTable.finalY + 8,
+      theme: "grid",
+      head: [[{ content: "CO-WISE MARKS DISTRIBUTION", colSpan: 4 }], ["CO", "Course Outcome", "Marks", "%"]],
+      body: coRows,
+      styles: { fontSize: 9, cellPadding: 2 },
+      headStyles: { fontStyle: "bold", fillColor: [235, 235, 235], textColor: 0 },
+      columnStyles: {
+        0: { cellWidth: 16, fontStyle: "bold" },
+        2: { cellWidth: 18, halign: "right" },
+        3: { cellWidth: 16, halign: "right" },
+      },
+      margin: { left: PAGE_MARGIN, right: PAGE_MARGIN, bottom: 15 },
+    });
+  }
+
+  let endY = doc.lastAutoTable.finalY + 10;
+  if (endY > doc.internal.pageSize.getHeight() - 15) {
+    doc.addPage();
+    endY = 20;
+  }
+  doc.setFont("helvetica", "bold");
+  doc.setFontSize(10);
+  doc.text("*** END OF QUESTION PAPER ***", doc.internal.pageSize.getWidth() / 2, endY, { align: "center" });
+
+  drawPageNumbers(doc, getBranding(paper));
+  return doc;
+};
+
+export const downloadQuestionPaperPdf = (paper: PaperDocument, filename: string) => {
+  buildQuestionPaperPdf(paper).save(filename);
+};
+
+export const buildAnswerKeyPdf = (paper: PaperDocument, entries: AnswerKeyEntry[]) => {
+  const doc = new jsPDF({ unit: "mm", format: "a4" }) as AutoTableDocument;
+  // The scheme of evaluation has no instructions and no register number boxes
+  const branding = getBranding(paper);
+  const withoutInstructions = {
+    ...paper,
+    pattern: { ...paper.pattern, instructions: [] },
+    exam: paper.exam && { ...paper.exam, instructions: "" },
+    branding: { ...branding, registerNumber: { ...branding.registerNumber, enabled: false } },
+  };
+  let startY = drawHeader(doc, withoutInstructions, "SCHEME OF EVALUATION");
+
+  const gridRows = buildAnswerGridRows(paper);
+  if (gridRows.length > 0) {
+    autoTable(doc, {
+      startY,
+      theme: "grid",
+      head: [[{ content: "ANSWER GRID", colSpan: GRID_COLUMNS * 2 }]],
+      body: gridRows,
+      styles: { fontSize: 10, cellPadding: 2, halign: "center" },
+      headStyles: { fontStyle: "bold", fillColor: [235, 235, 235], textColor: 0 },
+      margin: { left: PAGE_MARGIN, right: PAGE_MARGIN, bottom: 15 },
+    });
+    startY = doc.lastAutoTable.finalY + 6;
+  }
+
+  autoTable(doc, {
+    startY,
+    theme: "plain",
+    head: [["Q.No.", "Key points", "Marks"]],
+    body: buildAnswerKeyRows(paper, entries),
+    styles: { fontSize: 10, cellPadding: 2, valign: "top" },
+    headStyles: { fontStyle: "bold", lineWidth: { bottom: 0.3 } },
+    columnStyles: {
+      0: { cellWidth: 16, fontStyle: "bold" },
+      2: { cellWidth: 18 },
+    },
+    margin: { left: PAGE_MARGIN, right: PAGE_MARGIN, bottom: 15 },
+  });
+
+  drawPageNumbers(doc, branding);
+  return doc;
+};
+
+export const downloadAnswerKeyPdf = (paper: PaperDocument, entries: AnswerKeyEntry[], filename: string) => {
+  buildAnswerKeyPdf(paper, entries).save(filename);
+};
@@ -0,0 +1,47 @@
+// src/lib/programOutcomes.ts - Program outcomes (POs/PSOs) of a department and the CO-PO matrix
+import type { CourseOutcome } from "@/lib/courseOutcomes";
+
+export interface ProgramOutcome {
+  // PO1-PO12, or PSO1 ... for program-specific outcomes
+  code: string;
+  statement: string;
+}
+
+// How strongly a CO supports a PO: 1 low, 2 medium, 3 high
+export type CorrelationLevel = 1 | 2 | 3;
+
+export const CORRELATION_LEVELS: CorrelationLevel[] = [1, 2, 3];
+
+export const CORRELATION_LABELS: Record<CorrelationLevel, string> = {
+  1: "Low",
+  2: "Medium",
+  3: "High",
+};
+
+export interface PoCorrelation {
+  co: string;
+  po: string;
+  level: CorrelationLevel;
+}
+
+export interface PoMappingData {
+  course: { _id: string; name: string; code: string; department: string };
+  outcomes: CourseOutcome[];
+  programOutcomes: ProgramOutcome[];
+  mapping: PoCorrelation[];
+}
+
+// Code for the next PO added to a list, after the highest PO number (PSOs are added by hand)
+export const nextProgramOutcomeCode = (programOutcomes: ProgramOutcome[]) => {
+  const numbers = programOutcomes.map(outcome => outcome.code.match(/^PO(\d+)$/)?.[1]).filter(Boolean);
+  return `PO${Math.max(0, ...numbers.map(Number)) + 1}`;
+};
+
+export const getCorrelation = (mapping: PoCorrelation[], co: string, po: string) =>
+  mapping.find(entry => entry.co === co && entry.po === po)?.level;
+
+// Set or, with no level, clear one cell of the matrix
+export const setCorrelation = (mapping: PoCorrelation[], co: string, po: string, level?: CorrelationLevel) => [
+  ...mapping.filter(entry => entry.co !== co || entry.po !== po),
+  ...(level ? [{ co, po, level }] : []),
+];
@@ -0,0 +1,197 @@
+import { DifficultyLevel } from "./examPattern";
+import { QuestionOption, QuestionType } from "./questionTypes";
+
+export type BankSource = 'manual' | 'upload' | 'import';
+
+// One question of a course's question bank: authored by hand, imported from a processed upload or read from a file
+export interface QuestionBankEntry {
+  _id: string;
+  course: string;
+  text: string;
+  // Questions stored before types existed have none and are descriptive
+  type?: QuestionType;
+  options?: QuestionOption[];
+  marks: number;
+  bloomLevel: string;
+  difficulty: DifficultyLevel;
+  unit?: string;
+  topic?: string;
+  co?: string;
+  tags: string[];
+  source: BankSource;
+  processedData?: string;
+  topicSimilarity?: number;
+  verified: boolean;
+  verifiedAt?: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface QuestionBankFacets {
+  units: string[];
+  topics: string[];
+  cos: string[];
+  tags: string[];
+}
+
+export interface QuestionBankFilters {
+  search?: string;
+  unit?: string;
+  topic?: string;
+  co?: string;
+  tag?: string;
+  bloomLevel?: string;
+  difficulty?: string;
+  source?: BankSource;
+  type?: QuestionType;
+  verified?: 'true' | 'false';
+}
+
+export interface QuestionBankDraft {
+  text: string;
+  type: QuestionType;
+  options: QuestionOption[];
+  marks: number;
+  bloomLevel: string;
+  difficulty: DifficultyLevel;
+  unit: string;
+  topic: string;
+  co: string;
+  tags: string[];
+  verified: boolean;
+}
+
+export const SOURCE_LABELS: Record<BankSource, string> = {
+  manual: "Authored",
+  upload: "From upload",
+  import: "Imported file",
+};
+
+export const EMPTY_DRAFT: QuestionBankDraft = {
+  text: "",
+  type: 'DESCRIPTIVE',
+  options: [],
+  marks: 5,
+  bloomLevel: "L2",
+  difficulty: "medium",
+  unit: "",
+  topic: "",
+  co: "",
+  tags: [],
+  verified: false,
+};
+
+export const toDraft = (question: QuestionBankEntry): QuestionBankDraft => ({
+  text: question.text,
+  type: question.type || 'DESCRIPTIVE',
+  options: question.options || [],
+  marks: question.marks,
+  bloomLevel: question.bloomLevel,
+  difficulty: question.difficulty,
+  unit: question.unit || "",
+  topic: question.topic || "",
+  co: question.co || "",
+  tags: question.tags,
+  verified: question.verified,
+});
+
+export const parseTags = (value: string) =>
+  Array.from(new Set(value.split(",").map(tag => tag.trim().toLowerCase()).filter(Boolean)));
+
+export type BankFileFormat = 'csv' | 'xlsx' | 'moodle' | 'gift';
+
+// Bank fields a spreadsheet column can be mapped to
+export type MappableField =
+  | 'question'
+  | 'question_type'
+  | 'options'
+  | 'answer'
+  | 'predicted_marks'
+  | 'bloom_level'
+  | 'difficulty'
+  | 'matched_unit'
+  | 'matched_topic'
+  | 'co'
+  | 'tags';
+
+export type ColumnMapping = Partial<Record<MappableField, string>>;
+
+export interface ImportDefaults {
+  predicted_marks?: number;
+  bloom_level?: string;
+  difficulty?: DifficultyLevel;
+  matched_unit?: string;
+}
+
+export interface ImportedQuestion {
+  question: string;
+  question_type?: QuestionType;
+  options?: { text: string; is_correct: boolean }[];
+  predicted_marks: number | null;
+  bloom_level?: string;
+  difficulty?: DifficultyLevel;
+  matched_unit?: string;
+  matched_topic?: string;
+  co?: string;
+  tags: string[];
+}
+
+export interface ImportReportEntry {
+  row: number;
+  status: 'valid' | 'invalid' | 'duplicate';
+  errors: string[];
+  question: ImportedQuestion;
+  type?: string;
+}
+
+export interface ImportResult {
+  format: BankFileFormat;
+  columns?: string[];
+  mapping?: ColumnMapping;
+  dryRun: boolean;
+  imported: number;
+  summary: { total: number; valid: number; invalid: number; duplicate: number };
+  report: ImportReportEntry[];
+}
+
+export const FILE_FORMAT_LABELS: Record<BankFileFormat, string> = {
+  csv: "CSV",
+  xlsx: "Excel (XLSX)",
+  moodle: "Moodle XML",
+  gift: "GIFT",
+};
+
+export const FILE_FORMAT_EXTENSIONS: Record<BankFileFormat, string> = {
+  csv: "csv",
+  xlsx: "xlsx",
+  moodle: "xml",
+  gift: "gift",
+};
+
+export const MAPPABLE_FIELD_LABELS: Record<MappableField, string> = {
+  question: "Question",
+  question_type: "Question Type",
+  options: "Options",
+  answer: "Answer",
+  predicted_marks: "Marks",
+  bloom_level: "Bloom Level",
+  difficulty: "Difficulty",
+  matched_unit: "Unit",
+  matched_topic: "Topic",
+  co: "Course Outcome",
+  tags: "Tags",
+};
+
+export const isTabularFormat = (format: BankFileFormat) => format === 'csv' || format === 'xlsx';
+
+// Hand a downloaded file to the browser
+export const saveBlob = (data: Blob, filename: string) => {
+  const url = URL.createObjectURL(data);
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = filename;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  URL.revokeObjectURL(url);
+};
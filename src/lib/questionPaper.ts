@@ -0,0 +1,302 @@
+// src/lib/questionPaper.ts - Structured question paper model and its text renderer
+import { ExamPattern, computeMaxMarks, formatDuration, getSectionGroups } from "@/lib/examPattern";
+import type { PaperStatus } from "@/lib/paperReview";
+import type { SetLabel } from "@/lib/paperSets";
+import { CourseOutcome, coCode, getCoMarks } from "@/lib/courseOutcomes";
+import { ExamHeader, formatExamDate, getExamInstructions } from "@/lib/exams";
+import { QuestionOption, QuestionType, formatOptions } from "@/lib/questionTypes";
+import { Branding, DEFAULT_BRANDING, REGISTER_NUMBER_LABEL, getLetterheadLines } from "@/lib/branding";
+
+export interface GeneratedQuestion {
+  questionId: string;
+  section: number;
+  text: string;
+  marks: number;
+  difficulty: string;
+  bloomLevel: string;
+  unit: string;
+  topic: string;
+  co?: number;
+  // Objective questions carry their options in printed order; papers saved before types are descriptive
+  type?: QuestionType;
+  options?: QuestionOption[];
+  negativeMarks?: number;
+  source: 'processed_data' | 'ai_generated';
+  provider?: string;
+  originalId?: string;
+  similarity?: number;
+  // Cross-paper usage of the bank question; recentlyUsed means it was picked despite the cool-off
+  reuseCount?: number;
+  lastUsedAt?: string;
+  recentlyUsed?: boolean;
+}
+
+// How many of the most recent saved papers of each exam type hold their bank questions back,
+// and how many days any paper of that type keeps holding them back (0 = count only)
+export type CoolOff = Record<'CIE' | 'SEE', number> & { withinDays: Record<'CIE' | 'SEE', number> };
+
+export const DEFAULT_COOL_OFF: CoolOff = { CIE: 2, SEE: 1, withinDays: { CIE: 0, SEE: 365 } };
+
+// A ranked bank candidate for one slot, from /api/questions/alternatives
+export interface QuestionAlternative extends GeneratedQuestion {
+  relaxed: ('topic' | 'reuse' | 'difficulty' | 'marks')[];
+  score: number;
+}
+
+// A constraint the server's paper assembler had to drop, for one part or for the paper as a whole
+export interface PaperRelaxation {
+  questionId?: string;
+  constraint: 'topic' | 'reuse' | 'difficulty' | 'marks' | 'bank' | 'repeated' | 'bloomDistribution' | 'difficultyDistribution' | 'unitCoverage' | 'coCoverage' | 'coDistribution';
+  message: string;
+}
+
+// Everything a renderer needs to lay out a paper
+export interface PaperDocument {
+  examType: string;
+  semester: string;
+  // Course code, with the course's name when known
+  course: string;
+  courseName?: string;
+  pattern: ExamPattern;
+  questions: GeneratedQuestion[];
+  // Set of a paper generated with parallel sets
+  setLabel?: SetLabel;
+  // The course's COs, for the CO-wise marks table
+  outcomes?: CourseOutcome[];
+  // Exam the paper is set for; papers without one take their header from the pattern
+  exam?: ExamHeader | null;
+  // Letterhead of the course's department; renderers fall back to DEFAULT_BRANDING
+  branding?: Branding;
+}
+
+// Shape of a paper as returned by /api/question-papers/:id
+export interface SavedQuestionPaper {
+  _id: string;
+  examType: string;
+  semester: string;
+  title: string;
+  course: { _id: string; name: string; code: string; department?: string; outcomes?: CourseOutcome[] };
+  examPattern?: ExamPattern | null;
+  exam?: (ExamHeader & { _id: string }) | null;
+  questions: (Omit<GeneratedQuestion, 'section'> & { section?: number })[];
+  totalMarks: number;
+  downloadCount: number;
+  revision?: number;
+  status?: PaperStatus;
+  setGroup?: string;
+  setLabel?: SetLabel;
+  // Set while the paper's exam is finalized or published
+  examLocked?: boolean;
+  // Letterhead the paper is printed with
+  branding?: Branding;
+  createdAt: string;
+}
+
+// Papers saved before patterns existed have no section on their questions; derive it from the id
+export const toPaperDocument = (paper: SavedQuestionPaper, pattern: ExamPattern): PaperDocument => ({
+  examType: paper.examType,
+  semester: paper.semester,
+  course: paper.course.code,
+  courseName: paper.course.name,
+  branding: paper.branding,
+  setLabel: paper.setLabel,
+  outcomes: paper.course.outcomes,
+  exam: paper.exam,
+  pattern,
+  questions: paper.questions.map(question => ({
+    ...question,
+    section: question.section ?? parseInt(question.questionId, 10)
+  }))
+});
+
+// Duration, date, max marks and instructions printed above the questions: the exam's, falling
+// back to the pattern's (and today's date) for papers without an exam. Mirrors the server's
+// paperHeader.js, which prints the Word paper's header; keep both in step
+export const getPaperHeader = ({ exam, pattern }: Pick<PaperDocument, 'exam' | 'pattern'>) => {
+  const instructions = exam ? getExamInstructions(exam) : [];
+  return {
+    duration: exam?.duration || pattern.duration,
+    maxMarks: exam?.maxMarks || pattern.totalMarks,
+    date: formatExamDate(exam?.examDate) || new Date().toLocaleDateString(),
+    instructions: instructions.length > 0 ? instructions : pattern.instructions,
+  };
+};
+
+export const getPaperFilename = (paper: Pick<PaperDocument, 'examType' | 'course' | 'semester' | 'setLabel'>, extension: string) =>
+  `${paper.examType}_${paper.course}_Semester${paper.semester}${paper.setLabel ? `_Set${paper.setLabel}` : ""}_QuestionPaper.${extension}`;
+
+const RULE = "═══════════════════════════════════════════════════════════════════════════════";
+const THIN_RULE = "───────────────────────────────────────────────────────────────────────────────";
+
+// Course as printed on a paper, e.g. "Operating Systems (CI402)"
+export const getCourseLabel = ({ course, courseName }: Pick<PaperDocument, 'course' | 'courseName'>) =>
+  courseName ? `${courseName} (${course})` : course;
+
+export const getBranding = (paper: Pick<PaperDocument, 'branding'>) => paper.branding ?? DEFAULT_BRANDING;
+
+const centerLine = (text: string) => text.padStart(Math.floor((RULE.length + text.length) / 2));
+
+// Exam title above the questions; mirrored by the server's paperHeader.js
+export const getExamTitle = (examType: string) =>
+  examType === "CIE" ? "CONTINUOUS INTERNAL EVALUATION" : "SEMESTER END EXAMINATION";
+
+// Title with the paper's set, e.g. "SCHEME OF EVALUATION - SET B"
+export const withSetLabel = (title: string, setLabel?: SetLabel) =>
+  setLabel ? `${title} - SET ${setLabel}` : title;
+
+// Note printed with an objective question that loses marks for a wrong answer
+export const getNegativeMarksNote = (question: GeneratedQuestion) =>
+  question.negativeMarks ? `-${question.negativeMarks} for a wrong answer` : null;
+
+// Label printed before a question, e.g. "1A" or "10B"; mirrored by the server's paperHeader.js
+export const getQuestionLabel = (question: GeneratedQuestion) =>
+  `${question.section}${question.questionId.slice(String(question.section).length).toUpperCase()}`;
+
+export const getSectionQuestions = (questions: GeneratedQuestion[], section: number) =>
+  questions.filter(question => question.section === section);
+
+export const getQuestionsTotal = (questions: GeneratedQuestion[], section: number) =>
+  getSectionQuestions(questions, section).reduce((sum, question) => sum + (question.marks || 0), 0);
+
+// Max marks of the paper as edited, using the section totals in place of the pattern's
+export const getPaperMaxMarks = (pattern: ExamPattern, questions: GeneratedQuestion[]) =>
+  computeMaxMarks({
+    ...pattern,
+    sections: pattern.sections.map((section, idx) => ({ ...section, marks: getQuestionsTotal(questions, idx + 1) }))
+  });
+
+// Give each section's questions the pattern's part labels in their current order (a, b, c, then d, e ...)
+export const relabelQuestions = (pattern: ExamPattern, questions: GeneratedQuestion[]): GeneratedQuestion[] => {
+  const positions: Record<number, number> = {};
+
+  return questions.map(question => {
+    const position = positions[question.section] ?? 0;
+    positions[question.section] = position + 1;
+
+    const parts = pattern.sections[question.section - 1]?.parts || [];
+    const label = parts[position]?.label || String.fromCharCode(97 + position);
+    return { ...question, questionId: `${question.section}${label}` };
+  });
+};
+
+// Move a question into a section, before another question or at the end of that section
+export const moveQuestion = (
+  pattern: ExamPattern,
+  questions: GeneratedQuestion[],
+  questionId: string,
+  targetSection: number,
+  beforeQuestionId?: string
+): GeneratedQuestion[] => {
+  const moving = questions.find(question => question.questionId === questionId);
+  if (!moving || moving.questionId === beforeQuestionId) return questions;
+
+  const remaining = questions.filter(question => question.questionId !== questionId);
+  const moved = { ...moving, section: targetSection, co: pattern.sections[targetSection - 1]?.co ?? moving.co };
+
+  let insertAt = remaining.findIndex(question => question.questionId === beforeQuestionId);
+  if (insertAt === -1) {
+    // After the last question of the target section, or before the first question of a later section
+    const lastInSection = remaining.map(question => question.section).lastIndexOf(targetSection);
+    insertAt = lastInSection !== -1
+      ? lastInSection + 1
+      : remaining.findIndex(question => question.section > targetSection);
+    if (insertAt === -1) insertAt = remaining.length;
+  }
+
+  return relabelQuestions(pattern, [...remaining.slice(0, insertAt), moved, ...remaining.slice(insertAt)]);
+};
+
+export const formatQuestionPaper = (paper: PaperDocument) => {
+  const { examType, semester, pattern, questions, setLabel } = paper;
+  const header = getPaperHeader(paper);
+  const branding = getBranding(paper);
+  const isAlternatives = pattern.choiceRule.mode === 'ALTERNATIVES';
+
+  let questionPaper = "";
+
+  // Add header
+  questionPaper += `${RULE}\n`;
+  questionPaper += `${centerLine(branding.name.toUpperCase())}\n`;
+  for (const line of getLetterheadLines(branding)) {
+    questionPaper += `${centerLine(line)}\n`;
+  }
+  questionPaper += `${THIN_RULE}\n`;
+  questionPaper += `${centerLine(withSetLabel(getExamTitle(examType), setLabel))}\n`;
+  questionPaper += `${RULE}\n\n`;
+  if (branding.registerNumber.enabled) {
+    questionPaper += `${REGISTER_NUMBER_LABEL}: ${"[ ]".repeat(branding.registerNumber.digits)}\n\n`;
+  }
+  questionPaper += `Course: ${getCourseLabel(paper)}\n`;
+  questionPaper += `Semester: ${semester}\n`;
+  questionPaper += `Date: ${header.date}\n`;
+  questionPaper += `Duration: ${formatDuration(header.duration)}\n`;
+  questionPaper += `Maximum Marks: ${header.maxMarks}\n\n`;
+
+  if (header.instructions.length > 0) {
+    questionPaper += `Instructions:\n`;
+    header.instructions.forEach(instruction => {
+      questionPaper += `• ${instruction}\n`;
+    });
+    questionPaper += `\n`;
+  }
+
+  questionPaper += `${THIN_RULE}\n\n`;
+
+  getSectionGroups(pattern).forEach((group, groupIdx) => {
+    if (isAlternatives) {
+      const groupTitle = (pattern.choiceRule.groupTitle || "Module").toUpperCase();
+      const co = pattern.sections[group[0]].co;
+      questionPaper += `${groupTitle} ${groupIdx + 1}${co ? ` (${coCode(co)})` : ""}\n`;
+      questionPaper += `${THIN_RULE}\n\n`;
+    }
+
+    group.forEach((sectionIdx, position) => {
+      const section = pattern.sections[sectionIdx];
+
+      if (isAlternatives) {
+        questionPaper += `${section.title}:\n`;
+      } else {
+        questionPaper += `${section.title.toUpperCase()}\n`;
+        questionPaper += `${THIN_RULE}\n\n`;
+      }
+
+      for (const question of getSectionQuestions(questions, sectionIdx + 1)) {
+        questionPaper += `${getQuestionLabel(question)}. ${question.text}\n`;
+        for (const option of formatOptions(question.options)) {
+          questionPaper += `    ${option}\n`;
+        }
+        const negative = getNegativeMarksNote(question);
+        const co = question.co ? ` | ${coCode(question.co)}` : "";
+        questionPaper += `    [${question.marks} Marks${co} | ${question.difficulty} | ${question.bloomLevel}${negative ? ` | ${negative}` : ""}]\n`;
+        questionPaper += `\n`;
+      }
+
+      if (isAlternatives && position < group.length - 1) {
+        questionPaper += `OR\n\n`;
+      }
+    });
+
+    questionPaper += `\n`;
+  });
+
+  const coMarks = getCoMarks(questions, paper.outcomes);
+  if (coMarks.some(row => row.code)) {
+    questionPaper += `${THIN_RULE}\n`;
+    questionPaper += `CO-WISE MARKS DISTRIBUTION\n`;
+    questionPaper += `${THIN_RULE}\n`;
+    for (const row of coMarks) {
+      const marks = `${row.marks} Marks (${Math.round(row.share * 100)}%)`;
+      questionPaper += `${(row.code || "No CO").padEnd(8)}${marks.padEnd(18)}${row.statement ?? ""}\n`;
+    }
+    questionPaper += `\n`;
+  }
+
+  questionPaper += `${RULE}\n`;
+  questionPaper += `${centerLine("END OF QUESTION PAPER")}\n`;
+  questionPaper += `${RULE}\n`;
+  if (branding.footerText) {
+    questionPaper += `${centerLine(branding.footerText)}\n`;
+  }
+
+  return questionPaper;
+};
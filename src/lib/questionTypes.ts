@@ -0,0 +1,78 @@
+// src/lib/questionTypes.ts - Descriptive and objective (MCQ, true/false) questions and their options
+
+export type QuestionType = 'DESCRIPTIVE' | 'MULTIPLE_CHOICE' | 'TRUE_FALSE';
+
+export interface QuestionOption {
+  text: string;
+  isCorrect: boolean;
+}
+
+export const QUESTION_TYPE_LABELS: Record<QuestionType, string> = {
+  DESCRIPTIVE: "Descriptive",
+  MULTIPLE_CHOICE: "Multiple choice",
+  TRUE_FALSE: "True / False",
+};
+
+export const MIN_CHOICES = 2;
+export const MAX_CHOICES = 6;
+
+export const TRUE_FALSE_OPTIONS: QuestionOption[] = [
+  { text: "True", isCorrect: false },
+  { text: "False", isCorrect: false },
+];
+
+export const isObjective = (type?: QuestionType) => type === 'MULTIPLE_CHOICE' || type === 'TRUE_FALSE';
+
+export const optionLetter = (idx: number) => String.fromCharCode(65 + idx);
+
+// Starting options when a question is switched to a type
+export const defaultOptions = (type: QuestionType): QuestionOption[] => {
+  if (type === 'TRUE_FALSE') return TRUE_FALSE_OPTIONS.map(option => ({ ...option }));
+  if (type === 'MULTIPLE_CHOICE') return Array.from({ length: 4 }, () => ({ text: "", isCorrect: false }));
+  return [];
+};
+
+// Letter of the correct option, e.g. "B", or null when none is marked
+export const getCorrectOption = (options: QuestionOption[] = []) => {
+  const idx = options.findIndex(option => option.isCorrect);
+  return idx === -1 ? null : optionLetter(idx);
+};
+
+// Mirrors the server's check; returns a message or null
+export const validateOptions = (type: QuestionType, options: QuestionOption[]): string | null => {
+  if (!isObjective(type)) return null;
+
+  const filled = options.filter(option => option.text.trim());
+  if (type === 'MULTIPLE_CHOICE' && (filled.length < MIN_CHOICES || filled.length > MAX_CHOICES)) {
+    return `A multiple choice question needs ${MIN_CHOICES} to ${MAX_CHOICES} options`;
+  }
+  if (filled.filter(option => option.isCorrect).length !== 1) {
+    return type === 'TRUE_FALSE' ? "Mark the statement true or false" : "Mark exactly one option as correct";
+  }
+  return null;
+};
+
+// Options as printed under a question, one line each, e.g. "(A) Paging"
+export const formatOptions = (options: QuestionOption[] = []) =>
+  options.map((option, idx) => `(${optionLetter(idx)}) ${option.text}`);
+
+// The answer of an objective question: its correct option's letter, or True/False
+export const getAnswer = (question: { type?: QuestionType; options?: QuestionOption[] }) =>
+  question.type === 'TRUE_FALSE'
+    ? question.options?.find(option => option.isCorrect)?.text ?? null
+    : getCorrectOption(question.options);
+
+export interface AnswerGridEntry {
+  questionId: string;
+  label: string;
+  answer: string | null;
+}
+
+// The answer grid of a paper's objective questions, read from the options as printed on it
+export const getAnswerGrid = <Q extends { questionId: string; type?: QuestionType; options?: QuestionOption[] }>(
+  questions: Q[],
+  getLabel: (question: Q) => string
+): AnswerGridEntry[] =>
+  questions
+    .filter(question => isObjective(question.type))
+    .map(question => ({ questionId: question.questionId, label: getLabel(question), answer: getAnswer(question) }));
@@ -0,0 +1,70 @@
+// src/lib/savedPapers.ts - Loading saved question papers and comparing their revisions
+import { examPatternAPI, questionPaperAPI } from "@/lib/api";
+import { ExamPattern } from "@/lib/examPattern";
+import { GeneratedQuestion, PaperDocument, SavedQuestionPaper, toPaperDocument } from "@/lib/questionPaper";
+
+export interface PaperRevisionSummary {
+  _id: string;
+  revision: number;
+  title: string;
+  totalMarks: number;
+  totalQuestions: number;
+  note: string;
+  restoredFrom?: number;
+  createdAt: string;
+}
+
+export interface PaperRevision extends PaperRevisionSummary {
+  content: string;
+  questions: SavedQuestionPaper['questions'];
+}
+
+export type RevisionChange = 'added' | 'removed' | 'changed' | 'unchanged';
+
+export interface RevisionDiffRow {
+  questionId: string;
+  left?: GeneratedQuestion;
+  right?: GeneratedQuestion;
+  change: RevisionChange;
+  // Fields that differ when change is 'changed'
+  fields: (keyof GeneratedQuestion)[];
+}
+
+const COMPARED_FIELDS: (keyof GeneratedQuestion)[] = ['text', 'marks', 'difficulty', 'bloomLevel', 'co', 'unit', 'topic'];
+
+// Papers saved before exam patterns existed fall back to the default layout for their exam type
+export const loadPaperPattern = async (paper: SavedQuestionPaper): Promise<ExamPattern> =>
+  paper.examPattern || (await examPatternAPI.getPatterns(paper.examType)).data[0];
+
+export const loadPaperDocument = async (paperId: string): Promise<{ saved: SavedQuestionPaper; document: PaperDocument }> => {
+  const { data: saved } = await questionPaperAPI.getQuestionPaper(paperId) as { data: SavedQuestionPaper };
+  const pattern = await loadPaperPattern(saved);
+  return { saved, document: toPaperDocument(saved, pattern) };
+};
+
+const sortKey = (questionId: string) => {
+  const section = parseInt(questionId, 10);
+  return [Number.isNaN(section) ? 0 : section, questionId.slice(String(section).length)] as const;
+};
+
+// Pair questions of two revisions by questionId, in paper order
+export const diffRevisions = (left: GeneratedQuestion[], right: GeneratedQuestion[]): RevisionDiffRow[] => {
+  const leftById = new Map(left.map(question => [question.questionId, question]));
+  const rightById = new Map(right.map(question => [question.questionId, question]));
+  const ids = [...new Set([...leftById.keys(), ...rightById.keys()])].sort((a, b) => {
+    const [sectionA, partA] = sortKey(a);
+    const [sectionB, partB] = sortKey(b);
+    return sectionA - sectionB || partA.localeCompare(partB);
+  });
+
+  return ids.map(questionId => {
+    const before = leftById.get(questionId);
+    const after = rightById.get(questionId);
+
+    if (!before) return { questionId, right: after, change: 'added', fields: [] };
+    if (!after) return { questionId, left: before, change: 'removed', fields: [] };
+
+    const fields = COMPARED_FIELDS.filter(field => before[field] !== after[field]);
+    return { questionId, left: before, right: after, change: fields.length > 0 ? 'changed' : 'unchanged', fields };
+  });
+};
@@ -0,0 +1,334 @@
+// src/pages/BankVersions.tsx - Versions of a course's question bank: activate, roll back and compare
+import { useCallback, useEffect, useState } from "react";
+import { useNavigate, useParams } from "react-router-dom";
+import axios from "axios";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useToast } from "@/components/ui/use-toast";
+import { ArrowLeft, GitCompare, History, ListChecks, Loader2, RotateCcw } from "lucide-react";
+import NetworkGridBackground from "@/components/NetworkGridBackground";
+import { processedDataAPI } from "@/lib/api";
+import {
+  BankVersion,
+  FIELD_LABELS,
+  ItemDiff,
+  VersionDiff,
+  VersionQuestion,
+  VersionTopic,
+  getMergedFromVersion,
+} from "@/lib/bankVersions";
+
+const DIFF_STYLES = {
+  added: "border-green-500/40 bg-green-900/20",
+  removed: "border-red-500/40 bg-red-900/20",
+  reclassified: "border-yellow-500/40 bg-yellow-900/20",
+};
+
+type DiffKind = keyof typeof DIFF_STYLES;
+
+const DIFF_LABELS: Record<DiffKind, string> = {
+  added: "Added",
+  removed: "Removed",
+  reclassified: "Reclassified",
+};
+
+const ChangeList = ({ item }: { item: VersionQuestion | VersionTopic }) => (
+  <div className="flex flex-wrap gap-2 mt-1">
+    {item.changes?.map(change => (
+      <Badge key={change.field} variant="outline" className="text-yellow-200 border-yellow-500/40">
+        {FIELD_LABELS[change.field] || change.field}: {change.from} → {change.to}
+      </Badge>
+    ))}
+  </div>
+);
+
+function DiffSection<T extends VersionQuestion | VersionTopic>({
+  title,
+  diff,
+  render,
+}: {
+  title: string;
+  diff: ItemDiff<T>;
+  render: (item: T) => React.ReactNode;
+}) {
+  const kinds: DiffKind[] = ['added', 'removed', 'reclassified'];
+
+  return (
+    <div className="space-y-3">
+      <h3 className="text-cyan-100 font-medium">
+        {title}: {diff.added.length} added, {diff.removed.length} removed, {diff.reclassified.length} reclassified, {diff.unchanged} unchanged
+      </h3>
+      {kinds.map(kind => diff[kind].length > 0 && (
+        <div key={kind} className="space-y-2">
+          <p className="text-sm text-cyan-200">{DIFF_LABELS[kind]}</p>
+          {diff[kind].map((item, idx) => (
+            <div key={`${kind}-${idx}`} className={`p-3 rounded-md border text-sm text-white ${DIFF_STYLES[kind]}`}>
+              {render(item)}
+              {kind === 'reclassified' && <ChangeList item={item} />}
+            </div>
+          ))}
+        </div>
+      ))}
+    </div>
+  );
+}
+
+const BankVersions = () => {
+  const { courseId } = useParams<{ courseId: string }>();
+  const navigate = useNavigate();
+  const { toast } = useToast();
+
+  const [course, setCourse] = useState<{ _id: string; name: string; code: string } | null>(null);
+  const [versions, setVersions] = useState<BankVersion[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [activatingId, setActivatingId] = useState<string | null>(null);
+  const [compareFrom, setCompareFrom] = useState<string>("");
+  const [compareTo, setCompareTo] = useState<string>("");
+  const [diff, setDiff] = useState<VersionDiff | null>(null);
+  const [isComparing, setIsComparing] = useState(false);
+
+  const loadVersions = useCallback(async () => {
+    if (!courseId) return;
+
+    try {
+      const response = await processedDataAPI.getVersions(courseId);
+      const list: BankVersion[] = response.data.versions;
+      const completed = list.filter(version => version.processingStatus === 'COMPLETED');
+
+      setCourse(response.data.course);
+      setVersions(list);
+      setCompareTo(current => current || (completed[0]?._id ?? ""));
+      setCompareFrom(current => current || (completed[1]?._id ?? ""));
+    } catch (error) {
+      const data = axios.isAxiosError(error) ? error.response?.data : undefined;
+      toast({
+        title: "Error",
+        description: data?.message || "Failed to load question bank versions.",
+        variant: "destructive",
+      });
+      navigate("/document-upload");
+    } finally {
+      setIsLoading(false);
+    }
+  }, [courseId, navigate, toast]);
+
+  useEffect(() => {
+    loadVersions();
+  }, [loadVersions]);
+
+  const activeVersion = versions.find(version => version.isActive);
+  const completedVersions = versions.filter(version => version.processingStatus === 'COMPLETED');
+
+  const handleActivate = async (version: BankVersion) => {
+    setActivatingId(version._id);
+    try {
+      const response = await processedDataAPI.activateVersion(version._id);
+      toast({
+        title: "Question bank updated",
+        description: response.data.message,
+      });
+      await loadVersions();
+    } catch (error) {
+      const data = axios.isAxiosError(error) ? error.response?.data : undefined;
+      toast({
+        title: "Activation failed",
+        description: data?.message || "Failed to activate this version.",
+        variant: "destructive",
+      });
+    } finally {
+      setActivatingId(null);
+    }
+  };
+
+  const handleCompare = async () => {
+    if (!compareFrom || !compareTo) return;
+
+    setIsComparing(true);
+    try {
+      const response = await processedDataAPI.compareVersions(compareFrom, compareTo);
+      setDiff(response.data);
+    } catch (error) {
+      const data = axios.isAxiosError(error) ? error.response?.data : undefined;
+      toast({
+        title: "Comparison failed",
+        description: data?.message || "Failed to compare the versions.",
+        variant: "destructive",
+      });
+    } finally {
+      setIsComparing(false);
+    }
+  };
+
+  if (isLoading) {
+    return (
+      <NetworkGridBackground>
+        <div className="min-h-screen flex items-center justify-center">
+          <Loader2 className="h-8 w-8 animate-spin text-cyan-400" />
+        </div>
+      </NetworkGridBackground>
+    );
+  }
+
+  const renderVersionSelect = (value: string, onChange: (value: string) => void) => (
+    <Select value={value} onValueChange={onChange}>
+      <SelectTrigger className="w-56 border-cyan-500/30 bg-black/50 text-white">
+        <SelectValue placeholder="Select a version" />
+      </SelectTrigger>
+      <SelectContent className="bg-slate-800 text-white border-slate-700">
+        {completedVersions.map(version => (
+          <SelectItem key={version._id} value={version._id}>
+            Version {version.version}{version.isActive ? " (active)" : ""}
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+
+  return (
+    <NetworkGridBackground>
+      <div className="min-h-screen">
+        <header className="bg-black/40 backdrop-blur-sm border-b border-cyan-500/20 shadow-sm">
+          <div className="max-w-7xl mx-auto py-4 px-4 sm:px-6 lg:px-8 flex items-center">
+            <Button variant="ghost" size="sm" onClick={() => navigate("/document-upload")} className="mr-4 text-cyan-100 hover:bg-cyan-900/30 hover:text-white">
+              <ArrowLeft className="h-4 w-4 mr-2" />
+              Back
+            </Button>
+            <div>
+              <h1 className="text-2xl font-bold text-white">Question Bank Versions</h1>
+              {course && <p className="text-sm text-cyan-200">{course.name} ({course.code})</p>}
+            </div>
+          </div>
+        </header>
+
+        <main className="max-w-7xl mx-auto py-6 sm:px-6 lg:px-8">
+          <div className="px-4 py-6 sm:px-0 space-y-6">
+            <Card className="bg-black/40 backdrop-blur-sm border-cyan-400/30 shadow-lg">
+              <CardHeader>
+                <CardTitle className="text-white flex items-center">
+                  <History className="h-5 w-5 mr-2 text-cyan-400" />
+                  Versions ({versions.length})
+                </CardTitle>
+              </CardHeader>
+              <CardContent className="space-y-3">
+                {versions.length === 0 && <p className="text-cyan-200">No uploads for this course yet</p>}
+                {versions.map(version => {
+                  const mergedFrom = getMergedFromVersion(version);
+                  const isRollback = !!activeVersion && version.version < activeVersion.version;
+
+                  return (
+                    <div
+                      key={version._id}
+                      className={`flex items-center justify-between p-4 rounded-md border ${version.isActive ? "bg-cyan-900/20 border-cyan-400/50" : "bg-black/20 border-cyan-500/20"}`}
+                    >
+                      <div>
+                        <p className="text-white font-medium flex items-center gap-2">
+                          Version {version.version}
+                          {version.isActive && <Badge className="bg-green-600">Active</Badge>}
+                          {version.processingStatus !== 'COMPLETED' && (
+                            <Badge variant="secondary">{version.processingStatus.toLowerCase()}</Badge>
+                          )}
+                          {mergedFrom !== undefined && (
+                            <Badge variant="outline" className="text-cyan-200 border-cyan-500/40">Merged into version {mergedFrom}</Badge>
+                          )}
+                        </p>
+                        <p className="text-sm text-cyan-200">
+                          {version.originalFileNames.questionBank} • uploaded {new Date(version.uploadedAt).toLocaleString()}
+                        </p>
+                        {version.processingStatus === 'COMPLETED' && (
+                          <p className="text-xs text-cyan-200/80">
+                            {version.questionsCount} questions ({version.verifiedCount} verified) • {version.topicsCount} topics
+                          </p>
+                        )}
+                      </div>
+                      {version.processingStatus === 'COMPLETED' && (
+                        <div className="flex gap-2">
+                          <Button
+                            variant="outline"
+                            size="sm"
+                            onClick={() => navigate(`/processed-data/${version._id}/review`)}
+                            className="text-cyan-100 hover:bg-cyan-900/30 hover:text-white border-cyan-500/30"
+                          >
+                            <ListChecks className="h-4 w-4 mr-2" />
+                            Review
+                          </Button>
+                          {!version.isActive && (
+                            <Button
+                              size="sm"
+                              onClick={() => handleActivate(version)}
+                              disabled={activatingId !== null}
+                              className="bg-cyan-600 hover:bg-cyan-500"
+                            >
+                              {activatingId === version._id
+                                ? <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                                : <RotateCcw className="h-4 w-4 mr-2" />}
+                              {isRollback ? "Roll Back to This Version" : "Activate"}
+                            </Button>
+                          )}
+                        </div>
+                      )}
+                    </div>
+                  );
+                })}
+              </CardContent>
+            </Card>
+
+            {completedVersions.length > 1 && (
+              <Card className="bg-black/40 backdrop-blur-sm border-cyan-400/30 shadow-lg">
+                <CardHeader>
+                  <CardTitle className="text-white flex items-center">
+                    <GitCompare className="h-5 w-5 mr-2 text-cyan-400" />
+                    Compare Versions
+                  </CardTitle>
+                </CardHeader>
+                <CardContent className="space-y-6">
+                  <div className="flex flex-wrap items-center gap-3 text-cyan-100">
+                    {renderVersionSelect(compareFrom, setCompareFrom)}
+                    <span>→</span>
+                    {renderVersionSelect(compareTo, setCompareTo)}
+                    <Button
+                      onClick={handleCompare}
+                      disabled={isComparing || !compareFrom || !compareTo || compareFrom === compareTo}
+                      className="bg-cyan-600 hover:bg-cyan-500"
+                    >
+                      {isComparing && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+                      Compare
+                    </Button>
+                  </div>
+
+                  {diff && (
+                    <>
+                      <p className="text-sm text-cyan-200">
+                        Changes from version {diff.from.version} to version {diff.to.version}
+                      </p>
+                      <DiffSection
+                        title="Questions"
+                        diff={diff.questions}
+                        render={(question) => (
+                          <>
+                            <p>{question.question}</p>
+                            <p className="text-xs text-cyan-200 mt-1">
+                              {question.predicted_marks} marks • {question.bloom_level} • {question.difficulty} • {question.matched_unit} / {question.matched_topic}
+                            </p>
+                          </>
+                        )}
+                      />
+                      <DiffSection
+                        title="Topics"
+                        diff={diff.topics}
+                        render={(topic) => <p>{topic.unit}: {topic.topic}</p>}
+                      />
+                    </>
+                  )}
+                </CardContent>
+              </Card>
+            )}
+          </div>
+        </main>
+      </div>
+    </NetworkGridBackground>
+  );
+};
+
+export default BankVersions;
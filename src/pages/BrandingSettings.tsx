@@ -0,0 +1,364 @@
+// src/pages/BrandingSettings.tsx - Institution letterhead of rendered papers and a department's overrides of it
+import { useCallback, useEffect, useState } from "react";
+import { useNavigate } from "react-router-dom";
+import axios from "axios";
+import { useAuth } from "@/contexts/AuthContext";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Switch } from "@/components/ui/switch";
+import { useToast } from "@/components/ui/use-toast";
+import { ArrowLeft, Loader2, Save, Trash2 } from "lucide-react";
+import NetworkGridBackground from "@/components/NetworkGridBackground";
+import { departmentsAPI, institutionAPI } from "@/lib/api";
+import {
+  DEFAULT_BRANDING,
+  DepartmentBranding,
+  InstitutionSettings,
+  REGISTER_NUMBER_DIGITS,
+  REGISTER_NUMBER_LABEL,
+  RegisterNumberBox,
+} from "@/lib/branding";
+
+type LetterheadField = 'affiliation' | 'address' | 'departmentLine' | 'footerText';
+
+const LETTERHEAD_FIELDS: { field: LetterheadField; label: string }[] = [
+  { field: 'affiliation', label: "Affiliation" },
+  { field: 'address', label: "Address" },
+  { field: 'departmentLine', label: "Department Line" },
+  { field: 'footerText', label: "Exam Cell Footer" },
+];
+
+const RegisterNumberFields = ({
+  value,
+  disabled,
+  onChange,
+}: {
+  value: RegisterNumberBox;
+  disabled: boolean;
+  onChange: (value: RegisterNumberBox) => void;
+}) => (
+  <div className="flex items-center gap-3 text-sm text-cyan-200">
+    <Switch
+      checked={value.enabled}
+      disabled={disabled}
+      onCheckedChange={(enabled) => onChange({ ...value, enabled })}
+      className="data-[state=checked]:bg-cyan-600"
+    />
+    <span>{REGISTER_NUMBER_LABEL} boxes</span>
+    <Input
+      type="number"
+      min={REGISTER_NUMBER_DIGITS.min}
+      max={REGISTER_NUMBER_DIGITS.max}
+      value={value.digits}
+      disabled={disabled || !value.enabled}
+      onChange={(e) => onChange({ ...value, digits: parseInt(e.target.value) || 0 })}
+      className="w-20 bg-black/50 border-cyan-500/30 text-white"
+    />
+    <span>digits</span>
+  </div>
+);
+
+const BrandingSettings = () => {
+  const navigate = useNavigate();
+  const { currentUser } = useAuth();
+  const { toast } = useToast();
+
+  const [settings, setSettings] = useState<InstitutionSettings | null>(null);
+  const [departmentName, setDepartmentName] = useState(currentUser?.department ?? "");
+  const [loadedDepartment, setLoadedDepartment] = useState("");
+  const [department, setDepartment] = useState<DepartmentBranding>({});
+  const [canEditDepartment, setCanEditDepartment] = useState(false);
+  const [isLoading, setIsLoading] = useState(true);
+  const [savingPart, setSavingPart] = useState<"institution" | "logo" | "department" | null>(null);
+
+  const showError = useCallback((title: string, fallback: string, error: unknown) => {
+    const data = axios.isAxiosError(error) ? error.response?.data : undefined;
+    toast({
+      title,
+      description: data?.errors?.join(". ") || data?.message || fallback,
+      variant: "destructive",
+    });
+  }, [toast]);
+
+  const loadDepartment = useCallback(async (name: string) => {
+    if (!name.trim()) return;
+
+    try {
+      const response = await departmentsAPI.getBranding(name.trim());
+      setDepartment(response.data.branding);
+      setCanEditDepartment(response.data.canEdit);
+      setLoadedDepartment(response.data.department);
+    } catch (error) {
+      showError("Error", "Failed to load the department letterhead.", error);
+    }
+  }, [showError]);
+
+  useEffect(() => {
+    const load = async () => {
+      try {
+        const response = await institutionAPI.getSettings();
+        setSettings(response.data);
+      } catch (error) {
+        showError("Error", "Failed to load the institution settings.", error);
+      } finally {
+        setIsLoading(false);
+      }
+    };
+
+    load();
+    if (currentUser?.department) {
+      loadDepartment(currentUser.department);
+    }
+  }, [currentUser?.department, loadDepartment, showError]);
+
+  const handleSaveInstitution = async () => {
+    if (!settings) return;
+
+    setSavingPart("institution");
+    try {
+      const { name, affiliation, address, departmentLine, footerText, registerNumber } = settings;
+      const response = await institutionAPI.updateSettings({ name, affiliation, address, departmentLine, footerText, registerNumber });
+      setSettings(response.data);
+      toast({
+        title: "Letterhead Saved",
+        description: "Papers are now rendered with the new institution details.",
+      });
+    } catch (error) {
+      showError("Save Failed", "Failed to save the institution settings.", error);
+    } finally {
+      setSavingPart(null);
+    }
+  };
+
+  const handleLogo = async (file: File | null) => {
+    setSavingPart("logo");
+    try {
+      const response = file ? await institutionAPI.uploadLogo(file) : await institutionAPI.removeLogo();
+      setSettings(response.data);
+    } catch (error) {
+      showError("Logo Not Saved", "Failed to save the logo.", error);
+    } finally {
+      setSavingPart(null);
+    }
+  };
+
+  const handleSaveDepartment = async () => {
+    if (!loadedDepartment) return;
+
+    setSavingPart("department");
+    try {
+      const response = await departmentsAPI.updateBranding(loadedDepartment, {
+        ...department,
+        registerNumber: department.registerNumber?.digits ? department.registerNumber : null,
+      });
+      setDepartment(response.data.branding);
+      toast({
+        title: "Department Letterhead Saved",
+        description: `Papers of ${loadedDepartment} courses now use these overrides.`,
+      });
+    } catch (error) {
+      showError("Save Failed", "Failed to save the department letterhead.", error);
+    } finally {
+      setSavingPart(null);
+    }
+  };
+
+  if (isLoading || !settings) {
+    return (
+      <NetworkGridBackground>
+        <div className="flex items-center justify-center min-h-screen">
+          <div className="text-white">Loading...</div>
+        </div>
+      </NetworkGridBackground>
+    );
+  }
+
+  const overridesRegisterNumber = Boolean(department.registerNumber?.digits);
+
+  return (
+    <NetworkGridBackground>
+      <div className="min-h-screen">
+        <header className="bg-black/40 backdrop-blur-sm border-b border-cyan-500/20 shadow-sm">
+          <div className="max-w-5xl mx-auto py-4 px-4 sm:px-6 lg:px-8 flex items-center">
+            <Button variant="ghost" size="sm" onClick={() => navigate("/dashboard")} className="mr-4 text-cyan-100 hover:bg-cyan-900/30 hover:text-white">
+              <ArrowLeft className="h-4 w-4 mr-2" />
+              Back
+            </Button>
+            <h1 className="text-2xl font-bold text-white">Letterhead</h1>
+          </div>
+        </header>
+
+        <main className="max-w-5xl mx-auto py-6 sm:px-6 lg:px-8">
+          <div className="px-4 py-6 sm:px-0 space-y-6">
+            <Card className="bg-black/40 backdrop-blur-sm border-cyan-400/30 shadow-lg">
+              <CardHeader>
+                <CardTitle className="text-white">Institution</CardTitle>
+                <CardDescription className="text-cyan-200">
+                  {settings.canEdit
+                    ? "Printed at the top of every question paper, answer key and analysis report."
+                    : "Only admins can change the institution letterhead."}
+                </CardDescription>
+              </CardHeader>
+              <CardContent className="space-y-4">
+                <div>
+                  <label className="text-sm text-cyan-200">Institution Name</label>
+                  <Input
+                    value={settings.name}
+                    disabled={!settings.canEdit}
+                    onChange={(e) => setSettings({ ...settings, name: e.target.value })}
+                    className="bg-black/50 border-cyan-500/30 text-white"
+                  />
+                </div>
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                  {LETTERHEAD_FIELDS.map(({ field, label }) => (
+                    <div key={field}>
+                      <label className="text-sm text-cyan-200">{label}</label>
+                      <Input
+                        value={settings[field]}
+                        disabled={!settings.canEdit}
+                        placeholder={field === 'departmentLine' ? "Department of <the course's department>" : undefined}
+                        onChange={(e) => setSettings({ ...settings, [field]: e.target.value })}
+                        className="bg-black/50 border-cyan-500/30 text-white"
+                      />
+                    </div>
+                  ))}
+                </div>
+                <RegisterNumberFields
+                  value={settings.registerNumber}
+                  disabled={!settings.canEdit}
+                  onChange={(registerNumber) => setSettings({ ...settings, registerNumber })}
+                />
+                <div className="flex items-center gap-4">
+                  {settings.logo ? (
+                    <img src={settings.logo} alt="Institution logo" className="h-16 w-16 object-contain bg-white rounded" />
+                  ) : (
+                    <div className="h-16 w-16 rounded border border-dashed border-cyan-500/30 flex items-center justify-center text-xs text-cyan-300">
+                      No logo
+                    </div>
+                  )}
+                  {settings.canEdit && (
+                    <>
+                      <Input
+                        type="file"
+                        accept="image/png,image/jpeg"
+                        disabled={savingPart === "logo"}
+                        onChange={(e) => {
+                          const file = e.target.files?.[0];
+                          if (file) handleLogo(file);
+                          e.target.value = "";
+                        }}
+                        className="max-w-xs bg-black/40 border-cyan-500/30 text-white file:bg-cyan-600 file:text-white file:border-0"
+                      />
+                      {settings.logo && (
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          onClick={() => handleLogo(null)}
+                          disabled={savingPart === "logo"}
+                          className="text-red-300 hover:bg-red-900/30 hover:text-white border-red-500/30"
+                        >
+                          <Trash2 className="h-4 w-4 mr-2" />
+                          Remove
+                        </Button>
+                      )}
+                    </>
+                  )}
+                </div>
+                {settings.canEdit && (
+                  <div className="flex justify-end">
+                    <Button onClick={handleSaveInstitution} disabled={savingPart !== null || !settings.name.trim()} className="bg-cyan-600 hover:bg-cyan-500">
+                      {savingPart === "institution" ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Save className="h-4 w-4 mr-2" />}
+                      Save Institution
+                    </Button>
+                  </div>
+                )}
+              </CardContent>
+            </Card>
+
+            <Card className="bg-black/40 backdrop-blur-sm border-cyan-400/30 shadow-lg">
+              <CardHeader>
+                <CardTitle className="text-white">Department Overrides</CardTitle>
+                <CardDescription className="text-cyan-200">
+                  Papers of a department's courses use these in place of the institution's; leave a field empty to keep the institution's.
+                </CardDescription>
+              </CardHeader>
+              <CardContent className="space-y-4">
+                {currentUser?.role === 'admin' && (
+                  <div className="flex gap-2">
+                    <Input
+                      value={departmentName}
+                      placeholder="Department"
+                      onChange={(e) => setDepartmentName(e.target.value)}
+                      className="bg-black/50 border-cyan-500/30 text-white"
+                    />
+                    <Button
+                      variant="outline"
+                      onClick={() => loadDepartment(departmentName)}
+                      disabled={!departmentName.trim()}
+                      className="text-cyan-100 hover:bg-cyan-900/30 hover:text-white border-cyan-500/30"
+                    >
+                      Load
+                    </Button>
+                  </div>
+                )}
+                {loadedDepartment ? (
+                  <>
+                    <p className="text-white font-medium">{loadedDepartment}</p>
+                    <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                      {LETTERHEAD_FIELDS.map(({ field, label }) => (
+                        <div key={field}>
+                          <label className="text-sm text-cyan-200">{label}</label>
+                          <Input
+                            value={department[field] ?? ""}
+                            disabled={!canEditDepartment}
+                            placeholder={settings[field] || (field === 'departmentLine' ? `Department of ${loadedDepartment}` : "")}
+                            onChange={(e) => setDepartment({ ...department, [field]: e.target.value })}
+                            className="bg-black/50 border-cyan-500/30 text-white"
+                          />
+                        </div>
+                      ))}
+                    </div>
+                    <div className="flex items-center gap-3 text-sm text-cyan-200">
+                      <Switch
+                        checked={overridesRegisterNumber}
+                        disabled={!canEditDepartment}
+                        onCheckedChange={(checked) => setDepartment({
+                          ...department,
+                          registerNumber: checked ? { ...(settings.registerNumber ?? DEFAULT_BRANDING.registerNumber) } : null,
+                        })}
+                        className="data-[state=checked]:bg-cyan-600"
+                      />
+                      <span>Own {REGISTER_NUMBER_LABEL} box setting</span>
+                    </div>
+                    {overridesRegisterNumber && (
+                      <RegisterNumberFields
+                        value={{ enabled: Boolean(department.registerNumber?.enabled), digits: department.registerNumber?.digits ?? 0 }}
+                        disabled={!canEditDepartment}
+                        onChange={(registerNumber) => setDepartment({ ...department, registerNumber })}
+                      />
+                    )}
+                    {canEditDepartment && (
+                      <div className="flex justify-end">
+                        <Button onClick={handleSaveDepartment} disabled={savingPart !== null} className="bg-cyan-600 hover:bg-cyan-500">
+                          {savingPart === "department" ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Save className="h-4 w-4 mr-2" />}
+                          Save Department
+                        </Button>
+                      </div>
+                    )}
+                  </>
+                ) : (
+                  <p className="text-cyan-200">
+                    {currentUser?.role === 'admin' ? "Load a department to edit its overrides." : "Your profile has no department."}
+                  </p>
+                )}
+              </CardContent>
+            </Card>
+          </div>
+        </main>
+      </div>
+    </NetworkGridBackground>
+  );
+};
+
+export default BrandingSettings;
@@ -0,0 +1,268 @@
+// src/pages/CourseOutcomes.tsx - Define a course's outcomes (COs) and map syllabus topics to them
+import { useCallback, useEffect, useMemo, useState } from "react";
+import { useNavigate, useParams } from "react-router-dom";
+import axios from "axios";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import { useToast } from "@/components/ui/use-toast";
+import { ArrowLeft, Loader2, Network, Plus, Save, Target, Trash2 } from "lucide-react";
+import NetworkGridBackground from "@/components/NetworkGridBackground";
+import { bankQuestionAPI, coursesAPI, uploadAPI } from "@/lib/api";
+import { CourseOutcome, getTopicOutcome, nextOutcomeCode } from "@/lib/courseOutcomes";
+
+// Bank topics that are not in the syllabus are grouped on their own
+const OTHER_TOPICS = "Other bank topics";
+
+const CourseOutcomes = () => {
+  const { courseId } = useParams<{ courseId: string }>();
+  const navigate = useNavigate();
+  const { toast } = useToast();
+
+  const [course, setCourse] = useState<{ _id: string; name: string; code: string } | null>(null);
+  const [outcomes, setOutcomes] = useState<CourseOutcome[]>([]);
+  const [topicGroups, setTopicGroups] = useState<[string, string[]][]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isSaving, setIsSaving] = useState(false);
+  const [hasChanges, setHasChanges] = useState(false);
+
+  const loadOutcomes = useCallback(async () => {
+    if (!courseId) return;
+
+    try {
+      const [outcomesResponse, bankResponse] = await Promise.all([
+        coursesAPI.getOutcomes(courseId),
+        bankQuestionAPI.getQuestions(courseId),
+      ]);
+      setCourse(outcomesResponse.data.course);
+      setOutcomes(outcomesResponse.data.outcomes);
+
+      // Syllabus topics by unit come from the active upload, when there is one
+      let syllabus: { unit: string; topic: string }[] = [];
+      try {
+        syllabus = (await uploadAPI.getProcessedData(courseId)).data.topics || [];
+      } catch {
+        syllabus = [];
+      }
+
+      const groups = new Map<string, string[]>();
+      const seen = new Set<string>();
+      for (const { unit, topic } of syllabus) {
+        groups.set(unit, [...(groups.get(unit) ?? []), topic]);
+        seen.add(topic.toLowerCase());
+      }
+      const others = (bankResponse.data.facets.topics as string[]).filter(topic => !seen.has(topic.toLowerCase()));
+      if (others.length > 0) groups.set(OTHER_TOPICS, others);
+      setTopicGroups([...groups.entries()]);
+    } catch (error) {
+      const data = axios.isAxiosError(error) ? error.response?.data : undefined;
+      toast({
+        title: "Error",
+        description: data?.message || "Failed to load the course outcomes.",
+        variant: "destructive",
+      });
+    } finally {
+      setIsLoading(false);
+    }
+  }, [courseId, toast]);
+
+  useEffect(() => {
+    loadOutcomes();
+  }, [loadOutcomes]);
+
+  const allTopics = useMemo(() => topicGroups.flatMap(([, topics]) => topics), [topicGroups]);
+  const unmappedCount = allTopics.filter(topic => !getTopicOutcome(outcomes, topic)).length;
+
+  const updateOutcome = (idx: number, changes: Partial<CourseOutcome>) => {
+    setOutcomes(current => current.map((outcome, outcomeIdx) => outcomeIdx === idx ? { ...outcome, ...changes } : outcome));
+    setHasChanges(true);
+  };
+
+  // A topic belongs to one CO at most, so mapping it here takes it off any other CO
+  const toggleTopic = (idx: number, topic: string) => {
+    const key = topic.toLowerCase();
+    setOutcomes(current => current.map((outcome, outcomeIdx) => {
+      const without = outcome.topics.filter(mapped => mapped.toLowerCase() !== key);
+      if (outcomeIdx !== idx) return { ...outcome, topics: without };
+      return { ...outcome, topics: without.length < outcome.topics.length ? without : [...without, topic] };
+    }));
+    setHasChanges(true);
+  };
+
+  const addOutcome = () => {
+    setOutcomes(current => [...current, { code: nextOutcomeCode(current), statement: "", topics: [] }]);
+    setHasChanges(true);
+  };
+
+  const removeOutcome = (idx: number) => {
+    setOutcomes(current => current.filter((_, outcomeIdx) => outcomeIdx !== idx));
+    setHasChanges(true);
+  };
+
+  const handleSave = async () => {
+    if (!courseId) return;
+
+    setIsSaving(true);
+    try {
+      const response = await coursesAPI.updateOutcomes(courseId, outcomes);
+      setOutcomes(response.data.outcomes);
+      setHasChanges(false);
+      toast({
+        title: "Course outcomes saved",
+        description: "Papers and the question bank now use these COs.",
+      });
+    } catch (error) {
+      const data = axios.isAxiosError(error) ? error.response?.data : undefined;
+      toast({
+        title: "Save failed",
+        description: data?.errors?.join(". ") || data?.message || "Failed to save the course outcomes.",
+        variant: "destructive",
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  if (isLoading) {
+    return (
+      <NetworkGridBackground>
+        <div className="min-h-screen flex items-center justify-center">
+          <Loader2 className="h-8 w-8 animate-spin text-cyan-400" />
+        </div>
+      </NetworkGridBackground>
+    );
+  }
+
+  return (
+    <NetworkGridBackground>
+      <div className="min-h-screen">
+        <header className="bg-black/40 backdrop-blur-sm border-b border-cyan-500/20 shadow-sm">
+          <div className="max-w-7xl mx-auto py-4 px-4 sm:px-6 lg:px-8 flex items-center justify-between">
+            <div className="flex items-center">
+              <Button variant="ghost" size="sm" onClick={() => navigate(-1)} className="mr-4 text-cyan-100 hover:bg-cyan-900/30 hover:text-white">
+                <ArrowLeft className="h-4 w-4 mr-2" />
+                Back
+              </Button>
+              <div>
+                <h1 className="text-2xl font-bold text-white">Course Outcomes</h1>
+                {course && <p className="text-sm text-cyan-200">{course.name} ({course.code})</p>}
+              </div>
+            </div>
+            <div className="flex gap-2">
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => navigate(`/courses/${courseId}/po-mapping`)}
+                className="text-cyan-100 hover:bg-cyan-900/30 hover:text-white border-cyan-500/30"
+              >
+                <Network className="h-4 w-4 mr-2" />
+                CO-PO Mapping
+              </Button>
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={addOutcome}
+                className="text-cyan-100 hover:bg-cyan-900/30 hover:text-white border-cyan-500/30"
+              >
+                <Plus className="h-4 w-4 mr-2" />
+                Add CO
+              </Button>
+              <Button size="sm" onClick={handleSave} disabled={isSaving || !hasChanges} className="bg-cyan-600 hover:bg-cyan-500">
+                {isSaving ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Save className="h-4 w-4 mr-2" />}
+                Save
+              </Button>
+            </div>
+          </div>
+        </header>
+
+        <main className="max-w-7xl mx-auto py-6 sm:px-6 lg:px-8">
+          <div className="px-4 py-6 sm:px-0 space-y-6">
+            {outcomes.length === 0 && (
+              <Card className="bg-black/40 backdrop-blur-sm border-cyan-400/30 shadow-lg">
+                <CardContent className="pt-6 text-center text-cyan-100">
+                  <Target className="h-10 w-10 mx-auto mb-3 text-cyan-400" />
+                  No course outcomes yet. Add one CO per outcome statement of the syllabus, then map its topics.
+                </CardContent>
+              </Card>
+            )}
+
+            {allTopics.length > 0 && outcomes.length > 0 && (
+              <p className="text-sm text-cyan-200">
+                {unmappedCount === 0
+                  ? "Every topic is mapped to a CO."
+                  : `${unmappedCount} of ${allTopics.length} topics are not mapped to a CO. Questions on them keep the CO they are tagged with.`}
+              </p>
+            )}
+
+            {outcomes.map((outcome, idx) => (
+              <Card key={idx} className="bg-black/40 backdrop-blur-sm border-cyan-400/30 shadow-lg">
+                <CardHeader className="pb-3">
+                  <CardTitle className="flex items-center justify-between text-white">
+                    <Input
+                      value={outcome.code}
+                      onChange={(e) => updateOutcome(idx, { code: e.target.value.toUpperCase() })}
+                      className="w-24 bg-black/50 border-cyan-500/30 text-white font-semibold"
+                    />
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => removeOutcome(idx)}
+                      className="text-red-300 hover:text-red-100"
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </CardTitle>
+                  <CardDescription className="text-cyan-200">
+                    {outcome.topics.length} topic{outcome.topics.length === 1 ? "" : "s"} mapped
+                  </CardDescription>
+                </CardHeader>
+                <CardContent className="space-y-4">
+                  <Textarea
+                    value={outcome.statement}
+                    onChange={(e) => updateOutcome(idx, { statement: e.target.value })}
+                    placeholder="Students will be able to ..."
+                    className="bg-black/50 border-cyan-500/30 text-white"
+                  />
+                  {topicGroups.length === 0 ? (
+                    <p className="text-sm text-cyan-300/70">Upload a syllabus or add bank questions with topics to map them here.</p>
+                  ) : (
+                    topicGroups.map(([unit, topics]) => (
+                      <div key={unit} className="space-y-2">
+                        <p className="text-xs font-medium uppercase text-cyan-300">{unit}</p>
+                        <div className="flex flex-wrap gap-2">
+                          {topics.map(topic => {
+                            const owner = getTopicOutcome(outcomes, topic);
+                            const isMine = owner === outcome.code;
+                            return (
+                              <Badge
+                                key={topic}
+                                variant="outline"
+                                onClick={() => toggleTopic(idx, topic)}
+                                className={`cursor-pointer ${isMine
+                                  ? "bg-cyan-600 text-white border-cyan-500"
+                                  : owner
+                                    ? "text-cyan-300/50 border-cyan-500/20"
+                                    : "text-cyan-100 border-cyan-500/30 hover:bg-cyan-900/30"}`}
+                              >
+                                {topic}
+                                {owner && !isMine && <span className="ml-1 text-xs">({owner})</span>}
+                              </Badge>
+                            );
+                          })}
+                        </div>
+                      </div>
+                    ))
+                  )}
+                </CardContent>
+              </Card>
+            ))}
+          </div>
+        </main>
+      </div>
+    </NetworkGridBackground>
+  );
+};
+
+export default CourseOutcomes;
@@ -9,6 +9,14 @@ import { Separator } from "@/components/ui/separator";
 import { Badge } from "@/components/ui/badge";
 import { Alert, AlertDescription } from "@/components/ui/alert";
 import { coursesAPI, examsAPI, uploadAPI, questionPaperAPI } from "@/lib/api";
+import { EXAM_KIND_LABELS, EXAM_STATUS_LABELS, EXAM_STATUS_STYLES, ExamKind, ExamStatus, isExamLocked } from "@/lib/exams";
+import { getPaperFilename } from "@/lib/questionPaper";
+import { getAnswerKeyFilename } from "@/lib/answerKey";
+import { loadPaperDocument } from "@/lib/savedPapers";
+import { PAPER_STATUS_LABELS, PAPER_STATUS_STYLES, PaperStatus, isPaperDeletable } from "@/lib/paperReview";
+import { downloadQuestionPaperPdf } from "@/lib/pdfExport";
+import { saveBlob } from "@/lib/questionBank";
+import type { SetLabel } from "@/lib/paperSets";
 import { useToast } from "@/components/ui/use-toast";
 import { 
   Loader2, 
@@ -27,7 +35,11 @@ import {
   User,
   Download,
   Eye,
-  Trash2
+  Trash2,
+  ClipboardCheck,
+  Lock,
+  Stamp,
+  KeyRound
 } from "lucide-react";
 import NetworkGridBackground from "@/components/NetworkGridBackground";
 
@@ -39,11 +51,13 @@ interface Course {
 
 interface Exam {
   _id: string;
-  examType: string;
+  title: string;
+  examType: ExamKind;
   semester: string;
   course: Course;
   createdAt: string;
-  status?: string;
+  status: ExamStatus;
+  paperCount: number;
 }
 
 interface ProcessedUpload {
@@ -74,6 +88,10 @@ interface QuestionPaper {
   generationSource: string;
   downloadCount: number;
   lastDownloadedAt?: string;
+  status?: PaperStatus;
+  setLabel?: SetLabel;
+  // Frozen while the paper's exam is finalized or published
+  examLocked?: boolean;
   createdAt: string;
 }
 
@@ -160,11 +178,7 @@ const Dashboard = () => {
   };
 
   const handleViewExam = (examId: string) => {
-    // Navigate to exam details (you can implement this later)
-    toast({
-      title: "Feature coming soon",
-      description: "Exam details view will be available in the next update.",
-    });
+    navigate(`/exams/${examId}`);
   };
 
   const handleUseUploadData = (upload: ProcessedUpload) => {
@@ -178,11 +192,80 @@ const Dashboard = () => {
   };
 
   const handleViewQuestionPaper = (paper: QuestionPaper) => {
-    // You can implement a detailed view later
-    toast({
-      title: "Feature coming soon",
-      description: "Question paper detailed view will be available in the next update.",
-    });
+    navigate(`/question-papers/${paper._id}`);
+  };
+
+  // PDF and Word downloads both count towards the paper's downloads
+  const trackDownload = async (paperId: string) => {
+    try {
+      await questionPaperAPI.trackDownload(paperId);
+      setQuestionPapers(prev => prev.map(p => p._id === paperId ? { ...p, downloadCount: p.downloadCount + 1 } : p));
+      setStats(prev => ({ ...prev, totalDownloads: prev.totalDownloads + 1 }));
+    } catch (error) {
+      console.error('Failed to track download:', error);
+    }
+  };
+
+  const handleDownloadQuestionPaper = async (paperId: string) => {
+    try {
+      const { document: paper } = await loadPaperDocument(paperId);
+      const filename = getPaperFilename(paper, 'pdf');
+      downloadQuestionPaperPdf(paper, filename);
+      await trackDownload(paperId);
+
+      toast({
+        title: "Download Started",
+        description: `Question paper saved as ${filename}`,
+      });
+    } catch (error) {
+      toast({
+        title: "Download failed",
+        description: "Failed to export question paper. Please try again.",
+        variant: "destructive",
+      });
+    }
+  };
+
+  // The exam cell edits papers in Word before printing; the server renders the document
+  const handleDownloadQuestionPaperDocx = async (paper: QuestionPaper) => {
+    try {
+      const filename = getPaperFilename({ ...paper, course: paper.course.code }, 'docx');
+      const response = await questionPaperAPI.downloadDocx(paper._id);
+      saveBlob(response.data, filename);
+      await trackDownload(paper._id);
+
+      toast({
+        title: "Download Started",
+        description: `Question paper saved as ${filename}`,
+      });
+    } catch (error) {
+      toast({
+        title: "Download failed",
+        description: "Failed to export question paper. Please try again.",
+        variant: "destructive",
+      });
+    }
+  };
+
+  // The answer key goes to the exam cell with the paper, so it counts as a download too
+  const handleDownloadAnswerKeyDocx = async (paper: QuestionPaper) => {
+    try {
+      const filename = getAnswerKeyFilename({ ...paper, course: paper.course.code }, 'docx');
+      const response = await questionPaperAPI.downloadAnswerKeyDocx(paper._id);
+      saveBlob(response.data, filename);
+      await trackDownload(paper._id);
+
+      toast({
+        title: "Download Started",
+        description: `Answer key saved as ${filename}`,
+      });
+    } catch (error) {
+      toast({
+        title: "Download failed",
+        description: "Failed to export the answer key as a Word document.",
+        variant: "destructive",
+      });
+    }
   };
 
   const handleDeleteQuestionPaper = async (paperId: string) => {
@@ -268,6 +351,26 @@ const Dashboard = () => {
               </p>
             </div>
             <div className="flex items-center space-x-3 mt-4 md:mt-0">
+              {currentUser?.role === 'admin' && (
+                <Button 
+                  variant="outline" 
+                  size="sm"
+                  onClick={() => navigate("/review-queue")}
+                  className="bg-transparent border-cyan-500/50 text-cyan-100 hover:bg-cyan-900/30"
+                >
+                  <ClipboardCheck className="w-4 h-4 mr-2" />
+                  Review Queue
+                </Button>
+              )}
+              <Button 
+                variant="outline" 
+                size="sm"
+                onClick={() => navigate("/settings/branding")}
+                className="bg-transparent border-cyan-500/50 text-cyan-100 hover:bg-cyan-900/30"
+              >
+                <Stamp className="w-4 h-4 mr-2" />
+                Letterhead
+              </Button>
               <Button 
                 variant="outline" 
                 size="sm"
@@ -502,6 +605,10 @@ const Dashboard = () => {
                             <div>
                               <p className="font-medium text-white text-sm">
                                 {paper.examType} - {paper.course.code}
+                                <Badge className={`ml-2 text-[10px] px-1.5 py-0 ${PAPER_STATUS_STYLES[paper.status || 'DRAFT']}`}>
+                                  {PAPER_STATUS_LABELS[paper.status || 'DRAFT']}
+                                </Badge>
+                                {paper.examLocked && <Lock className="inline ml-1 h-3 w-3 text-yellow-300" aria-label="Exam finalized" />}
                               </p>
                               <p className="text-xs text-pink-200">
                                 Semester {paper.semester} • {getTimeAgo(paper.createdAt)}
@@ -520,11 +627,40 @@ const Dashboard = () => {
                             <Button
                               size="sm"
                               variant="ghost"
-                              onClick={() => handleDeleteQuestionPaper(paper._id)}
-                              className="h-6 w-6 p-0 text-red-300 hover:text-red-100"
+                              onClick={() => handleDownloadQuestionPaper(paper._id)}
+                              title="Download PDF"
+                              className="h-6 w-6 p-0 text-pink-300 hover:text-white"
+                            >
+                              <Download className="h-3 w-3" />
+                            </Button>
+                            <Button
+                              size="sm"
+                              variant="ghost"
+                              onClick={() => handleDownloadQuestionPaperDocx(paper)}
+                              title="Download Word"
+                              className="h-6 w-6 p-0 text-pink-300 hover:text-white"
                             >
-                              <Trash2 className="h-3 w-3" />
+                              <FileText className="h-3 w-3" />
                             </Button>
+                            <Button
+                              size="sm"
+                              variant="ghost"
+                              onClick={() => handleDownloadAnswerKeyDocx(paper)}
+                              title="Download answer key (Word)"
+                              className="h-6 w-6 p-0 text-pink-300 hover:text-white"
+                            >
+                              <KeyRound className="h-3 w-3" />
+                            </Button>
+                            {isPaperDeletable(paper.status, paper.examLocked) && (
+                              <Button
+                                size="sm"
+                                variant="ghost"
+                                onClick={() => handleDeleteQuestionPaper(paper._id)}
+                                className="h-6 w-6 p-0 text-red-300 hover:text-red-100"
+                              >
+                                <Trash2 className="h-3 w-3" />
+                              </Button>
+                            )}
                           </div>
                         </div>
                         <div className="flex justify-between text-xs text-pink-200">
@@ -566,15 +702,21 @@ const Dashboard = () => {
                         <div className="flex items-center justify-between">
                           <div>
                             <p className="font-medium text-white">
-                              {exam.examType} - {exam.course.code}
+                              {exam.title}
                             </p>
                             <p className="text-sm text-cyan-200">
-                              Semester {exam.semester} • {getTimeAgo(exam.createdAt)}
+                              {exam.course.code} • Semester {exam.semester} • {exam.paperCount} papers • {getTimeAgo(exam.createdAt)}
                             </p>
                           </div>
-                          <Badge variant="outline" className="text-cyan-200 border-cyan-500/30">
-                            {exam.examType}
-                          </Badge>
+                          <div className="flex gap-2">
+                            <Badge variant="outline" className="text-cyan-200 border-cyan-500/30">
+                              {EXAM_KIND_LABELS[exam.examType]}
+                            </Badge>
+                            <Badge className={EXAM_STATUS_STYLES[exam.status]}>
+                              {isExamLocked(exam.status) && <Lock className="h-3 w-3 mr-1" />}
+                              {EXAM_STATUS_LABELS[exam.status]}
+                            </Badge>
+                          </div>
                         </div>
                       </div>
                     ))}
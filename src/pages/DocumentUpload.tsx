@@ -1,5 +1,6 @@
 // src/pages/DocumentUpload.tsx - Enhanced with question paper generation flow
 import React, { useState, useEffect } from "react";
+import axios from "axios";
 import { useNavigate, useLocation } from "react-router-dom";
 import { useAuth } from "@/contexts/AuthContext";
 import { Button } from "@/components/ui/button";
@@ -11,7 +12,8 @@ import { Progress } from "@/components/ui/progress";
 import { Alert, AlertDescription } from "@/components/ui/alert";
 import { Badge } from "@/components/ui/badge";
 import { coursesAPI, uploadAPI } from "@/lib/api";
-import { ArrowLeft, Upload, FileText, CheckCircle, XCircle, Clock, PlusCircle, BookOpen } from "lucide-react";
+import { UPLOAD_MODE_LABELS, UploadMode } from "@/lib/bankVersions";
+import { ArrowLeft, Upload, FileText, CheckCircle, XCircle, Clock, PlusCircle, BookOpen, RotateCcw, ListChecks, History, Library } from "lucide-react";
 import NetworkGridBackground from "@/components/NetworkGridBackground";
 
 interface Course {
@@ -28,6 +30,10 @@ interface ProcessingStatus {
   topicsCount: number;
   processedAt?: string;
   createdAt: string;
+  failureReason?: string;
+  failedStage?: string;
+  attempts?: number;
+  maxAttempts?: number;
 }
 
 const DocumentUpload = () => {
@@ -40,10 +46,12 @@ const DocumentUpload = () => {
   const [selectedCourse, setSelectedCourse] = useState<string>("");
   const [questionBankFile, setQuestionBankFile] = useState<File | null>(null);
   const [syllabusFile, setSyllabusFile] = useState<File | null>(null);
+  const [uploadMode, setUploadMode] = useState<UploadMode>('replace');
   const [isUploading, setIsUploading] = useState(false);
   const [isLoading, setIsLoading] = useState(false);
   const [processingStatus, setProcessingStatus] = useState<ProcessingStatus | null>(null);
   const [uploads, setUploads] = useState<ProcessingStatus[]>([]);
+  const [retryingId, setRetryingId] = useState<string | null>(null);
   
   // Pre-filled exam configuration from navigation state
   const [prefilledConfig, setPrefilledConfig] = useState<{
@@ -157,6 +165,7 @@ const DocumentUpload = () => {
       formData.append('courseId', selectedCourse);
       formData.append('questionBank', questionBankFile);
       formData.append('syllabus', syllabusFile);
+      formData.append('mode', uploadMode);
       
       const response = await uploadAPI.processDocuments(formData);
       
@@ -206,7 +215,7 @@ const DocumentUpload = () => {
           } else {
             toast({
               title: "Processing failed",
-              description: "Document processing failed. Please try again.",
+              description: status.failureReason || "Document processing failed. Please try again.",
               variant: "destructive",
             });
           }
@@ -227,6 +236,29 @@ const DocumentUpload = () => {
     }, 600000);
   };
 
+  const handleRetry = async (upload: ProcessingStatus) => {
+    setRetryingId(upload.processId);
+    try {
+      await uploadAPI.retryProcessing(upload.processId);
+      toast({
+        title: "Processing restarted",
+        description: `${upload.course.name} documents have been queued again.`,
+      });
+      setProcessingStatus({ ...upload, status: 'PENDING', failureReason: undefined, failedStage: undefined });
+      pollProcessingStatus(upload.processId);
+      fetchMyUploads();
+    } catch (error) {
+      const data = axios.isAxiosError(error) ? error.response?.data : undefined;
+      toast({
+        title: "Retry failed",
+        description: data?.message || "Failed to restart processing. Please try again.",
+        variant: "destructive",
+      });
+    } finally {
+      setRetryingId(null);
+    }
+  };
+
   const getStatusIcon = (status: string) => {
     switch (status) {
       case 'COMPLETED':
@@ -392,6 +424,23 @@ const DocumentUpload = () => {
                   </div>
                 </div>
                 
+                <div className="space-y-2">
+                  <label className="text-sm font-medium text-cyan-100">When processing completes</label>
+                  <Select value={uploadMode} onValueChange={(value) => setUploadMode(value as UploadMode)}>
+                    <SelectTrigger className="bg-black/40 border-cyan-500/30 text-white">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent className="bg-slate-800 text-white border-slate-700">
+                      {(Object.keys(UPLOAD_MODE_LABELS) as UploadMode[]).map((mode) => (
+                        <SelectItem key={mode} value={mode}>{UPLOAD_MODE_LABELS[mode]}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  {uploadMode === 'merge' && (
+                    <p className="text-sm text-cyan-200">New questions and topics are added to the active bank; questions it already has are kept with their corrections.</p>
+                  )}
+                </div>
+                
                 <Button 
                   onClick={handleUpload}
                   disabled={isUploading || !selectedCourse || !questionBankFile || !syllabusFile}
@@ -431,6 +480,27 @@ const DocumentUpload = () => {
                       <span className="text-cyan-100">Status:</span>
                       <span className="text-white">{getStatusText(processingStatus.status)}</span>
                     </div>
+                    {!!processingStatus.attempts && processingStatus.status !== 'COMPLETED' && (
+                      <div className="flex justify-between">
+                        <span className="text-cyan-100">Attempt:</span>
+                        <span className="text-white">{processingStatus.attempts} of {processingStatus.maxAttempts}</span>
+                      </div>
+                    )}
+                    {processingStatus.failureReason && (
+                      <p className="text-sm text-red-300">{processingStatus.failureReason}</p>
+                    )}
+                    {processingStatus.status === 'FAILED' && (
+                      <div className="pt-4">
+                        <Button
+                          onClick={() => handleRetry(processingStatus)}
+                          disabled={retryingId !== null}
+                          className="w-full bg-cyan-600 hover:bg-cyan-500"
+                        >
+                          <RotateCcw className="h-4 w-4 mr-2" />
+                          Retry Processing
+                        </Button>
+                      </div>
+                    )}
                     {processingStatus.status === 'COMPLETED' && (
                       <>
                         <div className="flex justify-between">
@@ -481,12 +551,55 @@ const DocumentUpload = () => {
                               {new Date(upload.createdAt).toLocaleDateString()}
                               {upload.status === 'COMPLETED' && ` • ${upload.questionsCount} questions, ${upload.topicsCount} topics`}
                             </p>
+                            {upload.failureReason && upload.status !== 'COMPLETED' && (
+                              <p className="text-xs text-red-300">{upload.failureReason}</p>
+                            )}
                           </div>
                         </div>
                         <div className="flex items-center space-x-2">
                           <Badge variant={upload.status === 'COMPLETED' ? 'default' : 'secondary'}>
                             {getStatusText(upload.status)}
                           </Badge>
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            onClick={() => navigate(`/courses/${upload.course._id}/bank-versions`)}
+                            title="Versions"
+                            className="text-cyan-100 hover:bg-cyan-900/30 hover:text-white"
+                          >
+                            <History className="h-3 w-3" />
+                          </Button>
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            onClick={() => navigate(`/courses/${upload.course._id}/question-bank`)}
+                            title="Question bank"
+                            className="text-cyan-100 hover:bg-cyan-900/30 hover:text-white"
+                          >
+                            <Library className="h-3 w-3" />
+                          </Button>
+                          {upload.status === 'FAILED' && (
+                            <Button
+                              size="sm"
+                              onClick={() => handleRetry(upload)}
+                              disabled={retryingId !== null}
+                              className="bg-cyan-600 hover:bg-cyan-500"
+                            >
+                              <RotateCcw className="h-3 w-3 mr-1" />
+                              Retry
+                            </Button>
+                          )}
+                          {upload.status === 'COMPLETED' && (
+                            <Button
+                              variant="outline"
+                              size="sm"
+                              onClick={() => navigate(`/processed-data/${upload.processId}/review`)}
+                              className="text-cyan-100 hover:bg-cyan-900/30 hover:text-white border-cyan-500/30"
+                            >
+                              <ListChecks className="h-3 w-3 mr-1" />
+                              Review
+                            </Button>
+                          )}
                           {upload.status === 'COMPLETED' && (
                             <Button 
                               size="sm"
@@ -0,0 +1,439 @@
+// src/pages/ExamDetail.tsx - An exam with the question papers set for it, its status and history
+import { useCallback, useEffect, useState } from "react";
+import { useNavigate, useParams } from "react-router-dom";
+import axios from "axios";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { Input } from "@/components/ui/input";
+import { useToast } from "@/components/ui/use-toast";
+import { ArrowLeft, History, Loader2, Lock, Pencil, Plus, Save, Trash2, Unlock } from "lucide-react";
+import NetworkGridBackground from "@/components/NetworkGridBackground";
+import ExamFields from "@/components/ExamFields";
+import { examsAPI } from "@/lib/api";
+import {
+  EXAM_KIND_LABELS,
+  EXAM_STATUS_LABELS,
+  EXAM_STATUS_STYLES,
+  EXAM_TRANSITION_LABELS,
+  HISTORY_EVENT_LABELS,
+  ExamDetail as ExamDetailData,
+  ExamDraft,
+  ExamHistoryEntry,
+  ExamStatus,
+  formatExamDate,
+  formatExamHeader,
+  getExamInstructions,
+  getPaperExamType,
+  isExamLocked,
+  toExamDraft,
+} from "@/lib/exams";
+import { PAPER_STATUS_LABELS, PAPER_STATUS_STYLES } from "@/lib/paperReview";
+
+// Status changes carry raw status values; show them with the labels of whatever changed
+const formatHistoryChange = (entry: ExamHistoryEntry) => {
+  if (!entry.to) return "";
+  const labels: Record<string, string> = entry.event === 'EXAM_STATUS' ? EXAM_STATUS_LABELS : PAPER_STATUS_LABELS;
+  const to = labels[entry.to] ?? entry.to;
+  return entry.from ? `${labels[entry.from] ?? entry.from} → ${to}` : to;
+};
+
+const ExamDetail = () => {
+  const { id } = useParams<{ id: string }>();
+  const navigate = useNavigate();
+  const { toast } = useToast();
+
+  const [detail, setDetail] = useState<ExamDetailData | null>(null);
+  const [draft, setDraft] = useState<ExamDraft | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isSaving, setIsSaving] = useState(false);
+  const [isDeleting, setIsDeleting] = useState(false);
+  const [statusNote, setStatusNote] = useState("");
+  const [isChangingStatus, setIsChangingStatus] = useState(false);
+
+  const showError = useCallback((title: string, fallback: string, error: unknown) => {
+    const data = axios.isAxiosError(error) ? error.response?.data : undefined;
+    toast({
+      title,
+      description: data?.errors?.[0]?.msg || data?.message || fallback,
+      variant: "destructive",
+    });
+  }, [toast]);
+
+  const loadExam = useCallback(async () => {
+    if (!id) return;
+
+    try {
+      const response = await examsAPI.getExam(id);
+      setDetail(response.data);
+    } catch (error) {
+      showError("Error", "Failed to load the exam.", error);
+      navigate("/dashboard");
+    } finally {
+      setIsLoading(false);
+    }
+  }, [id, navigate, showError]);
+
+  useEffect(() => {
+    loadExam();
+  }, [loadExam]);
+
+  const handleSave = async () => {
+    if (!id || !draft) return;
+
+    setIsSaving(true);
+    try {
+      await examsAPI.updateExam(id, draft);
+      setDraft(null);
+      await loadExam();
+      toast({
+        title: "Exam Updated",
+        description: "The headers of this exam's papers follow the new details.",
+      });
+    } catch (error) {
+      showError("Update Failed", "Failed to update the exam.", error);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleStatusChange = async (status: ExamStatus) => {
+    if (!id) return;
+
+    setIsChangingStatus(true);
+    try {
+      await examsAPI.updateExamStatus(id, status, statusNote.trim() || undefined);
+      setStatusNote("");
+      await loadExam();
+      toast({
+        title: "Status Updated",
+        description: `The exam is now ${EXAM_STATUS_LABELS[status].toLowerCase()}.`,
+      });
+    } catch (error) {
+      showError("Update Failed", "Failed to update the exam status.", error);
+    } finally {
+      setIsChangingStatus(false);
+    }
+  };
+
+  const handleUnlock = async () => {
+    if (!id || !statusNote.trim()) return;
+
+    setIsChangingStatus(true);
+    try {
+      await examsAPI.unlockExam(id, statusNote.trim());
+      setStatusNote("");
+      await loadExam();
+      toast({
+        title: "Exam Unlocked",
+        description: "The exam and its papers are back in draft.",
+      });
+    } catch (error) {
+      showError("Unlock Failed", "Failed to unlock the exam.", error);
+    } finally {
+      setIsChangingStatus(false);
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!id) return;
+
+    setIsDeleting(true);
+    try {
+      await examsAPI.deleteExam(id);
+      toast({
+        title: "Exam Deleted",
+        description: "The exam has been deleted.",
+      });
+      navigate("/dashboard");
+    } catch (error) {
+      showError("Delete Failed", "Failed to delete the exam.", error);
+      setIsDeleting(false);
+    }
+  };
+
+  // Generating from here adds the paper to this exam
+  const handleGeneratePaper = () => {
+    if (!detail) return;
+    const { exam } = detail;
+    const paperExamType = getPaperExamType(exam.examType);
+
+    navigate(paperExamType === "CIE" ? "/cie-exam-setup" : "/semester-exam-setup", {
+      state: {
+        examType: paperExamType,
+        semester: exam.semester,
+        course: exam.course.code,
+        courseId: exam.course._id,
+        examId: exam._id,
+      },
+    });
+  };
+
+  if (isLoading || !detail) {
+    return (
+      <NetworkGridBackground>
+        <div className="flex items-center justify-center min-h-screen">
+          <div className="text-white">Loading...</div>
+        </div>
+      </NetworkGridBackground>
+    );
+  }
+
+  const { exam, papers, history, isOwner, availableTransitions, canUnlock } = detail;
+  const instructions = getExamInstructions(exam);
+  const isLocked = isExamLocked(exam.status);
+
+  return (
+    <NetworkGridBackground>
+      <div className="min-h-screen">
+        <header className="bg-black/40 backdrop-blur-sm border-b border-cyan-500/20 shadow-sm">
+          <div className="max-w-7xl mx-auto py-4 px-4 sm:px-6 lg:px-8 flex items-center justify-between">
+            <div className="flex items-center">
+              <Button variant="ghost" size="sm" onClick={() => navigate("/dashboard")} className="mr-4 text-cyan-100 hover:bg-cyan-900/30 hover:text-white">
+                <ArrowLeft className="h-4 w-4 mr-2" />
+                Back
+              </Button>
+              <h1 className="text-2xl font-bold text-white">{exam.title}</h1>
+              <Badge className={`ml-3 ${EXAM_STATUS_STYLES[exam.status]}`}>
+                {isLocked && <Lock className="h-3 w-3 mr-1" />}
+                {EXAM_STATUS_LABELS[exam.status]}
+              </Badge>
+            </div>
+            {isOwner && !isLocked && (
+              <div className="flex gap-2">
+                {papers.length === 0 && (
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={handleDelete}
+                    disabled={isDeleting}
+                    className="text-red-300 hover:bg-red-900/30 hover:text-white border-red-500/30"
+                  >
+                    {isDeleting ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Trash2 className="h-4 w-4 mr-2" />}
+                    Delete Exam
+                  </Button>
+                )}
+                <Button size="sm" onClick={handleGeneratePaper} className="bg-cyan-600 hover:bg-cyan-500">
+                  <Plus className="h-4 w-4 mr-2" />
+                  Generate Paper
+                </Button>
+              </div>
+            )}
+          </div>
+        </header>
+
+        <main className="max-w-7xl mx-auto py-6 sm:px-6 lg:px-8">
+          <div className="px-4 py-6 sm:px-0 space-y-6">
+            <Card className="bg-black/40 backdrop-blur-sm border-cyan-400/30 shadow-lg">
+              <CardHeader>
+                <CardTitle className="flex justify-between items-center text-white">
+                  <span>Exam Details</span>
+                  {isOwner && !isLocked && !draft && (
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => setDraft(toExamDraft(exam))}
+                      className="text-cyan-100 hover:bg-cyan-900/30 hover:text-white border-cyan-500/30"
+                    >
+                      <Pencil className="h-4 w-4 mr-2" />
+                      Edit
+                    </Button>
+                  )}
+                </CardTitle>
+                <CardDescription className="text-cyan-200">
+                  Duration, date, instructions and max marks are printed in the header of every paper of this exam.
+                </CardDescription>
+              </CardHeader>
+              <CardContent>
+                {draft ? (
+                  <div className="space-y-4">
+                    <ExamFields draft={draft} onChange={(changes) => setDraft({ ...draft, ...changes })} />
+                    <div className="flex justify-end gap-2">
+                      <Button
+                        variant="outline"
+                        onClick={() => setDraft(null)}
+                        className="text-cyan-100 hover:bg-cyan-900/30 hover:text-white border-cyan-500/30"
+                      >
+                        Cancel
+                      </Button>
+                      <Button onClick={handleSave} disabled={isSaving || !draft.title.trim()} className="bg-cyan-600 hover:bg-cyan-500">
+                        {isSaving ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Save className="h-4 w-4 mr-2" />}
+                        Save
+                      </Button>
+                    </div>
+                  </div>
+                ) : (
+                  <div className="space-y-4">
+                    <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+                      <div>
+                        <p className="text-sm text-cyan-200">Course</p>
+                        <p className="font-medium text-white">{exam.course.name} ({exam.course.code})</p>
+                      </div>
+                      <div>
+                        <p className="text-sm text-cyan-200">Exam</p>
+                        <p className="font-medium text-white">{EXAM_KIND_LABELS[exam.examType]} - Semester {exam.semester}</p>
+                      </div>
+                      <div>
+                        <p className="text-sm text-cyan-200">Date</p>
+                        <p className="font-medium text-white">{formatExamDate(exam.examDate) || "Not set"}</p>
+                      </div>
+                      <div>
+                        <p className="text-sm text-cyan-200">Duration / Marks</p>
+                        <p className="font-medium text-white">{formatExamHeader(exam)}</p>
+                      </div>
+                    </div>
+                    {instructions.length > 0 && (
+                      <div>
+                        <p className="text-sm text-cyan-200">Instructions</p>
+                        <ol className="list-decimal list-inside text-white">
+                          {instructions.map((instruction, idx) => <li key={idx}>{instruction}</li>)}
+                        </ol>
+                      </div>
+                    )}
+                  </div>
+                )}
+              </CardContent>
+            </Card>
+
+            {isLocked && (
+              <Alert className="bg-yellow-900/30 border-yellow-500/40">
+                <Lock className="h-4 w-4 text-yellow-300" />
+                <AlertDescription className="text-yellow-100">
+                  This exam is {EXAM_STATUS_LABELS[exam.status].toLowerCase()}: its details, papers and answer keys are locked.
+                  {canUnlock ? " Unlocking returns it to draft and records your reason." : " Only an admin can unlock it."}
+                </AlertDescription>
+              </Alert>
+            )}
+
+            {(availableTransitions.length > 0 || canUnlock) && (
+              <Card className="bg-black/40 backdrop-blur-sm border-cyan-400/30 shadow-lg">
+                <CardHeader>
+                  <CardTitle className="text-white">Status</CardTitle>
+                  <CardDescription className="text-cyan-200">
+                    {canUnlock ? "A reason is required to unlock the exam." : "Finalizing locks the exam's papers and answer keys."}
+                  </CardDescription>
+                </CardHeader>
+                <CardContent>
+                  <div className="flex flex-col md:flex-row gap-2">
+                    <Input
+                      placeholder={canUnlock ? "Reason for unlocking" : "Note (optional)"}
+                      value={statusNote}
+                      onChange={(e) => setStatusNote(e.target.value)}
+                      className="bg-black/50 border-cyan-500/30 text-white"
+                    />
+                    {availableTransitions.map(status => (
+                      <Button
+                        key={status}
+                        onClick={() => handleStatusChange(status)}
+                        disabled={isChangingStatus}
+                        className="bg-cyan-600 hover:bg-cyan-500"
+                      >
+                        {status === 'FINALIZED' && <Lock className="h-4 w-4 mr-2" />}
+                        {EXAM_TRANSITION_LABELS[status]}
+                      </Button>
+                    ))}
+                    {canUnlock && (
+                      <Button
+                        variant="outline"
+                        onClick={handleUnlock}
+                        disabled={isChangingStatus || !statusNote.trim()}
+                        className="text-yellow-200 hover:bg-yellow-900/30 hover:text-white border-yellow-500/40"
+                      >
+                        <Unlock className="h-4 w-4 mr-2" />
+                        Unlock
+                      </Button>
+                    )}
+                  </div>
+                </CardContent>
+              </Card>
+            )}
+
+            <Card className="bg-black/40 backdrop-blur-sm border-cyan-400/30 shadow-lg">
+              <CardHeader>
+                <CardTitle className="text-white">Question Papers</CardTitle>
+                <CardDescription className="text-cyan-200">
+                  {papers.length} paper{papers.length === 1 ? "" : "s"} set for this exam
+                </CardDescription>
+              </CardHeader>
+              <CardContent>
+                {papers.length > 0 ? (
+                  <div className="space-y-3">
+                    {papers.map(paper => (
+                      <div
+                        key={paper._id}
+                        className="p-3 bg-black/30 rounded-md border border-cyan-500/20 hover:bg-black/40 transition-colors cursor-pointer"
+                        onClick={() => navigate(`/question-papers/${paper._id}`)}
+                      >
+                        <div className="flex items-center justify-between">
+                          <div>
+                            <p className="font-medium text-white">{paper.title}</p>
+                            <p className="text-sm text-cyan-200">
+                              {paper.totalMarks} marks • {paper.totalQuestions} questions • Revision {paper.revision ?? 1} • {paper.downloadCount} downloads
+                            </p>
+                          </div>
+                          <div className="flex gap-2">
+                            {paper.examLocked && (
+                              <Badge
+                                variant="outline"
+                                title={paper.contentHash ? `SHA-256 ${paper.contentHash}` : undefined}
+                                className={paper.intact ? "text-green-300 border-green-500/40" : "text-red-300 border-red-500/40"}
+                              >
+                                <Lock className="h-3 w-3 mr-1" />
+                                {paper.intact ? "Matches finalized hash" : "Changed since finalized"}
+                              </Badge>
+                            )}
+                            {paper.setLabel && (
+                              <Badge variant="outline" className="text-white border-white/30">Set {paper.setLabel}</Badge>
+                            )}
+                            <Badge className={PAPER_STATUS_STYLES[paper.status]}>{PAPER_STATUS_LABELS[paper.status]}</Badge>
+                          </div>
+                        </div>
+                      </div>
+                    ))}
+                  </div>
+                ) : (
+                  <p className="text-cyan-200">No papers have been generated for this exam yet.</p>
+                )}
+              </CardContent>
+            </Card>
+
+            <Card className="bg-black/40 backdrop-blur-sm border-cyan-400/30 shadow-lg">
+              <CardHeader>
+                <CardTitle className="flex items-center text-white">
+                  <History className="h-5 w-5 mr-2 text-cyan-400" />
+                  History
+                </CardTitle>
+              </CardHeader>
+              <CardContent>
+                <div className="space-y-3">
+                  {history.map((entry, idx) => (
+                    <div key={idx} className="p-3 rounded-md bg-black/20 border border-cyan-500/20">
+                      <div className="flex items-center justify-between">
+                        <p className="text-white">
+                          {HISTORY_EVENT_LABELS[entry.event]}
+                          {entry.paper && ` "${entry.paper.title}"`}
+                          {formatHistoryChange(entry) && `: ${formatHistoryChange(entry)}`}
+                        </p>
+                        <span className="text-xs text-cyan-300">{new Date(entry.at).toLocaleString()}</span>
+                      </div>
+                      {(entry.by || entry.note) && (
+                        <p className="text-sm text-cyan-200">
+                          {entry.by && `by ${entry.by.name}`}
+                          {entry.by && entry.note && " • "}
+                          {entry.note}
+                        </p>
+                      )}
+                    </div>
+                  ))}
+                </div>
+              </CardContent>
+            </Card>
+          </div>
+        </main>
+      </div>
+    </NetworkGridBackground>
+  );
+};
+
+export default ExamDetail;
@@ -0,0 +1,571 @@
+// src/pages/ExamPatterns.tsx - Editor for exam patterns (sections, parts, marks and choice rules)
+import { useCallback, useEffect, useState } from "react";
+import { useNavigate } from "react-router-dom";
+import axios from "axios";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Badge } from "@/components/ui/badge";
+import { useToast } from "@/components/ui/use-toast";
+import { ArrowLeft, Copy, Loader2, Plus, Save, Trash2 } from "lucide-react";
+import { examPatternAPI } from "@/lib/api";
+import { ExamPattern, PatternPart, PatternSection, computeMaxMarks } from "@/lib/examPattern";
+import { QUESTION_TYPE_LABELS, QuestionType, isObjective } from "@/lib/questionTypes";
+import NetworkGridBackground from "@/components/NetworkGridBackground";
+
+type PatternDraft = Omit<ExamPattern, '_id' | 'isDefault'> & { _id?: string };
+
+const emptySection = (number: number): PatternSection => ({
+  title: `Section ${number}`,
+  unit: "",
+  marks: 10,
+  parts: [
+    { label: "a", marks: 5, optional: false, defaultLevel: "medium" },
+    { label: "b", marks: 5, optional: false, defaultLevel: "medium" }
+  ]
+});
+
+const emptyPattern = (): PatternDraft => ({
+  name: "",
+  description: "",
+  examType: "CIE",
+  sections: [emptySection(1)],
+  choiceRule: { mode: "ALL" },
+  totalMarks: 10,
+  duration: 60,
+  instructions: ["Answer all questions"]
+});
+
+const toDraft = (pattern: ExamPattern): PatternDraft => {
+  const { isDefault, ...rest } = pattern;
+  return JSON.parse(JSON.stringify(rest));
+};
+
+const ExamPatterns = () => {
+  const navigate = useNavigate();
+  const { toast } = useToast();
+
+  const [patterns, setPatterns] = useState<ExamPattern[]>([]);
+  const [draft, setDraft] = useState<PatternDraft>(emptyPattern());
+  const [isLoading, setIsLoading] = useState<boolean>(true);
+  const [isSaving, setIsSaving] = useState<boolean>(false);
+
+  const fetchPatterns = useCallback(async () => {
+    try {
+      setIsLoading(true);
+      const response = await examPatternAPI.getPatterns();
+      setPatterns(response.data);
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: "Failed to load exam patterns. Please try again.",
+        variant: "destructive",
+      });
+    } finally {
+      setIsLoading(false);
+    }
+  }, [toast]);
+
+  useEffect(() => {
+    fetchPatterns();
+  }, [fetchPatterns]);
+
+  const selectedPattern = patterns.find(p => p._id === draft._id);
+  const isReadOnly = Boolean(selectedPattern?.isDefault);
+  const maxMarks = computeMaxMarks({ ...draft, _id: draft._id || "" });
+
+  const updateSection = (sectionIdx: number, changes: Partial<PatternSection>) => {
+    setDraft(prev => ({
+      ...prev,
+      sections: prev.sections.map((section, idx) => idx === sectionIdx ? { ...section, ...changes } : section)
+    }));
+  };
+
+  const updatePart = (sectionIdx: number, partIdx: number, changes: Partial<PatternPart>) => {
+    const section = draft.sections[sectionIdx];
+    updateSection(sectionIdx, {
+      parts: section.parts.map((part, idx) => idx === partIdx ? { ...part, ...changes } : part)
+    });
+  };
+
+  const addPart = (sectionIdx: number) => {
+    const section = draft.sections[sectionIdx];
+    const label = String.fromCharCode(97 + section.parts.length);
+    updateSection(sectionIdx, {
+      parts: [...section.parts, { label, marks: 5, optional: false, defaultLevel: "medium" }]
+    });
+  };
+
+  const removePart = (sectionIdx: number, partIdx: number) => {
+    const section = draft.sections[sectionIdx];
+    updateSection(sectionIdx, { parts: section.parts.filter((_, idx) => idx !== partIdx) });
+  };
+
+  const addSection = () => {
+    setDraft(prev => ({ ...prev, sections: [...prev.sections, emptySection(prev.sections.length + 1)] }));
+  };
+
+  const removeSection = (sectionIdx: number) => {
+    setDraft(prev => ({ ...prev, sections: prev.sections.filter((_, idx) => idx !== sectionIdx) }));
+  };
+
+  const handleDuplicate = () => {
+    const { _id, ...rest } = draft;
+    setDraft({ ...rest, name: `${draft.name} (copy)` });
+  };
+
+  const handleSave = async () => {
+    if (!draft.name.trim()) {
+      toast({
+        title: "Missing name",
+        description: "Please give the pattern a name.",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    setIsSaving(true);
+
+    try {
+      const { _id, ...rest } = draft;
+      const pattern = { ...rest, instructions: rest.instructions.filter(line => line.trim()) };
+      const response = _id
+        ? await examPatternAPI.updatePattern(_id, pattern)
+        : await examPatternAPI.createPattern(pattern);
+
+      setDraft(toDraft(response.data));
+      await fetchPatterns();
+
+      toast({
+        title: "Pattern saved",
+        description: `${response.data.name} is now available in the exam setup pages.`,
+      });
+    } catch (error) {
+      const data = axios.isAxiosError(error) ? error.response?.data : undefined;
+      toast({
+        title: "Save failed",
+        description: data?.errors?.join(". ") || data?.message || "Failed to save pattern.",
+        variant: "destructive",
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!draft._id) return;
+
+    try {
+      await examPatternAPI.deletePattern(draft._id);
+      setDraft(emptyPattern());
+      await fetchPatterns();
+      toast({
+        title: "Pattern deleted",
+        description: "The exam pattern has been removed.",
+      });
+    } catch (error) {
+      toast({
+        title: "Delete failed",
+        description: "Failed to delete pattern. Please try again.",
+        variant: "destructive",
+      });
+    }
+  };
+
+  return (
+    <NetworkGridBackground>
+      <div className="min-h-screen">
+        <header className="bg-black/40 backdrop-blur-sm border-b border-cyan-500/20 shadow-sm">
+          <div className="max-w-7xl mx-auto py-4 px-4 sm:px-6 lg:px-8 flex items-center">
+            <Button variant="ghost" size="sm" onClick={() => navigate(-1)} className="mr-4 text-cyan-100 hover:bg-cyan-900/30 hover:text-white">
+              <ArrowLeft className="h-4 w-4 mr-2" />
+              Back
+            </Button>
+            <h1 className="text-2xl font-bold text-white">Exam Patterns</h1>
+          </div>
+        </header>
+
+        <main className="max-w-7xl mx-auto py-6 sm:px-6 lg:px-8">
+          <div className="px-4 py-6 sm:px-0 grid grid-cols-1 lg:grid-cols-3 gap-6">
+
+            {/* Pattern list */}
+            <Card className="shadow-xl bg-black/40 backdrop-blur-sm border-cyan-500/30 h-fit">
+              <CardHeader>
+                <CardTitle className="flex justify-between items-center text-white">
+                  <span>Patterns</span>
+                  <Button size="sm" onClick={() => setDraft(emptyPattern())} className="bg-cyan-600 hover:bg-cyan-500">
+                    <Plus className="h-4 w-4 mr-1" />
+                    New
+                  </Button>
+                </CardTitle>
+              </CardHeader>
+              <CardContent>
+                {isLoading ? (
+                  <Loader2 className="h-6 w-6 animate-spin text-cyan-400 mx-auto" />
+                ) : (
+                  <div className="space-y-2">
+                    {patterns.map(pattern => (
+                      <div
+                        key={pattern._id}
+                        onClick={() => setDraft(toDraft(pattern))}
+                        className={`p-3 rounded-md border cursor-pointer transition-colors ${draft._id === pattern._id ? "bg-cyan-900/40 border-cyan-400/50" : "bg-black/30 border-cyan-500/20 hover:bg-black/40"}`}
+                      >
+                        <div className="flex items-center justify-between">
+                          <p className="text-white text-sm font-medium">{pattern.name}</p>
+                          <Badge variant="outline" className="text-cyan-200 border-cyan-500/30">{pattern.examType}</Badge>
+                        </div>
+                        <p className="text-xs text-cyan-200 mt-1">
+                          {pattern.sections.length} sections • {pattern.totalMarks} marks
+                          {pattern.isDefault && " • Built-in"}
+                        </p>
+                      </div>
+                    ))}
+                  </div>
+                )}
+              </CardContent>
+            </Card>
+
+            {/* Pattern form */}
+            <div className="lg:col-span-2 space-y-6">
+              <Card className="shadow-xl bg-black/40 backdrop-blur-sm border-cyan-500/30">
+                <CardHeader>
+                  <CardTitle className="text-white">{draft._id ? draft.name : "New Pattern"}</CardTitle>
+                  {isReadOnly && (
+                    <CardDescription className="text-yellow-200">
+                      Built-in patterns cannot be changed. Duplicate it to make your own version.
+                    </CardDescription>
+                  )}
+                </CardHeader>
+                <CardContent className="space-y-4">
+                  <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                    <div>
+                      <label className="text-sm text-cyan-200">Name</label>
+                      <Input
+                        value={draft.name}
+                        disabled={isReadOnly}
+                        onChange={(e) => setDraft(prev => ({ ...prev, name: e.target.value }))}
+                        className="bg-black/50 border-cyan-500/30 text-white"
+                      />
+                    </div>
+                    <div>
+                      <label className="text-sm text-cyan-200">Exam Type</label>
+                      <Select
+                        value={draft.examType}
+                        disabled={isReadOnly}
+                        onValueChange={(examType) => setDraft(prev => ({ ...prev, examType: examType as ExamPattern['examType'] }))}
+                      >
+                        <SelectTrigger className="border-cyan-500/30 bg-black/50 text-white">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent className="bg-slate-800 text-white border-slate-700">
+                          <SelectItem value="CIE">CIE</SelectItem>
+                          <SelectItem value="SEE">SEE</SelectItem>
+                        </SelectContent>
+                      </Select>
+                    </div>
+                    <div>
+                      <label className="text-sm text-cyan-200">Duration (minutes)</label>
+                      <Input
+                        type="number"
+                        min="1"
+                        value={draft.duration}
+                        disabled={isReadOnly}
+                        onChange={(e) => setDraft(prev => ({ ...prev, duration: parseInt(e.target.value) || 0 }))}
+                        className="bg-black/50 border-cyan-500/30 text-white"
+                      />
+                    </div>
+                    <div>
+                      <label className="text-sm text-cyan-200">Maximum Marks</label>
+                      <Input
+                        type="number"
+                        min="1"
+                        value={draft.totalMarks}
+                        disabled={isReadOnly}
+                        onChange={(e) => setDraft(prev => ({ ...prev, totalMarks: parseInt(e.target.value) || 0 }))}
+                        className="bg-black/50 border-cyan-500/30 text-white"
+                      />
+                      <p className={`text-xs mt-1 ${maxMarks === draft.totalMarks ? "text-green-300" : "text-red-300"}`}>
+                        Sections and choice rule allow {maxMarks} marks
+                      </p>
+                    </div>
+                    <div>
+                      <label className="text-sm text-cyan-200">Choice Rule</label>
+                      <Select
+                        value={draft.choiceRule.mode}
+                        disabled={isReadOnly}
+                        onValueChange={(mode) => setDraft(prev => ({
+                          ...prev,
+                          choiceRule: { ...prev.choiceRule, mode: mode as ExamPattern['choiceRule']['mode'] }
+                        }))}
+                      >
+                        <SelectTrigger className="border-cyan-500/30 bg-black/50 text-white">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent className="bg-slate-800 text-white border-slate-700">
+                          <SelectItem value="ALL">Answer all sections</SelectItem>
+                          <SelectItem value="ANY">Answer any N sections</SelectItem>
+                          <SelectItem value="ALTERNATIVES">Alternatives (either/or)</SelectItem>
+                        </SelectContent>
+                      </Select>
+                    </div>
+                    {draft.choiceRule.mode === "ANY" && (
+                      <div>
+                        <label className="text-sm text-cyan-200">Sections to answer</label>
+                        <Input
+                          type="number"
+                          min="1"
+                          value={draft.choiceRule.answerCount || ""}
+                          disabled={isReadOnly}
+                          onChange={(e) => setDraft(prev => ({
+                            ...prev,
+                            choiceRule: { ...prev.choiceRule, answerCount: parseInt(e.target.value) || undefined }
+                          }))}
+                          className="bg-black/50 border-cyan-500/30 text-white"
+                        />
+                      </div>
+                    )}
+                    {draft.choiceRule.mode === "ALTERNATIVES" && (
+                      <div>
+                        <label className="text-sm text-cyan-200">Alternatives per group</label>
+                        <Input
+                          type="number"
+                          min="2"
+                          value={draft.choiceRule.groupSize || ""}
+                          disabled={isReadOnly}
+                          onChange={(e) => setDraft(prev => ({
+                            ...prev,
+                            choiceRule: { ...prev.choiceRule, groupSize: parseInt(e.target.value) || undefined }
+                          }))}
+                          className="bg-black/50 border-cyan-500/30 text-white"
+                        />
+                      </div>
+                    )}
+                  </div>
+
+                  <div>
+                    <label className="text-sm text-cyan-200">Instructions (one per line)</label>
+                    <Textarea
+                      value={draft.instructions.join("\n")}
+                      disabled={isReadOnly}
+                      onChange={(e) => setDraft(prev => ({ ...prev, instructions: e.target.value.split("\n") }))}
+                      className="bg-black/50 border-cyan-500/30 text-white"
+                    />
+                  </div>
+                </CardContent>
+              </Card>
+
+              {draft.sections.map((section, sectionIdx) => (
+                <Card key={sectionIdx} className="shadow-xl bg-black/40 backdrop-blur-sm border-cyan-500/30">
+                  <CardContent className="pt-6 space-y-4">
+                    <div className="grid grid-cols-1 md:grid-cols-4 gap-4 items-end">
+                      <div>
+                        <label className="text-sm text-cyan-200">Title</label>
+                        <Input
+                          value={section.title}
+                          disabled={isReadOnly}
+                          onChange={(e) => updateSection(sectionIdx, { title: e.target.value })}
+                          className="bg-black/50 border-cyan-500/30 text-white"
+                        />
+                      </div>
+                      <div>
+                        <label className="text-sm text-cyan-200">Preferred Unit</label>
+                        <Input
+                          value={section.unit || ""}
+                          placeholder="e.g. Unit 1"
+                          disabled={isReadOnly}
+                          onChange={(e) => updateSection(sectionIdx, { unit: e.target.value })}
+                          className="bg-black/50 border-cyan-500/30 text-white"
+                        />
+                      </div>
+                      <div>
+                        <label className="text-sm text-cyan-200">Section Marks</label>
+                        <Input
+                          type="number"
+                          min="1"
+                          value={section.marks}
+                          disabled={isReadOnly}
+                          onChange={(e) => updateSection(sectionIdx, { marks: parseInt(e.target.value) || 0 })}
+                          className="bg-black/50 border-cyan-500/30 text-white"
+                        />
+                      </div>
+                      {!isReadOnly && (
+                        <Button
+                          variant="ghost"
+                          onClick={() => removeSection(sectionIdx)}
+                          disabled={draft.sections.length === 1}
+                          className="text-red-300 hover:text-red-100"
+                        >
+                          <Trash2 className="h-4 w-4 mr-2" />
+                          Remove Section
+                        </Button>
+                      )}
+                    </div>
+
+                    <div className="grid grid-cols-1 md:grid-cols-4 gap-4 items-end">
+                      <div>
+                        <label className="text-sm text-cyan-200">Course Outcome</label>
+                        <Input
+                          type="number"
+                          min="1"
+                          value={section.co ?? ""}
+                          placeholder="Any CO"
+                          disabled={isReadOnly}
+                          onChange={(e) => updateSection(sectionIdx, { co: parseInt(e.target.value) || undefined })}
+                          className="bg-black/50 border-cyan-500/30 text-white"
+                        />
+                      </div>
+                      <div>
+                        <label className="text-sm text-cyan-200">Question Type</label>
+                        <Select
+                          value={section.questionType || 'DESCRIPTIVE'}
+                          disabled={isReadOnly}
+                          onValueChange={(value) => updateSection(sectionIdx, {
+                            questionType: value as QuestionType,
+                            negativeMarks: isObjective(value as QuestionType) ? section.negativeMarks : 0,
+                          })}
+                        >
+                          <SelectTrigger className="border-cyan-500/30 bg-black/50 text-white">
+                            <SelectValue />
+                          </SelectTrigger>
+                          <SelectContent className="bg-slate-800 text-white border-slate-700">
+                            {(Object.keys(QUESTION_TYPE_LABELS) as QuestionType[]).map(type => (
+                              <SelectItem key={type} value={type}>{QUESTION_TYPE_LABELS[type]}</SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                      </div>
+                      {isObjective(section.questionType) && (
+                        <div>
+                          <label className="text-sm text-cyan-200">Negative Marks per Wrong Answer</label>
+                          <Input
+                            type="number"
+                            min="0"
+                            step="0.25"
+                            value={section.negativeMarks ?? 0}
+                            disabled={isReadOnly}
+                            onChange={(e) => updateSection(sectionIdx, { negativeMarks: Math.max(0, parseFloat(e.target.value) || 0) })}
+                            className="bg-black/50 border-cyan-500/30 text-white"
+                          />
+                        </div>
+                      )}
+                    </div>
+
+                    <div className="space-y-2">
+                      {section.parts.map((part, partIdx) => (
+                        <div key={partIdx} className="grid grid-cols-2 md:grid-cols-5 gap-3 items-center p-2 rounded-md bg-black/30 border border-cyan-500/20">
+                          <Input
+                            value={part.label}
+                            disabled={isReadOnly}
+                            onChange={(e) => updatePart(sectionIdx, partIdx, { label: e.target.value })}
+                            className="bg-black/50 border-cyan-500/30 text-white"
+                          />
+                          <Input
+                            type="number"
+                            min="1"
+                            value={part.marks}
+                            disabled={isReadOnly}
+                            onChange={(e) => updatePart(sectionIdx, partIdx, { marks: parseInt(e.target.value) || 0 })}
+                            className="bg-black/50 border-cyan-500/30 text-white"
+                          />
+                          <Select
+                            value={part.defaultLevel}
+                            disabled={isReadOnly}
+                            onValueChange={(level) => updatePart(sectionIdx, partIdx, { defaultLevel: level as PatternPart['defaultLevel'] })}
+                          >
+                            <SelectTrigger className="border-cyan-500/30 bg-black/50 text-white">
+                              <SelectValue />
+                            </SelectTrigger>
+                            <SelectContent className="bg-slate-800 text-white border-slate-700">
+                              <SelectItem value="easy">Easy</SelectItem>
+                              <SelectItem value="medium">Medium</SelectItem>
+                              <SelectItem value="hard">Hard</SelectItem>
+                            </SelectContent>
+                          </Select>
+                          <div className="flex items-center space-x-2">
+                            <Checkbox
+                              id={`optional-${sectionIdx}-${partIdx}`}
+                              checked={part.optional}
+                              disabled={isReadOnly}
+                              onCheckedChange={(checked) => updatePart(sectionIdx, partIdx, { optional: checked as boolean })}
+                              className="border-white/50 data-[state=checked]:bg-cyan-600 data-[state=checked]:border-cyan-600"
+                            />
+                            <label htmlFor={`optional-${sectionIdx}-${partIdx}`} className="text-sm text-cyan-100">Optional</label>
+                          </div>
+                          {!isReadOnly && (
+                            <Button
+                              variant="ghost"
+                              size="sm"
+                              onClick={() => removePart(sectionIdx, partIdx)}
+                              disabled={section.parts.length === 1}
+                              className="text-red-300 hover:text-red-100"
+                            >
+                              <Trash2 className="h-4 w-4" />
+                            </Button>
+                          )}
+                        </div>
+                      ))}
+                    </div>
+
+                    {!isReadOnly && (
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={() => addPart(sectionIdx)}
+                        className="text-cyan-100 hover:bg-cyan-900/30 hover:text-white border-cyan-500/30"
+                      >
+                        <Plus className="h-4 w-4 mr-1" />
+                        Add Part
+                      </Button>
+                    )}
+                  </CardContent>
+                </Card>
+              ))}
+
+              <div className="flex justify-between">
+                {!isReadOnly ? (
+                  <Button
+                    variant="outline"
+                    onClick={addSection}
+                    className="text-cyan-100 hover:bg-cyan-900/30 hover:text-white border-cyan-500/30"
+                  >
+                    <Plus className="h-4 w-4 mr-2" />
+                    Add Section
+                  </Button>
+                ) : <span />}
+                <div className="flex space-x-2">
+                  {draft._id && (
+                    <Button
+                      variant="outline"
+                      onClick={handleDuplicate}
+                      className="text-cyan-100 hover:bg-cyan-900/30 hover:text-white border-cyan-500/30"
+                    >
+                      <Copy className="h-4 w-4 mr-2" />
+                      Duplicate
+                    </Button>
+                  )}
+                  {draft._id && !isReadOnly && (
+                    <Button variant="destructive" onClick={handleDelete}>
+                      <Trash2 className="h-4 w-4 mr-2" />
+                      Delete
+                    </Button>
+                  )}
+                  {!isReadOnly && (
+                    <Button onClick={handleSave} disabled={isSaving} className="bg-cyan-600 hover:bg-cyan-500">
+                      {isSaving ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Save className="h-4 w-4 mr-2" />}
+                      Save Pattern
+                    </Button>
+                  )}
+                </div>
+              </div>
+            </div>
+          </div>
+        </main>
+      </div>
+    </NetworkGridBackground>
+  );
+};
+
+export default ExamPatterns;
@@ -1,40 +1,41 @@
 // src/pages/GenerateQuestions.tsx - Updated with question paper saving and download tracking
-import { useEffect, useState } from "react";
+import { useEffect, useMemo, useState } from "react";
 import { useLocation, useNavigate } from "react-router-dom";
 import { useAuth } from "@/contexts/AuthContext";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Textarea } from "@/components/ui/textarea";
+import { Input } from "@/components/ui/input";
 import { useToast } from "@/components/ui/use-toast";
 import { Alert, AlertDescription } from "@/components/ui/alert";
 import { Badge } from "@/components/ui/badge";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { Progress } from "@/components/ui/progress";
-import { ArrowLeft, Download, Loader2, Database, Bot, BarChart3, FileText, Shuffle, Save } from "lucide-react";
-import { questionAPI, uploadAPI, questionPaperAPI } from "@/lib/api";
+import { Switch } from "@/components/ui/switch";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { ArrowLeft, ArrowLeftRight, Download, Loader2, Database, Bot, BarChart3, FileText, Shuffle, Save, ListChecks, Library } from "lucide-react";
+import { bankQuestionAPI, coursesAPI, institutionAPI, questionAPI, uploadAPI, questionPaperAPI } from "@/lib/api";
 import NetworkGridBackground from "@/components/NetworkGridBackground";
-
-interface QuestionConfig {
-  questionId: string;
-  level: string;
-  marks: number;
-  includeC: boolean;
-  co?: number;
-  topic: string;
-}
-
-// Your exact processed data structure
-interface ProcessedQuestion {
-  question_id: number;
-  question: string;
-  predicted_marks: number;
-  bloom_level: string;
-  difficulty: string;
-  matched_topic: string;
-  matched_unit: string;
-  topic_similarity: number;
-  _id: string;
-}
+import QuestionSwapDialog from "@/components/QuestionSwapDialog";
+import PaperEditor from "@/components/PaperEditor";
+import SetEquivalenceReport from "@/components/SetEquivalenceReport";
+import CoMarksTable from "@/components/CoMarksTable";
+import { ExamPattern, QuestionConfig } from "@/lib/examPattern";
+import {
+  CoolOff,
+  DEFAULT_COOL_OFF,
+  GeneratedQuestion,
+  PaperDocument,
+  formatQuestionPaper,
+  getPaperFilename
+} from "@/lib/questionPaper";
+import { downloadQuestionPaperPdf } from "@/lib/pdfExport";
+import { QuestionBankEntry } from "@/lib/questionBank";
+import { QUESTION_TYPE_LABELS, formatOptions, getAnswer, isObjective } from "@/lib/questionTypes";
+import { MAX_PAPER_SETS, PaperSet, SET_LABELS, SetEquivalence } from "@/lib/paperSets";
+import { CourseOutcome } from "@/lib/courseOutcomes";
+import { Exam } from "@/lib/exams";
+import { Branding, DEFAULT_BRANDING } from "@/lib/branding";
 
 interface ProcessedTopic {
   unit: string;
@@ -43,20 +44,6 @@ interface ProcessedTopic {
   _id: string;
 }
 
-interface GeneratedQuestion {
-  questionId: string;
-  text: string;
-  marks: number;
-  difficulty: string;
-  bloomLevel: string;
-  unit: string;
-  topic: string;
-  co?: number;
-  source: 'processed_data' | 'ai_generated';
-  originalId?: string;
-  similarity?: number;
-}
-
 interface ExamConfig {
   examType: string;
   semester: string;
@@ -71,17 +58,34 @@ const GenerateQuestions = () => {
   const location = useLocation();
   const { toast } = useToast();
   
-  const [generatedQuestions, setGeneratedQuestions] = useState<GeneratedQuestion[]>([]);
-  const [questionPaperText, setQuestionPaperText] = useState<string>("");
+  // One entry per set; a single paper is a run with one unlabelled set
+  const [paperSets, setPaperSets] = useState<PaperSet[]>([]);
+  const [activeSet, setActiveSet] = useState<number>(0);
+  const [setCount, setSetCount] = useState<number>(1);
+  const [equivalence, setEquivalence] = useState<SetEquivalence | null>(null);
   const [isGenerating, setIsGenerating] = useState<boolean>(false);
   const [isSaving, setIsSaving] = useState<boolean>(false);
-  const [savedPaperId, setSavedPaperId] = useState<string | null>(null);
+  // Saved paper per set, in set order; edited sets are saved again as revisions
+  const [savedPaperIds, setSavedPaperIds] = useState<string[]>([]);
+  const [unsavedSets, setUnsavedSets] = useState<number[]>([]);
   const [hasProcessedData, setHasProcessedData] = useState<boolean>(false);
-  const [processedQuestions, setProcessedQuestions] = useState<ProcessedQuestion[]>([]);
+  const [bankQuestions, setBankQuestions] = useState<QuestionBankEntry[]>([]);
   const [processedTopics, setProcessedTopics] = useState<ProcessedTopic[]>([]);
+  const [processedDataId, setProcessedDataId] = useState<string | null>(null);
+  const [verifiedOnly, setVerifiedOnly] = useState<boolean>(false);
   const [generationProgress, setGenerationProgress] = useState<number>(0);
+  const [swapTarget, setSwapTarget] = useState<GeneratedQuestion | null>(null);
+  const [coolOff, setCoolOff] = useState<CoolOff>(DEFAULT_COOL_OFF);
+  const [shuffleOptions, setShuffleOptions] = useState<boolean>(true);
+  const [optionSeed, setOptionSeed] = useState<string | undefined>(undefined);
+  const [outcomes, setOutcomes] = useState<CourseOutcome[]>([]);
+  const [branding, setBranding] = useState<Branding>(DEFAULT_BRANDING);
+  // Marks each CO should carry; COs left at 0 are not required
+  const [coTargets, setCoTargets] = useState<Record<string, number>>({});
   const [examData, setExamData] = useState<{
     examConfig: ExamConfig;
+    exam: Exam;
+    pattern: ExamPattern;
     questionConfigs: QuestionConfig[];
     numQuestions: number;
   } | null>(null);
@@ -94,11 +98,13 @@ const GenerateQuestions = () => {
     
     const state = location.state as {
       examConfig: ExamConfig;
+      exam: Exam;
+      pattern: ExamPattern;
       questionConfigs: QuestionConfig[];
       numQuestions: number;
     } | null;
     
-    if (!state) {
+    if (!state || !state.pattern || !state.exam) {
       toast({
         title: "Error",
         description: "No exam configuration provided",
@@ -114,16 +120,15 @@ const GenerateQuestions = () => {
 
   const loadProcessedData = async (courseId: string) => {
     try {
-      const response = await uploadAPI.getProcessedData(courseId);
+      const response = await bankQuestionAPI.getQuestions(courseId);
+      const questions: QuestionBankEntry[] = response.data.questions;
+      setBankQuestions(questions);
       
-      if (response.data && response.data.questions.length > 0) {
+      if (questions.length > 0) {
         setHasProcessedData(true);
-        setProcessedQuestions(response.data.questions);
-        setProcessedTopics(response.data.topics || []);
-        
         toast({
-          title: "Latest processed data loaded",
-          description: `Found ${response.data.questions.length} questions and ${response.data.topics?.length || 0} topics from your latest question bank upload`,
+          title: "Question bank loaded",
+          description: `Found ${questions.length} questions in this course's question bank`,
         });
       } else {
         setHasProcessedData(false);
@@ -133,172 +138,95 @@ const GenerateQuestions = () => {
         });
       }
     } catch (error) {
-      console.error("Error loading processed data:", error);
+      console.error("Error loading question bank:", error);
       setHasProcessedData(false);
     }
-  };
-
-  const generateQuestionsFromProcessedData = (
-    examConfig: ExamConfig,
-    questionConfigs: QuestionConfig[]
-  ): GeneratedQuestion[] => {
-    const generated: GeneratedQuestion[] = [];
     
-    console.log(`Processing ${processedQuestions.length} questions and ${processedTopics.length} topics`);
+    try {
+      const response = await coursesAPI.getOutcomes(courseId);
+      setOutcomes(response.data.outcomes);
+    } catch {
+      setOutcomes([]);
+    }
     
-    if (examConfig.examType === 'CIE') {
-      // Generate CIE questions (3 sections)
-      const sections = [1, 2, 3];
-      
-      for (const section of sections) {
-        const sectionConfigs = questionConfigs.filter(q => 
-          q.questionId.startsWith(section.toString()) && 
-          (!q.questionId.endsWith('c') || q.includeC)
-        );
-        
-        for (const config of sectionConfigs) {
-          const matchingQuestions = findMatchingQuestions(config, `Unit ${section}`);
-          
-          if (matchingQuestions.length > 0) {
-            // Select best matching question
-            const selectedQuestion = matchingQuestions[0];
-            
-            generated.push({
-              questionId: config.questionId,
-              text: selectedQuestion.question,
-              marks: config.marks,
-              difficulty: config.level,
-              bloomLevel: selectedQuestion.bloom_level,
-              unit: selectedQuestion.matched_unit,
-              topic: config.topic,
-              source: 'processed_data',
-              originalId: selectedQuestion._id,
-              similarity: selectedQuestion.topic_similarity
-            });
-          } else {
-            // Generate AI fallback question
-            generated.push(generateAIQuestion(config, section));
-          }
-        }
-      }
-    } else {
-      // Generate SEE questions (5 COs, 2 questions each)
-      const cos = [1, 2, 3, 4, 5];
-      
-      for (const co of cos) {
-        for (let setIdx = 1; setIdx <= 2; setIdx++) {
-          const questionNum = (co - 1) * 2 + setIdx;
-          const questionSet = questionConfigs.filter(q => 
-            parseInt(q.questionId) === questionNum &&
-            (!q.questionId.endsWith('c') || q.includeC)
-          );
-          
-          for (const config of questionSet) {
-            const matchingQuestions = findMatchingQuestions(config);
-            
-            if (matchingQuestions.length > 0) {
-              const selectedQuestion = matchingQuestions[0];
-              
-              generated.push({
-                questionId: config.questionId,
-                text: selectedQuestion.question,
-                marks: config.marks,
-                difficulty: config.level,
-                bloomLevel: selectedQuestion.bloom_level,
-                unit: selectedQuestion.matched_unit,
-                topic: config.topic,
-                co: co,
-                source: 'processed_data',
-                originalId: selectedQuestion._id,
-                similarity: selectedQuestion.topic_similarity
-              });
-            } else {
-              generated.push(generateAIQuestion(config, null, co));
-            }
-          }
-        }
-      }
+    // Letterhead of the course's department for the preview and the PDF
+    try {
+      const response = await institutionAPI.getBranding(courseId);
+      setBranding(response.data);
+    } catch {
+      setBranding(DEFAULT_BRANDING);
     }
     
-    return generated;
+    // Syllabus topics and the review screen still come from the active upload, when there is one
+    try {
+      const response = await uploadAPI.getProcessedData(courseId);
+      setProcessedTopics(response.data.topics || []);
+      setProcessedDataId(response.data._id);
+    } catch {
+      setProcessedTopics([]);
+      setProcessedDataId(null);
+    }
   };
 
-  const findMatchingQuestions = (config: QuestionConfig, preferredUnit?: string): ProcessedQuestion[] => {
-    return processedQuestions
-      .filter(q => {
-        // Match difficulty
-        const difficultyMatch = q.difficulty.toLowerCase() === config.level.toLowerCase();
-        
-        // Match marks (allow ±2 marks difference)
-        const marksMatch = Math.abs(q.predicted_marks - config.marks) <= 2;
-        
-        // Match topic (if specified)
-        const topicMatch = !config.topic || 
-          q.matched_topic.toLowerCase().includes(config.topic.toLowerCase());
-        
-        // Prefer specified unit
-        const unitMatch = !preferredUnit || 
-          q.matched_unit.toLowerCase().includes(preferredUnit.toLowerCase());
-        
-        return difficultyMatch && marksMatch && topicMatch;
-      })
-      .sort((a, b) => {
-        // Sort by relevance
-        let scoreA = 0, scoreB = 0;
-        
-        // Higher topic similarity is better
-        scoreA += a.topic_similarity * 100;
-        scoreB += b.topic_similarity * 100;
-        
-        // Exact marks match is better
-        if (a.predicted_marks === config.marks) scoreA += 50;
-        if (b.predicted_marks === config.marks) scoreB += 50;
-        
-        // Preferred unit match is better
-        if (preferredUnit && a.matched_unit.includes(preferredUnit)) scoreA += 25;
-        if (preferredUnit && b.matched_unit.includes(preferredUnit)) scoreB += 25;
-        
-        return scoreB - scoreA;
-      });
+  const generatedQuestions = paperSets[activeSet]?.questions ?? [];
+  const relaxations = paperSets[activeSet]?.relaxations ?? [];
+  const savedPaperId = savedPaperIds[activeSet] ?? null;
+  const hasUnsavedChanges = unsavedSets.length > 0;
+
+  const toPaperDocument = (set: PaperSet): PaperDocument | null => examData && {
+    examType: examData.examConfig.examType,
+    semester: examData.examConfig.semester,
+    course: examData.examConfig.course,
+    courseName: examData.exam.course.name,
+    pattern: examData.pattern,
+    exam: examData.exam,
+    questions: set.questions,
+    setLabel: set.setLabel,
+    outcomes,
+    branding
   };
 
-  const generateAIQuestion = (config: QuestionConfig, section?: number, co?: number): GeneratedQuestion => {
-    const templates = {
-      easy: [
-        `Define and explain the concept of ${config.topic} with suitable examples.`,
-        `List the key features and characteristics of ${config.topic}.`,
-        `What are the basic components of ${config.topic}? Explain briefly.`,
-        `Draw a simple diagram to illustrate ${config.topic}.`
-      ],
-      medium: [
-        `Explain the working principle of ${config.topic} with detailed examples.`,
-        `Analyze the advantages and disadvantages of ${config.topic}.`,
-        `Describe the implementation process of ${config.topic} with algorithmic steps.`,
-        `Compare and contrast ${config.topic} with other related concepts.`
-      ],
-      hard: [
-        `Design and implement a comprehensive solution for ${config.topic} addressing complex scenarios.`,
-        `Critically evaluate the performance implications of ${config.topic} in real-world systems.`,
-        `Develop an optimized approach for ${config.topic} and justify your design decisions.`,
-        `Create a novel algorithm incorporating ${config.topic} to solve industry challenges.`
-      ]
-    };
-    
-    const questionTemplates = templates[config.level as keyof typeof templates] || templates.medium;
-    const questionText = questionTemplates[Math.floor(Math.random() * questionTemplates.length)];
-    
+  const renderPaper = (set: PaperSet) => {
+    const paper = toPaperDocument(set);
+    return paper ? formatQuestionPaper(paper) : "";
+  };
+
+  // The text (and PDF) are always rendered from the structured questions, never edited directly
+  const questionPaperText = generatedQuestions.length > 0 ? renderPaper(paperSets[activeSet]) : "";
+
+  // Questions on any set are off limits for swaps, so the sets stay disjoint
+  const usedBankIds = useMemo(
+    () => paperSets.flatMap(set => set.questions).map(q => q.originalId).filter((id): id is string => !!id),
+    [paperSets]
+  );
+
+  // Each set's options are shuffled with its own seed, as the server did when generating
+  const activeOptionSeed = optionSeed && paperSets[activeSet]?.setLabel
+    ? `${optionSeed}:${paperSets[activeSet].setLabel}`
+    : optionSeed;
+
+  const updateActiveSet = (changes: Partial<PaperSet>) => {
+    setPaperSets(prev => prev.map((set, idx) => idx === activeSet ? { ...set, ...changes } : set));
+    setUnsavedSets(prev => prev.includes(activeSet) ? prev : [...prev, activeSet]);
+  };
+
+  // The slot as it stands in the editor: marks and section may have changed since setup
+  const swapConfig = useMemo((): QuestionConfig | null => {
+    if (!examData || !swapTarget) return null;
+    const original = examData.questionConfigs.find(c => c.questionId === swapTarget.questionId);
     return {
-      questionId: config.questionId,
-      text: questionText,
-      marks: config.marks,
-      difficulty: config.level,
-      bloomLevel: config.level === 'easy' ? 'L1' : config.level === 'medium' ? 'L3' : 'L5',
-      unit: section ? `Unit ${section}` : 'General',
-      topic: config.topic,
-      co: co,
-      source: 'ai_generated'
+      questionId: swapTarget.questionId,
+      section: swapTarget.section,
+      level: swapTarget.difficulty,
+      marks: swapTarget.marks,
+      included: true,
+      optional: false,
+      co: swapTarget.co,
+      topic: original?.topic || "",
+      questionType: swapTarget.type || 'DESCRIPTIVE',
+      negativeMarks: swapTarget.negativeMarks
     };
-  };
+  }, [examData, swapTarget]);
 
   const generateQuestionsWithProcessedData = async () => {
     if (!examData) return;
@@ -307,40 +235,48 @@ const GenerateQuestions = () => {
     setGenerationProgress(0);
     
     try {
-      // Simulate progressive generation
-      const progressSteps = [
-        { progress: 20, message: "Analyzing question configurations..." },
-        { progress: 40, message: "Matching questions from your latest question bank..." },
-        { progress: 60, message: "Selecting best matching questions..." },
-        { progress: 80, message: "Generating fallback questions..." },
-        { progress: 100, message: "Formatting question paper..." }
-      ];
+      setGenerationProgress(20);
       
-      for (const step of progressSteps) {
-        await new Promise(resolve => setTimeout(resolve, 800));
-        setGenerationProgress(step.progress);
-      }
-      
-      const questions = generateQuestionsFromProcessedData(
-        examData.examConfig,
-        examData.questionConfigs
-      );
-      
-      setGeneratedQuestions(questions);
+      // A fresh seed per generation; swaps reuse it so replacements are shuffled the same way
+      const seed = shuffleOptions ? `${Date.now()}` : undefined;
+      setOptionSeed(seed);
+      const requiredCos = Object.entries(coTargets).filter(([, marks]) => marks > 0);
+      const response = await questionAPI.generateQuestions({
+        courseId: examData.examConfig.courseId,
+        examType: examData.examConfig.examType,
+        patternId: examData.pattern._id,
+        questionConfigs: examData.questionConfigs,
+        coolOff,
+        verifiedOnly,
+        targets: requiredCos.length > 0 ? { co: Object.fromEntries(requiredCos) } : undefined,
+        optionSeed: seed,
+        setCount,
+        useProcessedData: true
+      });
+      const sets: PaperSet[] = response.data.sets
+        ? response.data.sets.map((set: PaperSet) => ({
+            setLabel: set.setLabel,
+            questions: set.questions,
+            relaxations: set.relaxations || []
+          }))
+        : [{ questions: response.data.questions, relaxations: response.data.relaxations || [] }];
+      const questions = sets.flatMap(set => set.questions);
       
-      // Generate formatted question paper
-      const formattedPaper = formatQuestionPaper(examData.examConfig, questions);
-      setQuestionPaperText(formattedPaper);
+      setGenerationProgress(100);
+      setPaperSets(sets);
+      setActiveSet(0);
+      setEquivalence(response.data.equivalence || null);
+      setUnsavedSets(sets.map((_, idx) => idx));
       
       const processedDataCount = questions.filter(q => q.source === 'processed_data').length;
       const aiGeneratedCount = questions.filter(q => q.source === 'ai_generated').length;
       
       toast({
         title: "Questions Generated Successfully",
-        description: `Generated ${questions.length} questions (${processedDataCount} from your latest question bank, ${aiGeneratedCount} AI-generated)`,
+        description: `Generated ${questions.length} questions${sets.length > 1 ? ` across ${sets.length} sets` : ""} (${processedDataCount} from your latest question bank, ${aiGeneratedCount} AI-generated)`,
       });
       
-    } catch (error: any) {
+    } catch (error) {
       toast({
         title: "Generation Failed",
         description: "There was an error generating questions. Please try again.",
@@ -352,48 +288,91 @@ const GenerateQuestions = () => {
     }
   };
 
+  // The fields saved for one set's paper
+  const getSetData = (set: PaperSet) => {
+    const processedDataCount = set.questions.filter(q => q.source === 'processed_data').length;
+    const aiGeneratedCount = set.questions.filter(q => q.source === 'ai_generated').length;
+    
+    let generationSource = 'ai_generated';
+    if (processedDataCount > 0 && aiGeneratedCount > 0) {
+      generationSource = 'hybrid';
+    } else if (processedDataCount > 0) {
+      generationSource = 'processed_data';
+    }
+    
+    return {
+      content: renderPaper(set),
+      questions: set.questions,
+      totalMarks: examData!.pattern.totalMarks,
+      totalQuestions: set.questions.length,
+      generationSource
+    };
+  };
+
   const saveQuestionPaper = async () => {
     if (!examData || !questionPaperText) return;
     
     setIsSaving(true);
     
     try {
-      const totalMarks = generatedQuestions.reduce((sum, q) => sum + q.marks, 0);
-      const processedDataCount = generatedQuestions.filter(q => q.source === 'processed_data').length;
-      const aiGeneratedCount = generatedQuestions.filter(q => q.source === 'ai_generated').length;
-      
-      let generationSource = 'ai_generated';
-      if (processedDataCount > 0 && aiGeneratedCount > 0) {
-        generationSource = 'hybrid';
-      } else if (processedDataCount > 0) {
-        generationSource = 'processed_data';
-      }
-      
       const paperData = {
-        courseId: examData.examConfig.courseId,
-        examType: examData.examConfig.examType,
-        semester: examData.examConfig.semester,
-        title: `${examData.examConfig.examType} - ${examData.examConfig.course} - Semester ${examData.examConfig.semester}`,
-        content: questionPaperText,
-        questions: generatedQuestions,
-        totalMarks,
-        totalQuestions: generatedQuestions.length,
-        generationSource,
+        examId: examData.exam._id,
+        patternId: examData.pattern._id,
+        title: examData.exam.title,
         processedDataUsed: hasProcessedData ? examData.examConfig.courseId : undefined
       };
       
-      const response = await questionPaperAPI.saveQuestionPaper(paperData);
-      setSavedPaperId(response.data.questionPaper._id);
+      // Once saved, later saves add revisions to the edited papers only
+      let paperIds = savedPaperIds;
+      if (savedPaperIds.length > 0) {
+        let revision = 0;
+        for (const idx of unsavedSets) {
+          const set = paperSets[idx];
+          const response = await questionPaperAPI.updateQuestionPaper(savedPaperIds[idx], {
+            ...paperData,
+            ...getSetData(set),
+            title: set.setLabel ? `${paperData.title} - Set ${set.setLabel}` : paperData.title
+          });
+          revision = response.data.questionPaper.revision;
+        }
+        toast({
+          title: "Question Paper Saved",
+          description: paperSets.length > 1
+            ? `Saved ${unsavedSets.length} edited set${unsavedSets.length === 1 ? "" : "s"} as new revisions.`
+            : `Saved as revision ${revision}.`,
+        });
+      } else if (paperSets.length > 1) {
+        const response = await questionPaperAPI.saveQuestionPaperSets({
+          ...paperData,
+          sets: paperSets.map(set => ({ setLabel: set.setLabel!, ...getSetData(set) }))
+        });
+        const saved: { _id: string; setLabel: string }[] = response.data.questionPapers;
+        paperIds = paperSets.map(set => saved.find(paper => paper.setLabel === set.setLabel)!._id);
+        setSavedPaperIds(paperIds);
+        toast({
+          title: "Question Paper Sets Saved",
+          description: `Sets ${paperSets.map(set => set.setLabel).join(", ")} are saved as linked papers on your dashboard.`,
+        });
+      } else {
+        const response = await questionPaperAPI.saveQuestionPaper({ ...paperData, ...getSetData(paperSets[0]) });
+        setSavedPaperIds([response.data.questionPaper._id]);
+        toast({
+          title: "Question Paper Saved",
+          description: "Your question paper has been saved successfully and is visible on your dashboard.",
+        });
+      }
+      setUnsavedSets([]);
       
-      toast({
-        title: "Question Paper Saved",
-        description: "Your question paper has been saved successfully and is visible on your dashboard.",
-      });
+      // Edits and swaps change the sets' mix, so compare them again as saved
+      if (paperSets.length > 1) {
+        const response = await questionPaperAPI.getPaperSets(paperIds[0]);
+        setEquivalence(response.data.equivalence);
+      }
       
     } catch (error: any) {
       toast({
         title: "Save Failed",
-        description: "Failed to save question paper. Please try again.",
+        description: error.response?.data?.message || "Failed to save question paper. Please try again.",
         variant: "destructive",
       });
     } finally {
@@ -401,106 +380,6 @@ const GenerateQuestions = () => {
     }
   };
 
-  const formatQuestionPaper = (examConfig: ExamConfig, questions: GeneratedQuestion[]) => {
-    const courseMap: Record<string, string> = {
-      "OS": "Operating Systems",
-      "ML": "Machine Learning",
-      "ACN": "Advanced Computer Networks",
-      "DCN": "Data Communication Networks",
-      "DL": "Deep Learning",
-      "DS": "Data Structures",
-      "DBMS": "Database Management Systems",
-      "AI": "Artificial Intelligence"
-    };
-    
-    const courseName = courseMap[examConfig.course] || examConfig.course;
-    const currentDate = new Date().toLocaleDateString();
-    
-    let questionPaper = "";
-    
-    // Add header
-    questionPaper += `═══════════════════════════════════════════════════════════════════════════════\n`;
-    questionPaper += `                    ${examConfig.examType === "CIE" ? "CONTINUOUS INTERNAL EVALUATION" : "SEMESTER END EXAMINATION"}\n`;
-    questionPaper += `═══════════════════════════════════════════════════════════════════════════════\n\n`;
-    questionPaper += `Course: ${courseName} (${examConfig.course})\n`;
-    questionPaper += `Semester: ${examConfig.semester}\n`;
-    questionPaper += `Date: ${currentDate}\n`;
-    questionPaper += `Duration: ${examConfig.examType === "CIE" ? "1.5 Hours" : "3 Hours"}\n`;
-    questionPaper += `Maximum Marks: ${examConfig.examType === "CIE" ? "30" : "100"}\n\n`;
-    
-    questionPaper += `Instructions:\n`;
-    if (examConfig.examType === "CIE") {
-      questionPaper += `• Answer any TWO sections out of three\n`;
-      questionPaper += `• Each section carries 15 marks\n`;
-      questionPaper += `• Total marks: 2 × 15 = 30 marks\n`;
-      questionPaper += `• All parts of a question should be answered contiguously\n\n`;
-    } else {
-      questionPaper += `• Answer any one full question from each module\n`;
-      questionPaper += `• Each module carries 20 marks\n`;
-      questionPaper += `• All parts of a question should be answered contiguously\n\n`;
-    }
-    
-    questionPaper += `───────────────────────────────────────────────────────────────────────────────\n\n`;
-    
-    if (examConfig.examType === "CIE") {
-      // CIE format
-      const sections = [1, 2, 3];
-      
-      for (const section of sections) {
-        questionPaper += `SECTION ${section}\n`;
-        questionPaper += `───────────────────────────────────────────────────────────────────────────────\n\n`;
-        
-        const sectionQuestions = questions.filter(q => 
-          q.questionId.startsWith(section.toString())
-        );
-        
-        for (const question of sectionQuestions) {
-          const questionPart = question.questionId[1];
-          questionPaper += `${section}${questionPart.toUpperCase()}. ${question.text}\n`;
-          questionPaper += `    [${question.marks} Marks | ${question.difficulty} | ${question.bloomLevel}]\n`;
-          questionPaper += `\n`;
-        }
-        
-        questionPaper += `\n`;
-      }
-    } else {
-      // Semester End format
-      const cos = [1, 2, 3, 4, 5];
-      
-      for (const co of cos) {
-        questionPaper += `MODULE ${co} (Course Outcome ${co})\n`;
-        questionPaper += `───────────────────────────────────────────────────────────────────────────────\n\n`;
-        
-        for (let setIdx = 1; setIdx <= 2; setIdx++) {
-          const questionNum = (co - 1) * 2 + setIdx;
-          
-          questionPaper += `Question ${questionNum}:\n`;
-          
-          const questionSet = questions.filter(q => 
-            parseInt(q.questionId) === questionNum
-          );
-          
-          for (const question of questionSet) {
-            const questionPart = question.questionId.slice(-1);
-            questionPaper += `${questionNum}${questionPart.toUpperCase()}. ${question.text}\n`;
-            questionPaper += `    [${question.marks} Marks | ${question.difficulty} | ${question.bloomLevel}]\n`;
-            questionPaper += `\n`;
-          }
-          
-          questionPaper += `OR\n\n`;
-        }
-        
-        questionPaper += `\n`;
-      }
-    }
-    
-    questionPaper += `═══════════════════════════════════════════════════════════════════════════════\n`;
-    questionPaper += `                                   END OF QUESTION PAPER\n`;
-    questionPaper += `═══════════════════════════════════════════════════════════════════════════════\n`;
-    
-    return questionPaper;
-  };
-
   const handleDownload = async () => {
     if (!questionPaperText || !examData) return;
     
@@ -513,18 +392,9 @@ const GenerateQuestions = () => {
       }
     }
     
-    const blob = new Blob([questionPaperText], { type: 'text/plain' });
-    const url = URL.createObjectURL(blob);
-    const a = document.createElement('a');
-    
-    const filename = `${examData.examConfig.examType}_${examData.examConfig.course}_Semester${examData.examConfig.semester}_QuestionPaper.txt`;
-    
-    a.href = url;
-    a.download = filename;
-    document.body.appendChild(a);
-    a.click();
-    document.body.removeChild(a);
-    URL.revokeObjectURL(url);
+    const paper = toPaperDocument(paperSets[activeSet])!;
+    const filename = getPaperFilename(paper, 'pdf');
+    downloadQuestionPaperPdf(paper, filename);
     
     toast({
       title: "Download Started",
@@ -532,8 +402,29 @@ const GenerateQuestions = () => {
     });
   };
 
+  // Replace a single slot and re-render the paper; the rest of the paper is kept as is
+  const handleSwapQuestion = (replacement: GeneratedQuestion) => {
+    const questions = generatedQuestions.map(q => 
+      q.questionId === replacement.questionId ? replacement : q
+    );
+    
+    updateActiveSet({
+      questions,
+      relaxations: relaxations.filter(r => r.questionId !== replacement.questionId)
+    });
+    setSwapTarget(null);
+    
+    toast({
+      title: "Question swapped",
+      description: `Question ${replacement.questionId.toUpperCase()} has been replaced.`,
+    });
+  };
+
+  const handlePaperEdit = (questions: GeneratedQuestion[]) => {
+    updateActiveSet({ questions });
+  };
+
   const handleRegenerateQuestions = () => {
-    setSavedPaperId(null); // Reset saved paper ID when regenerating
     generateQuestionsWithProcessedData();
   };
 
@@ -542,7 +433,7 @@ const GenerateQuestions = () => {
       ? "/cie-exam-setup" 
       : "/semester-exam-setup";
       
-    navigate(backRoute, { state: examData?.examConfig });
+    navigate(backRoute, { state: examData && { ...examData.examConfig, examId: examData.exam._id } });
   };
 
   if (!examData) {
@@ -589,10 +480,40 @@ const GenerateQuestions = () => {
                 </CardTitle>
               </CardHeader>
               <CardContent>
-                <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
                   <div>
                     <p className="text-sm text-cyan-200">Questions Available</p>
-                    <p className="text-xl font-bold text-white">{processedQuestions.length}</p>
+                    <p className="text-xl font-bold text-white">
+                      {bankQuestions.length}
+                      {examData && (
+                        <Button
+                          variant="link"
+                          size="sm"
+                          onClick={() => navigate(`/courses/${examData.examConfig.courseId}/question-bank`)}
+                          className="text-cyan-300 hover:text-white"
+                        >
+                          <Library className="h-4 w-4 mr-1" />
+                          Browse
+                        </Button>
+                      )}
+                    </p>
+                  </div>
+                  <div>
+                    <p className="text-sm text-cyan-200">Verified Questions</p>
+                    <p className="text-xl font-bold text-white">
+                      {bankQuestions.filter(q => q.verified).length}
+                      {processedDataId && (
+                        <Button
+                          variant="link"
+                          size="sm"
+                          onClick={() => navigate(`/processed-data/${processedDataId}/review`)}
+                          className="text-cyan-300 hover:text-white"
+                        >
+                          <ListChecks className="h-4 w-4 mr-1" />
+                          Review
+                        </Button>
+                      )}
+                    </p>
                   </div>
                   <div>
                     <p className="text-sm text-cyan-200">Topics Available</p>
@@ -622,7 +543,7 @@ const GenerateQuestions = () => {
                 <CardTitle className="flex justify-between items-center text-white">
                   <span>Question Paper Generation</span>
                   <div className="flex space-x-2">
-                    {questionPaperText && !savedPaperId && (
+                    {questionPaperText && (!savedPaperId || hasUnsavedChanges) && (
                       <Button 
                         variant="outline" 
                         size="sm"
@@ -638,7 +559,7 @@ const GenerateQuestions = () => {
                         ) : (
                           <>
                             <Save className="h-4 w-4 mr-2" />
-                            Save Paper
+                            {savedPaperId ? "Save Revision" : paperSets.length > 1 ? "Save Sets" : "Save Paper"}
                           </>
                         )}
                       </Button>
@@ -663,16 +584,41 @@ const GenerateQuestions = () => {
                       className="text-cyan-100 hover:bg-cyan-900/30 hover:text-white border-cyan-500/30"
                     >
                       <Download className="h-4 w-4 mr-2" />
-                      Download
+                      Download PDF
                     </Button>
                   </div>
                 </CardTitle>
               </CardHeader>
               <CardContent>
-                {savedPaperId && (
+                {savedPaperId && !hasUnsavedChanges && (
                   <Alert className="mb-4 bg-green-900/20 border-green-500/30">
-                    <AlertDescription className="text-green-100">
-                      <strong>✅ Question Paper Saved!</strong> This question paper is now saved to your dashboard and can be accessed anytime.
+                    <AlertDescription className="text-green-100 flex items-center justify-between">
+                      <span>
+                        <strong>✅ Question Paper Saved!</strong> This question paper is now saved to your dashboard and can be accessed anytime.
+                      </span>
+                      <Button
+                        variant="link"
+                        size="sm"
+                        onClick={() => navigate(`/question-papers/${savedPaperId}`)}
+                        className="text-green-200"
+                      >
+                        View saved paper
+                      </Button>
+                    </AlertDescription>
+                  </Alert>
+                )}
+
+                {relaxations.length > 0 && !isGenerating && (
+                  <Alert className="mb-4 bg-yellow-900/20 border-yellow-500/30">
+                    <AlertDescription className="text-yellow-100">
+                      <strong>Some constraints were relaxed:</strong>
+                      <ul className="mt-2 list-disc list-inside space-y-1 text-sm">
+                        {relaxations.map((relaxation, idx) => (
+                          <li key={idx}>
+                            {relaxation.questionId ? `Q${relaxation.questionId.toUpperCase()}: ` : ""}{relaxation.message}
+                          </li>
+                        ))}
+                      </ul>
                     </AlertDescription>
                   </Alert>
                 )}
@@ -681,6 +627,103 @@ const GenerateQuestions = () => {
                   <div className="text-center py-8">
                     <FileText className="h-12 w-12 mx-auto text-cyan-400 mb-4" />
                     <p className="text-cyan-100 mb-4">Ready to generate your {examData.examConfig.examType} question paper</p>
+                    <div className="flex flex-wrap items-center justify-center gap-3 mb-6 text-sm text-cyan-200">
+                      <span>Don't reuse questions from the last</span>
+                      <Input
+                        type="number"
+                        min="0"
+                        value={coolOff.CIE}
+                        onChange={(e) => setCoolOff(prev => ({ ...prev, CIE: Math.max(0, parseInt(e.target.value) || 0) }))}
+                        className="w-16 bg-black/50 border-cyan-500/30 text-white"
+                      />
+                      <span>CIE papers and the last</span>
+                      <Input
+                        type="number"
+                        min="0"
+                        value={coolOff.SEE}
+                        onChange={(e) => setCoolOff(prev => ({ ...prev, SEE: Math.max(0, parseInt(e.target.value) || 0) }))}
+                        className="w-16 bg-black/50 border-cyan-500/30 text-white"
+                      />
+                      <span>SEE papers, nor from CIE papers of the last</span>
+                      <Input
+                        type="number"
+                        min="0"
+                        value={coolOff.withinDays.CIE}
+                        onChange={(e) => setCoolOff(prev => ({ ...prev, withinDays: { ...prev.withinDays, CIE: Math.max(0, parseInt(e.target.value) || 0) } }))}
+                        className="w-16 bg-black/50 border-cyan-500/30 text-white"
+                      />
+                      <span>days or SEE papers of the last</span>
+                      <Input
+                        type="number"
+                        min="0"
+                        value={coolOff.withinDays.SEE}
+                        onChange={(e) => setCoolOff(prev => ({ ...prev, withinDays: { ...prev.withinDays, SEE: Math.max(0, parseInt(e.target.value) || 0) } }))}
+                        className="w-16 bg-black/50 border-cyan-500/30 text-white"
+                      />
+                      <span>days</span>
+                    </div>
+                    {hasProcessedData && (
+                      <div className="flex items-center justify-center gap-2 mb-6 text-sm text-cyan-200">
+                        <Switch
+                          id="verified-only"
+                          checked={verifiedOnly}
+                          onCheckedChange={setVerifiedOnly}
+                          className="data-[state=checked]:bg-cyan-600"
+                        />
+                        <label htmlFor="verified-only">
+                          Only use verified questions ({bankQuestions.filter(q => q.verified).length} of {bankQuestions.length})
+                        </label>
+                      </div>
+                    )}
+                    {outcomes.length > 0 && (
+                      <div className="mb-6 text-sm text-cyan-200">
+                        <p className="mb-2">Required CO coverage (marks per CO, 0 for no requirement)</p>
+                        <div className="flex flex-wrap items-center justify-center gap-3">
+                          {outcomes.map(outcome => (
+                            <label key={outcome.code} className="flex items-center gap-1" title={outcome.statement}>
+                              {outcome.code}
+                              <Input
+                                type="number"
+                                min="0"
+                                value={coTargets[outcome.code] ?? 0}
+                                onChange={(e) => setCoTargets(prev => ({
+                                  ...prev,
+                                  [outcome.code]: Math.max(0, parseFloat(e.target.value) || 0),
+                                }))}
+                                className="w-16 bg-black/50 border-cyan-500/30 text-white"
+                              />
+                            </label>
+                          ))}
+                        </div>
+                      </div>
+                    )}
+                    <div className="flex items-center justify-center gap-2 mb-6 text-sm text-cyan-200">
+                      <span>Generate</span>
+                      <Select value={String(setCount)} onValueChange={(value) => setSetCount(parseInt(value, 10))}>
+                        <SelectTrigger className="w-40 bg-black/50 border-cyan-500/30 text-white">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent className="bg-slate-800 text-white border-slate-700">
+                          {Array.from({ length: MAX_PAPER_SETS }, (_, idx) => idx + 1).map(count => (
+                            <SelectItem key={count} value={String(count)}>
+                              {count === 1 ? "a single paper" : `${count} sets (${SET_LABELS.slice(0, count).join(", ")})`}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                      {setCount > 1 && <span>with no questions in common</span>}
+                    </div>
+                    {examData.questionConfigs.some(config => config.questionType === 'MULTIPLE_CHOICE') && (
+                      <div className="flex items-center justify-center gap-2 mb-6 text-sm text-cyan-200">
+                        <Switch
+                          id="shuffle-options"
+                          checked={shuffleOptions}
+                          onCheckedChange={setShuffleOptions}
+                          className="data-[state=checked]:bg-cyan-600"
+                        />
+                        <label htmlFor="shuffle-options">Shuffle the options of multiple choice questions</label>
+                      </div>
+                    )}
                     <Button 
                       onClick={generateQuestionsWithProcessedData}
                       className="bg-cyan-600 hover:bg-cyan-500"
@@ -698,29 +741,57 @@ const GenerateQuestions = () => {
                     <div className="w-full max-w-md">
                       <Progress value={generationProgress} className="w-full" />
                       <p className="text-sm text-cyan-200/70 mt-2 text-center">
-                        {generationProgress < 40 && "Analyzing configurations..."}
-                        {generationProgress >= 40 && generationProgress < 60 && "Matching from latest question bank..."}
-                        {generationProgress >= 60 && generationProgress < 80 && "Selecting best questions..."}
-                        {generationProgress >= 80 && "Finalizing question paper..."}
+                        {generationProgress < 100 ? "Assembling paper from latest question bank..." : "Finalizing question paper..."}
                       </p>
                     </div>
                   </div>
                 )}
 
+                {paperSets.length > 1 && !isGenerating && (
+                  <div className="mb-4 space-y-4">
+                    <div className="flex items-center gap-2">
+                      {paperSets.map((set, idx) => (
+                        <Button
+                          key={set.setLabel}
+                          variant="outline"
+                          size="sm"
+                          onClick={() => setActiveSet(idx)}
+                          className={idx === activeSet
+                            ? "bg-cyan-600 hover:bg-cyan-500 text-white border-cyan-500"
+                            : "text-cyan-100 hover:bg-cyan-900/30 hover:text-white border-cyan-500/30"}
+                        >
+                          Set {set.setLabel}
+                          {unsavedSets.includes(idx) && savedPaperIds.length > 0 && " *"}
+                        </Button>
+                      ))}
+                    </div>
+                    {equivalence && <SetEquivalenceReport equivalence={equivalence} />}
+                  </div>
+                )}
+
                 {questionPaperText && !isGenerating && (
                   <Tabs defaultValue="paper" className="w-full">
-                    <TabsList className="grid w-full grid-cols-3">
-                      <TabsTrigger value="paper">Question Paper</TabsTrigger>
+                    <TabsList className="grid w-full grid-cols-4">
+                      <TabsTrigger value="paper">Edit Paper</TabsTrigger>
+                      <TabsTrigger value="preview">Preview</TabsTrigger>
                       <TabsTrigger value="questions">Question Analysis</TabsTrigger>
                       <TabsTrigger value="stats">Generation Stats</TabsTrigger>
                     </TabsList>
                     
                     <TabsContent value="paper" className="mt-4">
+                      <PaperEditor
+                        key={activeSet}
+                        pattern={examData.pattern}
+                        questions={generatedQuestions}
+                        onChange={handlePaperEdit}
+                      />
+                    </TabsContent>
+                    
+                    <TabsContent value="preview" className="mt-4">
                       <Textarea 
                         value={questionPaperText} 
-                        onChange={(e) => setQuestionPaperText(e.target.value)}
+                        readOnly
                         className="font-mono min-h-[60vh] text-sm bg-black/40 border-cyan-500/30 text-white"
-                        placeholder="Generated question paper will appear here..."
                       />
                     </TabsContent>
                     
@@ -731,9 +802,14 @@ const GenerateQuestions = () => {
                             <CardContent className="p-4">
                               <div className="flex justify-between items-start mb-2">
                                 <Badge variant={question.source === 'processed_data' ? 'default' : 'secondary'}>
-                                  {question.source === 'processed_data' ? '📚 From Latest Question Bank' : '🤖 AI Generated'}
+                                  {question.source === 'processed_data' ? '📚 From Latest Question Bank' : `🤖 AI Generated${question.provider ? ` (${question.provider})` : ''}`}
                                 </Badge>
-                                <div className="flex space-x-2">
+                                <div className="flex items-center space-x-2">
+                                  {isObjective(question.type) && (
+                                    <Badge variant="outline" className="text-white border-white/30">
+                                      {QUESTION_TYPE_LABELS[question.type!]}
+                                    </Badge>
+                                  )}
                                   <Badge variant="outline" className="text-white border-white/30">
                                     {question.marks} marks
                                   </Badge>
@@ -743,15 +819,38 @@ const GenerateQuestions = () => {
                                   <Badge variant="outline" className="text-white border-white/30">
                                     {question.bloomLevel}
                                   </Badge>
+                                  <Button
+                                    variant="outline"
+                                    size="sm"
+                                    onClick={() => setSwapTarget(question)}
+                                    className="h-7 text-cyan-100 hover:bg-cyan-900/30 hover:text-white border-cyan-500/30"
+                                  >
+                                    <ArrowLeftRight className="h-3 w-3 mr-1" />
+                                    Swap
+                                  </Button>
                                 </div>
                               </div>
                               <p className="text-white mb-2 font-medium">Q{question.questionId}: {question.text}</p>
+                              {formatOptions(question.options).map((option, idx) => (
+                                <p key={idx} className="text-sm text-cyan-100 ml-4">{option}</p>
+                              ))}
+                              {isObjective(question.type) && (
+                                <p className={`text-sm mb-2 ${getAnswer(question) ? "text-green-300" : "text-yellow-300"}`}>
+                                  {getAnswer(question) ? `Answer: ${getAnswer(question)}` : "No answer marked yet; set it in the paper editor"}
+                                </p>
+                              )}
                               <div className="grid grid-cols-2 md:grid-cols-3 gap-2 text-sm">
                                 <span className="text-cyan-200">Unit: {question.unit}</span>
                                 <span className="text-cyan-200">Topic: {question.topic}</span>
                                 {question.co && (
                                   <span className="text-cyan-200">CO: {question.co}</span>
                                 )}
+                                {!!question.reuseCount && (
+                                  <span className={question.recentlyUsed ? "text-yellow-300" : "text-cyan-200"}>
+                                    {question.recentlyUsed ? "Used recently" : "Used before"}: {question.reuseCount} paper{question.reuseCount === 1 ? "" : "s"}
+                                    {question.lastUsedAt && `, last ${new Date(question.lastUsedAt).toLocaleDateString()}`}
+                                  </span>
+                                )}
                               </div>
                             </CardContent>
                           </Card>
@@ -804,6 +903,11 @@ const GenerateQuestions = () => {
                         </Card>
                       </div>
                       
+                      <div className="mt-6">
+                        <h3 className="text-lg font-medium text-white mb-4">CO-wise Marks</h3>
+                        <CoMarksTable questions={generatedQuestions} outcomes={outcomes} />
+                      </div>
+                      
                       <div className="mt-6">
                         <h3 className="text-lg font-medium text-white mb-4">Difficulty Distribution</h3>
                         <div className="grid grid-cols-3 gap-4">
@@ -830,6 +934,20 @@ const GenerateQuestions = () => {
           </div>
         </main>
       </div>
+
+      <QuestionSwapDialog
+        question={swapTarget}
+        config={swapConfig}
+        courseId={examData.examConfig.courseId}
+        examType={examData.examConfig.examType}
+        patternId={examData.pattern._id}
+        usedIds={usedBankIds}
+        coolOff={coolOff}
+        verifiedOnly={verifiedOnly}
+        optionSeed={activeOptionSeed}
+        onClose={() => setSwapTarget(null)}
+        onSelect={handleSwapQuestion}
+      />
     </NetworkGridBackground>
   );
 };
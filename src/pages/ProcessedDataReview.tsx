@@ -0,0 +1,575 @@
+// src/pages/ProcessedDataReview.tsx - Educators check and correct a processed question bank before it is used
+import { useCallback, useEffect, useMemo, useState } from "react";
+import { useNavigate, useParams } from "react-router-dom";
+import axios, { AxiosResponse } from "axios";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { useToast } from "@/components/ui/use-toast";
+import {
+  AlertTriangle,
+  ArrowLeft,
+  ArrowUpDown,
+  CheckCircle,
+  Combine,
+  History,
+  Loader2,
+  Pencil,
+  Save,
+  Scissors,
+  Trash2,
+  X,
+} from "lucide-react";
+import NetworkGridBackground from "@/components/NetworkGridBackground";
+import { processedDataAPI } from "@/lib/api";
+import {
+  BLOOM_LEVELS,
+  BankQuestion,
+  BankQuestionChanges,
+  BankSortKey,
+  BulkAction,
+  DIFFICULTIES,
+  ReviewedProcessedData,
+  SortDirection,
+  getTopicUnits,
+  isLowSimilarity,
+  sortBankQuestions,
+} from "@/lib/bankReview";
+
+type RowFilter = 'all' | 'unverified' | 'low';
+
+const COLUMNS: { key: BankSortKey; label: string; className?: string }[] = [
+  { key: 'question_id', label: '#', className: 'w-14' },
+  { key: 'question', label: 'Question' },
+  { key: 'predicted_marks', label: 'Marks', className: 'w-24' },
+  { key: 'bloom_level', label: 'Bloom', className: 'w-24' },
+  { key: 'difficulty', label: 'Difficulty', className: 'w-28' },
+  { key: 'matched_unit', label: 'Unit / Topic', className: 'w-56' },
+  { key: 'topic_similarity', label: 'Similarity', className: 'w-28' },
+  { key: 'verified', label: 'Verified', className: 'w-24' },
+];
+
+const ProcessedDataReview = () => {
+  const { id } = useParams<{ id: string }>();
+  const navigate = useNavigate();
+  const { toast } = useToast();
+
+  const [data, setData] = useState<ReviewedProcessedData | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [busy, setBusy] = useState<string | null>(null);
+  const [sortKey, setSortKey] = useState<BankSortKey>('question_id');
+  const [sortDirection, setSortDirection] = useState<SortDirection>('asc');
+  const [filter, setFilter] = useState<RowFilter>('all');
+  const [selectedIds, setSelectedIds] = useState<number[]>([]);
+  const [editingId, setEditingId] = useState<number | null>(null);
+  const [draft, setDraft] = useState<BankQuestionChanges>({});
+  const [splitTarget, setSplitTarget] = useState<BankQuestion | null>(null);
+  const [splitText, setSplitText] = useState("");
+
+  const loadData = useCallback(async () => {
+    if (!id) return;
+
+    try {
+      const response = await processedDataAPI.getProcessedData(id);
+      setData(response.data);
+    } catch (error) {
+      const responseData = axios.isAxiosError(error) ? error.response?.data : undefined;
+      toast({
+        title: "Error",
+        description: responseData?.message || "Failed to load the processed question bank.",
+        variant: "destructive",
+      });
+      navigate("/document-upload");
+    } finally {
+      setIsLoading(false);
+    }
+  }, [id, navigate, toast]);
+
+  useEffect(() => {
+    loadData();
+  }, [loadData]);
+
+  const rows = useMemo(() => {
+    if (!data) return [];
+    const visible = data.questions.filter(question => {
+      if (filter === 'unverified') return !question.verified;
+      if (filter === 'low') return isLowSimilarity(question, data.similarityThreshold);
+      return true;
+    });
+    return sortBankQuestions(visible, sortKey, sortDirection);
+  }, [data, filter, sortKey, sortDirection]);
+
+  const units = useMemo(() => (data ? getTopicUnits(data.topics) : []), [data]);
+
+  // Every change returns the updated record, which replaces the local copy
+  const runAction = async (
+    label: string,
+    request: () => Promise<AxiosResponse<ReviewedProcessedData>>,
+    successMessage?: string
+  ) => {
+    setBusy(label);
+    try {
+      const response = await request();
+      setData(response.data);
+      const remaining = new Set(response.data.questions.map(question => question.question_id));
+      setSelectedIds(ids => ids.filter(questionId => remaining.has(questionId)));
+      if (successMessage) {
+        toast({ title: "Question bank updated", description: successMessage });
+      }
+      return true;
+    } catch (error) {
+      const responseData = axios.isAxiosError(error) ? error.response?.data : undefined;
+      toast({
+        title: "Update failed",
+        description: responseData?.errors?.[0]?.msg || responseData?.message || "Failed to update the question bank.",
+        variant: "destructive",
+      });
+      return false;
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  const handleSort = (key: BankSortKey) => {
+    if (key === sortKey) {
+      setSortDirection(direction => direction === 'asc' ? 'desc' : 'asc');
+    } else {
+      setSortKey(key);
+      setSortDirection('asc');
+    }
+  };
+
+  const toggleSelected = (questionId: number, checked: boolean) => {
+    setSelectedIds(ids => checked ? [...ids, questionId] : ids.filter(selectedId => selectedId !== questionId));
+  };
+
+  const allVisibleSelected = rows.length > 0 && rows.every(row => selectedIds.includes(row.question_id));
+
+  const toggleAllVisible = (checked: boolean) => {
+    const visibleIds = rows.map(row => row.question_id);
+    setSelectedIds(ids => checked
+      ? Array.from(new Set([...ids, ...visibleIds]))
+      : ids.filter(selectedId => !visibleIds.includes(selectedId)));
+  };
+
+  const startEditing = (question: BankQuestion) => {
+    setEditingId(question.question_id);
+    setDraft({
+      question: question.question,
+      predicted_marks: question.predicted_marks,
+      bloom_level: question.bloom_level,
+      difficulty: question.difficulty,
+      matched_topic: question.matched_topic,
+      matched_unit: question.matched_unit,
+    });
+  };
+
+  const handleSaveEdit = async () => {
+    if (!id || editingId === null) return;
+    const saved = await runAction('edit', () => processedDataAPI.updateQuestion(id, editingId, draft));
+    if (saved) {
+      setEditingId(null);
+      setDraft({});
+    }
+  };
+
+  const handleTopicChange = (topicName: string) => {
+    const topic = data?.topics.find(candidate => candidate.topic === topicName);
+    setDraft(current => ({ ...current, matched_topic: topicName, matched_unit: topic?.unit || current.matched_unit }));
+  };
+
+  const handleVerify = (question: BankQuestion, verified: boolean) => {
+    if (!id) return;
+    runAction(`verify-${question.question_id}`, () =>
+      processedDataAPI.updateQuestion(id, question.question_id, { verified }));
+  };
+
+  const handleBulk = (action: BulkAction) => {
+    if (!id || selectedIds.length === 0) return;
+    const count = selectedIds.length;
+    const messages: Record<BulkAction, string> = {
+      verify: `${count} question(s) marked as verified.`,
+      unverify: `${count} question(s) marked as unverified.`,
+      delete: `${count} question(s) removed from the bank.`,
+    };
+    runAction(action, () => processedDataAPI.bulkAction(id, action, selectedIds), messages[action]);
+  };
+
+  const handleMerge = async () => {
+    if (!id || selectedIds.length < 2) return;
+    const merged = await runAction('merge', () => processedDataAPI.mergeQuestions(id, selectedIds),
+      `${selectedIds.length} questions merged into one.`);
+    if (merged) setSelectedIds([]);
+  };
+
+  const openSplit = (question: BankQuestion) => {
+    setSplitTarget(question);
+    setSplitText(question.question);
+  };
+
+  const splitParts = splitText.split(/\n\s*\n/).map(part => part.trim()).filter(Boolean);
+
+  const handleSplit = async () => {
+    if (!id || !splitTarget) return;
+    const split = await runAction('split', () => processedDataAPI.splitQuestion(id, splitTarget.question_id, splitParts),
+      `Question split into ${splitParts.length} questions.`);
+    if (split) setSplitTarget(null);
+  };
+
+  if (isLoading || !data) {
+    return (
+      <NetworkGridBackground>
+        <div className="min-h-screen flex items-center justify-center">
+          <Loader2 className="h-8 w-8 animate-spin text-cyan-400" />
+        </div>
+      </NetworkGridBackground>
+    );
+  }
+
+  const renderTopicSelect = () => {
+    const topicNames = data.topics.map(topic => topic.topic);
+    return (
+      <div className="space-y-1">
+        <Select value={draft.matched_unit} onValueChange={(value) => setDraft(current => ({ ...current, matched_unit: value }))}>
+          <SelectTrigger className="h-8 border-cyan-500/30 bg-black/50 text-white">
+            <SelectValue placeholder="Unit" />
+          </SelectTrigger>
+          <SelectContent className="bg-slate-800 text-white border-slate-700">
+            {units.map(unit => <SelectItem key={unit} value={unit}>{unit}</SelectItem>)}
+            {draft.matched_unit && !units.includes(draft.matched_unit) && (
+              <SelectItem value={draft.matched_unit}>{draft.matched_unit}</SelectItem>
+            )}
+          </SelectContent>
+        </Select>
+        <Select value={draft.matched_topic} onValueChange={handleTopicChange}>
+          <SelectTrigger className="h-8 border-cyan-500/30 bg-black/50 text-white">
+            <SelectValue placeholder="Topic" />
+          </SelectTrigger>
+          <SelectContent className="bg-slate-800 text-white border-slate-700">
+            {data.topics
+              .filter(topic => !draft.matched_unit || topic.unit === draft.matched_unit)
+              .map(topic => <SelectItem key={topic._id} value={topic.topic}>{topic.topic}</SelectItem>)}
+            {draft.matched_topic && !topicNames.includes(draft.matched_topic) && (
+              <SelectItem value={draft.matched_topic}>{draft.matched_topic}</SelectItem>
+            )}
+          </SelectContent>
+        </Select>
+      </div>
+    );
+  };
+
+  return (
+    <NetworkGridBackground>
+      <div className="min-h-screen">
+        <header className="bg-black/40 backdrop-blur-sm border-b border-cyan-500/20 shadow-sm">
+          <div className="max-w-7xl mx-auto py-4 px-4 sm:px-6 lg:px-8 flex items-center justify-between">
+            <div className="flex items-center">
+              <Button variant="ghost" size="sm" onClick={() => navigate("/document-upload")} className="mr-4 text-cyan-100 hover:bg-cyan-900/30 hover:text-white">
+                <ArrowLeft className="h-4 w-4 mr-2" />
+                Back
+              </Button>
+              <div>
+                <h1 className="text-2xl font-bold text-white">Review Question Bank</h1>
+                <p className="text-sm text-cyan-200">
+                  {data.course.name} ({data.course.code}) • version {data.version}
+                  {data.isActive && " • active"} • {data.originalFileNames.questionBank}
+                </p>
+              </div>
+            </div>
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => navigate(`/courses/${data.course._id}/bank-versions`)}
+              className="text-cyan-100 hover:bg-cyan-900/30 hover:text-white border-cyan-500/30"
+            >
+              <History className="h-4 w-4 mr-2" />
+              Versions
+            </Button>
+          </div>
+        </header>
+
+        <main className="max-w-7xl mx-auto py-6 sm:px-6 lg:px-8">
+          <div className="px-4 py-6 sm:px-0 space-y-6">
+            <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+              {[
+                { label: "Questions", value: data.summary.total },
+                { label: "Verified", value: `${data.summary.verified} / ${data.summary.total}` },
+                { label: "Corrected", value: data.summary.edited },
+                { label: `Similarity below ${data.similarityThreshold}`, value: data.summary.lowSimilarity },
+              ].map(stat => (
+                <Card key={stat.label} className="bg-black/40 backdrop-blur-sm border-cyan-400/30 shadow-lg">
+                  <CardContent className="pt-6">
+                    <p className="text-sm text-cyan-200">{stat.label}</p>
+                    <p className="text-2xl font-bold text-white">{stat.value}</p>
+                  </CardContent>
+                </Card>
+              ))}
+            </div>
+
+            <Card className="bg-black/40 backdrop-blur-sm border-cyan-400/30 shadow-lg">
+              <CardHeader className="flex flex-row items-center justify-between space-y-0 gap-4 flex-wrap">
+                <CardTitle className="text-white">Questions ({rows.length})</CardTitle>
+                <div className="flex flex-wrap items-center gap-2">
+                  <Select value={filter} onValueChange={(value) => setFilter(value as RowFilter)}>
+                    <SelectTrigger className="w-48 border-cyan-500/30 bg-black/50 text-white">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent className="bg-slate-800 text-white border-slate-700">
+                      <SelectItem value="all">All questions</SelectItem>
+                      <SelectItem value="unverified">Not verified</SelectItem>
+                      <SelectItem value="low">Low similarity</SelectItem>
+                    </SelectContent>
+                  </Select>
+                  <Button
+                    size="sm"
+                    onClick={() => handleBulk('verify')}
+                    disabled={busy !== null || selectedIds.length === 0}
+                    className="bg-green-600 hover:bg-green-500"
+                  >
+                    <CheckCircle className="h-4 w-4 mr-2" />
+                    Verify ({selectedIds.length})
+                  </Button>
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => handleBulk('unverify')}
+                    disabled={busy !== null || selectedIds.length === 0}
+                    className="text-cyan-100 hover:bg-cyan-900/30 hover:text-white border-cyan-500/30"
+                  >
+                    Unverify
+                  </Button>
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={handleMerge}
+                    disabled={busy !== null || selectedIds.length < 2}
+                    className="text-cyan-100 hover:bg-cyan-900/30 hover:text-white border-cyan-500/30"
+                  >
+                    <Combine className="h-4 w-4 mr-2" />
+                    Merge
+                  </Button>
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => handleBulk('delete')}
+                    disabled={busy !== null || selectedIds.length === 0}
+                    className="text-red-300 hover:bg-red-900/30 hover:text-red-200 border-red-500/30"
+                  >
+                    <Trash2 className="h-4 w-4 mr-2" />
+                    Delete
+                  </Button>
+                </div>
+              </CardHeader>
+              <CardContent>
+                <Table>
+                  <TableHeader>
+                    <TableRow className="border-cyan-500/20 hover:bg-transparent">
+                      <TableHead className="w-10">
+                        <Checkbox
+                          checked={allVisibleSelected}
+                          onCheckedChange={(checked) => toggleAllVisible(checked as boolean)}
+                          className="border-white/50 data-[state=checked]:bg-cyan-600 data-[state=checked]:border-cyan-600"
+                        />
+                      </TableHead>
+                      {COLUMNS.map(column => (
+                        <TableHead key={column.key} className={column.className}>
+                          <button
+                            type="button"
+                            onClick={() => handleSort(column.key)}
+                            className={`flex items-center text-xs uppercase tracking-wide ${sortKey === column.key ? "text-white" : "text-cyan-200"}`}
+                          >
+                            {column.label}
+                            <ArrowUpDown className="h-3 w-3 ml-1" />
+                          </button>
+                        </TableHead>
+                      ))}
+                      <TableHead className="w-28" />
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {rows.length === 0 && (
+                      <TableRow className="border-cyan-500/20">
+                        <TableCell colSpan={COLUMNS.length + 2} className="text-center text-cyan-200 py-8">
+                          No questions match this filter
+                        </TableCell>
+                      </TableRow>
+                    )}
+                    {rows.map(question => {
+                      const isEditing = editingId === question.question_id;
+                      const lowSimilarity = isLowSimilarity(question, data.similarityThreshold);
+
+                      return (
+                        <TableRow
+                          key={question.question_id}
+                          className={`border-cyan-500/20 align-top ${lowSimilarity ? "bg-yellow-900/20 hover:bg-yellow-900/30" : "hover:bg-cyan-900/10"}`}
+                        >
+                          <TableCell>
+                            <Checkbox
+                              checked={selectedIds.includes(question.question_id)}
+                              onCheckedChange={(checked) => toggleSelected(question.question_id, checked as boolean)}
+                              className="border-white/50 data-[state=checked]:bg-cyan-600 data-[state=checked]:border-cyan-600"
+                            />
+                          </TableCell>
+                          <TableCell className="text-cyan-200">{question.question_id}</TableCell>
+                          <TableCell className="text-white">
+                            {isEditing ? (
+                              <Textarea
+                                value={draft.question}
+                                onChange={(e) => setDraft(current => ({ ...current, question: e.target.value }))}
+                                className="min-h-[80px] text-sm bg-black/40 border-cyan-500/30 text-white"
+                              />
+                            ) : (
+                              <>
+                                <p className="whitespace-pre-wrap">{question.question}</p>
+                                {question.edited && (
+                                  <Badge variant="outline" className="mt-1 text-cyan-200 border-cyan-500/40">Corrected</Badge>
+                                )}
+                              </>
+                            )}
+                          </TableCell>
+                          <TableCell className="text-white">
+                            {isEditing ? (
+                              <Input
+                                type="number"
+                                min="1"
+                                value={draft.predicted_marks}
+                                onChange={(e) => setDraft(current => ({ ...current, predicted_marks: parseFloat(e.target.value) || 0 }))}
+                                className="h-8 bg-black/50 border-cyan-500/30 text-white"
+                              />
+                            ) : question.predicted_marks}
+                          </TableCell>
+                          <TableCell className="text-white">
+                            {isEditing ? (
+                              <Select value={draft.bloom_level} onValueChange={(value) => setDraft(current => ({ ...current, bloom_level: value }))}>
+                                <SelectTrigger className="h-8 border-cyan-500/30 bg-black/50 text-white">
+                                  <SelectValue />
+                                </SelectTrigger>
+                                <SelectContent className="bg-slate-800 text-white border-slate-700">
+                                  {BLOOM_LEVELS.map(level => <SelectItem key={level} value={level}>{level}</SelectItem>)}
+                                </SelectContent>
+                              </Select>
+                            ) : question.bloom_level}
+                          </TableCell>
+                          <TableCell className="text-white capitalize">
+                            {isEditing ? (
+                              <Select value={draft.difficulty} onValueChange={(value) => setDraft(current => ({ ...current, difficulty: value }))}>
+                                <SelectTrigger className="h-8 border-cyan-500/30 bg-black/50 text-white">
+                                  <SelectValue />
+                                </SelectTrigger>
+                                <SelectContent className="bg-slate-800 text-white border-slate-700">
+                                  {DIFFICULTIES.map(level => (
+                                    <SelectItem key={level} value={level} className="capitalize">{level}</SelectItem>
+                                  ))}
+                                </SelectContent>
+                              </Select>
+                            ) : question.difficulty}
+                          </TableCell>
+                          <TableCell className="text-white">
+                            {isEditing ? renderTopicSelect() : (
+                              <>
+                                <p className="text-cyan-200 text-xs">{question.matched_unit}</p>
+                                <p>{question.matched_topic}</p>
+                              </>
+                            )}
+                          </TableCell>
+                          <TableCell>
+                            <span className={`flex items-center ${lowSimilarity ? "text-yellow-300" : "text-cyan-100"}`}>
+                              {lowSimilarity && <AlertTriangle className="h-3 w-3 mr-1" />}
+                              {question.topic_similarity.toFixed(2)}
+                            </span>
+                          </TableCell>
+                          <TableCell>
+                            <Checkbox
+                              checked={!!question.verified}
+                              disabled={busy !== null}
+                              onCheckedChange={(checked) => handleVerify(question, checked as boolean)}
+                              className="border-white/50 data-[state=checked]:bg-green-600 data-[state=checked]:border-green-600"
+                            />
+                          </TableCell>
+                          <TableCell>
+                            {isEditing ? (
+                              <div className="flex gap-1">
+                                <Button size="sm" onClick={handleSaveEdit} disabled={busy !== null} className="bg-cyan-600 hover:bg-cyan-500">
+                                  {busy === 'edit' ? <Loader2 className="h-4 w-4 animate-spin" /> : <Save className="h-4 w-4" />}
+                                </Button>
+                                <Button
+                                  variant="ghost"
+                                  size="sm"
+                                  onClick={() => setEditingId(null)}
+                                  className="text-cyan-100 hover:bg-cyan-900/30 hover:text-white"
+                                >
+                                  <X className="h-4 w-4" />
+                                </Button>
+                              </div>
+                            ) : (
+                              <div className="flex gap-1">
+                                <Button
+                                  variant="ghost"
+                                  size="sm"
+                                  onClick={() => startEditing(question)}
+                                  disabled={editingId !== null}
+                                  title="Edit"
+                                  className="text-cyan-100 hover:bg-cyan-900/30 hover:text-white"
+                                >
+                                  <Pencil className="h-4 w-4" />
+                                </Button>
+                                <Button
+                                  variant="ghost"
+                                  size="sm"
+                                  onClick={() => openSplit(question)}
+                                  disabled={busy !== null}
+                                  title="Split"
+                                  className="text-cyan-100 hover:bg-cyan-900/30 hover:text-white"
+                                >
+                                  <Scissors className="h-4 w-4" />
+                                </Button>
+                              </div>
+                            )}
+                          </TableCell>
+                        </TableRow>
+                      );
+                    })}
+                  </TableBody>
+                </Table>
+              </CardContent>
+            </Card>
+          </div>
+        </main>
+      </div>
+
+      <Dialog open={!!splitTarget} onOpenChange={(open) => !open && setSplitTarget(null)}>
+        <DialogContent className="max-w-2xl bg-slate-900 border-cyan-500/30 text-white">
+          <DialogHeader>
+            <DialogTitle>Split Question {splitTarget?.question_id}</DialogTitle>
+            <DialogDescription className="text-cyan-200">
+              Separate the parts with a blank line. The first part keeps this question's place; marks are shared out evenly and can be corrected afterwards.
+            </DialogDescription>
+          </DialogHeader>
+          <Textarea
+            value={splitText}
+            onChange={(e) => setSplitText(e.target.value)}
+            className="min-h-[200px] text-sm bg-black/40 border-cyan-500/30 text-white"
+          />
+          <DialogFooter>
+            <Button
+              onClick={handleSplit}
+              disabled={busy !== null || splitParts.length < 2}
+              className="bg-cyan-600 hover:bg-cyan-500"
+            >
+              {busy === 'split' ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Scissors className="h-4 w-4 mr-2" />}
+              Split into {splitParts.length} questions
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </NetworkGridBackground>
+  );
+};
+
+export default ProcessedDataReview;
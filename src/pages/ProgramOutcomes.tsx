@@ -0,0 +1,328 @@
+// src/pages/ProgramOutcomes.tsx - A department's program outcomes and a course's CO-PO articulation matrix
+import { useCallback, useEffect, useState } from "react";
+import { useNavigate, useParams } from "react-router-dom";
+import axios from "axios";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { useToast } from "@/components/ui/use-toast";
+import { ArrowLeft, Loader2, Plus, Save, Trash2 } from "lucide-react";
+import NetworkGridBackground from "@/components/NetworkGridBackground";
+import { coursesAPI, departmentsAPI } from "@/lib/api";
+import { CourseOutcome } from "@/lib/courseOutcomes";
+import { formatLevel } from "@/lib/paperAnalysis";
+import {
+  CORRELATION_LABELS,
+  CORRELATION_LEVELS,
+  CorrelationLevel,
+  PoCorrelation,
+  PoMappingData,
+  ProgramOutcome,
+  getCorrelation,
+  nextProgramOutcomeCode,
+  setCorrelation,
+} from "@/lib/programOutcomes";
+
+// Clicking a matrix cell steps through no correlation, 1, 2 and 3
+const nextLevel = (level?: CorrelationLevel) => CORRELATION_LEVELS.find(candidate => candidate > (level ?? 0));
+
+const ProgramOutcomes = () => {
+  const { courseId } = useParams<{ courseId: string }>();
+  const navigate = useNavigate();
+  const { toast } = useToast();
+
+  const [course, setCourse] = useState<PoMappingData["course"] | null>(null);
+  const [outcomes, setOutcomes] = useState<CourseOutcome[]>([]);
+  const [programOutcomes, setProgramOutcomes] = useState<ProgramOutcome[]>([]);
+  const [mapping, setMapping] = useState<PoCorrelation[]>([]);
+  const [canEditPos, setCanEditPos] = useState(false);
+  const [isLoading, setIsLoading] = useState(true);
+  const [savingPart, setSavingPart] = useState<"pos" | "mapping" | null>(null);
+  const [posChanged, setPosChanged] = useState(false);
+  const [mappingChanged, setMappingChanged] = useState(false);
+
+  const showError = useCallback((title: string, fallback: string, error: unknown) => {
+    const data = axios.isAxiosError(error) ? error.response?.data : undefined;
+    toast({
+      title,
+      description: data?.errors?.join(". ") || data?.message || fallback,
+      variant: "destructive",
+    });
+  }, [toast]);
+
+  const applyPoMapping = (data: PoMappingData) => {
+    setCourse(data.course);
+    setOutcomes(data.outcomes);
+    setProgramOutcomes(data.programOutcomes);
+    setMapping(data.mapping);
+    setPosChanged(false);
+    setMappingChanged(false);
+  };
+
+  const loadPoMapping = useCallback(async () => {
+    if (!courseId) return;
+
+    try {
+      const response = await coursesAPI.getPoMapping(courseId);
+      applyPoMapping(response.data);
+      const department = await departmentsAPI.getProgramOutcomes(response.data.course.department);
+      setCanEditPos(department.data.canEdit);
+    } catch (error) {
+      showError("Error", "Failed to load the CO-PO mapping.", error);
+    } finally {
+      setIsLoading(false);
+    }
+  }, [courseId, showError]);
+
+  useEffect(() => {
+    loadPoMapping();
+  }, [loadPoMapping]);
+
+  const updateProgramOutcome = (idx: number, changes: Partial<ProgramOutcome>) => {
+    setProgramOutcomes(current => current.map((outcome, outcomeIdx) => outcomeIdx === idx ? { ...outcome, ...changes } : outcome));
+    setPosChanged(true);
+  };
+
+  const addProgramOutcome = () => {
+    setProgramOutcomes(current => [...current, { code: nextProgramOutcomeCode(current), statement: "" }]);
+    setPosChanged(true);
+  };
+
+  const removeProgramOutcome = (idx: number) => {
+    setProgramOutcomes(current => current.filter((_, outcomeIdx) => outcomeIdx !== idx));
+    setPosChanged(true);
+  };
+
+  const handleSaveProgramOutcomes = async () => {
+    if (!course || !courseId) return;
+
+    setSavingPart("pos");
+    try {
+      await departmentsAPI.updateProgramOutcomes(course.department, programOutcomes);
+      // Reload so the matrix columns follow the saved codes
+      const response = await coursesAPI.getPoMapping(courseId);
+      applyPoMapping(response.data);
+      toast({
+        title: "Program outcomes saved",
+        description: `Every ${course.department} course now maps its COs to these outcomes.`,
+      });
+    } catch (error) {
+      showError("Save failed", "Failed to save the program outcomes.", error);
+    } finally {
+      setSavingPart(null);
+    }
+  };
+
+  const toggleCorrelation = (co: string, po: string) => {
+    setMapping(current => setCorrelation(current, co, po, nextLevel(getCorrelation(current, co, po))));
+    setMappingChanged(true);
+  };
+
+  const handleSaveMapping = async () => {
+    if (!courseId) return;
+
+    setSavingPart("mapping");
+    try {
+      const response = await coursesAPI.updatePoMapping(courseId, mapping);
+      applyPoMapping(response.data);
+      toast({
+        title: "CO-PO mapping saved",
+        description: "Paper analysis reports now use this matrix.",
+      });
+    } catch (error) {
+      showError("Save failed", "Failed to save the CO-PO mapping.", error);
+    } finally {
+      setSavingPart(null);
+    }
+  };
+
+  // Average of the levels given in a PO column, as the articulation matrix prints it
+  const getAverage = (po: string) => {
+    const levels = outcomes.map(outcome => getCorrelation(mapping, outcome.code, po)).filter((level): level is CorrelationLevel => !!level);
+    return levels.length > 0 ? Math.round(levels.reduce((sum, level) => sum + level, 0) / levels.length * 100) / 100 : 0;
+  };
+
+  if (isLoading) {
+    return (
+      <NetworkGridBackground>
+        <div className="min-h-screen flex items-center justify-center">
+          <Loader2 className="h-8 w-8 animate-spin text-cyan-400" />
+        </div>
+      </NetworkGridBackground>
+    );
+  }
+
+  return (
+    <NetworkGridBackground>
+      <div className="min-h-screen">
+        <header className="bg-black/40 backdrop-blur-sm border-b border-cyan-500/20 shadow-sm">
+          <div className="max-w-7xl mx-auto py-4 px-4 sm:px-6 lg:px-8 flex items-center">
+            <Button variant="ghost" size="sm" onClick={() => navigate(-1)} className="mr-4 text-cyan-100 hover:bg-cyan-900/30 hover:text-white">
+              <ArrowLeft className="h-4 w-4 mr-2" />
+              Back
+            </Button>
+            <div>
+              <h1 className="text-2xl font-bold text-white">CO-PO Mapping</h1>
+              {course && <p className="text-sm text-cyan-200">{course.name} ({course.code}) • {course.department}</p>}
+            </div>
+          </div>
+        </header>
+
+        <main className="max-w-7xl mx-auto py-6 sm:px-6 lg:px-8">
+          <div className="px-4 py-6 sm:px-0 space-y-6">
+            <Card className="bg-black/40 backdrop-blur-sm border-cyan-400/30 shadow-lg">
+              <CardHeader>
+                <CardTitle className="text-white flex items-center justify-between">
+                  Program Outcomes
+                  {canEditPos && (
+                    <div className="flex gap-2">
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={addProgramOutcome}
+                        className="text-cyan-100 hover:bg-cyan-900/30 hover:text-white border-cyan-500/30"
+                      >
+                        <Plus className="h-4 w-4 mr-2" />
+                        Add PO
+                      </Button>
+                      <Button
+                        size="sm"
+                        onClick={handleSaveProgramOutcomes}
+                        disabled={savingPart !== null || !posChanged}
+                        className="bg-cyan-600 hover:bg-cyan-500"
+                      >
+                        {savingPart === "pos" ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Save className="h-4 w-4 mr-2" />}
+                        Save
+                      </Button>
+                    </div>
+                  )}
+                </CardTitle>
+                <CardDescription className="text-cyan-200">
+                  Shared by every course of the {course?.department} department. Name program-specific outcomes PSO1, PSO2 ...
+                </CardDescription>
+              </CardHeader>
+              <CardContent className="space-y-3">
+                {programOutcomes.length === 0 && (
+                  <p className="text-sm text-cyan-300/70">
+                    {canEditPos
+                      ? "No program outcomes yet. Add the department's POs to map this course's COs to them."
+                      : "The department has no program outcomes yet. An admin or one of its educators can add them."}
+                  </p>
+                )}
+                {programOutcomes.map((outcome, idx) => (
+                  <div key={idx} className="flex items-start gap-3">
+                    <Input
+                      value={outcome.code}
+                      disabled={!canEditPos}
+                      onChange={(e) => updateProgramOutcome(idx, { code: e.target.value.toUpperCase() })}
+                      className="w-24 bg-black/50 border-cyan-500/30 text-white font-semibold"
+                    />
+                    <Input
+                      value={outcome.statement}
+                      disabled={!canEditPos}
+                      placeholder="Engineering knowledge: apply the knowledge of ..."
+                      onChange={(e) => updateProgramOutcome(idx, { statement: e.target.value })}
+                      className="flex-1 bg-black/50 border-cyan-500/30 text-white"
+                    />
+                    {canEditPos && (
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => removeProgramOutcome(idx)}
+                        className="text-red-300 hover:text-red-100"
+                      >
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    )}
+                  </div>
+                ))}
+              </CardContent>
+            </Card>
+
+            <Card className="bg-black/40 backdrop-blur-sm border-cyan-400/30 shadow-lg">
+              <CardHeader>
+                <CardTitle className="text-white flex items-center justify-between">
+                  CO-PO Articulation Matrix
+                  <Button
+                    size="sm"
+                    onClick={handleSaveMapping}
+                    disabled={savingPart !== null || !mappingChanged || posChanged}
+                    className="bg-cyan-600 hover:bg-cyan-500"
+                  >
+                    {savingPart === "mapping" ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Save className="h-4 w-4 mr-2" />}
+                    Save
+                  </Button>
+                </CardTitle>
+                <CardDescription className="text-cyan-200">
+                  Click a cell to step through {CORRELATION_LEVELS.map(level => `${level} (${CORRELATION_LABELS[level].toLowerCase()})`).join(", ")} and no correlation.
+                  {posChanged && " Save the program outcomes first."}
+                </CardDescription>
+              </CardHeader>
+              <CardContent>
+                {outcomes.length === 0 || programOutcomes.length === 0 ? (
+                  <div className="text-sm text-cyan-300/70">
+                    {outcomes.length === 0 ? (
+                      <>
+                        This course has no outcomes yet.{" "}
+                        <Button variant="link" className="p-0 h-auto text-cyan-300" onClick={() => navigate(`/courses/${courseId}/outcomes`)}>
+                          Define its COs
+                        </Button>
+                      </>
+                    ) : (
+                      "Add program outcomes above to build the matrix."
+                    )}
+                  </div>
+                ) : (
+                  <div className="overflow-x-auto">
+                    <Table>
+                      <TableHeader>
+                        <TableRow className="border-cyan-500/20 hover:bg-transparent">
+                          <TableHead className="text-cyan-200 w-20">CO</TableHead>
+                          {programOutcomes.map(po => (
+                            <TableHead key={po.code} className="text-cyan-200 text-center" title={po.statement}>{po.code}</TableHead>
+                          ))}
+                        </TableRow>
+                      </TableHeader>
+                      <TableBody>
+                        {outcomes.map(outcome => (
+                          <TableRow key={outcome.code} className="border-cyan-500/20">
+                            <TableCell className="font-semibold text-white" title={outcome.statement}>{outcome.code}</TableCell>
+                            {programOutcomes.map(po => {
+                              const level = getCorrelation(mapping, outcome.code, po.code);
+                              return (
+                                <TableCell key={po.code} className="p-1 text-center">
+                                  <Button
+                                    variant="ghost"
+                                    size="sm"
+                                    onClick={() => toggleCorrelation(outcome.code, po.code)}
+                                    title={level ? CORRELATION_LABELS[level] : "No correlation"}
+                                    className={`w-10 ${level ? "bg-cyan-600/60 text-white hover:bg-cyan-500" : "text-cyan-300/50 hover:bg-cyan-900/30"}`}
+                                  >
+                                    {formatLevel(level)}
+                                  </Button>
+                                </TableCell>
+                              );
+                            })}
+                          </TableRow>
+                        ))}
+                        <TableRow className="border-cyan-500/20">
+                          <TableCell className="font-semibold text-cyan-200">Average</TableCell>
+                          {programOutcomes.map(po => (
+                            <TableCell key={po.code} className="text-center text-cyan-100">{formatLevel(getAverage(po.code))}</TableCell>
+                          ))}
+                        </TableRow>
+                      </TableBody>
+                    </Table>
+                  </div>
+                )}
+              </CardContent>
+            </Card>
+          </div>
+        </main>
+      </div>
+    </NetworkGridBackground>
+  );
+};
+
+export default ProgramOutcomes;
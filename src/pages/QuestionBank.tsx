@@ -0,0 +1,638 @@
+// src/pages/QuestionBank.tsx - Browse a course's question bank and author questions by hand
+import { useCallback, useEffect, useState } from "react";
+import { useNavigate, useParams } from "react-router-dom";
+import axios from "axios";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { useToast } from "@/components/ui/use-toast";
+import { ArrowLeft, CheckCircle, History, Library, Loader2, Pencil, Plus, Save, Search, Tags, Target, Trash2, Upload } from "lucide-react";
+import NetworkGridBackground from "@/components/NetworkGridBackground";
+import BankExportMenu from "@/components/BankExportMenu";
+import BankImportDialog from "@/components/BankImportDialog";
+import OptionsEditor from "@/components/OptionsEditor";
+import { bankQuestionAPI, coursesAPI } from "@/lib/api";
+import { BLOOM_LEVELS, DIFFICULTIES } from "@/lib/bankReview";
+import { DifficultyLevel } from "@/lib/examPattern";
+import {
+  BankFileFormat,
+  BankSource,
+  EMPTY_DRAFT,
+  FILE_FORMAT_EXTENSIONS,
+  QuestionBankDraft,
+  QuestionBankEntry,
+  QuestionBankFacets,
+  QuestionBankFilters,
+  SOURCE_LABELS,
+  parseTags,
+  saveBlob,
+  toDraft,
+} from "@/lib/questionBank";
+import { QUESTION_TYPE_LABELS, QuestionType, defaultOptions, formatOptions, isObjective, validateOptions } from "@/lib/questionTypes";
+import { CourseOutcome, getTopicOutcome } from "@/lib/courseOutcomes";
+
+// Radix selects cannot hold an empty value, so "no filter" and "no CO" get their own
+const ANY = "any";
+const NO_CO = "none";
+
+const EMPTY_FACETS: QuestionBankFacets = { units: [], topics: [], cos: [], tags: [] };
+
+const QuestionBank = () => {
+  const { courseId } = useParams<{ courseId: string }>();
+  const navigate = useNavigate();
+  const { toast } = useToast();
+
+  const [course, setCourse] = useState<{ _id: string; name: string; code: string } | null>(null);
+  const [questions, setQuestions] = useState<QuestionBankEntry[]>([]);
+  const [total, setTotal] = useState(0);
+  const [facets, setFacets] = useState<QuestionBankFacets>(EMPTY_FACETS);
+  const [filters, setFilters] = useState<QuestionBankFilters>({});
+  const [searchText, setSearchText] = useState("");
+  const [isLoading, setIsLoading] = useState(true);
+  const [editing, setEditing] = useState<QuestionBankEntry | null>(null);
+  const [isDialogOpen, setIsDialogOpen] = useState(false);
+  const [draft, setDraft] = useState<QuestionBankDraft>(EMPTY_DRAFT);
+  const [tagText, setTagText] = useState("");
+  const [isSaving, setIsSaving] = useState(false);
+  const [deletingId, setDeletingId] = useState<string | null>(null);
+  const [isImportOpen, setIsImportOpen] = useState(false);
+  const [isExporting, setIsExporting] = useState(false);
+  const [outcomes, setOutcomes] = useState<CourseOutcome[]>([]);
+  const [isTagging, setIsTagging] = useState(false);
+
+  const loadQuestions = useCallback(async () => {
+    if (!courseId) return;
+
+    try {
+      const response = await bankQuestionAPI.getQuestions(courseId, filters);
+      setCourse(response.data.course);
+      setQuestions(response.data.questions);
+      setTotal(response.data.total);
+      setFacets(response.data.facets);
+    } catch (error) {
+      const data = axios.isAxiosError(error) ? error.response?.data : undefined;
+      toast({
+        title: "Error",
+        description: data?.message || "Failed to load the question bank.",
+        variant: "destructive",
+      });
+    } finally {
+      setIsLoading(false);
+    }
+  }, [courseId, filters, toast]);
+
+  useEffect(() => {
+    loadQuestions();
+  }, [loadQuestions]);
+
+  useEffect(() => {
+    if (!courseId) return;
+    coursesAPI.getOutcomes(courseId)
+      .then(response => setOutcomes(response.data.outcomes))
+      .catch(() => setOutcomes([]));
+  }, [courseId]);
+
+  const handleTagOutcomes = async () => {
+    if (!courseId) return;
+
+    setIsTagging(true);
+    try {
+      const response = await bankQuestionAPI.tagOutcomes(courseId);
+      toast({
+        title: "Questions tagged",
+        description: response.data.untagged > 0
+          ? `${response.data.message}; ${response.data.untagged} are on topics not mapped to a CO.`
+          : response.data.message,
+      });
+      await loadQuestions();
+    } catch (error) {
+      const data = axios.isAxiosError(error) ? error.response?.data : undefined;
+      toast({
+        title: "Tagging failed",
+        description: data?.message || "Failed to tag questions with COs.",
+        variant: "destructive",
+      });
+    } finally {
+      setIsTagging(false);
+    }
+  };
+
+  const setFilter = (key: keyof QuestionBankFilters, value: string) => {
+    setFilters(current => ({ ...current, [key]: value === ANY ? undefined : value }));
+  };
+
+  const openDialog = (question: QuestionBankEntry | null) => {
+    const next = question ? toDraft(question) : EMPTY_DRAFT;
+    setEditing(question);
+    setDraft(next);
+    setTagText(next.tags.join(", "));
+    setIsDialogOpen(true);
+  };
+
+  const handleSave = async () => {
+    if (!courseId) return;
+
+    const question = {
+      ...draft,
+      options: draft.options.filter(option => option.text.trim()),
+      tags: parseTags(tagText),
+    };
+    setIsSaving(true);
+    try {
+      if (editing) {
+        await bankQuestionAPI.updateQuestion(editing._id, question);
+      } else {
+        await bankQuestionAPI.createQuestion(courseId, question);
+      }
+      toast({
+        title: editing ? "Question updated" : "Question added",
+        description: editing ? "The bank question has been saved." : "The question has been added to the bank.",
+      });
+      setIsDialogOpen(false);
+      await loadQuestions();
+    } catch (error) {
+      const data = axios.isAxiosError(error) ? error.response?.data : undefined;
+      toast({
+        title: "Save failed",
+        description: data?.errors?.[0]?.msg || data?.message || "Failed to save the question.",
+        variant: "destructive",
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleDelete = async (question: QuestionBankEntry) => {
+    setDeletingId(question._id);
+    try {
+      await bankQuestionAPI.deleteQuestion(question._id);
+      toast({
+        title: "Question deleted",
+        description: "The question has been removed from the bank.",
+      });
+      await loadQuestions();
+    } catch (error) {
+      const data = axios.isAxiosError(error) ? error.response?.data : undefined;
+      toast({
+        title: "Delete failed",
+        description: data?.message || "Failed to delete the question.",
+        variant: "destructive",
+      });
+    } finally {
+      setDeletingId(null);
+    }
+  };
+
+  // Exports the questions matching the current filters
+  const handleExport = async (format: BankFileFormat) => {
+    if (!courseId || !course) return;
+
+    setIsExporting(true);
+    try {
+      const response = await bankQuestionAPI.exportQuestions(courseId, format, filters);
+      saveBlob(response.data, `${course.code}-question-bank.${FILE_FORMAT_EXTENSIONS[format]}`);
+    } catch {
+      toast({
+        title: "Export failed",
+        description: "Failed to export the question bank.",
+        variant: "destructive",
+      });
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  const renderFilter = (key: keyof QuestionBankFilters, placeholder: string, options: { value: string; label: string }[]) => (
+    <Select value={filters[key] ?? ANY} onValueChange={(value) => setFilter(key, value)}>
+      <SelectTrigger className="w-40 border-cyan-500/30 bg-black/50 text-white">
+        <SelectValue placeholder={placeholder} />
+      </SelectTrigger>
+      <SelectContent className="bg-slate-800 text-white border-slate-700">
+        <SelectItem value={ANY}>{placeholder}</SelectItem>
+        {options.map(option => (
+          <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+
+  const asOptions = (values: string[]) => values.map(value => ({ value, label: value }));
+
+  if (isLoading) {
+    return (
+      <NetworkGridBackground>
+        <div className="min-h-screen flex items-center justify-center">
+          <Loader2 className="h-8 w-8 animate-spin text-cyan-400" />
+        </div>
+      </NetworkGridBackground>
+    );
+  }
+
+  return (
+    <NetworkGridBackground>
+      <div className="min-h-screen">
+        <header className="bg-black/40 backdrop-blur-sm border-b border-cyan-500/20 shadow-sm">
+          <div className="max-w-7xl mx-auto py-4 px-4 sm:px-6 lg:px-8 flex items-center justify-between">
+            <div className="flex items-center">
+              <Button variant="ghost" size="sm" onClick={() => navigate("/document-upload")} className="mr-4 text-cyan-100 hover:bg-cyan-900/30 hover:text-white">
+                <ArrowLeft className="h-4 w-4 mr-2" />
+                Back
+              </Button>
+              <div>
+                <h1 className="text-2xl font-bold text-white">Question Bank</h1>
+                {course && <p className="text-sm text-cyan-200">{course.name} ({course.code})</p>}
+              </div>
+            </div>
+            <div className="flex gap-2">
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => navigate(`/courses/${courseId}/bank-versions`)}
+                className="text-cyan-100 hover:bg-cyan-900/30 hover:text-white border-cyan-500/30"
+              >
+                <History className="h-4 w-4 mr-2" />
+                Upload Versions
+              </Button>
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => navigate(`/courses/${courseId}/outcomes`)}
+                className="text-cyan-100 hover:bg-cyan-900/30 hover:text-white border-cyan-500/30"
+              >
+                <Target className="h-4 w-4 mr-2" />
+                Course Outcomes
+              </Button>
+              {outcomes.length > 0 && (
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={handleTagOutcomes}
+                  disabled={isTagging}
+                  className="text-cyan-100 hover:bg-cyan-900/30 hover:text-white border-cyan-500/30"
+                >
+                  {isTagging ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Tags className="h-4 w-4 mr-2" />}
+                  Tag COs from Topics
+                </Button>
+              )}
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => setIsImportOpen(true)}
+                className="text-cyan-100 hover:bg-cyan-900/30 hover:text-white border-cyan-500/30"
+              >
+                <Upload className="h-4 w-4 mr-2" />
+                Import
+              </Button>
+              <BankExportMenu isExporting={isExporting} onExport={handleExport} />
+              <Button size="sm" onClick={() => openDialog(null)} className="bg-cyan-600 hover:bg-cyan-500">
+                <Plus className="h-4 w-4 mr-2" />
+                Add Question
+              </Button>
+            </div>
+          </div>
+        </header>
+
+        <main className="max-w-7xl mx-auto py-6 sm:px-6 lg:px-8">
+          <div className="px-4 py-6 sm:px-0 space-y-6">
+            <Card className="bg-black/40 backdrop-blur-sm border-cyan-400/30 shadow-lg">
+              <CardHeader>
+                <CardTitle className="text-white flex items-center">
+                  <Library className="h-5 w-5 mr-2 text-cyan-400" />
+                  Questions ({questions.length} of {total})
+                </CardTitle>
+              </CardHeader>
+              <CardContent className="space-y-4">
+                <div className="flex flex-wrap items-center gap-2">
+                  <form
+                    className="flex gap-2"
+                    onSubmit={(e) => {
+                      e.preventDefault();
+                      setFilters(current => ({ ...current, search: searchText.trim() || undefined }));
+                    }}
+                  >
+                    <Input
+                      value={searchText}
+                      onChange={(e) => setSearchText(e.target.value)}
+                      placeholder="Search question text"
+                      className="w-64 bg-black/50 border-cyan-500/30 text-white"
+                    />
+                    <Button type="submit" variant="outline" size="icon" className="border-cyan-500/30 text-cyan-100 hover:bg-cyan-900/30">
+                      <Search className="h-4 w-4" />
+                    </Button>
+                  </form>
+                  {renderFilter('unit', "All units", asOptions(facets.units))}
+                  {renderFilter('topic', "All topics", asOptions(facets.topics))}
+                  {renderFilter('co', "All COs", asOptions(facets.cos))}
+                  {renderFilter('tag', "All tags", asOptions(facets.tags))}
+                  {renderFilter('type', "All types", (Object.keys(QUESTION_TYPE_LABELS) as QuestionType[]).map(type => ({
+                    value: type,
+                    label: QUESTION_TYPE_LABELS[type],
+                  })))}
+                  {renderFilter('bloomLevel', "All Bloom levels", asOptions(BLOOM_LEVELS))}
+                  {renderFilter('difficulty', "All difficulties", asOptions(DIFFICULTIES))}
+                  {renderFilter('source', "All sources", (Object.keys(SOURCE_LABELS) as BankSource[]).map(source => ({
+                    value: source,
+                    label: SOURCE_LABELS[source],
+                  })))}
+                  {renderFilter('verified', "Any status", [
+                    { value: 'true', label: "Verified" },
+                    { value: 'false', label: "Unverified" },
+                  ])}
+                </div>
+
+                {questions.length === 0 ? (
+                  <p className="text-cyan-200">
+                    {total === 0
+                      ? "This course's bank is empty. Upload a question bank or add questions by hand."
+                      : "No questions match these filters."}
+                  </p>
+                ) : (
+                  <Table>
+                    <TableHeader>
+                      <TableRow className="border-cyan-500/20 hover:bg-transparent">
+                        <TableHead className="text-cyan-200">Question</TableHead>
+                        <TableHead className="text-cyan-200 w-20">Marks</TableHead>
+                        <TableHead className="text-cyan-200 w-20">Bloom</TableHead>
+                        <TableHead className="text-cyan-200 w-24">Difficulty</TableHead>
+                        <TableHead className="text-cyan-200 w-48">Unit / Topic</TableHead>
+                        <TableHead className="text-cyan-200 w-16">CO</TableHead>
+                        <TableHead className="text-cyan-200 w-24">Source</TableHead>
+                        <TableHead className="w-24" />
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {questions.map(question => (
+                        <TableRow key={question._id} className="border-cyan-500/10 hover:bg-cyan-900/10">
+                          <TableCell className="text-white">
+                            <p className="flex items-start gap-2">
+                              {question.verified && <CheckCircle className="h-4 w-4 mt-0.5 shrink-0 text-green-400" />}
+                              {question.text}
+                            </p>
+                            {isObjective(question.type) && (
+                              <div className="mt-1 text-sm text-cyan-100">
+                                <Badge variant="outline" className="text-cyan-200 border-cyan-500/40 mb-1">
+                                  {QUESTION_TYPE_LABELS[question.type!]}
+                                </Badge>
+                                {formatOptions(question.options).map((option, idx) => (
+                                  <span
+                                    key={idx}
+                                    className={`block ml-2 ${question.options?.[idx].isCorrect ? "text-green-300" : ""}`}
+                                  >
+                                    {option}
+                                  </span>
+                                ))}
+                              </div>
+                            )}
+                            {question.tags.length > 0 && (
+                              <div className="flex flex-wrap gap-1 mt-1">
+                                {question.tags.map(tag => (
+                                  <Badge key={tag} variant="outline" className="text-cyan-200 border-cyan-500/40">{tag}</Badge>
+                                ))}
+                              </div>
+                            )}
+                          </TableCell>
+                          <TableCell className="text-white">{question.marks}</TableCell>
+                          <TableCell className="text-white">{question.bloomLevel}</TableCell>
+                          <TableCell className="text-white capitalize">{question.difficulty}</TableCell>
+                          <TableCell className="text-sm text-cyan-100">
+                            {question.unit || "—"}
+                            {question.topic && <span className="block text-cyan-200/80">{question.topic}</span>}
+                          </TableCell>
+                          <TableCell className="text-white" title={outcomes.find(outcome => outcome.code === question.co)?.statement}>
+                            {question.co || "—"}
+                          </TableCell>
+                          <TableCell>
+                            <Badge variant={question.source === 'manual' ? "default" : "secondary"}>
+                              {SOURCE_LABELS[question.source]}
+                            </Badge>
+                          </TableCell>
+                          <TableCell>
+                            <div className="flex gap-1">
+                              <Button
+                                variant="ghost"
+                                size="icon"
+                                onClick={() => openDialog(question)}
+                                className="text-cyan-100 hover:bg-cyan-900/30 hover:text-white"
+                              >
+                                <Pencil className="h-4 w-4" />
+                              </Button>
+                              <Button
+                                variant="ghost"
+                                size="icon"
+                                onClick={() => handleDelete(question)}
+                                disabled={deletingId !== null}
+                                className="text-red-300 hover:bg-red-900/30 hover:text-red-100"
+                              >
+                                {deletingId === question._id
+                                  ? <Loader2 className="h-4 w-4 animate-spin" />
+                                  : <Trash2 className="h-4 w-4" />}
+                              </Button>
+                            </div>
+                          </TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                )}
+              </CardContent>
+            </Card>
+          </div>
+        </main>
+      </div>
+
+      <Dialog open={isDialogOpen} onOpenChange={setIsDialogOpen}>
+        <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto bg-slate-900 border-cyan-500/30 text-white">
+          <DialogHeader>
+            <DialogTitle>{editing ? "Edit Question" : "Add Question"}</DialogTitle>
+            <DialogDescription className="text-cyan-200">
+              {editing?.source === 'upload'
+                ? "This question was imported from the active upload; text and classification changes are saved to that upload too."
+                : "Questions added here are used for generation alongside imported ones."}
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <label className="text-sm font-medium text-cyan-100">Question</label>
+              <Textarea
+                value={draft.text}
+                onChange={(e) => setDraft({ ...draft, text: e.target.value })}
+                className="min-h-[120px] text-sm bg-black/40 border-cyan-500/30 text-white"
+              />
+            </div>
+            <div className="space-y-2">
+              <label className="text-sm font-medium text-cyan-100">Question Type</label>
+              <Select
+                value={draft.type}
+                onValueChange={(value) => setDraft({
+                  ...draft,
+                  type: value as QuestionType,
+                  options: defaultOptions(value as QuestionType),
+                })}
+              >
+                <SelectTrigger className="border-cyan-500/30 bg-black/40 text-white">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent className="bg-slate-800 text-white border-slate-700">
+                  {(Object.keys(QUESTION_TYPE_LABELS) as QuestionType[]).map(type => (
+                    <SelectItem key={type} value={type}>{QUESTION_TYPE_LABELS[type]}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            {isObjective(draft.type) && (
+              <div className="space-y-2">
+                <label className="text-sm font-medium text-cyan-100">Options</label>
+                <OptionsEditor
+                  type={draft.type}
+                  options={draft.options}
+                  onChange={(options) => setDraft({ ...draft, options })}
+                />
+                {validateOptions(draft.type, draft.options) && (
+                  <p className="text-xs text-yellow-300">{validateOptions(draft.type, draft.options)}</p>
+                )}
+              </div>
+            )}
+            <div className="grid grid-cols-3 gap-4">
+              <div className="space-y-2">
+                <label className="text-sm font-medium text-cyan-100">Marks</label>
+                <Input
+                  type="number"
+                  min={1}
+                  value={draft.marks}
+                  onChange={(e) => setDraft({ ...draft, marks: Number(e.target.value) })}
+                  className="bg-black/40 border-cyan-500/30 text-white"
+                />
+              </div>
+              <div className="space-y-2">
+                <label className="text-sm font-medium text-cyan-100">Bloom Level</label>
+                <Select value={draft.bloomLevel} onValueChange={(value) => setDraft({ ...draft, bloomLevel: value })}>
+                  <SelectTrigger className="border-cyan-500/30 bg-black/40 text-white">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent className="bg-slate-800 text-white border-slate-700">
+                    {BLOOM_LEVELS.map(level => <SelectItem key={level} value={level}>{level}</SelectItem>)}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <label className="text-sm font-medium text-cyan-100">Difficulty</label>
+                <Select
+                  value={draft.difficulty}
+                  onValueChange={(value) => setDraft({ ...draft, difficulty: value as DifficultyLevel })}
+                >
+                  <SelectTrigger className="border-cyan-500/30 bg-black/40 text-white capitalize">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent className="bg-slate-800 text-white border-slate-700">
+                    {DIFFICULTIES.map(level => <SelectItem key={level} value={level} className="capitalize">{level}</SelectItem>)}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+            <div className="grid grid-cols-3 gap-4">
+              <div className="space-y-2">
+                <label className="text-sm font-medium text-cyan-100">Unit</label>
+                <Input
+                  value={draft.unit}
+                  onChange={(e) => setDraft({ ...draft, unit: e.target.value })}
+                  placeholder="Unit 1"
+                  list="bank-units"
+                  className="bg-black/40 border-cyan-500/30 text-white"
+                />
+              </div>
+              <div className="space-y-2">
+                <label className="text-sm font-medium text-cyan-100">Topic</label>
+                <Input
+                  value={draft.topic}
+                  onChange={(e) => setDraft({ ...draft, topic: e.target.value })}
+                  list="bank-topics"
+                  className="bg-black/40 border-cyan-500/30 text-white"
+                />
+              </div>
+              <div className="space-y-2">
+                <label className="text-sm font-medium text-cyan-100">Course Outcome</label>
+                {outcomes.length > 0 ? (
+                  <Select value={draft.co || NO_CO} onValueChange={(value) => setDraft({ ...draft, co: value === NO_CO ? "" : value })}>
+                    <SelectTrigger className="bg-black/40 border-cyan-500/30 text-white">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent className="bg-slate-800 text-white border-slate-700">
+                      <SelectItem value={NO_CO}>
+                        {getTopicOutcome(outcomes, draft.topic) ? `From topic (${getTopicOutcome(outcomes, draft.topic)})` : "Not set"}
+                      </SelectItem>
+                      {outcomes.map(outcome => (
+                        <SelectItem key={outcome.code} value={outcome.code}>{outcome.code}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                ) : (
+                  <Input
+                    value={draft.co}
+                    onChange={(e) => setDraft({ ...draft, co: e.target.value })}
+                    placeholder="CO1"
+                    className="bg-black/40 border-cyan-500/30 text-white"
+                  />
+                )}
+              </div>
+            </div>
+            <div className="space-y-2">
+              <label className="text-sm font-medium text-cyan-100">Tags</label>
+              <Input
+                value={tagText}
+                onChange={(e) => setTagText(e.target.value)}
+                placeholder="Comma separated, e.g. numerical, lab"
+                className="bg-black/40 border-cyan-500/30 text-white"
+              />
+            </div>
+            <label className="flex items-center gap-2 text-sm text-cyan-100">
+              <Checkbox
+                checked={draft.verified}
+                onCheckedChange={(checked) => setDraft({ ...draft, verified: checked === true })}
+                className="border-white/50 data-[state=checked]:bg-cyan-600 data-[state=checked]:border-cyan-600"
+              />
+              Verified
+            </label>
+            <datalist id="bank-units">
+              {facets.units.map(unit => <option key={unit} value={unit} />)}
+            </datalist>
+            <datalist id="bank-topics">
+              {facets.topics.map(topic => <option key={topic} value={topic} />)}
+            </datalist>
+          </div>
+
+          <DialogFooter>
+            <Button
+              onClick={handleSave}
+              disabled={isSaving || !draft.text.trim() || !(draft.marks > 0) || !!validateOptions(draft.type, draft.options)}
+              className="bg-cyan-600 hover:bg-cyan-500"
+            >
+              {isSaving ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Save className="h-4 w-4 mr-2" />}
+              {editing ? "Save Changes" : "Add to Bank"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      {courseId && (
+        <BankImportDialog
+          open={isImportOpen}
+          courseId={courseId}
+          onClose={() => setIsImportOpen(false)}
+          onImported={() => {
+            setIsImportOpen(false);
+            loadQuestions();
+          }}
+        />
+      )}
+    </NetworkGridBackground>
+  );
+};
+
+export default QuestionBank;
@@ -0,0 +1,648 @@
+// src/pages/QuestionPaperDetail.tsx - Saved question paper with per-question metadata and revision history
+import { useCallback, useEffect, useState } from "react";
+import { useNavigate, useParams } from "react-router-dom";
+import axios from "axios";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useToast } from "@/components/ui/use-toast";
+import { ArrowLeft, Download, FileText, GitCompare, History, Loader2, Lock, PenLine, RotateCcw, Save } from "lucide-react";
+import NetworkGridBackground from "@/components/NetworkGridBackground";
+import AnswerKeyEditor from "@/components/AnswerKeyEditor";
+import BankExportMenu from "@/components/BankExportMenu";
+import PaperReviewPanel from "@/components/PaperReviewPanel";
+import SetEquivalenceReport from "@/components/SetEquivalenceReport";
+import CoMarksTable from "@/components/CoMarksTable";
+import PaperAnalysisReport from "@/components/PaperAnalysisReport";
+import PaperEditor from "@/components/PaperEditor";
+import { questionPaperAPI } from "@/lib/api";
+import { getSectionGroups } from "@/lib/examPattern";
+import {
+  GeneratedQuestion,
+  PaperDocument,
+  formatQuestionPaper,
+  getPaperFilename,
+  getQuestionLabel,
+  getSectionQuestions,
+} from "@/lib/questionPaper";
+import { downloadQuestionPaperPdf } from "@/lib/pdfExport";
+import {
+  PaperRevision,
+  PaperRevisionSummary,
+  RevisionDiffRow,
+  diffRevisions,
+  loadPaperDocument,
+} from "@/lib/savedPapers";
+import {
+  PAPER_STATUS_LABELS,
+  PAPER_STATUS_STYLES,
+  ReviewedQuestionPaper,
+  TRANSITION_LABELS,
+  isPaperEditable,
+} from "@/lib/paperReview";
+import { BankFileFormat, FILE_FORMAT_EXTENSIONS, saveBlob } from "@/lib/questionBank";
+import { formatOptions } from "@/lib/questionTypes";
+import { EXAM_STATUS_LABELS } from "@/lib/exams";
+import { LinkedPaperSet, SetEquivalence } from "@/lib/paperSets";
+
+const CHANGE_STYLES: Record<RevisionDiffRow['change'], string> = {
+  added: "border-green-500/40 bg-green-900/20",
+  removed: "border-red-500/40 bg-red-900/20",
+  changed: "border-yellow-500/40 bg-yellow-900/20",
+  unchanged: "border-cyan-500/20 bg-black/20",
+};
+
+const QuestionMeta = ({ question }: { question: GeneratedQuestion }) => (
+  <div className="flex flex-wrap gap-2 mt-2">
+    <Badge variant="outline" className="text-white border-white/30">{question.marks} marks</Badge>
+    <Badge variant="outline" className="text-white border-white/30">{question.difficulty}</Badge>
+    <Badge variant="outline" className="text-white border-white/30">{question.bloomLevel}</Badge>
+    {question.co && <Badge variant="outline" className="text-white border-white/30">CO{question.co}</Badge>}
+    <Badge variant={question.source === 'processed_data' ? 'default' : 'secondary'}>
+      {question.source === 'processed_data' ? 'Question Bank' : `AI Generated${question.provider ? ` (${question.provider})` : ''}`}
+    </Badge>
+    {question.unit && <span className="text-xs text-cyan-200 self-center">Unit: {question.unit}</span>}
+    {question.topic && <span className="text-xs text-cyan-200 self-center">Topic: {question.topic}</span>}
+    {question.similarity != null && (
+      <span className="text-xs text-cyan-200 self-center">Similarity: {Math.round(question.similarity * 100)}%</span>
+    )}
+  </div>
+);
+
+const QuestionPaperDetail = () => {
+  const { id } = useParams<{ id: string }>();
+  const navigate = useNavigate();
+  const { toast } = useToast();
+
+  const [savedPaper, setSavedPaper] = useState<ReviewedQuestionPaper | null>(null);
+  const [paper, setPaper] = useState<PaperDocument | null>(null);
+  const [revisions, setRevisions] = useState<PaperRevisionSummary[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [restoringRevision, setRestoringRevision] = useState<number | null>(null);
+  const [compareLeft, setCompareLeft] = useState<string>("");
+  const [compareRight, setCompareRight] = useState<string>("");
+  const [diff, setDiff] = useState<{ left: PaperRevision; right: PaperRevision; rows: RevisionDiffRow[] } | null>(null);
+  const [isComparing, setIsComparing] = useState(false);
+  const [isExporting, setIsExporting] = useState(false);
+  const [isDownloadingDocx, setIsDownloadingDocx] = useState(false);
+  const [paperSets, setPaperSets] = useState<{ papers: LinkedPaperSet[]; equivalence: SetEquivalence } | null>(null);
+  // Questions being edited; null outside edit mode
+  const [editedQuestions, setEditedQuestions] = useState<GeneratedQuestion[] | null>(null);
+  const [isSavingEdits, setIsSavingEdits] = useState(false);
+
+  const loadPaper = useCallback(async () => {
+    if (!id) return;
+
+    try {
+      const [{ saved, document }, revisionsResponse] = await Promise.all([
+        loadPaperDocument(id),
+        questionPaperAPI.getRevisions(id),
+      ]);
+      const revisionList: PaperRevisionSummary[] = revisionsResponse.data;
+
+      setSavedPaper(saved as ReviewedQuestionPaper);
+      setPaper(document);
+      setRevisions(revisionList);
+      setCompareRight(revisionList[0] ? String(revisionList[0].revision) : "");
+      setCompareLeft(revisionList[1] ? String(revisionList[1].revision) : "");
+      setPaperSets(saved.setGroup ? (await questionPaperAPI.getPaperSets(id)).data : null);
+    } catch (error) {
+      console.error("Error loading question paper:", error);
+      toast({
+        title: "Error",
+        description: "Failed to load the question paper.",
+        variant: "destructive",
+      });
+      navigate("/dashboard");
+    } finally {
+      setIsLoading(false);
+    }
+  }, [id, navigate, toast]);
+
+  useEffect(() => {
+    loadPaper();
+  }, [loadPaper]);
+
+  const handleDownload = async () => {
+    if (!paper || !id) return;
+
+    const filename = getPaperFilename(paper, 'pdf');
+    downloadQuestionPaperPdf(paper, filename);
+
+    try {
+      await questionPaperAPI.trackDownload(id);
+    } catch (error) {
+      console.error('Failed to track download:', error);
+    }
+
+    toast({
+      title: "Download Started",
+      description: `Question paper saved as ${filename}`,
+    });
+  };
+
+  // Word document rendered by the server, counted like the PDF
+  const handleDownloadDocx = async () => {
+    if (!paper || !id) return;
+
+    setIsDownloadingDocx(true);
+    try {
+      const filename = getPaperFilename(paper, 'docx');
+      const response = await questionPaperAPI.downloadDocx(id);
+      saveBlob(response.data, filename);
+
+      try {
+        await questionPaperAPI.trackDownload(id);
+      } catch (error) {
+        console.error('Failed to track download:', error);
+      }
+
+      toast({
+        title: "Download Started",
+        description: `Question paper saved as ${filename}`,
+      });
+    } catch {
+      toast({
+        title: "Download failed",
+        description: "Failed to export the question paper as a Word document.",
+        variant: "destructive",
+      });
+    } finally {
+      setIsDownloadingDocx(false);
+    }
+  };
+
+  // Exports the paper's questions for an LMS or a spreadsheet
+  const handleExport = async (format: BankFileFormat) => {
+    if (!paper || !id) return;
+
+    setIsExporting(true);
+    try {
+      const response = await questionPaperAPI.exportPaper(id, format);
+      saveBlob(response.data, getPaperFilename(paper, FILE_FORMAT_EXTENSIONS[format]));
+    } catch {
+      toast({
+        title: "Export failed",
+        description: "Failed to export the question paper.",
+        variant: "destructive",
+      });
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  // Saving the edited questions stores them as the paper's next revision; `resubmit` then sends
+  // the revised paper back to review
+  const handleSaveEdits = async (resubmit = false) => {
+    if (!paper || !id || !editedQuestions) return;
+
+    setIsSavingEdits(true);
+    let isSaved = false;
+    try {
+      const response = await questionPaperAPI.updateQuestionPaper(id, {
+        content: formatQuestionPaper({ ...paper, questions: editedQuestions }),
+        questions: editedQuestions,
+        totalQuestions: editedQuestions.length,
+      });
+      isSaved = true;
+      setEditedQuestions(null);
+      setDiff(null);
+      toast({
+        title: "Question Paper Saved",
+        description: response.data.message,
+      });
+
+      if (resubmit) {
+        const statusResponse = await questionPaperAPI.changeStatus(id, 'SUBMITTED');
+        toast({
+          title: PAPER_STATUS_LABELS.SUBMITTED,
+          description: statusResponse.data.message,
+        });
+      }
+    } catch (error) {
+      const data = axios.isAxiosError(error) ? error.response?.data : undefined;
+      toast({
+        title: isSaved ? "Submit failed" : "Save failed",
+        description: data?.message || (isSaved
+          ? "The revision was saved but could not be submitted for review."
+          : "Failed to save the question paper. Please try again."),
+        variant: "destructive",
+      });
+    } finally {
+      setIsSavingEdits(false);
+      if (isSaved) await loadPaper();
+    }
+  };
+
+  const handleRestore = async (revision: number) => {
+    if (!id) return;
+
+    setRestoringRevision(revision);
+    try {
+      const response = await questionPaperAPI.restoreRevision(id, revision);
+      toast({
+        title: "Revision restored",
+        description: response.data.message,
+      });
+      setDiff(null);
+      await loadPaper();
+    } catch (error) {
+      toast({
+        title: "Restore failed",
+        description: "Failed to restore this revision. Please try again.",
+        variant: "destructive",
+      });
+    } finally {
+      setRestoringRevision(null);
+    }
+  };
+
+  const handleCompare = async () => {
+    if (!id || !compareLeft || !compareRight) return;
+
+    setIsComparing(true);
+    try {
+      const [leftResponse, rightResponse] = await Promise.all([
+        questionPaperAPI.getRevision(id, parseInt(compareLeft)),
+        questionPaperAPI.getRevision(id, parseInt(compareRight)),
+      ]);
+      const left: PaperRevision = leftResponse.data;
+      const right: PaperRevision = rightResponse.data;
+      const normalize = (revision: PaperRevision) =>
+        revision.questions.map(question => ({ ...question, section: question.section ?? parseInt(question.questionId, 10) }));
+
+      setDiff({ left, right, rows: diffRevisions(normalize(left), normalize(right)) });
+    } catch (error) {
+      toast({
+        title: "Compare failed",
+        description: "Failed to load the selected revisions.",
+        variant: "destructive",
+      });
+    } finally {
+      setIsComparing(false);
+    }
+  };
+
+  if (isLoading || !savedPaper || !paper) {
+    return (
+      <NetworkGridBackground>
+        <div className="flex items-center justify-center min-h-screen">
+          <div className="text-white">Loading...</div>
+        </div>
+      </NetworkGridBackground>
+    );
+  }
+
+  const { pattern } = paper;
+  const isAlternatives = pattern.choiceRule.mode === 'ALTERNATIVES';
+  const currentRevision = savedPaper.revision ?? revisions[0]?.revision ?? 1;
+  const isEditable = savedPaper.isOwner && isPaperEditable(savedPaper.status, savedPaper.examLocked);
+  const canResubmit = isEditable && savedPaper.status === 'CHANGES_REQUESTED' && savedPaper.availableTransitions.includes('SUBMITTED');
+  const commentCounts = savedPaper.reviewComments.reduce<Record<string, number>>((counts, comment) => {
+    if (comment.questionId) counts[comment.questionId] = (counts[comment.questionId] || 0) + 1;
+    return counts;
+  }, {});
+
+  return (
+    <NetworkGridBackground>
+      <div className="min-h-screen">
+        <header className="bg-black/40 backdrop-blur-sm border-b border-cyan-500/20 shadow-sm">
+          <div className="max-w-7xl mx-auto py-4 px-4 sm:px-6 lg:px-8 flex items-center justify-between">
+            <div className="flex items-center">
+              <Button variant="ghost" size="sm" onClick={() => navigate("/dashboard")} className="mr-4 text-cyan-100 hover:bg-cyan-900/30 hover:text-white">
+                <ArrowLeft className="h-4 w-4 mr-2" />
+                Back
+              </Button>
+              <h1 className="text-2xl font-bold text-white">{savedPaper.title}</h1>
+              <Badge className={`ml-3 ${PAPER_STATUS_STYLES[savedPaper.status]}`}>
+                {PAPER_STATUS_LABELS[savedPaper.status]}
+              </Badge>
+              {savedPaper.setLabel && (
+                <Badge variant="outline" className="ml-2 text-white border-white/30">Set {savedPaper.setLabel}</Badge>
+              )}
+              {savedPaper.examLocked && (
+                <Badge className="ml-2 bg-yellow-700">
+                  <Lock className="h-3 w-3 mr-1" />
+                  Exam {savedPaper.exam ? EXAM_STATUS_LABELS[savedPaper.exam.status] : "Locked"}
+                </Badge>
+              )}
+            </div>
+            <div className="flex gap-2">
+              <BankExportMenu label="Export Questions" isExporting={isExporting} onExport={handleExport} />
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={handleDownload}
+                className="text-cyan-100 hover:bg-cyan-900/30 hover:text-white border-cyan-500/30"
+              >
+                <Download className="h-4 w-4 mr-2" />
+                Download PDF
+              </Button>
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={handleDownloadDocx}
+                disabled={isDownloadingDocx}
+                className="text-cyan-100 hover:bg-cyan-900/30 hover:text-white border-cyan-500/30"
+              >
+                {isDownloadingDocx ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <FileText className="h-4 w-4 mr-2" />}
+                Download Word
+              </Button>
+            </div>
+          </div>
+        </header>
+
+        <main className="max-w-7xl mx-auto py-6 sm:px-6 lg:px-8">
+          <div className="px-4 py-6 sm:px-0 space-y-6">
+            <Card className="bg-black/40 backdrop-blur-sm border-cyan-400/30 shadow-lg">
+              <CardContent className="pt-6">
+                <div className="grid grid-cols-2 md:grid-cols-5 gap-4">
+                  <div>
+                    <p className="text-sm text-cyan-200">Course</p>
+                    <p className="font-medium text-white">{savedPaper.course.name} ({savedPaper.course.code})</p>
+                  </div>
+                  <div>
+                    <p className="text-sm text-cyan-200">Exam</p>
+                    {savedPaper.exam?._id ? (
+                      <button
+                        onClick={() => navigate(`/exams/${savedPaper.exam!._id}`)}
+                        className="font-medium text-cyan-300 hover:text-white underline text-left"
+                      >
+                        {savedPaper.exam.title}
+                      </button>
+                    ) : (
+                      <p className="font-medium text-white">{savedPaper.examType} - Semester {savedPaper.semester}</p>
+                    )}
+                  </div>
+                  <div>
+                    <p className="text-sm text-cyan-200">Pattern</p>
+                    <p className="font-medium text-white">{pattern.name}</p>
+                  </div>
+                  <div>
+                    <p className="text-sm text-cyan-200">Marks / Questions</p>
+                    <p className="font-medium text-white">{savedPaper.totalMarks} / {savedPaper.questions.length}</p>
+                  </div>
+                  <div>
+                    <p className="text-sm text-cyan-200">Revision</p>
+                    <p className="font-medium text-white">{currentRevision} • {savedPaper.downloadCount} downloads</p>
+                  </div>
+                </div>
+              </CardContent>
+            </Card>
+
+            {paperSets && (
+              <div className="space-y-4">
+                <div className="flex flex-wrap items-center gap-2">
+                  <span className="text-sm text-cyan-200">Generated together with</span>
+                  {paperSets.papers.filter(set => set._id !== id).map(set => (
+                    <Button
+                      key={set._id}
+                      variant="outline"
+                      size="sm"
+                      onClick={() => navigate(`/question-papers/${set._id}`)}
+                      className="text-cyan-100 hover:bg-cyan-900/30 hover:text-white border-cyan-500/30"
+                    >
+                      Set {set.setLabel}
+                      <span className="ml-2 text-xs text-cyan-300">{PAPER_STATUS_LABELS[set.status]}</span>
+                    </Button>
+                  ))}
+                </div>
+                <SetEquivalenceReport equivalence={paperSets.equivalence} />
+              </div>
+            )}
+
+            <Card className="bg-black/40 backdrop-blur-sm border-cyan-400/30 shadow-lg">
+              <CardHeader>
+                <CardTitle className="text-white flex items-center justify-between">
+                  Questions
+                  {isEditable && (editedQuestions ? (
+                    <div className="flex gap-2">
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={() => setEditedQuestions(null)}
+                        disabled={isSavingEdits}
+                        className="text-cyan-100 hover:bg-cyan-900/30 hover:text-white border-cyan-500/30"
+                      >
+                        Cancel
+                      </Button>
+                      <Button size="sm" onClick={() => handleSaveEdits()} disabled={isSavingEdits} className="bg-cyan-600 hover:bg-cyan-500">
+                        {isSavingEdits ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Save className="h-4 w-4 mr-2" />}
+                        Save as Revision {currentRevision + 1}
+                      </Button>
+                      {canResubmit && (
+                        <Button size="sm" onClick={() => handleSaveEdits(true)} disabled={isSavingEdits} className="bg-cyan-600 hover:bg-cyan-500">
+                          Save and {TRANSITION_LABELS.SUBMITTED}
+                        </Button>
+                      )}
+                    </div>
+                  ) : (
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => setEditedQuestions(paper.questions)}
+                      className="text-cyan-100 hover:bg-cyan-900/30 hover:text-white border-cyan-500/30"
+                    >
+                      <PenLine className="h-4 w-4 mr-2" />
+                      Edit
+                    </Button>
+                  ))}
+                </CardTitle>
+              </CardHeader>
+              <CardContent className="space-y-6">
+                {canResubmit && !editedQuestions && (
+                  <Alert className="bg-orange-900/20 border-orange-500/30">
+                    <AlertDescription className="text-orange-100">
+                      Changes were requested on this paper. Edit it to address the review comments, then save it and submit it for review again.
+                    </AlertDescription>
+                  </Alert>
+                )}
+                {editedQuestions && isEditable ? (
+                  <PaperEditor pattern={pattern} questions={editedQuestions} onChange={setEditedQuestions} />
+                ) : getSectionGroups(pattern).map((group, groupIdx) => (
+                  <div key={groupIdx} className="space-y-4">
+                    {isAlternatives && (
+                      <h3 className="font-semibold text-white">
+                        {pattern.choiceRule.groupTitle || "Module"} {groupIdx + 1}
+                      </h3>
+                    )}
+                    {group.map((sectionIdx, position) => (
+                      <div key={sectionIdx}>
+                        <h4 className="text-cyan-100 font-medium mb-2">{pattern.sections[sectionIdx].title}</h4>
+                        <div className="space-y-3">
+                          {getSectionQuestions(paper.questions, sectionIdx + 1).map((question) => (
+                            <div key={question.questionId} className="p-3 rounded-md bg-black/20 border border-cyan-500/20">
+                              <p className="text-white">
+                                <span className="font-semibold mr-2">{getQuestionLabel(question)}.</span>
+                                {question.text}
+                              </p>
+                              {formatOptions(question.options).map((option, idx) => (
+                                <p
+                                  key={idx}
+                                  className={`text-sm ml-8 ${question.options?.[idx].isCorrect ? "text-green-300" : "text-cyan-100"}`}
+                                >
+                                  {option}
+                                </p>
+                              ))}
+                              <QuestionMeta question={question} />
+                              {!!commentCounts[question.questionId] && (
+                                <p className="text-xs text-orange-300 mt-2">
+                                  {commentCounts[question.questionId]} review comment{commentCounts[question.questionId] > 1 ? "s" : ""}
+                                </p>
+                              )}
+                            </div>
+                          ))}
+                        </div>
+                        {isAlternatives && position < group.length - 1 && (
+                          <p className="text-center font-semibold text-cyan-200 my-3">OR</p>
+                        )}
+                      </div>
+                    ))}
+                  </div>
+                ))}
+              </CardContent>
+            </Card>
+
+            <Card className="bg-black/40 backdrop-blur-sm border-cyan-400/30 shadow-lg">
+              <CardHeader>
+                <CardTitle className="text-white">CO-wise Marks</CardTitle>
+              </CardHeader>
+              <CardContent>
+                <CoMarksTable questions={paper.questions} outcomes={paper.outcomes} />
+              </CardContent>
+            </Card>
+
+            {id && <PaperAnalysisReport key={currentRevision} paperId={id} />}
+
+            <PaperReviewPanel paper={savedPaper} questions={paper.questions} onChange={setSavedPaper} />
+
+            {id && <AnswerKeyEditor key={currentRevision} paperId={id} paper={paper} readOnly={!savedPaper.isOwner || savedPaper.examLocked} />}
+
+            <Card className="bg-black/40 backdrop-blur-sm border-cyan-400/30 shadow-lg">
+              <CardHeader>
+                <CardTitle className="text-white flex items-center">
+                  <History className="h-5 w-5 mr-2 text-cyan-400" />
+                  Revision History
+                </CardTitle>
+              </CardHeader>
+              <CardContent className="space-y-4">
+                <div className="space-y-2">
+                  {revisions.map((revision) => (
+                    <div
+                      key={revision._id}
+                      className="flex items-center justify-between p-3 rounded-md bg-black/20 border border-cyan-500/20"
+                    >
+                      <div>
+                        <p className="text-white font-medium">
+                          Revision {revision.revision}
+                          {revision.revision === currentRevision && (
+                            <Badge className="ml-2 bg-cyan-600">Current</Badge>
+                          )}
+                        </p>
+                        <p className="text-xs text-cyan-200">
+                          {new Date(revision.createdAt).toLocaleString()} • {revision.totalQuestions} questions • {revision.totalMarks} marks
+                          {revision.note && ` • ${revision.note}`}
+                        </p>
+                      </div>
+                      {isEditable && revision.revision !== currentRevision && (
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          onClick={() => handleRestore(revision.revision)}
+                          disabled={restoringRevision !== null}
+                          className="text-cyan-100 hover:bg-cyan-900/30 hover:text-white border-cyan-500/30"
+                        >
+                          {restoringRevision === revision.revision
+                            ? <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                            : <RotateCcw className="h-4 w-4 mr-2" />}
+                          Restore
+                        </Button>
+                      )}
+                    </div>
+                  ))}
+                </div>
+
+                {revisions.length > 1 && (
+                  <div className="flex flex-wrap items-center gap-3">
+                    <span className="text-sm text-cyan-200">Compare</span>
+                    <Select value={compareLeft} onValueChange={setCompareLeft}>
+                      <SelectTrigger className="w-40 border-cyan-500/30 bg-black/50 text-white">
+                        <SelectValue placeholder="Revision" />
+                      </SelectTrigger>
+                      <SelectContent className="bg-slate-800 text-white border-slate-700">
+                        {revisions.map((revision) => (
+                          <SelectItem key={revision._id} value={String(revision.revision)}>
+                            Revision {revision.revision}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <span className="text-sm text-cyan-200">with</span>
+                    <Select value={compareRight} onValueChange={setCompareRight}>
+                      <SelectTrigger className="w-40 border-cyan-500/30 bg-black/50 text-white">
+                        <SelectValue placeholder="Revision" />
+                      </SelectTrigger>
+                      <SelectContent className="bg-slate-800 text-white border-slate-700">
+                        {revisions.map((revision) => (
+                          <SelectItem key={revision._id} value={String(revision.revision)}>
+                            Revision {revision.revision}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <Button
+                      size="sm"
+                      onClick={handleCompare}
+                      disabled={isComparing || !compareLeft || !compareRight || compareLeft === compareRight}
+                      className="bg-cyan-600 hover:bg-cyan-500"
+                    >
+                      {isComparing ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <GitCompare className="h-4 w-4 mr-2" />}
+                      Compare
+                    </Button>
+                  </div>
+                )}
+
+                {diff && (
+                  <div className="space-y-2">
+                    <div className="grid grid-cols-2 gap-3 text-sm font-semibold text-cyan-100">
+                      <p>Revision {diff.left.revision}</p>
+                      <p>Revision {diff.right.revision}</p>
+                    </div>
+                    {diff.rows.map((row) => (
+                      <div key={row.questionId} className="grid grid-cols-2 gap-3">
+                        {[row.left, row.right].map((question, side) => (
+                          <div key={side} className={`p-3 rounded-md border text-sm ${CHANGE_STYLES[row.change]}`}>
+                            {question ? (
+                              <>
+                                <p className="text-white">
+                                  <span className="font-semibold mr-2">{getQuestionLabel(question)}.</span>
+                                  {question.text}
+                                </p>
+                                <p className="text-xs text-cyan-200 mt-1">
+                                  {question.marks} marks • {question.difficulty} • {question.bloomLevel}
+                                  {row.change === 'changed' && ` • changed: ${row.fields.join(", ")}`}
+                                </p>
+                              </>
+                            ) : (
+                              <p className="text-cyan-200/60 italic">
+                                {row.change === 'added' ? "Not in this revision" : "Removed"}
+                              </p>
+                            )}
+                          </div>
+                        ))}
+                      </div>
+                    ))}
+                  </div>
+                )}
+              </CardContent>
+            </Card>
+          </div>
+        </main>
+      </div>
+    </NetworkGridBackground>
+  );
+};
+
+export default QuestionPaperDetail;
@@ -0,0 +1,143 @@
+// src/pages/ReviewQueue.tsx - Papers of all educators waiting for a reviewer's decision
+import { useEffect, useState } from "react";
+import { useNavigate } from "react-router-dom";
+import axios from "axios";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useToast } from "@/components/ui/use-toast";
+import { ArrowLeft, ClipboardCheck, Eye, Loader2 } from "lucide-react";
+import NetworkGridBackground from "@/components/NetworkGridBackground";
+import { questionPaperAPI } from "@/lib/api";
+import { PAPER_STATUS_LABELS, PAPER_STATUS_STYLES, PaperStatus } from "@/lib/paperReview";
+
+interface QueuedPaper {
+  _id: string;
+  title: string;
+  examType: string;
+  semester: string;
+  course: { _id: string; name: string; code: string };
+  educator: { _id: string; name: string; email: string; department: string };
+  status: PaperStatus;
+  revision?: number;
+  totalMarks: number;
+  totalQuestions: number;
+  updatedAt: string;
+}
+
+const QUEUE_STATUSES: PaperStatus[] = ['SUBMITTED', 'CHANGES_REQUESTED', 'APPROVED', 'LOCKED'];
+
+const ReviewQueue = () => {
+  const navigate = useNavigate();
+  const { toast } = useToast();
+  const [status, setStatus] = useState<PaperStatus>('SUBMITTED');
+  const [papers, setPapers] = useState<QueuedPaper[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+
+  useEffect(() => {
+    const loadQueue = async () => {
+      setIsLoading(true);
+      try {
+        const response = await questionPaperAPI.getReviewQueue(status);
+        setPapers(response.data);
+      } catch (error) {
+        const data = axios.isAxiosError(error) ? error.response?.data : undefined;
+        toast({
+          title: "Error",
+          description: data?.message || "Failed to load the review queue.",
+          variant: "destructive",
+        });
+        setPapers([]);
+      } finally {
+        setIsLoading(false);
+      }
+    };
+
+    loadQueue();
+  }, [status, toast]);
+
+  return (
+    <NetworkGridBackground>
+      <div className="min-h-screen">
+        <header className="bg-black/40 backdrop-blur-sm border-b border-cyan-500/20 shadow-sm">
+          <div className="max-w-7xl mx-auto py-4 px-4 sm:px-6 lg:px-8 flex items-center justify-between">
+            <div className="flex items-center">
+              <Button variant="ghost" size="sm" onClick={() => navigate("/dashboard")} className="mr-4 text-cyan-100 hover:bg-cyan-900/30 hover:text-white">
+                <ArrowLeft className="h-4 w-4 mr-2" />
+                Back
+              </Button>
+              <h1 className="text-2xl font-bold text-white">Review Queue</h1>
+            </div>
+            <Select value={status} onValueChange={(value) => setStatus(value as PaperStatus)}>
+              <SelectTrigger className="w-56 border-cyan-500/30 bg-black/50 text-white">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent className="bg-slate-800 text-white border-slate-700">
+                {QUEUE_STATUSES.map((option) => (
+                  <SelectItem key={option} value={option}>{PAPER_STATUS_LABELS[option]}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        </header>
+
+        <main className="max-w-7xl mx-auto py-6 sm:px-6 lg:px-8">
+          <div className="px-4 py-6 sm:px-0">
+            <Card className="bg-black/40 backdrop-blur-sm border-cyan-400/30 shadow-lg">
+              <CardHeader>
+                <CardTitle className="text-white flex items-center">
+                  <ClipboardCheck className="h-5 w-5 mr-2 text-cyan-400" />
+                  {PAPER_STATUS_LABELS[status]} ({papers.length})
+                </CardTitle>
+              </CardHeader>
+              <CardContent>
+                {isLoading ? (
+                  <div className="flex justify-center py-8">
+                    <Loader2 className="h-6 w-6 animate-spin text-cyan-400" />
+                  </div>
+                ) : papers.length === 0 ? (
+                  <p className="text-center text-cyan-200 py-8">No papers in this state</p>
+                ) : (
+                  <div className="space-y-3">
+                    {papers.map((paper) => (
+                      <div
+                        key={paper._id}
+                        className="flex items-center justify-between p-4 rounded-md bg-black/20 border border-cyan-500/20"
+                      >
+                        <div>
+                          <p className="text-white font-medium">
+                            {paper.title}
+                            <Badge className={`ml-2 ${PAPER_STATUS_STYLES[paper.status]}`}>
+                              {PAPER_STATUS_LABELS[paper.status]}
+                            </Badge>
+                          </p>
+                          <p className="text-sm text-cyan-200">
+                            {paper.course.name} ({paper.course.code}) • {paper.educator?.name || "Unknown"}, {paper.educator?.department}
+                          </p>
+                          <p className="text-xs text-cyan-200/80">
+                            Revision {paper.revision ?? 1} • {paper.totalQuestions} questions • {paper.totalMarks} marks • updated {new Date(paper.updatedAt).toLocaleString()}
+                          </p>
+                        </div>
+                        <Button
+                          size="sm"
+                          onClick={() => navigate(`/question-papers/${paper._id}`)}
+                          className="bg-cyan-600 hover:bg-cyan-500"
+                        >
+                          <Eye className="h-4 w-4 mr-2" />
+                          Review
+                        </Button>
+                      </div>
+                    ))}
+                  </div>
+                )}
+              </CardContent>
+            </Card>
+          </div>
+        </main>
+      </div>
+    </NetworkGridBackground>
+  );
+};
+
+export default ReviewQueue;